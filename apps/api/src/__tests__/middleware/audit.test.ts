@@ -0,0 +1,131 @@
+/**
+ * Audit Middleware Unit Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { prisma } from '@shelter-link/database';
+import {
+  auditMiddleware,
+  auditResponseHook,
+  diffRecords,
+  setAuditContext,
+} from '@/middleware/audit';
+
+describe('Audit Middleware', () => {
+  describe('diffRecords', () => {
+    it('should list only changed fields', () => {
+      const changes = diffRecords(
+        { name: 'Max', status: 'AVAILABLE', weightKg: 20 },
+        { name: 'Max', status: 'PENDING', weightKg: 21 }
+      );
+
+      expect(changes).toEqual({
+        status: { old: 'AVAILABLE', new: 'PENDING' },
+        weightKg: { old: 20, new: 21 },
+      });
+    });
+
+    it('should treat a missing before as a creation', () => {
+      expect(diffRecords(null, { name: 'Luna' })).toEqual({
+        name: { old: null, new: 'Luna' },
+      });
+    });
+
+    it('should compare dates by value', () => {
+      const changes = diffRecords(
+        { intakeDate: new Date('2024-01-01T00:00:00Z') },
+        { intakeDate: new Date('2024-01-01T00:00:00Z') }
+      );
+      expect(changes).toEqual({});
+    });
+
+    it('should ignore timestamps, secrets and nested relations', () => {
+      const changes = diffRecords(
+        { updatedAt: new Date(1), passwordHash: 'a', animal: { id: '1' } },
+        { updatedAt: new Date(2), passwordHash: 'b', animal: { id: '2' } }
+      );
+      expect(changes).toEqual({});
+    });
+  });
+
+  describe('request hooks', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+      app = Fastify({ logger: false });
+      app.addHook('onRequest', auditMiddleware);
+      app.addHook('onResponse', auditResponseHook);
+
+      app.addHook('preHandler', async (request) => {
+        request.user = {
+          id: 'user-001',
+          email: 'staff@example.com',
+          name: 'Staff',
+          globalRole: 'PUBLIC',
+          organizationId: 'org-001',
+          organizationRole: 'ADMIN',
+        };
+      });
+
+      app.patch('/api/animals/:id', async (request) => {
+        const { id } = request.params as { id: string };
+        setAuditContext(request, {
+          resourceType: 'animals',
+          resourceId: id,
+          before: { status: 'AVAILABLE' },
+          after: { status: 'PENDING' },
+        });
+        return { success: true };
+      });
+
+      app.post('/api/transfers', async () => ({ success: true }));
+      app.post('/api/fail', async (_request, reply) => reply.status(400).send({ success: false }));
+      app.get('/api/animals', async () => ({ success: true }));
+
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it('should record the diff set by the route', async () => {
+      await app.inject({ method: 'PATCH', url: '/api/animals/animal-001' });
+
+      expect(prisma.auditLog.create).toHaveBeenCalledTimes(1);
+      const { data } = (prisma.auditLog.create as any).mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId: 'user-001',
+        organizationId: 'org-001',
+        action: 'UPDATE',
+        resourceType: 'animals',
+        resourceId: 'animal-001',
+      });
+      expect(JSON.parse(data.changes)).toEqual([
+        { field: 'status', oldValue: 'AVAILABLE', newValue: 'PENDING' },
+      ]);
+      expect(JSON.parse(data.metadata)).toMatchObject({ method: 'PATCH', statusCode: 200 });
+    });
+
+    it('should fall back to the URL for routes without context', async () => {
+      await app.inject({ method: 'POST', url: '/api/transfers?direction=outgoing' });
+
+      const { data } = (prisma.auditLog.create as any).mock.calls[0][0];
+      expect(data.action).toBe('CREATE');
+      expect(data.resourceType).toBe('transfers');
+      expect(data.resourceId).toBeUndefined();
+      expect(data.changes).toBeUndefined();
+    });
+
+    it('should skip failed requests', async () => {
+      await app.inject({ method: 'POST', url: '/api/fail' });
+      expect(prisma.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip reads', async () => {
+      await app.inject({ method: 'GET', url: '/api/animals' });
+      expect(prisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
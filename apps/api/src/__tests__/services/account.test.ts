@@ -0,0 +1,128 @@
+/**
+ * Account Service Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@shelter-link/database';
+import {
+  UserTokenType,
+  consumeUserToken,
+  issueUserToken,
+  requestPasswordReset,
+  resetPassword,
+} from '@/services/account';
+import { setMailTransport, type MailTransport } from '@/services/mail';
+import { hashToken } from '@/services/sessions';
+import { ValidationError } from '@/lib/errors';
+
+const mockUserToken = prisma.userToken as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockUser = prisma.user as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockSession = prisma.session as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const tokenRecord = (overrides = {}) => ({
+  id: 'token-001',
+  userId: 'user-001',
+  type: UserTokenType.PASSWORD_RESET,
+  tokenHash: hashToken('reset-token'),
+  expiresAt: new Date(Date.now() + 60_000),
+  usedAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('Account Service', () => {
+  const sent: Parameters<MailTransport['send']>[0][] = [];
+
+  beforeEach(() => {
+    sent.length = 0;
+    setMailTransport({ name: 'test', send: async (message) => { sent.push(message); } });
+  });
+
+  afterEach(() => {
+    setMailTransport(undefined);
+  });
+
+  describe('issueUserToken', () => {
+    it('should store only the hash and discard earlier unused tokens', async () => {
+      const token = await issueUserToken('user-001', UserTokenType.PASSWORD_RESET);
+
+      expect(mockUserToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-001', type: 'PASSWORD_RESET', usedAt: null },
+      });
+      const { data } = mockUserToken.create.mock.calls[0][0];
+      expect(data.tokenHash).toBe(hashToken(token));
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('consumeUserToken', () => {
+    it('should return the user and mark the token used', async () => {
+      mockUserToken.findUnique.mockResolvedValue(tokenRecord());
+      mockUserToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(consumeUserToken('reset-token', UserTokenType.PASSWORD_RESET)).resolves.toBe('user-001');
+      expect(mockUserToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-001', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject used, expired and mismatched tokens', async () => {
+      mockUserToken.findUnique.mockResolvedValueOnce(tokenRecord({ usedAt: new Date() }));
+      await expect(consumeUserToken('reset-token', UserTokenType.PASSWORD_RESET)).rejects.toThrow(ValidationError);
+
+      mockUserToken.findUnique.mockResolvedValueOnce(tokenRecord({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(consumeUserToken('reset-token', UserTokenType.PASSWORD_RESET)).rejects.toThrow(ValidationError);
+
+      mockUserToken.findUnique.mockResolvedValueOnce(tokenRecord());
+      await expect(consumeUserToken('reset-token', UserTokenType.EMAIL_VERIFICATION)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a token claimed by a concurrent request', async () => {
+      mockUserToken.findUnique.mockResolvedValue(tokenRecord());
+      mockUserToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(consumeUserToken('reset-token', UserTokenType.PASSWORD_RESET)).rejects.toThrow('Invalid or expired token');
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link without exposing the stored hash', async () => {
+      mockUser.findUnique.mockResolvedValue({ id: 'user-001', email: 'staff@example.com', name: 'Staff', status: 'ACTIVE' });
+
+      await requestPasswordReset('Staff@Example.com');
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('staff@example.com');
+      const token = /token=([^\s]+)/.exec(sent[0].text)![1];
+      expect(mockUserToken.create.mock.calls[0][0].data.tokenHash).toBe(hashToken(decodeURIComponent(token)));
+    });
+
+    it('should quietly do nothing for unknown accounts', async () => {
+      mockUser.findUnique.mockResolvedValue(null);
+
+      await expect(requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(sent).toHaveLength(0);
+      expect(mockUserToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should store the new password hash and revoke all sessions', async () => {
+      mockUserToken.findUnique.mockResolvedValue(tokenRecord());
+      mockUserToken.updateMany.mockResolvedValue({ count: 1 });
+      mockUser.findUnique.mockResolvedValue({ emailVerifiedAt: null });
+      mockSession.updateMany.mockResolvedValue({ count: 2 });
+
+      await resetPassword('reset-token', 'a brand new password');
+
+      const { data } = mockUser.update.mock.calls[0][0];
+      expect(await bcrypt.compare('a brand new password', data.passwordHash)).toBe(true);
+      expect(data.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(mockSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-001', revokedAt: null },
+      }));
+    });
+  });
+});
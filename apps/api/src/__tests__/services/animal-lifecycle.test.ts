@@ -0,0 +1,138 @@
+/**
+ * Animal Lifecycle Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnimalStatus,
+  IN_CARE_STATUSES,
+  OUTCOME_STATUSES,
+  assertStatusTransition,
+  canTransition,
+  normalizeAnimalStatus,
+  statusForOutcome,
+} from '@/services/animal-lifecycle';
+import { InvalidStateError, ValidationError } from '@/lib/errors';
+
+describe('Animal Lifecycle', () => {
+  describe('canTransition', () => {
+    it('should allow moves between in-care statuses', () => {
+      expect(canTransition('IN_SHELTER', 'AVAILABLE')).toBe(true);
+      expect(canTransition('AVAILABLE', 'IN_FOSTER')).toBe(true);
+      expect(canTransition('IN_MEDICAL', 'AVAILABLE')).toBe(true);
+    });
+
+    it('should allow outcomes from in-care statuses', () => {
+      expect(canTransition('AVAILABLE', 'ADOPTED')).toBe(true);
+      expect(canTransition('PENDING', 'ADOPTED')).toBe(true);
+      expect(canTransition('TRANSFER_PENDING', 'TRANSFERRED')).toBe(true);
+    });
+
+    it('should treat unchanged status as allowed', () => {
+      expect(canTransition('ADOPTED', 'ADOPTED')).toBe(true);
+    });
+
+    it('should reject ADOPTED -> AVAILABLE', () => {
+      expect(canTransition('ADOPTED', 'AVAILABLE')).toBe(false);
+      expect(canTransition('ADOPTED', 'IN_SHELTER')).toBe(false);
+    });
+
+    it('should allow ADOPTED -> IN_SHELTER with a RETURN intake only', () => {
+      expect(canTransition('ADOPTED', 'IN_SHELTER', { intakeType: 'RETURN' })).toBe(true);
+      expect(canTransition('ADOPTED', 'IN_SHELTER', { intakeType: 'STRAY' })).toBe(false);
+      expect(canTransition('ADOPTED', 'AVAILABLE', { intakeType: 'RETURN' })).toBe(false);
+    });
+
+    it('should allow TRANSFERRED animals back only via TRANSFER_IN', () => {
+      expect(canTransition('TRANSFERRED', 'IN_SHELTER', { intakeType: 'TRANSFER_IN' })).toBe(true);
+      expect(canTransition('TRANSFERRED', 'IN_SHELTER', { intakeType: 'RETURN' })).toBe(false);
+    });
+
+    it('should never leave a final status', () => {
+      for (const to of IN_CARE_STATUSES) {
+        expect(canTransition('EUTHANIZED', to, { intakeType: 'RETURN' })).toBe(false);
+        expect(canTransition('DECEASED', to, { intakeType: 'RETURN' })).toBe(false);
+      }
+    });
+
+    it('should not allow adopting an animal with a pending transfer', () => {
+      expect(canTransition('TRANSFER_PENDING', 'ADOPTED')).toBe(false);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(canTransition('AVAILABLE', 'LOST_IN_SPACE')).toBe(false);
+      expect(canTransition('LOST_IN_SPACE', 'AVAILABLE')).toBe(false);
+    });
+
+    it('should accept legacy statuses as the source', () => {
+      expect(canTransition('MEDICAL_HOLD', 'AVAILABLE')).toBe(true);
+      expect(canTransition('BEHAVIORAL_HOLD', 'AVAILABLE')).toBe(true);
+    });
+  });
+
+  describe('assertStatusTransition', () => {
+    it('should return the new status when allowed', () => {
+      expect(assertStatusTransition('AVAILABLE', 'PENDING')).toBe(AnimalStatus.PENDING);
+    });
+
+    it('should throw InvalidStateError for illegal transitions', () => {
+      expect(() => assertStatusTransition('ADOPTED', 'AVAILABLE')).toThrow(InvalidStateError);
+    });
+
+    it('should mention the required intake type', () => {
+      try {
+        assertStatusTransition('ADOPTED', 'AVAILABLE');
+        expect.fail('Expected InvalidStateError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidStateError);
+        const apiError = error as InvalidStateError;
+        expect(apiError.statusCode).toBe(409);
+        expect(apiError.code).toBe('INVALID_STATE');
+        expect(apiError.message).toContain('RETURN');
+        expect(apiError.details?.requiredIntakeTypes).toEqual(['RETURN']);
+      }
+    });
+
+    it('should throw ValidationError for unknown target statuses', () => {
+      expect(() => assertStatusTransition('AVAILABLE', 'MEDICAL_HOLD')).toThrow(ValidationError);
+    });
+  });
+
+  describe('statusForOutcome', () => {
+    it('should map outcome types to statuses', () => {
+      expect(statusForOutcome('ADOPTION')).toBe('ADOPTED');
+      expect(statusForOutcome('TRANSFER_OUT')).toBe('TRANSFERRED');
+      expect(statusForOutcome('RETURN_TO_OWNER')).toBe('RECLAIMED');
+      expect(statusForOutcome('EUTHANASIA')).toBe('EUTHANIZED');
+      expect(statusForOutcome('DIED_IN_CARE')).toBe('DECEASED');
+      expect(statusForOutcome('FOSTER')).toBe('IN_FOSTER');
+    });
+
+    it('should only produce known statuses', () => {
+      for (const outcome of ['ADOPTION', 'TRANSFER_OUT', 'RETURN_TO_OWNER', 'EUTHANASIA', 'DIED_IN_CARE']) {
+        expect(OUTCOME_STATUSES).toContain(statusForOutcome(outcome));
+      }
+    });
+
+    it('should throw for unknown outcome types', () => {
+      expect(() => statusForOutcome('ABDUCTED')).toThrow(ValidationError);
+    });
+  });
+
+  describe('normalizeAnimalStatus', () => {
+    it('should map legacy names', () => {
+      expect(normalizeAnimalStatus('MEDICAL_HOLD')).toBe('IN_MEDICAL');
+      expect(normalizeAnimalStatus('BEHAVIORAL_HOLD')).toBe('HOLD');
+    });
+
+    it('should be case-insensitive', () => {
+      expect(normalizeAnimalStatus('available')).toBe('AVAILABLE');
+    });
+
+    it('should return null for unknown or empty values', () => {
+      expect(normalizeAnimalStatus('whatever')).toBeNull();
+      expect(normalizeAnimalStatus('')).toBeNull();
+      expect(normalizeAnimalStatus(undefined)).toBeNull();
+    });
+  });
+});
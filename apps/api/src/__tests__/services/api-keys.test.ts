@@ -0,0 +1,120 @@
+/**
+ * API Key Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { FastifyRequest } from 'fastify';
+import { prisma } from '@shelter-link/database';
+import { authenticateApiKey, createApiKey, revokeApiKey } from '@/services/api-keys';
+import { hashToken } from '@/services/sessions';
+import { API_KEY_PERMISSIONS, userHasPermission } from '@/middleware/auth';
+import { UnauthorizedError } from '@/lib/errors';
+
+const mockApiKey = prisma.apiKey as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const storedKey = (overrides = {}) => ({
+  id: 'key-001',
+  organizationId: 'org-001',
+  name: 'Petfinder sync',
+  keyHash: hashToken('slk_secret'),
+  keyPrefix: 'slk_secret',
+  permissions: JSON.stringify(['animal:read']),
+  lastUsedAt: null,
+  expiresAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  organization: { status: 'ACTIVE' },
+  ...overrides,
+});
+
+describe('API Key Service', () => {
+  describe('createApiKey', () => {
+    it('should store only the hash and a display prefix', async () => {
+      mockApiKey.create.mockImplementation(async ({ data }) => ({ id: 'key-001', ...data }));
+
+      const { apiKey, key } = await createApiKey({
+        organizationId: 'org-001',
+        name: 'Petfinder sync',
+        permissions: ['animal:read'],
+        createdBy: { id: 'user-001', name: 'Admin' },
+      });
+
+      expect(key.startsWith('slk_')).toBe(true);
+      expect(apiKey.keyHash).toBe(hashToken(key));
+      expect(apiKey.keyPrefix).toBe(key.slice(0, 12));
+      expect(JSON.stringify(apiKey)).not.toContain(key);
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should resolve to a synthetic user with the key permissions', async () => {
+      mockApiKey.findUnique.mockResolvedValue(storedKey());
+
+      const user = await authenticateApiKey('slk_secret');
+
+      expect(user).toMatchObject({
+        id: 'apikey:key-001',
+        organizationId: 'org-001',
+        apiKeyId: 'key-001',
+        permissions: ['animal:read'],
+      });
+      expect(user.organizationRole).toBeUndefined();
+      expect(mockApiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-001' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not record use again within a minute', async () => {
+      mockApiKey.findUnique.mockResolvedValue(storedKey({ lastUsedAt: new Date() }));
+
+      await authenticateApiKey('slk_secret');
+      expect(mockApiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked and expired keys', async () => {
+      mockApiKey.findUnique.mockResolvedValueOnce(null);
+      await expect(authenticateApiKey('slk_unknown')).rejects.toThrow(UnauthorizedError);
+
+      mockApiKey.findUnique.mockResolvedValueOnce(storedKey({ revokedAt: new Date() }));
+      await expect(authenticateApiKey('slk_secret')).rejects.toThrow(UnauthorizedError);
+
+      mockApiKey.findUnique.mockResolvedValueOnce(storedKey({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(authenticateApiKey('slk_secret')).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should not look up keys without the prefix', async () => {
+      await expect(authenticateApiKey('eyJhbGciOi')).rejects.toThrow(UnauthorizedError);
+      expect(mockApiKey.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should only revoke keys of the organization', async () => {
+      mockApiKey.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(revokeApiKey('org-002', 'key-001')).resolves.toBe(false);
+      expect(mockApiKey.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'key-001', organizationId: 'org-002', revokedAt: null },
+      }));
+    });
+  });
+
+  describe('permissions', () => {
+    it('should grant exactly the key permissions', () => {
+      const request = {
+        user: { id: 'apikey:key-001', apiKeyId: 'key-001', globalRole: 'API_KEY', permissions: ['animal:read'] },
+      } as unknown as FastifyRequest;
+
+      expect(userHasPermission(request, 'animal:read')).toBe(true);
+      expect(userHasPermission(request, 'animal:write')).toBe(false);
+    });
+
+    it('should never allow keys to manage people or keys', () => {
+      expect(API_KEY_PERMISSIONS).toContain('animal:write');
+      expect(API_KEY_PERMISSIONS).not.toContain('org:users');
+      expect(API_KEY_PERMISSIONS).not.toContain('org:api-keys');
+      expect(API_KEY_PERMISSIONS).not.toContain('join:write');
+    });
+  });
+});
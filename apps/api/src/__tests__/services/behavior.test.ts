@@ -0,0 +1,128 @@
+/**
+ * Behavior Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import {
+  PUBLIC_PLACEMENT_FILTER,
+  assertAdoptable,
+  canTransferTo,
+  formatAssessment,
+  isHiddenFromPublic,
+  placementRestrictionFor,
+  suggestCompatibility,
+  syncPlacementRestriction,
+} from '@/services/behavior';
+import { InvalidStateError } from '@/lib/errors';
+
+const mockAssessment = prisma.behavioralAssessment as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const assessment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'assessment-001',
+  animalId: 'animal-001',
+  organizationId: 'org-001',
+  assessmentType: 'PLAYGROUP',
+  date: new Date('2026-03-02T09:00:00Z'),
+  location: 'Yard 2',
+  durationMinutes: 30,
+  overallScore: 55,
+  result: 'RESCUE_ONLY',
+  behaviors: '["barrier reactive"]',
+  triggers: '["small dogs"]',
+  recommendations: '[]',
+  trainingNeeds: '["leash manners"]',
+  resourceGuarding: true,
+  dogReactivity: 'SEVERE',
+  catReactivity: null,
+  humanReactivity: 'NONE',
+  handlingTolerance: 'GOOD',
+  assessorId: 'user-003',
+  assessor: 'Staff',
+  notes: null,
+  createdAt: new Date('2026-03-02T09:00:00Z'),
+  updatedAt: new Date('2026-03-02T09:00:00Z'),
+  ...overrides,
+});
+
+describe('Behavior Service', () => {
+  describe('placement', () => {
+    it('should restrict placement only for restrictive results', () => {
+      expect(placementRestrictionFor('RESCUE_ONLY')).toBe('RESCUE_ONLY');
+      expect(placementRestrictionFor('RESTRICTED')).toBe('RESTRICTED');
+      expect(placementRestrictionFor('NOT_ADOPTABLE')).toBe('NOT_ADOPTABLE');
+      expect(placementRestrictionFor('GOOD')).toBeNull();
+      expect(placementRestrictionFor('NEEDS_TRAINING')).toBeNull();
+    });
+
+    it('should hide rescue-only and not-adoptable animals from the public, not restricted ones', () => {
+      expect(isHiddenFromPublic('RESCUE_ONLY')).toBe(true);
+      expect(isHiddenFromPublic('NOT_ADOPTABLE')).toBe(true);
+      expect(isHiddenFromPublic('RESTRICTED')).toBe(false);
+      expect(isHiddenFromPublic(null)).toBe(false);
+      // Unrestricted animals have a null column, which NOT IN alone would drop
+      expect(PUBLIC_PLACEMENT_FILTER.OR).toContainEqual({ placementRestriction: null });
+    });
+
+    it('should refuse adoption of rescue-only animals', () => {
+      expect(() => assertAdoptable('RESCUE_ONLY')).toThrow(InvalidStateError);
+      expect(() => assertAdoptable('NOT_ADOPTABLE')).toThrow('not adoptable');
+      expect(() => assertAdoptable('RESTRICTED')).not.toThrow();
+      expect(() => assertAdoptable(null)).not.toThrow();
+    });
+
+    it('should only allow transfers of restricted animals to rescue partners', () => {
+      expect(canTransferTo('RESCUE_ONLY', 'RESCUE')).toBe(true);
+      expect(canTransferTo('RESCUE_ONLY', 'SANCTUARY')).toBe(true);
+      expect(canTransferTo('RESCUE_ONLY', 'MUNICIPAL_SHELTER')).toBe(false);
+      expect(canTransferTo('NOT_ADOPTABLE', 'RESCUE')).toBe(false);
+      expect(canTransferTo('NOT_ADOPTABLE', 'SANCTUARY')).toBe(true);
+      expect(canTransferTo(null, 'MUNICIPAL_SHELTER')).toBe(true);
+    });
+
+    it('should copy the latest result to the animal, clearing it when no longer restrictive', async () => {
+      mockAssessment.findFirst.mockResolvedValueOnce({ result: 'RESCUE_ONLY' });
+      mockAnimal.update.mockResolvedValue({});
+
+      expect(await syncPlacementRestriction('animal-001')).toBe('RESCUE_ONLY');
+      expect(mockAssessment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { animalId: 'animal-001' },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      }));
+      expect(mockAnimal.update).toHaveBeenLastCalledWith({
+        where: { id: 'animal-001' },
+        data: { placementRestriction: 'RESCUE_ONLY' },
+      });
+
+      mockAssessment.findFirst.mockResolvedValueOnce({ result: 'GOOD' });
+      expect(await syncPlacementRestriction('animal-001')).toBeNull();
+
+      mockAssessment.findFirst.mockResolvedValueOnce(null);
+      expect(await syncPlacementRestriction('animal-001')).toBeNull();
+      expect(mockAnimal.update).toHaveBeenLastCalledWith({
+        where: { id: 'animal-001' },
+        data: { placementRestriction: null },
+      });
+    });
+  });
+
+  describe('compatibility', () => {
+    it('should suggest from reactivity, leaving mild and unassessed levels open', () => {
+      expect(suggestCompatibility({ dogReactivity: 'NONE', catReactivity: 'MODERATE' }))
+        .toEqual({ goodWithDogs: true, goodWithCats: false });
+      expect(suggestCompatibility({ dogReactivity: 'MILD', catReactivity: null }))
+        .toEqual({ goodWithDogs: null, goodWithCats: null });
+    });
+
+    it('should return the suggestions with the formatted assessment', () => {
+      expect(formatAssessment(assessment() as any)).toMatchObject({
+        result: 'RESCUE_ONLY',
+        triggers: ['small dogs'],
+        trainingNeeds: ['leash manners'],
+        date: '2026-03-02T09:00:00.000Z',
+        suggestions: { goodWithDogs: false, goodWithCats: null },
+      });
+    });
+  });
+});
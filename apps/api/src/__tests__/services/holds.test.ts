@@ -0,0 +1,109 @@
+/**
+ * Hold Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import {
+  assertHoldDates,
+  assertNoBlockingHold,
+  getExpiringHolds,
+  holdBlocksOutcome,
+  isHoldActive,
+} from '@/services/holds';
+import { InvalidStateError, ValidationError } from '@/lib/errors';
+
+const mockHold = prisma.animalHold as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-03-02T09:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * HOUR);
+
+const animal = { id: 'animal-001', name: 'Max', species: 'DOG', kennelNumber: 'A12' };
+
+const hold = (overrides: Record<string, unknown> = {}) => ({
+  id: 'hold-001',
+  animalId: 'animal-001',
+  organizationId: 'org-001',
+  holdType: 'STRAY_HOLD',
+  reason: 'Found on Main St, no chip',
+  caseNumber: 'AC-2026-0142',
+  startDate: hoursFromNow(-72),
+  endDate: hoursFromNow(30),
+  releasedAt: null,
+  releasedBy: null,
+  releaseNotes: null,
+  placedById: 'user-002',
+  placedBy: 'Staff User',
+  createdAt: hoursFromNow(-72),
+  updatedAt: hoursFromNow(-72),
+  ...overrides,
+});
+
+describe('Hold Service', () => {
+  it('should treat a hold as active from its start until it ends or is released', () => {
+    expect(isHoldActive(hold(), now)).toBe(true);
+    expect(isHoldActive(hold({ endDate: null }), now)).toBe(true);
+    expect(isHoldActive(hold({ startDate: hoursFromNow(1) }), now)).toBe(false);
+    expect(isHoldActive(hold({ endDate: hoursFromNow(-1) }), now)).toBe(false);
+    expect(isHoldActive(hold({ releasedAt: hoursFromNow(-1) }), now)).toBe(false);
+  });
+
+  it('should block outcomes by hold type', () => {
+    expect(holdBlocksOutcome('STRAY_HOLD', 'ADOPTION')).toBe(true);
+    expect(holdBlocksOutcome('STRAY_HOLD', 'TRANSFER_OUT')).toBe(true);
+    expect(holdBlocksOutcome('STRAY_HOLD', 'RETURN_TO_OWNER')).toBe(false);
+    expect(holdBlocksOutcome('BITE_QUARANTINE', 'EUTHANASIA')).toBe(true);
+    expect(holdBlocksOutcome('LEGAL_HOLD', 'DIED_IN_CARE')).toBe(false);
+    expect(holdBlocksOutcome('RESCUE_HOLD', 'ADOPTION')).toBe(true);
+    expect(holdBlocksOutcome('RESCUE_HOLD', 'TRANSFER_OUT')).toBe(false);
+    expect(holdBlocksOutcome('MEDICAL_HOLD', 'ADOPTION')).toBe(false);
+  });
+
+  it('should refuse an outcome an active hold blocks', async () => {
+    mockHold.findMany.mockResolvedValue([hold(), hold({ id: 'hold-002', holdType: 'MEDICAL_HOLD' })]);
+
+    const error = await assertNoBlockingHold('animal-001', 'ADOPTION', now).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidStateError);
+    expect(error.message).toBe('Animal is on hold: STRAY_HOLD until 2026-03-03');
+    expect(error.details.holds).toEqual([
+      { id: 'hold-001', holdType: 'STRAY_HOLD', endDate: hoursFromNow(30).toISOString() },
+    ]);
+    await expect(assertNoBlockingHold('animal-001', 'RETURN_TO_OWNER', now)).resolves.toBeUndefined();
+  });
+
+  it('should need an end date for timed holds, after the start', () => {
+    expect(() => assertHoldDates({ holdType: 'STRAY_HOLD', startDate: now, endDate: null }))
+      .toThrow(ValidationError);
+    expect(() => assertHoldDates({ holdType: 'LEGAL_HOLD', startDate: now, endDate: hoursFromNow(-1) }))
+      .toThrow('End date must be after the start date');
+    expect(() => assertHoldDates({ holdType: 'LEGAL_HOLD', startDate: now, endDate: null })).not.toThrow();
+  });
+
+  it('should list holds ending within the window with the hours left', async () => {
+    mockHold.findMany.mockResolvedValue([{ ...hold(), animal }]);
+
+    const holds = await getExpiringHolds('org-001', 48, now);
+
+    expect(holds).toEqual([
+      expect.objectContaining({
+        id: 'hold-001',
+        holdType: 'STRAY_HOLD',
+        endDate: hoursFromNow(30).toISOString(),
+        isActive: true,
+        isBlocking: true,
+        animal,
+        hoursRemaining: 30,
+      }),
+    ]);
+    expect(mockHold.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        organizationId: 'org-001',
+        releasedAt: null,
+        endDate: { gt: now, lte: hoursFromNow(48) },
+      }),
+      orderBy: { endDate: 'asc' },
+    }));
+  });
+});
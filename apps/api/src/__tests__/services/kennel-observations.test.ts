@@ -0,0 +1,80 @@
+/**
+ * Kennel Observation Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import { formatObservation, getKennelRound, startOfToday } from '@/services/kennel-observations';
+
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const today = new Date('2026-03-02T00:00:00Z');
+const hoursFrom = (date: Date, hours: number) => new Date(date.getTime() + hours * 60 * 60 * 1000);
+
+const onSite = (id: string, kennelNumber: string, observedAt?: Date) => ({
+  id,
+  name: `Animal ${id}`,
+  species: 'DOG',
+  kennelNumber,
+  kennelObservations: observedAt ? [{ observedAt, stressLevel: 'MILD' }] : [],
+});
+
+describe('Kennel Observation Service', () => {
+  it('should list animals on site not observed since the start of the day', async () => {
+    mockAnimal.findMany.mockResolvedValue([
+      onSite('a1', 'A1', hoursFrom(today, 9)),
+      onSite('a2', 'A2', hoursFrom(today, -15)),
+      onSite('a3', 'A3'),
+    ]);
+
+    const round = await getKennelRound('org-001', today);
+
+    expect(round.map(entry => entry.animal.id)).toEqual(['a2', 'a3']);
+    expect(round[0]).toEqual({
+      animal: { id: 'a2', name: 'Animal a2', species: 'DOG', kennelNumber: 'A2' },
+      lastObservation: { observedAt: hoursFrom(today, -15).toISOString(), stressLevel: 'MILD' },
+      observedToday: false,
+    });
+    expect(round[1].lastObservation).toBeNull();
+    expect(mockAnimal.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        organizationId: 'org-001',
+        status: { in: expect.not.arrayContaining(['IN_FOSTER']) },
+      },
+    }));
+  });
+
+  it('should put observed animals last when asked for the whole round', async () => {
+    mockAnimal.findMany.mockResolvedValue([
+      onSite('a1', 'A1', hoursFrom(today, 9)),
+      onSite('a2', 'A2'),
+      onSite('a3', 'A3'),
+    ]);
+
+    const round = await getKennelRound('org-001', today, true);
+
+    expect(round.map(entry => [entry.animal.id, entry.observedToday])).toEqual([
+      ['a2', false],
+      ['a3', false],
+      ['a1', true],
+    ]);
+  });
+
+  it('should parse enrichment and default "today" to midnight', () => {
+    const observation = formatObservation({
+      id: 'obs-001',
+      animalId: 'a1',
+      organizationId: 'org-001',
+      observedAt: today,
+      stressLevel: 'MODERATE',
+      enrichment: '["WALK","FOOD_PUZZLE"]',
+      notes: 'Pacing',
+      observerId: 'user-004',
+      observer: 'Volunteer',
+      createdAt: today,
+    } as any);
+
+    expect(observation).toMatchObject({ stressLevel: 'MODERATE', enrichment: ['WALK', 'FOOD_PUZZLE'] });
+    expect(startOfToday(new Date(2026, 2, 2, 15, 30))).toEqual(new Date(2026, 2, 2));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Login Throttle Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  LOGIN_THROTTLE_POLICY,
+  MemoryLoginAttemptStore,
+  assertLoginAllowed,
+  clearLoginFailures,
+  lockDurationMs,
+  recordLoginFailure,
+  setLoginAttemptStore,
+  unlockEmail,
+} from '@/services/login-throttle';
+import { UnauthorizedError } from '@/lib/errors';
+
+const MINUTE = 60 * 1000;
+
+async function failTimes(count: number, email = 'staff@example.com', ip = '10.0.0.1') {
+  for (let i = 0; i < count; i++) {
+    await recordLoginFailure(email, ip);
+  }
+}
+
+describe('Login Throttle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setLoginAttemptStore(new MemoryLoginAttemptStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('lockDurationMs', () => {
+    it('should double with each lock up to the cap', () => {
+      expect(lockDurationMs(0)).toBe(5 * MINUTE);
+      expect(lockDurationMs(1)).toBe(10 * MINUTE);
+      expect(lockDurationMs(2)).toBe(20 * MINUTE);
+      expect(lockDurationMs(20)).toBe(LOGIN_THROTTLE_POLICY.maxLockMs);
+    });
+  });
+
+  describe('per email', () => {
+    it('should lock after the maximum number of failures', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail - 1);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).resolves.toBeUndefined();
+
+      await failTimes(1);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.2')).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should treat email case-insensitively', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail, 'Staff@Example.com');
+
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.9')).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should report when to retry', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail);
+
+      const error = await assertLoginAllowed('staff@example.com', '10.0.0.1').catch(e => e);
+      expect(error.statusCode).toBe(401);
+      expect(error.details.retryAfter).toBe(5 * 60);
+    });
+
+    it('should escalate the lock on repeated lockouts', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail);
+      vi.advanceTimersByTime(5 * MINUTE + 1);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).resolves.toBeUndefined();
+
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail);
+      vi.advanceTimersByTime(5 * MINUTE + 1);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).rejects.toThrow(UnauthorizedError);
+
+      vi.advanceTimersByTime(5 * MINUTE);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).resolves.toBeUndefined();
+    });
+
+    it('should forget failures outside the window', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail - 1);
+      vi.advanceTimersByTime(LOGIN_THROTTLE_POLICY.failureWindowMs + 1);
+      await failTimes(1);
+
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).resolves.toBeUndefined();
+    });
+
+    it('should reset after a successful sign-in', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail - 1);
+      await clearLoginFailures('staff@example.com');
+      await failTimes(1);
+
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('per IP', () => {
+    it('should lock an address trying many emails', async () => {
+      for (let i = 0; i < LOGIN_THROTTLE_POLICY.maxFailuresPerIp; i++) {
+        await recordLoginFailure(`user${i}@example.com`, '10.0.0.1');
+      }
+
+      await expect(assertLoginAllowed('someone@example.com', '10.0.0.1')).rejects.toThrow(UnauthorizedError);
+      await expect(assertLoginAllowed('someone@example.com', '10.0.0.2')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('unlockEmail', () => {
+    it('should lift a lock and report whether one existed', async () => {
+      await failTimes(LOGIN_THROTTLE_POLICY.maxFailuresPerEmail, 'staff@example.com', '10.0.0.1');
+
+      await expect(unlockEmail('staff@example.com')).resolves.toBe(true);
+      await expect(assertLoginAllowed('staff@example.com', '10.0.0.2')).resolves.toBeUndefined();
+      await expect(unlockEmail('staff@example.com')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Mail Service Unit Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleTransport,
+  FileTransport,
+  SmtpTransport,
+  createMailTransport,
+  sendMail,
+  setMailTransport,
+} from '@/services/mail';
+
+const baseConfig = {
+  provider: 'console' as const,
+  from: 'noreply@shelterlink.org',
+  filePath: './tmp/mail',
+};
+
+describe('Mail Service', () => {
+  afterEach(() => {
+    setMailTransport(undefined);
+  });
+
+  describe('createMailTransport', () => {
+    it('should pick the configured transport', () => {
+      expect(createMailTransport(baseConfig)).toBeInstanceOf(ConsoleTransport);
+      expect(createMailTransport({ ...baseConfig, provider: 'file' })).toBeInstanceOf(FileTransport);
+      expect(createMailTransport({ ...baseConfig, provider: 'smtp', smtpHost: 'smtp.example.com' }))
+        .toBeInstanceOf(SmtpTransport);
+    });
+
+    it('should require a host for SMTP', () => {
+      expect(() => createMailTransport({ ...baseConfig, provider: 'smtp' })).toThrow('SMTP_HOST');
+    });
+  });
+
+  describe('FileTransport', () => {
+    it('should write each message to the directory', async () => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), 'shelterlink-mail-'));
+      try {
+        await new FileTransport(directory).send({
+          from: 'noreply@shelterlink.org',
+          to: 'staff@example.com',
+          subject: 'Hello',
+          text: 'Body',
+        });
+
+        const files = await readdir(directory);
+        expect(files).toHaveLength(1);
+        const message = JSON.parse(await readFile(path.join(directory, files[0]), 'utf8'));
+        expect(message).toMatchObject({ to: 'staff@example.com', subject: 'Hello', text: 'Body' });
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('sendMail', () => {
+    it('should report delivery failures instead of throwing', async () => {
+      setMailTransport({ name: 'broken', send: async () => { throw new Error('connection refused'); } });
+
+      await expect(sendMail({ to: 'staff@example.com', subject: 'Hello', text: 'Body' })).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Medical Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import {
+  assertMedicalRecordDates,
+  assertVaccinationDates,
+  formatMedicalRecord,
+  formatPublicMedicalRecord,
+  formatPublicVaccination,
+  getDueCare,
+} from '@/services/medical';
+import { ValidationError } from '@/lib/errors';
+
+const mockRecord = prisma.medicalRecord as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockVaccination = prisma.vaccination as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-02T09:00:00Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY);
+
+const animal = { id: 'animal-001', name: 'Max', species: 'DOG', kennelNumber: 'A12' };
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  id: 'record-001',
+  animalId: 'animal-001',
+  organizationId: 'org-001',
+  recordType: 'SICK_EXAM',
+  date: daysFromNow(-3),
+  diagnosis: 'Heartworm positive',
+  treatment: 'Doxycycline, then melarsomine',
+  medications: '[{"name":"Doxycycline","dosage":"100mg","frequency":"BID"}]',
+  weightKg: 28,
+  bodyConditionScore: 4,
+  prognosis: 'Good',
+  followUpRequired: true,
+  followUpDate: daysFromNow(2),
+  followUpCompletedAt: null,
+  isTreatable: true,
+  affectsAdoptability: true,
+  estimatedCost: 80000,
+  veterinarianId: 'user-003',
+  veterinarian: 'Dr. Staff',
+  notes: 'Exercise restriction',
+  isPublic: true,
+  createdAt: daysFromNow(-3),
+  updatedAt: daysFromNow(-3),
+  ...overrides,
+});
+
+const dose = (overrides: Record<string, unknown> = {}) => ({
+  id: 'vacc-001',
+  animalId: 'animal-001',
+  organizationId: 'org-001',
+  vaccineType: 'DHPP',
+  product: null,
+  lotNumber: 'L123',
+  dateGiven: daysFromNow(-21),
+  expirationDate: null,
+  nextDueDate: daysFromNow(-1),
+  route: 'SUBCUTANEOUS',
+  site: null,
+  administeredById: 'user-003',
+  administeredBy: 'Staff',
+  notes: 'Booster due',
+  isPublic: true,
+  createdAt: daysFromNow(-21),
+  ...overrides,
+});
+
+describe('Medical Service', () => {
+  describe('formatting', () => {
+    it('should give staff the full record', () => {
+      expect(formatMedicalRecord(record() as any)).toMatchObject({
+        diagnosis: 'Heartworm positive',
+        medications: [{ name: 'Doxycycline', dosage: '100mg', frequency: 'BID' }],
+        followUpDate: daysFromNow(2).toISOString(),
+        followUpCompletedAt: null,
+      });
+    });
+
+    it('should never expose diagnosis, treatment or notes publicly', () => {
+      const publicRecord = formatPublicMedicalRecord(record() as any);
+      const publicDose = formatPublicVaccination(dose() as any);
+
+      expect(publicRecord).toEqual({ id: 'record-001', recordType: 'SICK_EXAM', date: daysFromNow(-3).toISOString() });
+      expect(JSON.stringify(publicRecord)).not.toMatch(/Heartworm|Doxycycline|Exercise/);
+      expect(publicDose).not.toHaveProperty('notes');
+      expect(publicDose).not.toHaveProperty('lotNumber');
+    });
+  });
+
+  describe('date checks', () => {
+    it('should reject a follow-up before the record or without followUpRequired', () => {
+      expect(() => assertMedicalRecordDates({ date: now, followUpRequired: true, followUpDate: daysFromNow(-1) }))
+        .toThrow(ValidationError);
+      expect(() => assertMedicalRecordDates({ date: now, followUpRequired: false, followUpDate: daysFromNow(7) }))
+        .toThrow(ValidationError);
+      expect(() => assertMedicalRecordDates({ date: now, followUpRequired: true, followUpDate: daysFromNow(7) }))
+        .not.toThrow();
+    });
+
+    it('should reject a next dose that is not after the one given', () => {
+      expect(() => assertVaccinationDates({ dateGiven: now, expirationDate: null, nextDueDate: now }))
+        .toThrow('Next due date');
+      expect(() => assertVaccinationDates({ dateGiven: now, expirationDate: null, nextDueDate: daysFromNow(21) }))
+        .not.toThrow();
+    });
+  });
+
+  describe('getDueCare', () => {
+    it('should list follow-ups and doses due in the window, soonest first', async () => {
+      mockRecord.findMany.mockResolvedValue([{ ...record(), animal }]);
+      mockVaccination.findMany
+        .mockResolvedValueOnce([{ ...dose(), animal }])
+        .mockResolvedValueOnce([dose()]);
+
+      const items = await getDueCare('org-001', 7, now);
+
+      expect(items).toEqual([
+        {
+          type: 'VACCINATION',
+          id: 'vacc-001',
+          animal,
+          description: 'DHPP',
+          dueDate: daysFromNow(-1).toISOString(),
+          overdue: true,
+        },
+        {
+          type: 'FOLLOW_UP',
+          id: 'record-001',
+          animal,
+          description: 'SICK_EXAM',
+          dueDate: daysFromNow(2).toISOString(),
+          overdue: false,
+        },
+      ]);
+      expect(mockRecord.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          animal: expect.objectContaining({ organizationId: 'org-001' }),
+          followUpCompletedAt: null,
+          followUpDate: { lte: daysFromNow(7) },
+        }),
+      }));
+    });
+
+    it('should drop a dose once a later one of the same vaccine was given', async () => {
+      mockRecord.findMany.mockResolvedValue([]);
+      mockVaccination.findMany
+        .mockResolvedValueOnce([{ ...dose(), animal }])
+        .mockResolvedValueOnce([
+          dose(),
+          dose({ id: 'vacc-002', dateGiven: daysFromNow(-1), nextDueDate: daysFromNow(365) }),
+        ]);
+
+      expect(await getDueCare('org-001', 7, now)).toEqual([]);
+    });
+  });
+});
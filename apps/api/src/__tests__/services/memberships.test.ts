@@ -0,0 +1,187 @@
+/**
+ * Membership Service Unit Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@shelter-link/database';
+import {
+  acceptInvitation,
+  assertNotLastOwner,
+  canManageRole,
+  createInvitation,
+  findInvitationByToken,
+} from '@/services/memberships';
+import { hashToken } from '@/services/sessions';
+import { LOGIN_THROTTLE_POLICY, MemoryLoginAttemptStore, setLoginAttemptStore } from '@/services/login-throttle';
+import { ConflictError, InvalidStateError, NotFoundError, UnauthorizedError } from '@/lib/errors';
+
+const mockMembership = prisma.userOrganization as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockInvitation = prisma.invitation as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockUser = prisma.user as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const pendingInvitation = (overrides = {}) => ({
+  id: 'invite-001',
+  organizationId: 'org-001',
+  email: 'new@example.com',
+  role: 'STAFF',
+  tokenHash: hashToken('invite-token'),
+  expiresAt: new Date(Date.now() + 60_000),
+  acceptedAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  organization: { id: 'org-001', name: 'Test Shelter', slug: 'test-shelter', status: 'ACTIVE' },
+  ...overrides,
+});
+
+describe('Membership Service', () => {
+  describe('canManageRole', () => {
+    it('should let owners and superadmins manage every role', () => {
+      expect(canManageRole({ globalRole: 'USER', organizationRole: 'OWNER' }, 'OWNER')).toBe(true);
+      expect(canManageRole({ globalRole: 'SUPERADMIN' }, 'OWNER')).toBe(true);
+    });
+
+    it('should only allow managing roles below your own', () => {
+      const admin = { globalRole: 'USER', organizationRole: 'ADMIN' };
+      expect(canManageRole(admin, 'MANAGER')).toBe(true);
+      expect(canManageRole(admin, 'ADMIN')).toBe(false);
+      expect(canManageRole(admin, 'OWNER')).toBe(false);
+
+      const manager = { globalRole: 'USER', organizationRole: 'MANAGER' };
+      expect(canManageRole(manager, 'VOLUNTEER')).toBe(true);
+      expect(canManageRole(manager, 'MANAGER')).toBe(false);
+    });
+
+    it('should reject unknown roles', () => {
+      expect(canManageRole({ globalRole: 'USER', organizationRole: 'ADMIN' }, 'GOD')).toBe(false);
+    });
+  });
+
+  describe('assertNotLastOwner', () => {
+    it('should block removing the only owner', async () => {
+      mockMembership.findUnique.mockResolvedValue({ role: 'OWNER' });
+      mockMembership.count.mockResolvedValue(0);
+
+      await expect(assertNotLastOwner('org-001', 'user-001')).rejects.toThrow(ConflictError);
+    });
+
+    it('should allow it when another owner remains', async () => {
+      mockMembership.findUnique.mockResolvedValue({ role: 'OWNER' });
+      mockMembership.count.mockResolvedValue(1);
+
+      await expect(assertNotLastOwner('org-001', 'user-001')).resolves.toBeUndefined();
+    });
+
+    it('should not count owners for other roles', async () => {
+      mockMembership.findUnique.mockResolvedValue({ role: 'STAFF' });
+
+      await assertNotLastOwner('org-001', 'user-001');
+      expect(mockMembership.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createInvitation', () => {
+    it('should store only the token hash and revoke older invitations', async () => {
+      mockMembership.findFirst.mockResolvedValue(null);
+      mockInvitation.create.mockImplementation(async ({ data }) => ({ id: 'invite-001', ...data }));
+
+      const { invitation, token } = await createInvitation({
+        organizationId: 'org-001',
+        email: 'New@Example.com',
+        role: 'STAFF',
+        invitedBy: { id: 'user-001', name: 'Admin' },
+      });
+
+      expect(invitation.email).toBe('new@example.com');
+      expect(invitation.tokenHash).toBe(hashToken(token));
+      expect(invitation.tokenHash).not.toBe(token);
+      expect(mockInvitation.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ email: 'new@example.com', acceptedAt: null, revokedAt: null }),
+      }));
+    });
+
+    it('should refuse to invite an existing member', async () => {
+      mockMembership.findFirst.mockResolvedValue({ id: 'membership-001' });
+
+      await expect(createInvitation({
+        organizationId: 'org-001',
+        email: 'member@example.com',
+        role: 'STAFF',
+        invitedBy: { id: 'user-001', name: 'Admin' },
+      })).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('findInvitationByToken', () => {
+    it('should reject unknown, expired and used tokens', async () => {
+      mockInvitation.findUnique.mockResolvedValueOnce(null);
+      await expect(findInvitationByToken('nope')).rejects.toThrow(NotFoundError);
+
+      mockInvitation.findUnique.mockResolvedValueOnce(pendingInvitation({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(findInvitationByToken('invite-token')).rejects.toThrow('Invitation has expired');
+
+      mockInvitation.findUnique.mockResolvedValueOnce(pendingInvitation({ acceptedAt: new Date() }));
+      await expect(findInvitationByToken('invite-token')).rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    beforeEach(() => {
+      setLoginAttemptStore(new MemoryLoginAttemptStore());
+    });
+
+    it('should create the user with a hashed password and join the organization', async () => {
+      mockInvitation.findUnique.mockResolvedValue(pendingInvitation());
+      mockUser.findUnique.mockResolvedValue(null);
+      mockUser.create.mockImplementation(async ({ data }) => ({ id: 'user-new', ...data }));
+      mockMembership.create.mockImplementation(async ({ data }) => ({ id: 'membership-new', ...data }));
+
+      const { user, membership } = await acceptInvitation({
+        token: 'invite-token',
+        name: 'New Volunteer',
+        password: 'correct horse battery',
+        ipAddress: '10.0.0.1',
+      });
+
+      expect(await bcrypt.compare('correct horse battery', user.passwordHash)).toBe(true);
+      expect(membership).toMatchObject({ organizationId: 'org-001', role: 'STAFF', isPrimary: true });
+      expect(mockInvitation.update).toHaveBeenCalledWith({
+        where: { id: 'invite-001' },
+        data: { acceptedAt: expect.any(Date) },
+      });
+    });
+
+    it('should require the current password for existing accounts', async () => {
+      mockInvitation.findUnique.mockResolvedValue(pendingInvitation());
+      mockUser.findUnique.mockResolvedValue({
+        id: 'user-002',
+        email: 'new@example.com',
+        passwordHash: await bcrypt.hash('their password', 4),
+        organizations: [],
+      });
+
+      await expect(acceptInvitation({ token: 'invite-token', password: 'wrong password', ipAddress: '10.0.0.1' }))
+        .rejects.toThrow(UnauthorizedError);
+      expect(mockMembership.create).not.toHaveBeenCalled();
+    });
+
+    it('should lock out password guesses through an invitation like sign-in does', async () => {
+      mockInvitation.findUnique.mockResolvedValue(pendingInvitation());
+      mockUser.findUnique.mockResolvedValue({
+        id: 'user-002',
+        email: 'new@example.com',
+        passwordHash: await bcrypt.hash('their password', 4),
+        organizations: [],
+      });
+      const accept = (password: string) => acceptInvitation({ token: 'invite-token', password, ipAddress: '10.0.0.1' });
+
+      for (let i = 0; i < LOGIN_THROTTLE_POLICY.maxFailuresPerEmail; i++) {
+        await expect(accept('wrong password')).rejects.toThrow('Invalid email or password');
+      }
+
+      // Locked now, even with the right password
+      await expect(accept('their password')).rejects.toThrow('Too many failed sign-in attempts');
+      expect(mockMembership.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Risk Alert Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+
+// risk-scoring.ts creates its own client at import time; share the mock
+vi.mock('@prisma/client', async () => {
+  const { prisma } = await import('@shelter-link/database');
+  return { PrismaClient: vi.fn(() => prisma) };
+});
+
+import {
+  RiskAlertAction,
+  acknowledgeRiskAlert,
+  buildThresholdAlert,
+  getRecommendedActions,
+  isCoveredByOpenAlert,
+} from '@/services/risk-alerts';
+import { updateAnimalRiskProfile } from '@/services/risk-scoring';
+import { InvalidStateError } from '@/lib/errors';
+
+const mockAlert = prisma.riskAlert as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockReview = prisma.riskReview as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockWebhook = prisma.webhook as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const DAY = 24 * 60 * 60 * 1000;
+const user = { id: 'user-003', name: 'Staff' };
+
+const crossing = (overrides: Partial<Parameters<typeof buildThresholdAlert>[0]> = {}) =>
+  buildThresholdAlert({
+    animalId: 'animal-001',
+    organizationId: 'org-001',
+    previous: { urgencyScore: 55, riskSeverity: 'ELEVATED' },
+    urgencyScore: 64,
+    riskSeverity: 'HIGH',
+    riskReasons: ['LONG_LOS', 'SENIOR'],
+    ...overrides,
+  });
+
+describe('Risk Alert Service', () => {
+  describe('buildThresholdAlert', () => {
+    it('should raise an alert when the severity moves up', () => {
+      const alert = crossing();
+
+      expect(alert).toMatchObject({
+        alertType: 'THRESHOLD_CROSSED',
+        severity: 'HIGH',
+        previousScore: 55,
+        newScore: 64,
+        previousSeverity: 'ELEVATED',
+        newSeverity: 'HIGH',
+        triggeringFactors: '["LONG_LOS","SENIOR"]',
+        message: 'Risk rose from ELEVATED (55) to HIGH (64)',
+      });
+      expect(JSON.parse(alert!.recommendedActions)).toEqual([
+        RiskAlertAction.FEATURE_LISTING,
+        RiskAlertAction.CONTACT_FOSTERS,
+        RiskAlertAction.REDUCE_ADOPTION_FEE,
+        RiskAlertAction.SENIOR_ADOPTER_OUTREACH,
+      ]);
+    });
+
+    it('should not raise one for moves down, below ELEVATED or on a first calculation', () => {
+      expect(crossing({ previous: { urgencyScore: 70, riskSeverity: 'HIGH' }, riskSeverity: 'ELEVATED' })).toBeNull();
+      expect(crossing({ previous: { urgencyScore: 10, riskSeverity: 'LOW' }, riskSeverity: 'MODERATE' })).toBeNull();
+      expect(crossing({ previous: { urgencyScore: 62, riskSeverity: 'HIGH' } })).toBeNull();
+      expect(crossing({ previous: null })).toBeNull();
+    });
+  });
+
+  describe('getRecommendedActions', () => {
+    it('should suggest placement steps for the severity and the animal', () => {
+      expect(getRecommendedActions('CRITICAL', ['SPECIAL_NEEDS'])).toEqual([
+        RiskAlertAction.CONTACT_RESCUE_PARTNERS,
+        RiskAlertAction.REQUEST_TRANSFER,
+        RiskAlertAction.CONTACT_FOSTERS,
+        RiskAlertAction.SPECIAL_NEEDS_OUTREACH,
+      ]);
+    });
+  });
+
+  describe('isCoveredByOpenAlert', () => {
+    it('should treat an open alert at the same or a higher severity as covering', () => {
+      expect(isCoveredByOpenAlert('HIGH', [{ newSeverity: 'HIGH' }])).toBe(true);
+      expect(isCoveredByOpenAlert('HIGH', [{ newSeverity: 'CRITICAL' }])).toBe(true);
+      expect(isCoveredByOpenAlert('CRITICAL', [{ newSeverity: 'HIGH' }])).toBe(false);
+      expect(isCoveredByOpenAlert('HIGH', [])).toBe(false);
+    });
+  });
+
+  describe('updateAnimalRiskProfile', () => {
+    // Senior dog with special needs 100 days in care scores ELEVATED under the default policy
+    const animal = () => ({
+      id: 'animal-001',
+      organizationId: 'org-001',
+      species: 'DOG',
+      ageCategory: 'SENIOR',
+      specialNeeds: 'Arthritis',
+      intakeDate: new Date(Date.now() - 100 * DAY),
+      riskProfile: {
+        urgencyScore: 20,
+        riskSeverity: 'MODERATE',
+        windowStartScore: 20,
+        windowStartedAt: new Date(Date.now() - 2 * DAY),
+        isManualOverride: false,
+        overrideExpiresAt: null,
+      },
+      organization: { riskPolicy: null },
+    });
+
+    it('should store the alert with the profile', async () => {
+      mockAnimal.findUnique.mockResolvedValue(animal());
+      mockAlert.findMany.mockResolvedValue([]);
+      mockReview.findFirst.mockResolvedValue(null);
+      mockReview.create.mockResolvedValue({ id: 'review-001' });
+      mockWebhook.findMany.mockResolvedValue([]);
+
+      const result = await updateAnimalRiskProfile('animal-001');
+
+      expect(mockAlert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          animalId: 'animal-001',
+          previousSeverity: 'MODERATE',
+          newSeverity: result.riskSeverity,
+        }),
+      });
+    });
+
+    it('should not raise another alert while an open one covers the severity', async () => {
+      mockAnimal.findUnique.mockResolvedValue(animal());
+      mockAlert.findMany.mockResolvedValue([{ animalId: 'animal-001', newSeverity: 'CRITICAL' }]);
+      mockReview.findFirst.mockResolvedValue(null);
+      mockReview.create.mockResolvedValue({ id: 'review-001' });
+      mockWebhook.findMany.mockResolvedValue([]);
+
+      await updateAnimalRiskProfile('animal-001');
+
+      expect(mockAlert.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledgeRiskAlert', () => {
+    it('should record who acknowledged it and their notes', async () => {
+      mockAlert.findUnique
+        .mockResolvedValueOnce({ id: 'alert-001', animalId: 'animal-001', acknowledgedAt: null })
+        .mockResolvedValueOnce({ id: 'alert-001', acknowledgedByName: 'Staff' });
+      mockAlert.updateMany.mockResolvedValue({ count: 1 });
+
+      await acknowledgeRiskAlert('alert-001', 'Featured on social media', user);
+
+      expect(mockAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: 'alert-001', acknowledgedAt: null },
+        data: expect.objectContaining({
+          acknowledgedById: 'user-003',
+          acknowledgedByName: 'Staff',
+          resolutionNotes: 'Featured on social media',
+        }),
+      });
+    });
+
+    it('should reject an alert that is already acknowledged', async () => {
+      mockAlert.findUnique.mockResolvedValueOnce({ id: 'alert-001', acknowledgedAt: new Date() });
+
+      await expect(acknowledgeRiskAlert('alert-001', null, user)).rejects.toThrow(InvalidStateError);
+    });
+
+    it('should reject when someone else acknowledged it first', async () => {
+      mockAlert.findUnique.mockResolvedValueOnce({ id: 'alert-001', acknowledgedAt: null });
+      mockAlert.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(acknowledgeRiskAlert('alert-001', null, user)).rejects.toThrow('someone else');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Risk Scoring Ethics Tests
+ *
+ * Fails when a prohibited factor (docs/ETHICAL_AI_GUIDELINES.md) leaks into
+ * scores: animals that differ only in prohibited attributes must score the
+ * same under every policy.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG, RISK_WEIGHT_LIMITS, type RiskScoringConfig } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import { calculateRiskScore } from '@/services/risk-scoring';
+import { lintRiskScoringConfig } from '@/services/risk-policies';
+import { buildRiskBiasReport, type BiasReportAnimal } from '@/services/risk-bias';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+// Permitted inputs, spanning every LOS band and special category
+const baseAnimals = [
+  { species: 'DOG', ageCategory: 'ADULT', specialNeeds: null, daysInCare: 5 },
+  { species: 'DOG', ageCategory: 'SENIOR', specialNeeds: 'Arthritis', daysInCare: 40 },
+  { species: 'CAT', ageCategory: 'YOUNG', specialNeeds: null, daysInCare: 80 },
+  { species: 'CAT', ageCategory: 'GERIATRIC', specialNeeds: 'Diabetes', daysInCare: 200 },
+];
+
+// Attributes the guidelines prohibit, with values that used to matter
+const prohibitedVariants: Record<string, unknown>[] = [
+  { colorPrimary: 'Black' },
+  { colorPrimary: 'black', colorSecondary: 'Black' },
+  { colorPrimary: 'White' },
+  { breedPrimary: 'Pit Bull Terrier', breedSecondary: 'Rottweiler' },
+  { breedPrimary: 'Golden Retriever' },
+  { size: 'EXTRA_LARGE' },
+  { size: 'SMALL' },
+  { intakeType: 'OWNER_SURRENDER' },
+  { intakeType: 'STRAY' },
+  { zipCode: '90210', city: 'Beverly Hills' },
+  { adopterDemographics: { income: 'LOW' } },
+];
+
+const policies = [
+  DEFAULT_RISK_SCORING_CONFIG,
+  {
+    ...DEFAULT_RISK_SCORING_CONFIG,
+    weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, lengthOfStay: 0.05, specialCategories: 0.20 },
+    severityThresholds: { critical: 70, high: 50, elevated: 30, moderate: 10 },
+  },
+];
+
+// Largest share of the score each factor the engine reports may take
+const factorLimits: Record<string, number> = {
+  LENGTH_OF_STAY: RISK_WEIGHT_LIMITS.lengthOfStay,
+  SENIOR: RISK_WEIGHT_LIMITS.specialCategories / 2,
+  SPECIAL_NEEDS: RISK_WEIGHT_LIMITS.specialCategories / 2,
+  MEDICAL: RISK_WEIGHT_LIMITS.medical,
+  KENNEL_STRESS: RISK_WEIGHT_LIMITS.behavioral,
+};
+
+// Every factor at its maximum
+const worstCase = {
+  species: 'DOG',
+  ageCategory: 'GERIATRIC',
+  specialNeeds: 'Blind',
+  intakeDate: new Date(now.getTime() - 365 * DAY),
+  medicalRecords: [{
+    diagnosis: 'Heartworm positive',
+    isTreatable: false,
+    affectsAdoptability: true,
+    followUpRequired: false,
+    followUpDate: null,
+    followUpCompletedAt: null,
+  }],
+  kennelObservations: [1, 2, 3].map(days => ({
+    observedAt: new Date(now.getTime() - days * DAY),
+    stressLevel: 'CRITICAL',
+    enrichment: '[]',
+  })),
+};
+
+describe('Risk Scoring Ethics', () => {
+  describe('prohibited factors', () => {
+    for (const base of baseAnimals) {
+      const label = `${base.ageCategory} ${base.species} after ${base.daysInCare} days`;
+
+      it(`should score a ${label} the same whatever its prohibited attributes`, () => {
+        const animal = {
+          species: base.species,
+          ageCategory: base.ageCategory,
+          specialNeeds: base.specialNeeds,
+          intakeDate: new Date(now.getTime() - base.daysInCare * DAY),
+        };
+
+        for (const config of policies) {
+          const expected = calculateRiskScore(animal, config, now);
+
+          for (const variant of prohibitedVariants) {
+            const withVariant = { ...animal, ...variant };
+            expect(calculateRiskScore(withVariant, config, now), JSON.stringify(variant)).toEqual(expected);
+          }
+        }
+      });
+    }
+
+    it('should never give breed or color reasons', () => {
+      const result = calculateRiskScore({
+        species: 'DOG',
+        ageCategory: 'SENIOR',
+        specialNeeds: 'Blind',
+        intakeDate: new Date(now.getTime() - 365 * DAY),
+        ...{ size: 'EXTRA_LARGE', colorPrimary: 'Black' },
+      }, DEFAULT_RISK_SCORING_CONFIG, now);
+
+      expect(result.riskReasons).toEqual(['LONG_LOS', 'SENIOR', 'SPECIAL_NEEDS']);
+    });
+  });
+
+  describe('policy linter', () => {
+    it('should reject configs that weight prohibited inputs', () => {
+      const violations = lintRiskScoringConfig({
+        ...DEFAULT_RISK_SCORING_CONFIG,
+        weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, colorPrimary: 0.05 },
+        modifiers: { largeBreed: 10, intake_type: { OWNER_SURRENDER: 5 }, zipCode: 1 },
+      });
+
+      const prohibited = violations.filter(v => v.message.startsWith('Prohibited risk factor'));
+      expect(prohibited.map(v => v.path).sort()).toEqual([
+        'modifiers.intake_type',
+        'modifiers.largeBreed',
+        'modifiers.zipCode',
+        'weights.colorPrimary',
+      ]);
+    });
+
+    const atLimit: RiskScoringConfig = {
+      ...DEFAULT_RISK_SCORING_CONFIG,
+      weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, lengthOfStay: 0.15, specialCategories: 0.20 },
+    };
+
+    it('should accept weights at their limits', () => {
+      expect(lintRiskScoringConfig(atLimit)).toEqual([]);
+    });
+
+    const scoredPolicies: Array<[string, RiskScoringConfig]> = [
+      ['default', DEFAULT_RISK_SCORING_CONFIG],
+      ['low length of stay', policies[1]],
+      ['special categories at their limit', atLimit],
+    ];
+
+    for (const [label, config] of scoredPolicies) {
+      it(`should keep every factor's real share of the score within its limit under the ${label} policy`, () => {
+        const result = calculateRiskScore(worstCase, config, now);
+
+        expect(result.riskFactors.map(f => f.factor).sort()).toEqual(Object.keys(factorLimits).sort());
+        for (const factor of result.riskFactors) {
+          expect(factor.contribution / 100, factor.factor).toBeLessThanOrEqual(factorLimits[factor.factor] + 1e-9);
+        }
+      });
+    }
+
+    it('should not mistake permitted keys for prohibited ones', () => {
+      // "capacity" contains "city"
+      expect(lintRiskScoringConfig(DEFAULT_RISK_SCORING_CONFIG)).toEqual([]);
+    });
+  });
+
+  describe('bias report', () => {
+    const scored = (overrides: Partial<BiasReportAnimal>): BiasReportAnimal => ({
+      colorPrimary: 'Brown',
+      breedPrimary: 'Mixed',
+      intakeType: 'STRAY',
+      urgencyScore: 40,
+      riskSeverity: 'ELEVATED',
+      algorithmVersion: 'default@1.0',
+      ...overrides,
+    });
+
+    it('should flag groups whose mean deviates beyond the threshold', () => {
+      const animals = [
+        ...Array.from({ length: 5 }, () => scored({ colorPrimary: 'Black', urgencyScore: 60, riskSeverity: 'HIGH' })),
+        ...Array.from({ length: 5 }, () => scored({ colorPrimary: 'brown ', urgencyScore: 20, riskSeverity: 'MODERATE' })),
+      ];
+
+      const report = buildRiskBiasReport(animals, now);
+
+      expect(report.population).toMatchObject({ count: 10, meanScore: 40 });
+      expect(report.dimensions.color.flaggedGroups.sort()).toEqual(['black', 'brown']);
+      expect(report.dimensions.color.groups.find(g => g.key === 'black')).toMatchObject({
+        count: 5,
+        meanScore: 60,
+        deviation: 0.5,
+      });
+      expect(report.dimensions.breed.flaggedGroups).toEqual([]);
+      expect(report.flagged).toBe(2);
+    });
+
+    it('should not flag groups below the minimum size', () => {
+      const animals = [
+        ...Array.from({ length: 8 }, () => scored({})),
+        scored({ breedPrimary: 'Pit Bull', urgencyScore: 90, riskSeverity: 'CRITICAL' }),
+      ];
+
+      const report = buildRiskBiasReport(animals, now);
+      const pitBull = report.dimensions.breed.groups.find(g => g.key === 'pit bull');
+
+      expect(pitBull?.flagged).toBe(false);
+      expect(report.dimensions.breed.flaggedGroups).toEqual(['mixed']);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Risk Factor Breakdown Tests
+ *
+ * The per-factor breakdown must add up to the score it explains.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import { calculateRiskScore, effectiveSeverityThresholds, maximumRiskScore } from '@/services/risk-scoring';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+const animal = (overrides = {}) => ({
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  specialNeeds: null,
+  intakeDate: new Date(now.getTime() - 10 * DAY),
+  ...overrides,
+});
+
+const customPolicy = {
+  ...DEFAULT_RISK_SCORING_CONFIG,
+  weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, lengthOfStay: 0.05, specialCategories: 0.20 },
+};
+
+describe('Risk Factor Breakdown', () => {
+  it('should return every evaluated factor with its policy weight', () => {
+    const { riskFactors } = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+    const { weights } = DEFAULT_RISK_SCORING_CONFIG;
+
+    expect(riskFactors.map(f => f.factor)).toEqual(['LENGTH_OF_STAY', 'SENIOR', 'SPECIAL_NEEDS']);
+    expect(riskFactors.map(f => f.weight)).toEqual([
+      weights.lengthOfStay,
+      weights.specialCategories / 2,
+      weights.specialCategories / 2,
+    ]);
+    for (const factor of riskFactors) {
+      expect(factor.evaluatedAt).toEqual(now);
+    }
+  });
+
+  for (const [label, config] of [['default', DEFAULT_RISK_SCORING_CONFIG], ['custom', customPolicy]] as const) {
+    it(`should add up to the score under the ${label} policy`, () => {
+      const candidates = [
+        animal(),
+        animal({ ageCategory: 'SENIOR', intakeDate: new Date(now.getTime() - 40 * DAY) }),
+        animal({ species: 'CAT', specialNeeds: 'Diabetes', intakeDate: new Date(now.getTime() - 200 * DAY) }),
+      ];
+
+      for (const candidate of candidates) {
+        const result = calculateRiskScore(candidate, config, now);
+        const total = result.riskFactors.reduce((sum, f) => sum + f.contribution, 0);
+        expect(Math.abs(total - result.urgencyScore)).toBeLessThanOrEqual(0.5);
+      }
+    });
+  }
+
+  it('should explain each factor with the reason it raised', () => {
+    const result = calculateRiskScore(animal({
+      ageCategory: 'SENIOR',
+      specialNeeds: 'Arthritis',
+      intakeDate: new Date(now.getTime() - 100 * DAY),
+    }), DEFAULT_RISK_SCORING_CONFIG, now);
+    const [los, senior, specialNeeds] = result.riskFactors;
+
+    expect(los).toMatchObject({
+      reason: 'LONG_LOS',
+      value: 1,
+      explanationKey: 'lengthOfStay.overDouble',
+      explanationParams: { lengthOfStay: 100, targetLos: result.targetLos },
+    });
+    expect(los.explanation).toContain('100 days');
+    expect(senior).toMatchObject({ reason: 'SENIOR', value: 1, explanationKey: 'senior.yes' });
+    expect(specialNeeds).toMatchObject({ reason: 'SPECIAL_NEEDS', value: 1, explanationKey: 'specialNeeds.yes' });
+    expect(result.riskFactors.map(f => f.reason)).toEqual(result.riskReasons);
+  });
+
+  it('should score each factor at most its policy weight, with thresholds scaled to the reachable maximum', () => {
+    // Length of stay at its maximum and nothing else
+    const result = calculateRiskScore(animal({ intakeDate: new Date(now.getTime() - 365 * DAY) }), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(maximumRiskScore(DEFAULT_RISK_SCORING_CONFIG)).toBe(70);
+    expect(effectiveSeverityThresholds(DEFAULT_RISK_SCORING_CONFIG)).toEqual({ critical: 56, high: 42, elevated: 28, moderate: 14 });
+    expect(result.riskFactors[0]).toMatchObject({ weight: 0.25, contribution: 25 });
+    expect(result).toMatchObject({ urgencyScore: 25, riskSeverity: 'MODERATE' });
+  });
+
+  it('should keep factors that do not apply at zero contribution', () => {
+    const { riskFactors } = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(riskFactors[1]).toMatchObject({ reason: null, value: 0, contribution: 0, explanationKey: 'senior.no' });
+    expect(riskFactors[0]).toMatchObject({ reason: null, explanationKey: 'lengthOfStay.underTarget' });
+    expect(riskFactors[0].contribution).toBeGreaterThan(0);
+  });
+});
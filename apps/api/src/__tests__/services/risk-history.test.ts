@@ -0,0 +1,168 @@
+/**
+ * Risk History Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+
+// risk-scoring.ts creates its own client at import time; share the mock
+vi.mock('@prisma/client', async () => {
+  const { prisma } = await import('@shelter-link/database');
+  return { PrismaClient: vi.fn(() => prisma) };
+});
+
+import {
+  RiskHistoryBucket,
+  RiskTrend,
+  bucketRiskSnapshots,
+  getBucketStart,
+  getRiskHistories,
+  getRiskHistory,
+} from '@/services/risk-history';
+import { updateAnimalRiskProfile } from '@/services/risk-scoring';
+
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockSnapshot = prisma.riskScoreSnapshot as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockReview = prisma.riskReview as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const snapshot = (createdAt: string, urgencyScore: number, overrides = {}) => ({
+  urgencyScore,
+  riskSeverity: urgencyScore >= 60 ? 'HIGH' : 'MODERATE',
+  isManualOverride: false,
+  createdAt: new Date(createdAt),
+  ...overrides,
+});
+
+describe('Risk History Service', () => {
+  describe('getBucketStart', () => {
+    it('should start days at UTC midnight and weeks on Monday', () => {
+      // Thursday
+      const date = new Date('2025-06-05T15:30:00Z');
+
+      expect(getBucketStart(date, RiskHistoryBucket.DAY).toISOString()).toBe('2025-06-05T00:00:00.000Z');
+      expect(getBucketStart(date, RiskHistoryBucket.WEEK).toISOString()).toBe('2025-06-02T00:00:00.000Z');
+      // Sunday belongs to the week before
+      expect(getBucketStart(new Date('2025-06-08T23:00:00Z'), RiskHistoryBucket.WEEK).toISOString())
+        .toBe('2025-06-02T00:00:00.000Z');
+    });
+  });
+
+  describe('bucketRiskSnapshots', () => {
+    it('should keep the last score of each bucket with its range', () => {
+      const { points } = bucketRiskSnapshots([
+        snapshot('2025-06-02T18:00:00Z', 55),
+        snapshot('2025-06-02T02:00:00Z', 40),
+        snapshot('2025-06-02T10:00:00Z', 62, { isManualOverride: true }),
+        snapshot('2025-06-04T02:00:00Z', 58),
+      ], RiskHistoryBucket.DAY);
+
+      expect(points).toHaveLength(2);
+      expect(points[0]).toMatchObject({
+        urgencyScore: 55,
+        minScore: 40,
+        maxScore: 62,
+        samples: 3,
+        isManualOverride: true,
+      });
+      expect(points[1].bucketStart.toISOString()).toBe('2025-06-04T00:00:00.000Z');
+    });
+
+    it('should report the trend from the first to the last bucket', () => {
+      const rising = bucketRiskSnapshots([
+        snapshot('2025-06-02T02:00:00Z', 40),
+        snapshot('2025-06-09T02:00:00Z', 52),
+      ], RiskHistoryBucket.WEEK);
+      expect(rising).toMatchObject({ trend: RiskTrend.RISING, change: 12 });
+
+      const stable = bucketRiskSnapshots([
+        snapshot('2025-06-02T02:00:00Z', 40),
+        snapshot('2025-06-03T02:00:00Z', 43),
+      ], RiskHistoryBucket.DAY);
+      expect(stable.trend).toBe(RiskTrend.STABLE);
+
+      expect(bucketRiskSnapshots([], RiskHistoryBucket.DAY)).toEqual({
+        points: [],
+        trend: RiskTrend.STABLE,
+        change: 0,
+      });
+    });
+  });
+
+  describe('getRiskHistory', () => {
+    it('should load snapshots from the start of the first bucket', async () => {
+      mockSnapshot.findMany.mockResolvedValue([snapshot('2025-06-05T02:00:00Z', 70)]);
+      const now = new Date('2025-06-05T12:00:00Z');
+
+      const history = await getRiskHistory('animal-001', { bucket: RiskHistoryBucket.DAY, days: 7, now });
+
+      expect(mockSnapshot.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { animalId: 'animal-001', createdAt: { gte: new Date('2025-05-30T00:00:00Z'), lte: now } },
+      }));
+      expect(history.points).toHaveLength(1);
+    });
+  });
+
+  describe('getRiskHistories', () => {
+    it('should load every animal in one query and keep the requested order', async () => {
+      mockSnapshot.findMany.mockResolvedValue([
+        { animalId: 'animal-002', ...snapshot('2025-06-04T02:00:00Z', 40) },
+        { animalId: 'animal-002', ...snapshot('2025-06-05T02:00:00Z', 50) },
+        { animalId: 'animal-001', ...snapshot('2025-06-05T03:00:00Z', 70) },
+      ]);
+      const now = new Date('2025-06-05T12:00:00Z');
+
+      const histories = await getRiskHistories(
+        ['animal-002', 'animal-001', 'animal-003'],
+        { bucket: RiskHistoryBucket.DAY, days: 7, now }
+      );
+
+      expect(mockSnapshot.findMany).toHaveBeenCalledTimes(1);
+      expect(mockSnapshot.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          animalId: { in: ['animal-002', 'animal-001', 'animal-003'] },
+          createdAt: { gte: new Date('2025-05-30T00:00:00Z'), lte: now },
+        },
+      }));
+      expect(histories.map(h => [h.animalId, h.points.length, h.trend])).toEqual([
+        ['animal-002', 2, RiskTrend.RISING],
+        ['animal-001', 1, RiskTrend.STABLE],
+        ['animal-003', 0, RiskTrend.STABLE],
+      ]);
+    });
+  });
+
+  describe('updateAnimalRiskProfile', () => {
+    it('should persist the factor breakdown and record a snapshot of every calculation', async () => {
+      mockAnimal.findUnique.mockResolvedValue({
+        id: 'animal-001',
+        organizationId: 'org-001',
+        species: 'DOG',
+        ageCategory: 'ADULT',
+        specialNeeds: null,
+        intakeDate: new Date(Date.now() - 80 * DAY),
+        riskProfile: null,
+        organization: { riskPolicy: null },
+      });
+      mockReview.findFirst.mockResolvedValue(null);
+      mockReview.create.mockResolvedValue({ id: 'review-001' });
+
+      const result = await updateAnimalRiskProfile('animal-001');
+
+      const { create } = (prisma.riskProfile as any).upsert.mock.calls[0][0];
+      expect(JSON.parse(create.riskFactors)).toHaveLength(result.riskFactors.length);
+      expect(mockSnapshot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          animalId: 'animal-001',
+          organizationId: 'org-001',
+          urgencyScore: result.urgencyScore,
+          calculatedScore: result.urgencyScore,
+          riskReasons: JSON.stringify(result.riskReasons),
+          isManualOverride: false,
+          algorithmVersion: expect.any(String),
+        }),
+      });
+    });
+  });
+});
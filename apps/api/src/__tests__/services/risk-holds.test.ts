@@ -0,0 +1,74 @@
+/**
+ * Hold Deadline Risk Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import {
+  calculateRiskScore,
+  holdDeadlines,
+  holdScoringQuery,
+  publicRiskReasons,
+  type HoldScoringRecord,
+} from '@/services/risk-scoring';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+const held = (endsInHours: number | null, holdType = 'STRAY_HOLD'): HoldScoringRecord => ({
+  holdType,
+  startDate: new Date(now.getTime() - 72 * HOUR),
+  endDate: endsInHours === null ? null : new Date(now.getTime() + endsInHours * HOUR),
+  releasedAt: null,
+});
+
+const animal = (holds: HoldScoringRecord[] = []) => ({
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  specialNeeds: null,
+  intakeDate: new Date(now.getTime() - 3 * 24 * HOUR),
+  holds,
+});
+
+describe('Hold Deadlines', () => {
+  it('should turn active holds with an end date into deadlines, soonest first', () => {
+    const deadlines = holdDeadlines([
+      held(100, 'LEGAL_HOLD'),
+      held(null, 'RESCUE_HOLD'),
+      held(-1),
+      held(20, 'BITE_QUARANTINE'),
+    ], now);
+
+    expect(deadlines).toEqual([
+      { date: new Date(now.getTime() + 20 * HOUR), type: 'HOLD_EXPIRY', description: 'BITE_QUARANTINE ends', isFlexible: false },
+      { date: new Date(now.getTime() + 100 * HOUR), type: 'HOLD_EXPIRY', description: 'LEGAL_HOLD ends', isFlexible: false },
+    ]);
+  });
+
+  it('should raise HOLD_EXPIRING within 48 hours without adding points', () => {
+    const base = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+    const expiring = calculateRiskScore(animal([held(47)]), DEFAULT_RISK_SCORING_CONFIG, now);
+    const later = calculateRiskScore(animal([held(49)]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(expiring.riskReasons).toContain('HOLD_EXPIRING');
+    expect(expiring.urgencyScore).toBe(base.urgencyScore);
+    expect(expiring.deadlines).toHaveLength(1);
+    expect(later.riskReasons).not.toContain('HOLD_EXPIRING');
+    expect(later.deadlines[0].date).toEqual(new Date(now.getTime() + 49 * HOUR));
+  });
+
+  it('should only load holds not released or past their end date', () => {
+    expect(holdScoringQuery(now).where).toEqual({
+      releasedAt: null,
+      OR: [{ endDate: null }, { endDate: { gt: now } }],
+    });
+  });
+
+  it('should keep HOLD_EXPIRING out of public reasons', () => {
+    expect(publicRiskReasons(['LONG_LOS', 'HOLD_EXPIRING'])).toEqual(['LONG_LOS']);
+  });
+});
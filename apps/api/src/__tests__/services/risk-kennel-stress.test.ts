@@ -0,0 +1,113 @@
+/**
+ * Kennel Stress Risk Factor Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import {
+  assessKennelStress,
+  calculateRiskScore,
+  type StressScoringObservation,
+} from '@/services/risk-scoring';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+const observed = (daysAgo: number, stressLevel: string, enrichment: string[] = ['WALK']): StressScoringObservation => ({
+  observedAt: new Date(now.getTime() - daysAgo * DAY),
+  stressLevel,
+  enrichment: JSON.stringify(enrichment),
+});
+
+const animal = (kennelObservations: StressScoringObservation[] = []) => ({
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  specialNeeds: null,
+  intakeDate: new Date(now.getTime() - 10 * DAY),
+  kennelObservations,
+});
+
+describe('Kennel Stress Risk Factor', () => {
+  it('should give animals nobody observed no kennel stress points', () => {
+    const result = calculateRiskScore(animal([observed(9, 'CRITICAL')]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(result.riskFactors.map(f => f.factor)).not.toContain('KENNEL_STRESS');
+    expect(result).toMatchObject({ behavioralScore: 0, kennelStressLevel: 'NONE', enrichmentDeficit: false });
+  });
+
+  it('should add the week\'s average stress on top, with KENNEL_STRESS from moderate', () => {
+    const base = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+    const result = calculateRiskScore(animal([
+      observed(0, 'MODERATE'),
+      observed(1, 'MODERATE'),
+      observed(2, 'MODERATE'),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(result.riskFactors.find(f => f.factor === 'KENNEL_STRESS')).toMatchObject({
+      reason: 'KENNEL_STRESS',
+      weight: 0.15,
+      value: 0.5,
+      contribution: 7.5,
+      explanationKey: 'kennelStress.average',
+      explanationParams: { level: 'MODERATE', days: 7 },
+    });
+    expect(result.riskReasons).toContain('KENNEL_STRESS');
+    // 7.5 points on top of the unrounded base score
+    expect(result.urgencyScore - base.urgencyScore).toBeGreaterThanOrEqual(7);
+    expect(result.urgencyScore - base.urgencyScore).toBeLessThanOrEqual(8);
+    expect(result).toMatchObject({ behavioralScore: 8, kennelStressLevel: 'MODERATE' });
+  });
+
+  it('should count mild stress without raising the reason', () => {
+    const result = calculateRiskScore(animal([observed(0, 'MILD'), observed(1, 'MILD')]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(result.riskFactors.find(f => f.factor === 'KENNEL_STRESS')).toMatchObject({ reason: null, value: 0.25 });
+    expect(result.riskReasons).not.toContain('KENNEL_STRESS');
+  });
+
+  it('should flag a rising trend before the average catches up', () => {
+    const stress = assessKennelStress([
+      observed(0, 'SEVERE'),
+      observed(1, 'NONE'),
+      observed(2, 'NONE'),
+      observed(3, 'MILD'),
+    ], now);
+    const result = calculateRiskScore(animal([
+      observed(0, 'SEVERE'),
+      observed(1, 'NONE'),
+      observed(2, 'NONE'),
+      observed(3, 'MILD'),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(stress).toMatchObject({ level: 'MILD', latest: 'SEVERE', rising: true, observations: 4 });
+    expect(result.riskReasons).toContain('KENNEL_STRESS');
+    expect(result.riskFactors.find(f => f.factor === 'KENNEL_STRESS')).toMatchObject({
+      explanationKey: 'kennelStress.rising',
+      explanationParams: { level: 'SEVERE' },
+    });
+  });
+
+  it('should raise the factor when enrichment is mostly missing, and cap it at the policy weight', () => {
+    const calm = calculateRiskScore(animal([
+      observed(0, 'NONE', []),
+      observed(1, 'NONE', []),
+      observed(2, 'NONE', ['TOY']),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+    const critical = calculateRiskScore(animal([
+      observed(0, 'CRITICAL', []),
+      observed(1, 'CRITICAL', []),
+      observed(2, 'CRITICAL', []),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(calm.riskFactors.find(f => f.factor === 'KENNEL_STRESS')).toMatchObject({
+      value: 0.25,
+      explanationKey: 'kennelStress.enrichmentDeficit',
+    });
+    expect(calm.enrichmentDeficit).toBe(true);
+    expect(critical.behavioralScore).toBe(DEFAULT_RISK_SCORING_CONFIG.weights.behavioral * 100);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Medical Risk Factor Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import {
+  assessMedicalRecords,
+  calculateRiskScore,
+  publicRiskFactors,
+  publicRiskReasons,
+  visibleRiskFactors,
+  visibleRiskReasons,
+  type MedicalScoringRecord,
+} from '@/services/risk-scoring';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+const animal = (medicalRecords: MedicalScoringRecord[] = []) => ({
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  specialNeeds: null,
+  intakeDate: new Date(now.getTime() - 10 * DAY),
+  medicalRecords,
+});
+
+const record = (overrides: Partial<MedicalScoringRecord> = {}): MedicalScoringRecord => ({
+  diagnosis: null,
+  isTreatable: true,
+  affectsAdoptability: false,
+  followUpRequired: false,
+  followUpDate: null,
+  followUpCompletedAt: null,
+  ...overrides,
+});
+
+describe('Medical Risk Factor', () => {
+  it('should leave the score alone when the records raise no concern', () => {
+    const without = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+    const healthy = calculateRiskScore(animal([
+      record({ diagnosis: 'Healthy. FIV/FeLV negative, heartworm negative' }),
+      record({ followUpRequired: true, followUpDate: new Date(now.getTime() + 14 * DAY) }),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(healthy.urgencyScore).toBe(without.urgencyScore);
+    expect(healthy.riskFactors.map(f => f.factor)).toEqual(['LENGTH_OF_STAY', 'SENIOR', 'SPECIAL_NEEDS']);
+    expect(healthy).toMatchObject({ medicalScore: 0, hasMedicalDeadline: false });
+  });
+
+  it('should add the most serious finding on top, with a reason for each', () => {
+    const base = calculateRiskScore(animal(), DEFAULT_RISK_SCORING_CONFIG, now);
+    const result = calculateRiskScore(animal([
+      record({ diagnosis: 'Heartworm positive (4Dx)', affectsAdoptability: true }),
+      record({ followUpRequired: true, followUpDate: new Date(now.getTime() + 2 * DAY) }),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+    const medical = result.riskFactors.find(f => f.factor === 'MEDICAL');
+
+    expect(medical).toMatchObject({
+      reason: 'HEARTWORM_POSITIVE',
+      weight: 0.2,
+      value: 0.75,
+      contribution: 15,
+      explanationKey: 'medical.heartworm',
+    });
+    expect(result.riskReasons).toEqual(['HEARTWORM_POSITIVE', 'MEDICAL_URGENT']);
+    expect(result.urgencyScore).toBe(base.urgencyScore + 15);
+    expect(result).toMatchObject({ medicalScore: 15, hasMedicalDeadline: true });
+  });
+
+  it('should cap the factor at the policy weight however many findings there are', () => {
+    const result = calculateRiskScore(animal([
+      record({ isTreatable: false, diagnosis: 'FeLV+, heartworm disease' }),
+      record({ affectsAdoptability: true }),
+      record({ followUpRequired: true, followUpDate: new Date(now.getTime() - DAY) }),
+    ]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(result.medicalScore).toBe(DEFAULT_RISK_SCORING_CONFIG.weights.medical * 100);
+    expect(result.riskReasons).toEqual(['MEDICAL_CRITICAL', 'HEARTWORM_POSITIVE', 'FIV_FELV', 'MEDICAL_URGENT']);
+  });
+
+  it('should only count positive test results and open follow-ups', () => {
+    const findings = (records: MedicalScoringRecord[]) =>
+      assessMedicalRecords(records, now).map(f => f.explanationKey);
+
+    expect(findings([record({ diagnosis: 'FIV positive, asymptomatic' })])).toEqual(['medical.fivFelv']);
+    expect(findings([record({ diagnosis: 'Tested positive for FeLV' })])).toEqual(['medical.fivFelv']);
+    expect(findings([record({ diagnosis: 'FIV-/FeLV- snap test' })])).toEqual([]);
+    expect(findings([record({ diagnosis: 'Heartworm test negative' })])).toEqual([]);
+    expect(findings([record({
+      followUpRequired: true,
+      followUpDate: new Date(now.getTime() + DAY),
+      followUpCompletedAt: now,
+    })])).toEqual([]);
+  });
+
+  it('should keep medical reasons and the medical factor out of public views', () => {
+    const result = calculateRiskScore(animal([record({ diagnosis: 'FIV+' })]), DEFAULT_RISK_SCORING_CONFIG, now);
+
+    expect(publicRiskReasons(['LONG_LOS', 'FIV_FELV', 'SENIOR', 'MEDICAL_URGENT'])).toEqual(['LONG_LOS', 'SENIOR']);
+    expect(publicRiskFactors(result.riskFactors).map(f => f.factor)).not.toContain('MEDICAL');
+  });
+
+  it('should show medical details only with medical access, and hold reasons only with hold access', () => {
+    const result = calculateRiskScore(animal([record({ diagnosis: 'FIV+' })]), DEFAULT_RISK_SCORING_CONFIG, now);
+    const reasons = ['LONG_LOS', 'FIV_FELV', 'HOLD_EXPIRING'];
+
+    // e.g. a volunteer, or staff of another organization
+    const animalReadOnly = { medical: false, holds: false };
+    expect(visibleRiskReasons(reasons, animalReadOnly)).toEqual(['LONG_LOS']);
+    expect(visibleRiskFactors(result.riskFactors, animalReadOnly).map(f => f.factor)).not.toContain('MEDICAL');
+
+    expect(visibleRiskReasons(reasons, { medical: true, holds: false })).toEqual(['LONG_LOS', 'FIV_FELV']);
+    expect(visibleRiskReasons(reasons, { medical: false, holds: true })).toEqual(['LONG_LOS', 'HOLD_EXPIRING']);
+    expect(visibleRiskFactors(result.riskFactors, { medical: true, holds: true })).toEqual(result.riskFactors);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Risk Override Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+
+// risk-scoring.ts creates its own client at import time; share the mock
+vi.mock('@prisma/client', async () => {
+  const { prisma } = await import('@shelter-link/database');
+  return { PrismaClient: vi.fn(() => prisma) };
+});
+
+import { endRiskOverride, isOverrideActive, setRiskOverride } from '@/services/risk-overrides';
+import { updateAnimalRiskProfile } from '@/services/risk-scoring';
+import { ValidationError } from '@/lib/errors';
+
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockProfile = prisma.riskProfile as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockOverride = prisma.riskOverride as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockReview = prisma.riskReview as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockSnapshot = prisma.riskScoreSnapshot as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const DAY = 24 * 60 * 60 * 1000;
+const user = { id: 'user-002', name: 'Manager' };
+
+const profile = (overrides = {}) => ({
+  id: 'profile-001',
+  urgencyScore: 45,
+  riskSeverity: 'ELEVATED',
+  calculatedScore: 45,
+  calculatedSeverity: 'ELEVATED',
+  windowStartScore: 45,
+  windowStartedAt: new Date(),
+  isManualOverride: false,
+  overrideExpiresAt: null,
+  ...overrides,
+});
+
+// Adult dog 80 days in care: LONG_LOS under the default policy
+const animal = (riskProfile: unknown) => ({
+  id: 'animal-001',
+  organizationId: 'org-001',
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  specialNeeds: null,
+  intakeDate: new Date(Date.now() - 80 * DAY),
+  riskProfile,
+  organization: { riskPolicy: null },
+});
+
+describe('Risk Override Service', () => {
+  describe('isOverrideActive', () => {
+    it('should honour the expiry', () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+
+      expect(isOverrideActive({ isManualOverride: true, overrideExpiresAt: null }, now)).toBe(true);
+      expect(isOverrideActive({ isManualOverride: true, overrideExpiresAt: new Date('2025-06-02') }, now)).toBe(true);
+      expect(isOverrideActive({ isManualOverride: true, overrideExpiresAt: new Date('2025-05-31') }, now)).toBe(false);
+      expect(isOverrideActive({ isManualOverride: false, overrideExpiresAt: null }, now)).toBe(false);
+    });
+  });
+
+  describe('setRiskOverride', () => {
+    it('should replace the active override and keep the calculated score', async () => {
+      mockAnimal.findUnique.mockResolvedValue({ organizationId: 'org-001', riskProfile: profile() });
+      mockOverride.create.mockImplementation(async ({ data }) => ({ id: 'override-002', ...data }));
+
+      await setRiskOverride('animal-001', {
+        urgencyScore: 85,
+        riskSeverity: 'CRITICAL',
+        reason: 'Kennel stress observed',
+      }, user);
+
+      expect(mockOverride.updateMany).toHaveBeenCalledWith({
+        where: { animalId: 'animal-001', endedAt: null },
+        data: expect.objectContaining({ endReason: 'REPLACED', endedByName: 'Manager' }),
+      });
+      expect(mockOverride.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ urgencyScore: 85, calculatedScore: 45, calculatedSeverity: 'ELEVATED' }),
+      });
+      expect(mockProfile.update).toHaveBeenCalledWith({
+        where: { id: 'profile-001' },
+        data: expect.objectContaining({
+          urgencyScore: 85,
+          riskSeverity: 'CRITICAL',
+          isManualOverride: true,
+          overrideReason: 'Kennel stress observed',
+          criticalConfirmedAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(setRiskOverride('animal-001', {
+        urgencyScore: 85,
+        riskSeverity: 'CRITICAL',
+        reason: 'x',
+        expiresAt: new Date(Date.now() - DAY),
+      }, user)).rejects.toThrow(ValidationError);
+      expect(mockOverride.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endRiskOverride', () => {
+    it('should close the history entry and unflag the profile', async () => {
+      mockOverride.updateMany.mockResolvedValue({ count: 1 });
+      mockProfile.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(endRiskOverride('animal-001', 'CLEARED', 'Manager')).resolves.toBe(true);
+      expect(mockOverride.updateMany).toHaveBeenCalledWith({
+        where: { animalId: 'animal-001', endedAt: null },
+        data: expect.objectContaining({ endReason: 'CLEARED' }),
+      });
+      expect(mockProfile.updateMany).toHaveBeenCalledWith({
+        where: { animalId: 'animal-001' },
+        data: expect.objectContaining({ isManualOverride: false }),
+      });
+    });
+  });
+
+  describe('updateAnimalRiskProfile', () => {
+    it('should keep an active override and store the calculated score next to it', async () => {
+      mockAnimal.findUnique.mockResolvedValue(animal(profile({
+        urgencyScore: 20,
+        riskSeverity: 'MODERATE',
+        isManualOverride: true,
+      })));
+
+      const result = await updateAnimalRiskProfile('animal-001');
+
+      const { update } = mockProfile.upsert.mock.calls[0][0];
+      expect(update).not.toHaveProperty('urgencyScore');
+      expect(update).not.toHaveProperty('riskSeverity');
+      expect(update.calculatedScore).toBe(result.urgencyScore);
+      expect(mockOverride.updateMany).not.toHaveBeenCalled();
+      expect(mockReview.findFirst).not.toHaveBeenCalled();
+      // History follows what the profile shows
+      expect(mockSnapshot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          urgencyScore: 20,
+          riskSeverity: 'MODERATE',
+          calculatedScore: result.urgencyScore,
+          isManualOverride: true,
+        }),
+      });
+    });
+
+    it('should end an expired override and use the calculated score', async () => {
+      mockAnimal.findUnique.mockResolvedValue(animal(profile({
+        urgencyScore: 2,
+        riskSeverity: 'LOW',
+        windowStartScore: 2,
+        isManualOverride: true,
+        overrideExpiresAt: new Date(Date.now() - DAY),
+      })));
+      mockOverride.updateMany.mockResolvedValue({ count: 1 });
+      mockProfile.updateMany.mockResolvedValue({ count: 1 });
+      mockReview.findFirst.mockResolvedValue(null);
+      mockReview.create.mockResolvedValue({ id: 'review-001' });
+      (prisma.riskAlert as any).findMany.mockResolvedValue([]);
+
+      const result = await updateAnimalRiskProfile('animal-001');
+
+      expect(mockOverride.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ endReason: 'EXPIRED' }),
+      }));
+      const { update } = mockProfile.upsert.mock.calls[0][0];
+      expect(update.urgencyScore).toBe(result.urgencyScore);
+      expect(result.riskReasons).toContain('LONG_LOS');
+      // Back from 2 to the calculated score: a jump for human review
+      expect(mockReview.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ previousScore: 2, triggers: '["SCORE_CHANGE"]' }),
+      });
+    });
+  });
+});
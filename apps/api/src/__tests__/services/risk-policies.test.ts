@@ -0,0 +1,163 @@
+/**
+ * Risk Policy Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+import {
+  DEFAULT_RISK_POLICY,
+  createRiskPolicy,
+  lintRiskScoringConfig,
+  publishRiskPolicy,
+  resolveRiskPolicy,
+  selectRiskPolicy,
+  updateRiskPolicyDraft,
+} from '@/services/risk-policies';
+import { InvalidStateError, NotFoundError, ValidationError } from '@/lib/errors';
+
+const mockPolicy = prisma.riskPolicy as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockOrganization = prisma.organization as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const config = (overrides: Record<string, unknown> = {}) => ({
+  ...DEFAULT_RISK_SCORING_CONFIG,
+  ...overrides,
+});
+
+const storedPolicy = (overrides = {}) => ({
+  id: 'policy-001',
+  organizationId: 'org-001',
+  name: 'Summer intake',
+  version: 2,
+  config: JSON.stringify(config({ version: '2' })),
+  status: 'DRAFT',
+  ...overrides,
+});
+
+describe('Risk Policy Service', () => {
+  describe('lintRiskScoringConfig', () => {
+    it('should accept the default config', () => {
+      expect(lintRiskScoringConfig(DEFAULT_RISK_SCORING_CONFIG)).toEqual([]);
+    });
+
+    it('should reject weights above the ethical limits', () => {
+      const violations = lintRiskScoringConfig(config({
+        weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, lengthOfStay: 0.40, adoptability: 0 },
+      }));
+
+      expect(violations).toContainEqual(expect.objectContaining({ path: 'weights.lengthOfStay' }));
+    });
+
+    it('should require weights to sum to 1', () => {
+      const violations = lintRiskScoringConfig(config({
+        weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, medical: 0.10 },
+      }));
+
+      expect(violations).toContainEqual(expect.objectContaining({ path: 'weights' }));
+    });
+
+    it('should require ordered severity thresholds', () => {
+      const violations = lintRiskScoringConfig(config({
+        severityThresholds: { critical: 50, high: 60, elevated: 40, moderate: 20 },
+      }));
+
+      expect(violations).toContainEqual(expect.objectContaining({ path: 'severityThresholds' }));
+    });
+
+    it('should report structural problems with their path', () => {
+      const violations = lintRiskScoringConfig({ weights: { lengthOfStay: 'high' } });
+
+      expect(violations.map(v => v.path)).toContain('weights.lengthOfStay');
+      expect(violations.map(v => v.path)).toContain('severityThresholds');
+    });
+  });
+
+  describe('createRiskPolicy', () => {
+    it('should create the next version of a name as a draft', async () => {
+      mockPolicy.findFirst.mockResolvedValue({ version: 3 });
+      mockPolicy.create.mockImplementation(async ({ data }) => ({ id: 'policy-002', ...data }));
+
+      const policy = await createRiskPolicy({
+        organizationId: 'org-001',
+        name: 'Summer intake',
+        config: DEFAULT_RISK_SCORING_CONFIG,
+        createdBy: { id: 'user-001', name: 'Admin' },
+      });
+
+      expect(policy.version).toBe(4);
+      expect(policy.status).toBe('DRAFT');
+      expect(JSON.parse(policy.config).version).toBe('4');
+    });
+
+    it('should not save an invalid config', async () => {
+      mockPolicy.findFirst.mockResolvedValue(null);
+
+      await expect(createRiskPolicy({
+        organizationId: 'org-001',
+        name: 'Aggressive',
+        config: config({ weights: { ...DEFAULT_RISK_SCORING_CONFIG.weights, capacity: 0.5 } }),
+        createdBy: { id: 'user-001', name: 'Admin' },
+      })).rejects.toThrow(ValidationError);
+      expect(mockPolicy.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRiskPolicyDraft', () => {
+    it('should refuse to edit a published policy', async () => {
+      mockPolicy.findUnique.mockResolvedValue(storedPolicy({ status: 'PUBLISHED' }));
+
+      await expect(updateRiskPolicyDraft('policy-001', { description: 'x' })).rejects.toThrow(InvalidStateError);
+      expect(mockPolicy.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishRiskPolicy', () => {
+    it('should only publish drafts', async () => {
+      mockPolicy.findUnique.mockResolvedValue(storedPolicy({ status: 'PUBLISHED' }));
+      mockPolicy.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(publishRiskPolicy('policy-001')).rejects.toThrow(InvalidStateError);
+      expect(mockPolicy.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'policy-001', status: 'DRAFT' },
+      }));
+    });
+  });
+
+  describe('selectRiskPolicy', () => {
+    it('should select a published policy of the organization', async () => {
+      mockPolicy.findUnique.mockResolvedValue(storedPolicy({ status: 'PUBLISHED' }));
+      mockOrganization.update.mockResolvedValue({});
+
+      const policy = await selectRiskPolicy('org-001', 'policy-001');
+
+      expect(policy).toMatchObject({ id: 'policy-001', algorithmVersion: 'Summer intake@2' });
+      expect(mockOrganization.update).toHaveBeenCalledWith({
+        where: { id: 'org-001' },
+        data: { riskPolicyId: 'policy-001' },
+      });
+    });
+
+    it('should not select drafts or other organizations\' policies', async () => {
+      mockPolicy.findUnique.mockResolvedValueOnce(storedPolicy());
+      await expect(selectRiskPolicy('org-001', 'policy-001')).rejects.toThrow(InvalidStateError);
+
+      mockPolicy.findUnique.mockResolvedValueOnce(storedPolicy({ status: 'PUBLISHED', organizationId: 'org-002' }));
+      await expect(selectRiskPolicy('org-001', 'policy-001')).rejects.toThrow(NotFoundError);
+
+      expect(mockOrganization.update).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the default policy when cleared', async () => {
+      mockOrganization.update.mockResolvedValue({});
+
+      await expect(selectRiskPolicy('org-001', null)).resolves.toBe(DEFAULT_RISK_POLICY);
+    });
+  });
+
+  describe('resolveRiskPolicy', () => {
+    it('should use the default when nothing is selected or the config is unreadable', () => {
+      expect(resolveRiskPolicy(null)).toBe(DEFAULT_RISK_POLICY);
+      expect(resolveRiskPolicy(storedPolicy({ config: '{not json' }))).toBe(DEFAULT_RISK_POLICY);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Organization Risk Recalculation Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+
+// risk-scoring.ts creates its own client at import time; share the mock
+vi.mock('@prisma/client', async () => {
+  const { prisma } = await import('@shelter-link/database');
+  return { PrismaClient: vi.fn(() => prisma) };
+});
+
+import {
+  calculateRiskScore,
+  recalculateOrganizationRiskProfiles,
+  updateAnimalRiskProfile,
+  updateRiskProfileIfInCare,
+} from '@/services/risk-scoring';
+
+type MockModel = Record<string, ReturnType<typeof vi.fn>>;
+
+const mockAnimal = prisma.animal as unknown as MockModel;
+const mockProfile = prisma.riskProfile as unknown as MockModel;
+const mockOverride = prisma.riskOverride as unknown as MockModel;
+const mockReview = prisma.riskReview as unknown as MockModel;
+const mockSnapshot = prisma.riskScoreSnapshot as unknown as MockModel;
+const mockWebhook = prisma.webhook as unknown as MockModel;
+const mockAlert = prisma.riskAlert as unknown as MockModel;
+const mockTransaction = prisma.$transaction as unknown as ReturnType<typeof vi.fn>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * An animal in care `days` days, whose stored profile is from yesterday's
+ * run - what the nightly recalculation sees
+ */
+function inCare(n: number, days: number, riskProfile: Record<string, unknown> | null = null) {
+  const animal = {
+    id: `animal-${String(n).padStart(4, '0')}`,
+    organizationId: 'org-001',
+    species: n % 3 === 0 ? 'CAT' : 'DOG',
+    ageCategory: n % 7 === 0 ? 'SENIOR' : 'ADULT',
+    specialNeeds: n % 11 === 0 ? 'Diabetic' : null,
+    intakeDate: new Date(Date.now() - days * DAY),
+  };
+
+  if (riskProfile) {
+    return { ...animal, riskProfile };
+  }
+
+  const yesterday = calculateRiskScore(animal, undefined, new Date(Date.now() - DAY));
+  return {
+    ...animal,
+    riskProfile: {
+      urgencyScore: yesterday.urgencyScore,
+      riskSeverity: yesterday.riskSeverity,
+      windowStartScore: yesterday.urgencyScore,
+      windowStartedAt: new Date(Date.now() - 2 * DAY),
+      isManualOverride: false,
+      overrideExpiresAt: null,
+    },
+  };
+}
+
+/** Serve animals to the paged findMany and to findUnique */
+function useAnimals(animals: ReturnType<typeof inCare>[]) {
+  mockAnimal.count.mockResolvedValue(animals.length);
+  mockAnimal.findMany.mockImplementation(async ({ where, take }) =>
+    animals.filter(a => !where.id || a.id > where.id.gt).slice(0, take)
+  );
+  mockAnimal.findUnique.mockImplementation(async ({ where }) => {
+    const animal = animals.find(a => a.id === where.id);
+    return animal && { ...animal, organization: { riskPolicy: null } };
+  });
+  mockReview.findMany.mockResolvedValue([]);
+  mockReview.findFirst.mockResolvedValue(null);
+  mockReview.create.mockResolvedValue({ id: 'review-002' });
+  mockWebhook.findMany.mockResolvedValue([]);
+  mockAlert.findMany.mockResolvedValue([]);
+}
+
+/**
+ * Queries sent to the database: every call on a model, except that the
+ * queries of an array transaction go together
+ */
+function countRoundTrips(): number {
+  let calls = 0;
+  for (const model of Object.values(prisma as unknown as Record<string, unknown>)) {
+    if (model && typeof model === 'object') {
+      for (const method of Object.values(model as MockModel)) {
+        calls += method.mock?.calls.length ?? 0;
+      }
+    }
+  }
+  for (const [arg] of mockTransaction.mock.calls) {
+    calls += Array.isArray(arg) ? 1 - arg.length : 1;
+  }
+  return calls;
+}
+
+describe('Organization Risk Recalculation', () => {
+  it('should write a page in one transaction', async () => {
+    useAnimals([
+      inCare(1, 30),
+      inCare(2, 30),
+      // Senior with special needs whose override ran out yesterday
+      inCare(77, 100, {
+        urgencyScore: 10,
+        riskSeverity: 'LOW',
+        windowStartScore: 10,
+        windowStartedAt: new Date(Date.now() - 2 * DAY),
+        isManualOverride: true,
+        overrideExpiresAt: new Date(Date.now() - DAY),
+      }),
+    ]);
+    mockReview.findMany.mockResolvedValue([{ id: 'review-001', animalId: 'animal-0001', triggers: '["CRITICAL"]' }]);
+
+    const result = await recalculateOrganizationRiskProfiles('org-001');
+
+    expect(result).toEqual({ total: 3, updated: 3, errors: [] });
+    expect(mockTransaction).toHaveBeenCalledTimes(1);
+    expect(mockProfile.upsert).toHaveBeenCalledTimes(3);
+    expect(mockSnapshot.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ animalId: 'animal-0001' }),
+        expect.objectContaining({ animalId: 'animal-0002' }),
+        expect.objectContaining({ animalId: 'animal-0077' }),
+      ],
+    });
+    // The two 30-day animals share a daysInShelter update
+    expect(mockAnimal.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['animal-0001', 'animal-0002'] } },
+      data: { daysInShelter: 30 },
+    });
+    expect(mockOverride.updateMany).toHaveBeenCalledWith({
+      where: { animalId: { in: ['animal-0077'] }, endedAt: null },
+      data: expect.objectContaining({ endReason: 'EXPIRED' }),
+    });
+    expect(mockProfile.upsert.mock.calls[2][0].update).toMatchObject({ isManualOverride: false, overrideBy: null });
+    // Pending review kept current; the expired override's jump opens one
+    expect(mockReview.update).toHaveBeenCalledWith({
+      where: { id: 'review-001' },
+      data: expect.objectContaining({ triggers: '["CRITICAL"]' }),
+    });
+    expect(mockReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ animalId: 'animal-0077', previousScore: 10 }),
+    });
+    expect(mockReview.findFirst).not.toHaveBeenCalled();
+    expect(mockAlert.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ animalId: 'animal-0077', previousSeverity: 'LOW' }),
+    });
+  });
+
+  it('should page by id and report progress after every page', async () => {
+    useAnimals([1, 2, 3, 4, 5].map(n => inCare(n, 10)));
+    const onProgress = vi.fn();
+
+    await recalculateOrganizationRiskProfiles('org-001', { pageSize: 2, onProgress });
+
+    expect(mockAnimal.findMany).toHaveBeenCalledTimes(3);
+    expect(mockAnimal.findMany.mock.calls[1][0].where.id).toEqual({ gt: 'animal-0002' });
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { total: 5, processed: 2, updated: 2, failed: 0 },
+      { total: 5, processed: 4, updated: 4, failed: 0 },
+      { total: 5, processed: 5, updated: 5, failed: 0 },
+    ]);
+  });
+
+  it('should retry a failed page one animal at a time', async () => {
+    useAnimals([inCare(1, 10), inCare(2, 10)]);
+    mockTransaction
+      .mockRejectedValueOnce(new Error('database is locked'))
+      .mockRejectedValueOnce(new Error('CHECK constraint failed'));
+
+    const result = await recalculateOrganizationRiskProfiles('org-001');
+
+    expect(result).toEqual({
+      total: 2,
+      updated: 1,
+      errors: [{ animalId: 'animal-0001', message: 'CHECK constraint failed' }],
+    });
+  });
+
+  it('should leave the profile of an animal that has left care alone', async () => {
+    useAnimals([inCare(1, 30)]);
+    vi.clearAllMocks();
+
+    await updateRiskProfileIfInCare({ id: 'animal-0001', status: 'ADOPTED' });
+    expect(mockAnimal.findUnique).not.toHaveBeenCalled();
+    expect(mockProfile.upsert).not.toHaveBeenCalled();
+
+    await updateRiskProfileIfInCare({ id: 'animal-0001', status: 'AVAILABLE' });
+    expect(mockAnimal.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recalculate a 2,000-animal shelter in far fewer round trips', async () => {
+    // A county shelter; stays up to ~4 months
+    const animals = Array.from({ length: 2000 }, (_, i) => inCare(i + 1, i % 120));
+    useAnimals(animals);
+
+    // Counts queries against the mock, not time: a round trip is what costs
+    // the most against a real database
+    const countQueries = async (recalculate: () => Promise<unknown>) => {
+      vi.clearAllMocks();
+      await recalculate();
+      return countRoundTrips();
+    };
+
+    // What recalculation used to do: one animal after another
+    const oneByOne = await countQueries(async () => {
+      const page = await prisma.animal.findMany({ where: {}, take: animals.length });
+      for (const animal of page) {
+        await updateAnimalRiskProfile(animal.id);
+      }
+    });
+    const batched = await countQueries(() => recalculateOrganizationRiskProfiles('org-001'));
+
+    expect(oneByOne).toBeGreaterThanOrEqual(3 * animals.length);
+    expect(batched).toBeLessThan(oneByOne / 20);
+  });
+});
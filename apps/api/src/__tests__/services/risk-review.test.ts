@@ -0,0 +1,262 @@
+/**
+ * Risk Review Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import {
+  RiskReviewTrigger,
+  detectReviewTriggers,
+  publicRiskScore,
+  publicRiskSeverity,
+  queueRiskReview,
+  resolveRiskReview,
+  type StoredRiskScore,
+} from '@/services/risk-review';
+import { InvalidStateError } from '@/lib/errors';
+
+const mockReview = prisma.riskReview as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockProfile = prisma.riskProfile as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockOrganization = prisma.organization as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockOverride = prisma.riskOverride as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+const hoursBefore = (hours: number) => new Date(now.getTime() - hours * HOUR);
+
+const stored = (overrides: Partial<StoredRiskScore> = {}): StoredRiskScore => ({
+  urgencyScore: 40,
+  riskSeverity: 'ELEVATED',
+  windowStartScore: 40,
+  windowStartedAt: hoursBefore(2),
+  ...overrides,
+});
+
+const check = (overrides: Partial<Parameters<typeof detectReviewTriggers>[0]> = {}) =>
+  detectReviewTriggers({
+    previous: stored(),
+    urgencyScore: 40,
+    riskSeverity: 'ELEVATED',
+    intakeDate: hoursBefore(30 * 24),
+    missingFields: [],
+    now,
+    ...overrides,
+  });
+
+const pendingReview = (overrides = {}) => ({
+  id: 'review-001',
+  animalId: 'animal-001',
+  organizationId: 'org-001',
+  triggers: JSON.stringify(['CRITICAL']),
+  status: 'PENDING',
+  newScore: 85,
+  newSeverity: 'CRITICAL',
+  animal: { riskProfile: { id: 'profile-001', urgencyScore: 85, riskSeverity: 'CRITICAL' } },
+  ...overrides,
+});
+
+describe('Risk Review Service', () => {
+  describe('detectReviewTriggers', () => {
+    it('should flag a jump of more than 20 points within 24 hours', () => {
+      expect(check({ urgencyScore: 61, riskSeverity: 'HIGH' }).triggers).toContain(RiskReviewTrigger.SCORE_CHANGE);
+      expect(check({ urgencyScore: 60, riskSeverity: 'HIGH' }).triggers).not.toContain(RiskReviewTrigger.SCORE_CHANGE);
+    });
+
+    it('should add up small changes within the window', () => {
+      const result = check({
+        previous: stored({ urgencyScore: 55, windowStartScore: 35, windowStartedAt: hoursBefore(20) }),
+        urgencyScore: 58,
+        riskSeverity: 'ELEVATED',
+      });
+
+      expect(result.triggers).toContain(RiskReviewTrigger.SCORE_CHANGE);
+      expect(result.window).toEqual({ windowStartScore: 35, windowStartedAt: hoursBefore(20) });
+    });
+
+    it('should start a new window after 24 hours', () => {
+      const result = check({
+        previous: stored({ urgencyScore: 55, windowStartScore: 20, windowStartedAt: hoursBefore(30) }),
+        urgencyScore: 58,
+      });
+
+      expect(result.triggers).toEqual([]);
+      expect(result.window).toEqual({ windowStartScore: 55, windowStartedAt: now });
+    });
+
+    it('should flag animals crossing into CRITICAL, once', () => {
+      expect(check({ urgencyScore: 58, riskSeverity: 'CRITICAL' }).triggers).toContain(RiskReviewTrigger.CRITICAL);
+      expect(check({
+        previous: stored({ urgencyScore: 85, riskSeverity: 'CRITICAL', windowStartScore: 85 }),
+        urgencyScore: 90,
+        riskSeverity: 'CRITICAL',
+      }).triggers).toEqual([]);
+    });
+
+    it('should flag incomplete data and the stabilization period only when the score would drive action', () => {
+      const fresh = { intakeDate: hoursBefore(10), missingFields: ['ageCategory'] };
+
+      expect(check({ ...fresh, previous: null, urgencyScore: 30, riskSeverity: 'ELEVATED' }).triggers).toEqual([]);
+      expect(check({ ...fresh, previous: null, urgencyScore: 65, riskSeverity: 'HIGH' }).triggers).toEqual([
+        RiskReviewTrigger.INCOMPLETE_DATA,
+        RiskReviewTrigger.STABILIZATION,
+      ]);
+      // Unchanged severity: already reviewed
+      expect(check({
+        ...fresh,
+        previous: stored({ urgencyScore: 64, riskSeverity: 'HIGH', windowStartScore: 64 }),
+        urgencyScore: 65,
+        riskSeverity: 'HIGH',
+      }).triggers).toEqual([]);
+    });
+  });
+
+  describe('queueRiskReview', () => {
+    const input = {
+      animalId: 'animal-001',
+      organizationId: 'org-001',
+      previous: stored(),
+      urgencyScore: 85,
+      riskSeverity: 'CRITICAL' as const,
+      missingFields: [],
+    };
+
+    it('should open a review with the previous and new scores', async () => {
+      mockReview.findFirst.mockResolvedValue(null);
+      mockReview.create.mockImplementation(async ({ data }) => ({ id: 'review-001', ...data }));
+
+      await queueRiskReview({ ...input, triggers: [RiskReviewTrigger.CRITICAL] });
+
+      expect(mockReview.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          previousScore: 40,
+          previousSeverity: 'ELEVATED',
+          newScore: 85,
+          newSeverity: 'CRITICAL',
+          triggers: '["CRITICAL"]',
+        }),
+      });
+    });
+
+    it('should merge into the pending review', async () => {
+      mockReview.findFirst.mockResolvedValue(pendingReview());
+
+      await queueRiskReview({ ...input, urgencyScore: 88, triggers: [RiskReviewTrigger.SCORE_CHANGE] });
+
+      expect(mockReview.create).not.toHaveBeenCalled();
+      expect(mockReview.update).toHaveBeenCalledWith({
+        where: { id: 'review-001' },
+        data: expect.objectContaining({ newScore: 88, triggers: '["CRITICAL","SCORE_CHANGE"]' }),
+      });
+    });
+
+    it('should not open a review without triggers', async () => {
+      mockReview.findFirst.mockResolvedValue(null);
+
+      await expect(queueRiskReview({ ...input, triggers: [] })).resolves.toBeNull();
+      expect(mockReview.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publicRiskSeverity', () => {
+    it('should hold back unconfirmed CRITICAL badges', () => {
+      expect(publicRiskSeverity({ riskSeverity: 'CRITICAL', criticalConfirmedAt: null })).toBe('HIGH');
+      expect(publicRiskSeverity({ riskSeverity: 'CRITICAL', criticalConfirmedAt: now })).toBe('CRITICAL');
+      expect(publicRiskSeverity({ riskSeverity: 'ELEVATED', criticalConfirmedAt: null })).toBe('ELEVATED');
+    });
+  });
+
+  describe('publicRiskScore', () => {
+    it('should hold an unconfirmed CRITICAL score below the critical threshold', () => {
+      // Default policy: critical from 56
+      const config = DEFAULT_RISK_SCORING_CONFIG;
+
+      expect(publicRiskScore({ urgencyScore: 68, riskSeverity: 'CRITICAL', criticalConfirmedAt: null }, config)).toBe(55);
+      expect(publicRiskScore({ urgencyScore: 68, riskSeverity: 'CRITICAL', criticalConfirmedAt: now }, config)).toBe(68);
+      expect(publicRiskScore({ urgencyScore: 50, riskSeverity: 'HIGH', criticalConfirmedAt: null }, config)).toBe(50);
+    });
+  });
+
+  describe('resolveRiskReview', () => {
+    const reviewer = { id: 'user-002', name: 'Manager' };
+
+    it('should confirm a CRITICAL score for public display', async () => {
+      mockReview.findUnique.mockResolvedValue(pendingReview());
+      mockReview.updateMany.mockResolvedValue({ count: 1 });
+
+      await resolveRiskReview('review-001', { action: 'CONFIRM', note: 'Seen him, agreed' }, reviewer);
+
+      expect(mockReview.updateMany).toHaveBeenCalledWith({
+        where: { id: 'review-001', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'CONFIRMED', note: 'Seen him, agreed', reviewedByName: 'Manager' }),
+      });
+      expect(mockProfile.update).toHaveBeenCalledWith({
+        where: { id: 'profile-001' },
+        data: { criticalConfirmedAt: expect.any(Date) },
+      });
+    });
+
+    it('should keep an adjusted score as an override with the policy severity', async () => {
+      const expiresAt = new Date(Date.now() + 7 * 24 * HOUR);
+      mockReview.findUnique.mockResolvedValue(pendingReview());
+      mockReview.updateMany.mockResolvedValue({ count: 1 });
+      mockOrganization.findUnique.mockResolvedValue({ riskPolicy: null });
+
+      await resolveRiskReview('review-001', {
+        action: 'ADJUST',
+        note: 'Foster found',
+        adjustedScore: 50,
+        expiresAt,
+      }, reviewer);
+
+      expect(mockReview.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'ADJUSTED', adjustedScore: 50, adjustedSeverity: 'HIGH' }),
+      }));
+      expect(mockOverride.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          animalId: 'animal-001',
+          urgencyScore: 50,
+          riskSeverity: 'HIGH',
+          reason: 'Foster found',
+          expiresAt,
+          calculatedScore: 85,
+        }),
+      });
+      expect(mockProfile.update).toHaveBeenCalledWith({
+        where: { id: 'profile-001' },
+        data: expect.objectContaining({
+          urgencyScore: 50,
+          riskSeverity: 'HIGH',
+          isManualOverride: true,
+          overrideExpiresAt: expiresAt,
+          criticalConfirmedAt: null,
+        }),
+      });
+    });
+
+    it('should leave the profile alone when dismissed', async () => {
+      mockReview.findUnique.mockResolvedValue(pendingReview());
+      mockReview.updateMany.mockResolvedValue({ count: 1 });
+
+      await resolveRiskReview('review-001', { action: 'DISMISS', note: 'Data entry error' }, reviewer);
+
+      expect(mockProfile.update).not.toHaveBeenCalled();
+    });
+
+    it('should not resolve a review twice', async () => {
+      mockReview.findUnique.mockResolvedValue(pendingReview({ status: 'CONFIRMED' }));
+      await expect(resolveRiskReview('review-001', { action: 'DISMISS', note: 'x' }, reviewer))
+        .rejects.toThrow(InvalidStateError);
+
+      mockReview.findUnique.mockResolvedValue(pendingReview());
+      mockReview.updateMany.mockResolvedValue({ count: 0 });
+      await expect(resolveRiskReview('review-001', { action: 'CONFIRM', note: 'x' }, reviewer))
+        .rejects.toThrow(InvalidStateError);
+      expect(mockProfile.update).not.toHaveBeenCalled();
+    });
+  });
+});
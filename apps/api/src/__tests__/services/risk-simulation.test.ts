@@ -0,0 +1,120 @@
+/**
+ * Risk Policy Simulation Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_RISK_SCORING_CONFIG } from '@shelter-link/types';
+
+// risk-scoring.ts creates its own client at import time
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+import { simulateRiskPolicy, type SimulationAnimal } from '@/services/risk-simulation';
+import { DEFAULT_RISK_POLICY, type ResolvedRiskPolicy } from '@/services/risk-policies';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+const daysBefore = (days: number) => new Date(now.getTime() - days * DAY);
+
+const candidate: ResolvedRiskPolicy = {
+  id: 'policy-002',
+  algorithmVersion: 'Lower thresholds@1',
+  config: {
+    ...DEFAULT_RISK_SCORING_CONFIG,
+    severityThresholds: { critical: 70, high: 50, elevated: 30, moderate: 10 },
+  },
+};
+
+const animal = (overrides: Partial<SimulationAnimal> = {}): SimulationAnimal => ({
+  id: 'animal-001',
+  status: 'AVAILABLE',
+  species: 'DOG',
+  ageCategory: 'ADULT',
+  size: 'MEDIUM',
+  specialNeeds: null,
+  medicalRecords: [],
+  kennelObservations: [],
+  holds: [],
+  intakeDate: daysBefore(70),
+  outcomeDate: null,
+  intakeType: 'STRAY',
+  baseline: DEFAULT_RISK_POLICY,
+  ...overrides,
+});
+
+describe('Risk Policy Simulation', () => {
+  it('should build severity migration matrices for current and historical animals', () => {
+    const result = simulateRiskPolicy([
+      animal(),
+      animal({
+        id: 'animal-002',
+        status: 'ADOPTED',
+        intakeDate: daysBefore(100),
+        outcomeDate: daysBefore(80),
+        intakeType: 'OWNER_SURRENDER',
+      }),
+    ], candidate, now);
+
+    expect(result.totals).toEqual({ animals: 2, current: 1, historical: 1 });
+    expect(result.severityMatrices.current.MODERATE.ELEVATED).toBe(1);
+    // Scored as of adoption (20 days in care), not 100 days ago
+    expect(result.severityMatrices.historical.LOW.MODERATE).toBe(1);
+    expect(result.severityMatrices.all.MODERATE.ELEVATED + result.severityMatrices.all.LOW.MODERATE).toBe(2);
+    expect(result.severityChanges).toEqual({ unchanged: 0, escalated: 2, deescalated: 0 });
+  });
+
+  it('should report score deltas', () => {
+    const result = simulateRiskPolicy([animal(), animal({ id: 'animal-002' })], DEFAULT_RISK_POLICY, now);
+
+    expect(result.scoreDeltas).toMatchObject({ mean: 0, median: 0, min: 0, max: 0 });
+    expect(result.scoreDeltas.distribution.find(b => b.range === '0')?.count).toBe(2);
+    expect(result.severityChanges.unchanged).toBe(2);
+  });
+
+  it('should break results down by species, age, size and intake type', () => {
+    const result = simulateRiskPolicy([
+      animal(),
+      animal({ id: 'animal-002', species: 'CAT', size: null, intakeType: null }),
+      animal({ id: 'animal-003', species: 'CAT', ageCategory: 'SENIOR' }),
+    ], candidate, now);
+
+    expect(result.breakdowns.species.map(g => [g.key, g.count])).toEqual([['CAT', 2], ['DOG', 1]]);
+    expect(result.breakdowns.ageCategory.find(g => g.key === 'SENIOR')?.count).toBe(1);
+    expect(result.breakdowns.size.find(g => g.key === 'UNKNOWN')?.count).toBe(1);
+    expect(result.breakdowns.intakeType.find(g => g.key === 'STRAY')?.count).toBe(2);
+    expect(result.candidate).toEqual({ id: 'policy-002', algorithmVersion: 'Lower thresholds@1' });
+    expect(result.baselineVersions).toEqual([DEFAULT_RISK_POLICY.algorithmVersion]);
+  });
+
+  it('should score past animals only on the records on file at their outcome', () => {
+    const adopted = animal({
+      id: 'animal-002',
+      status: 'ADOPTED',
+      intakeDate: daysBefore(100),
+      outcomeDate: daysBefore(80),
+    });
+    const later = {
+      medicalRecords: [{
+        date: daysBefore(10),
+        diagnosis: 'Chronic renal disease',
+        isTreatable: false,
+        affectsAdoptability: true,
+        followUpRequired: false,
+        followUpDate: null,
+        followUpCompletedAt: null,
+      }],
+      kennelObservations: [
+        { observedAt: daysBefore(10), stressLevel: 'CRITICAL', enrichment: '[]' },
+        { observedAt: daysBefore(11), stressLevel: 'CRITICAL', enrichment: '[]' },
+      ],
+    };
+
+    const [withLater, without] = [
+      simulateRiskPolicy([{ ...adopted, ...later }], DEFAULT_RISK_POLICY, now),
+      simulateRiskPolicy([adopted], DEFAULT_RISK_POLICY, now),
+    ];
+
+    expect(withLater.severityMatrices).toEqual(without.severityMatrices);
+    expect(withLater.breakdowns.species[0].meanBaselineScore)
+      .toBe(without.breakdowns.species[0].meanBaselineScore);
+  });
+});
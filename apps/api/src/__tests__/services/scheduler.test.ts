@@ -0,0 +1,220 @@
+/**
+ * Job Scheduler Unit Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { prisma } from '@shelter-link/database';
+
+// risk-scoring.ts creates its own client at import time; share the mock
+vi.mock('@prisma/client', async () => {
+  const { prisma } = await import('@shelter-link/database');
+  return { PrismaClient: vi.fn(() => prisma) };
+});
+
+import { getNextCronDate, parseCronExpression } from '@/lib/cron';
+import {
+  INSTANCE_ID,
+  acquireJobLock,
+  registerJob,
+  runDueJobs,
+  runJob,
+  unregisterJob,
+  type ScheduledJob,
+} from '@/services/scheduler';
+import { recalculateAllRiskProfiles } from '@/services/scheduled-jobs';
+
+const mockLock = prisma.jobLock as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockRun = prisma.jobRun as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockOrganization = prisma.organization as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockAnimal = prisma.animal as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const at = (iso: string) => new Date(iso);
+
+const testJob = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  name: 'test-job',
+  description: 'Test',
+  schedule: '0 3 * * *',
+  lockTtlMs: 60_000,
+  run: vi.fn().mockResolvedValue({ processed: 2, succeeded: 2, failed: 0, errors: [] }),
+  ...overrides,
+});
+
+describe('Job Scheduler', () => {
+  afterEach(() => {
+    unregisterJob('test-job');
+  });
+
+  describe('cron expressions', () => {
+    it('should find the next matching minute in UTC', () => {
+      expect(getNextCronDate('0 3 * * *', at('2025-06-01T02:59:30Z')).toISOString()).toBe('2025-06-01T03:00:00.000Z');
+      // Strictly after: the same minute rolls to the next day
+      expect(getNextCronDate('0 3 * * *', at('2025-06-01T03:00:00Z')).toISOString()).toBe('2025-06-02T03:00:00.000Z');
+      expect(getNextCronDate('*/15 * * * *', at('2025-06-01T10:07:00Z')).toISOString()).toBe('2025-06-01T10:15:00.000Z');
+      expect(getNextCronDate('30 9 1 1 *', at('2025-06-01T00:00:00Z')).toISOString()).toBe('2026-01-01T09:30:00.000Z');
+    });
+
+    it('should handle day-of-week, with 7 as Sunday', () => {
+      // 2025-06-01 is a Sunday
+      expect(getNextCronDate('0 0 * * 1-5', at('2025-05-31T12:00:00Z')).toISOString()).toBe('2025-06-02T00:00:00.000Z');
+      expect(getNextCronDate('0 0 * * 7', at('2025-05-31T12:00:00Z')).toISOString()).toBe('2025-06-01T00:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th, or any Monday
+      expect(getNextCronDate('0 0 15 * 1', at('2025-06-03T00:00:00Z')).toISOString()).toBe('2025-06-09T00:00:00.000Z');
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('0 3 * *')).toThrow('5 fields');
+      expect(() => parseCronExpression('60 3 * * *')).toThrow('minute');
+      expect(() => parseCronExpression('0 3 * * mon')).toThrow('day of week');
+      expect(() => getNextCronDate('0 0 31 2 *', at('2025-01-01T00:00:00Z'))).toThrow('never matches');
+    });
+  });
+
+  describe('acquireJobLock', () => {
+    it('should claim the slot only when it is newer and unlocked', async () => {
+      mockLock.updateMany.mockResolvedValue({ count: 1 });
+      const now = at('2025-06-01T03:00:05Z');
+      const slot = at('2025-06-01T03:00:00Z');
+
+      await expect(acquireJobLock('test-job', slot, 60_000, now)).resolves.toBe(true);
+
+      expect(mockLock.updateMany).toHaveBeenCalledWith({
+        where: {
+          jobName: 'test-job',
+          AND: [
+            { OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: slot } }] },
+            { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+          ],
+        },
+        data: {
+          lockedBy: INSTANCE_ID,
+          lockedUntil: at('2025-06-01T03:01:05Z'),
+          lastScheduledFor: slot,
+        },
+      });
+    });
+
+    it('should tolerate another instance creating the lock row first', async () => {
+      mockLock.upsert.mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+      mockLock.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(acquireJobLock('test-job', new Date(), 60_000)).resolves.toBe(false);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should record the run with its counts and release the lock', async () => {
+      const job = testJob({
+        run: vi.fn().mockResolvedValue({
+          processed: 3,
+          succeeded: 2,
+          failed: 1,
+          errors: [{ ref: 'animal-003', message: 'boom' }],
+        }),
+      });
+      registerJob(job);
+      mockLock.updateMany.mockResolvedValue({ count: 1 });
+      mockRun.create.mockResolvedValue({ id: 'run-001' });
+      mockRun.update.mockImplementation(async ({ data }) => ({ id: 'run-001', ...data }));
+
+      const run = await runJob('test-job', { scheduledFor: at('2025-06-01T03:00:00Z') });
+
+      expect(job.run).toHaveBeenCalledWith({ runId: 'run-001', scheduledFor: at('2025-06-01T03:00:00Z') });
+      expect(run).toMatchObject({
+        status: 'PARTIAL',
+        processed: 3,
+        failed: 1,
+        errors: '[{"ref":"animal-003","message":"boom"}]',
+      });
+      // Last updateMany is the release
+      expect(mockLock.updateMany).toHaveBeenLastCalledWith({
+        where: { jobName: 'test-job', lockedBy: INSTANCE_ID },
+        data: { lockedBy: null, lockedUntil: null },
+      });
+    });
+
+    it('should skip a slot another instance holds', async () => {
+      const job = testJob();
+      registerJob(job);
+      mockLock.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(runJob('test-job')).resolves.toBeNull();
+      expect(job.run).not.toHaveBeenCalled();
+      expect(mockRun.create).not.toHaveBeenCalled();
+    });
+
+    it('should mark the run failed when the job throws', async () => {
+      registerJob(testJob({ run: vi.fn().mockRejectedValue(new Error('database is locked')) }));
+      mockLock.updateMany.mockResolvedValue({ count: 1 });
+      mockRun.create.mockResolvedValue({ id: 'run-002' });
+
+      await runJob('test-job');
+
+      expect(mockRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-002' },
+        data: expect.objectContaining({ status: 'FAILED', error: 'database is locked' }),
+      });
+      expect(mockLock.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: { lockedBy: null, lockedUntil: null },
+      }));
+    });
+  });
+
+  describe('runDueJobs', () => {
+    it('should run jobs whose slot has come and schedule the next one', async () => {
+      const job = testJob();
+      registerJob(job, at('2025-06-01T02:00:00Z'));
+      mockLock.updateMany.mockResolvedValue({ count: 1 });
+      mockRun.create.mockResolvedValue({ id: 'run-003' });
+      mockRun.update.mockResolvedValue({ id: 'run-003' });
+
+      await expect(runDueJobs(at('2025-06-01T02:59:00Z'))).resolves.toBe(0);
+      expect(job.run).not.toHaveBeenCalled();
+
+      await expect(runDueJobs(at('2025-06-01T03:00:20Z'))).resolves.toBe(1);
+      expect(job.run).toHaveBeenCalledWith(expect.objectContaining({ scheduledFor: at('2025-06-01T03:00:00Z') }));
+
+      // Next slot is tomorrow
+      await runDueJobs(at('2025-06-01T03:01:00Z'));
+      expect(job.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recalculateAllRiskProfiles', () => {
+    it('should recalculate in-care animals of every organization and collect failures', async () => {
+      const inCare = (id: string, organizationId: string) => ({
+        id,
+        organizationId,
+        species: 'DOG',
+        ageCategory: 'ADULT',
+        specialNeeds: null,
+        intakeDate: new Date(),
+        riskProfile: null,
+      });
+      mockOrganization.findMany.mockResolvedValue([{ id: 'org-001' }, { id: 'org-002' }]);
+      mockAnimal.count.mockResolvedValue(1);
+      mockAnimal.findMany
+        .mockResolvedValueOnce([inCare('animal-001', 'org-001')])
+        .mockResolvedValueOnce([inCare('animal-002', 'org-002')]);
+      (prisma.riskReview as any).findMany.mockResolvedValue([]);
+      // org-001's page fails to commit; retried alone, animal-001 is gone
+      (prisma.$transaction as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('database is locked'));
+      mockAnimal.findUnique.mockResolvedValue(null);
+
+      const result = await recalculateAllRiskProfiles({ runId: 'run-004', scheduledFor: new Date() });
+
+      expect(mockOrganization.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: { not: 'INACTIVE' } },
+      }));
+      expect(result).toMatchObject({ processed: 2, succeeded: 1, failed: 1 });
+      expect(result.errors[0]).toEqual({ ref: 'animal-001', message: 'Animal not found: animal-001' });
+      // Progress is stored on the run after each page, across organizations
+      expect(mockRun.update).toHaveBeenLastCalledWith({
+        where: { id: 'run-004' },
+        data: { processed: 2, succeeded: 1, failed: 1 },
+      });
+    });
+  });
+});
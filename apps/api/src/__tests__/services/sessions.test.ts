@@ -0,0 +1,129 @@
+/**
+ * Session Service Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import {
+  createSession,
+  durationToSeconds,
+  hashToken,
+  isSessionActive,
+  revokeAllSessions,
+  rotateSession,
+} from '@/services/sessions';
+import { UnauthorizedError } from '@/lib/errors';
+
+const mockSession = prisma.session as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const future = () => new Date(Date.now() + 60_000);
+
+describe('Session Service', () => {
+  describe('durationToSeconds', () => {
+    it('should parse common units', () => {
+      expect(durationToSeconds('30s')).toBe(30);
+      expect(durationToSeconds('15m')).toBe(900);
+      expect(durationToSeconds('2h')).toBe(7200);
+      expect(durationToSeconds('30d')).toBe(2_592_000);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => durationToSeconds('soon')).toThrow();
+    });
+  });
+
+  describe('createSession', () => {
+    it('should store only the hash of the refresh token', async () => {
+      mockSession.create.mockImplementation(async ({ data }) => ({ id: 'session-001', ...data }));
+
+      const { session, refreshToken } = await createSession('user-001', 'org-001');
+
+      expect(refreshToken).toHaveLength(64);
+      expect(session.refreshTokenHash).toBe(hashToken(refreshToken));
+      expect(JSON.stringify(mockSession.create.mock.calls[0][0])).not.toContain(refreshToken);
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should issue a new refresh token and remember the old hash', async () => {
+      mockSession.findUnique.mockResolvedValue({
+        id: 'session-001',
+        userId: 'user-001',
+        revokedAt: null,
+        expiresAt: future(),
+      });
+      mockSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const { session, refreshToken } = await rotateSession('old-token');
+
+      expect(refreshToken).not.toBe('old-token');
+      const { where, data } = mockSession.updateMany.mock.calls[0][0];
+      expect(where).toEqual({ id: 'session-001', refreshTokenHash: hashToken('old-token'), revokedAt: null });
+      expect(data.previousTokenHash).toBe(hashToken('old-token'));
+      expect(data.refreshTokenHash).toBe(hashToken(refreshToken));
+      expect(session).toMatchObject({ id: 'session-001', userId: 'user-001', refreshTokenHash: hashToken(refreshToken) });
+    });
+
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      mockSession.findUnique.mockResolvedValue({
+        id: 'session-001',
+        userId: 'user-001',
+        revokedAt: null,
+        expiresAt: future(),
+      });
+      mockSession.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      const results = await Promise.allSettled([rotateSession('old-token'), rotateSession('old-token')]);
+
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(UnauthorizedError);
+    });
+
+    it('should reject revoked sessions', async () => {
+      mockSession.findUnique.mockResolvedValue({
+        id: 'session-001',
+        revokedAt: new Date(),
+        expiresAt: future(),
+      });
+
+      await expect(rotateSession('token')).rejects.toThrow(UnauthorizedError);
+      expect(mockSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when a rotated token is replayed', async () => {
+      mockSession.findUnique.mockResolvedValue(null);
+      mockSession.findFirst.mockResolvedValue({ id: 'session-001', userId: 'user-001' });
+      mockSession.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(rotateSession('stolen-token')).rejects.toThrow(UnauthorizedError);
+      expect(mockSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'session-001', revokedAt: null },
+      }));
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should be false once revoked or expired', async () => {
+      mockSession.findUnique.mockResolvedValueOnce({ revokedAt: null, expiresAt: future() });
+      expect(await isSessionActive('a')).toBe(true);
+
+      mockSession.findUnique.mockResolvedValueOnce({ revokedAt: new Date(), expiresAt: future() });
+      expect(await isSessionActive('b')).toBe(false);
+
+      mockSession.findUnique.mockResolvedValueOnce({ revokedAt: null, expiresAt: new Date(0) });
+      expect(await isSessionActive('c')).toBe(false);
+
+      mockSession.findUnique.mockResolvedValueOnce(null);
+      expect(await isSessionActive('d')).toBe(false);
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke every open session of the user', async () => {
+      mockSession.updateMany.mockResolvedValue({ count: 3 });
+
+      expect(await revokeAllSessions('user-001')).toBe(3);
+      expect(mockSession.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user-001', revokedAt: null });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Transfer Lifecycle Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TransferStatus,
+  assertTransferTransition,
+  canTransitionTransfer,
+  isActiveTransfer,
+} from '@/services/transfer-lifecycle';
+import { InvalidStateError } from '@/lib/errors';
+
+describe('Transfer Lifecycle', () => {
+  describe('canTransitionTransfer', () => {
+    it('should follow approve -> schedule -> in transit -> complete', () => {
+      expect(canTransitionTransfer('PENDING', TransferStatus.APPROVED)).toBe(true);
+      expect(canTransitionTransfer('APPROVED', TransferStatus.SCHEDULED)).toBe(true);
+      expect(canTransitionTransfer('SCHEDULED', TransferStatus.IN_TRANSIT)).toBe(true);
+      expect(canTransitionTransfer('IN_TRANSIT', TransferStatus.COMPLETED)).toBe(true);
+    });
+
+    it('should not allow skipping steps', () => {
+      expect(canTransitionTransfer('PENDING', TransferStatus.COMPLETED)).toBe(false);
+      expect(canTransitionTransfer('APPROVED', TransferStatus.IN_TRANSIT)).toBe(false);
+      expect(canTransitionTransfer('PENDING', TransferStatus.SCHEDULED)).toBe(false);
+    });
+
+    it('should allow rescheduling', () => {
+      expect(canTransitionTransfer('SCHEDULED', TransferStatus.SCHEDULED)).toBe(true);
+    });
+
+    it('should only allow declining while pending', () => {
+      expect(canTransitionTransfer('PENDING', TransferStatus.DECLINED)).toBe(true);
+      expect(canTransitionTransfer('APPROVED', TransferStatus.DECLINED)).toBe(false);
+    });
+
+    it('should allow cancelling until the animal is in transit', () => {
+      expect(canTransitionTransfer('PENDING', TransferStatus.CANCELLED)).toBe(true);
+      expect(canTransitionTransfer('APPROVED', TransferStatus.CANCELLED)).toBe(true);
+      expect(canTransitionTransfer('SCHEDULED', TransferStatus.CANCELLED)).toBe(true);
+      expect(canTransitionTransfer('IN_TRANSIT', TransferStatus.CANCELLED)).toBe(false);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(canTransitionTransfer('LOST', TransferStatus.COMPLETED)).toBe(false);
+    });
+  });
+
+  describe('assertTransferTransition', () => {
+    it('should return the new status when allowed', () => {
+      expect(assertTransferTransition('PENDING', TransferStatus.APPROVED)).toBe('APPROVED');
+    });
+
+    it('should throw InvalidStateError for finished transfers', () => {
+      expect(() => assertTransferTransition('COMPLETED', TransferStatus.CANCELLED))
+        .toThrow(InvalidStateError);
+      expect(() => assertTransferTransition('DECLINED', TransferStatus.APPROVED))
+        .toThrow('Transfer is already declined');
+    });
+  });
+
+  describe('isActiveTransfer', () => {
+    it('should treat unfinished transfers as active', () => {
+      expect(isActiveTransfer('PENDING')).toBe(true);
+      expect(isActiveTransfer('SCHEDULED')).toBe(true);
+      expect(isActiveTransfer('IN_TRANSIT')).toBe(true);
+      expect(isActiveTransfer('COMPLETED')).toBe(false);
+      expect(isActiveTransfer('CANCELLED')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Webhook Service Unit Tests
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { prisma } from '@shelter-link/database';
+import {
+  WEBHOOK_RETRY_POLICY,
+  emitWebhookEvent,
+  processWebhookQueue,
+  retryDelayMs,
+  sendWebhookRequest,
+  signWebhookPayload,
+} from '@/services/webhooks';
+
+const mockWebhook = prisma.webhook as unknown as Record<string, ReturnType<typeof vi.fn>>;
+const mockDelivery = prisma.webhookDelivery as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+const webhook = (overrides = {}) => ({
+  id: 'hook-001',
+  organizationId: 'org-001',
+  url: 'https://partner.example.com/hooks',
+  secret: 'whsec_test',
+  headers: JSON.stringify({ 'X-Partner-Id': '42' }),
+  events: JSON.stringify(['animal.created']),
+  isActive: true,
+  ...overrides,
+});
+
+const queuedDelivery = (overrides = {}) => ({
+  id: 'delivery-001',
+  webhookId: 'hook-001',
+  eventType: 'animal.created',
+  payload: '{"event":"animal.created"}',
+  attemptCount: 0,
+  nextAttemptAt: new Date(),
+  webhook: webhook(),
+  ...overrides,
+});
+
+describe('Webhook Service', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with the secret', () => {
+      const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+      expect(signWebhookPayload('whsec_test', '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+      expect(signWebhookPayload('whsec_other', '1700000000', '{"a":1}')).not.toBe(`sha256=${expected}`);
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should back off exponentially up to the cap', () => {
+      expect(retryDelayMs(1)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs);
+      expect(retryDelayMs(2)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs * 2);
+      expect(retryDelayMs(3)).toBe(WEBHOOK_RETRY_POLICY.baseDelayMs * 4);
+      expect(retryDelayMs(30)).toBe(WEBHOOK_RETRY_POLICY.maxDelayMs);
+    });
+  });
+
+  describe('emitWebhookEvent', () => {
+    it('should queue one delivery per subscribed webhook', async () => {
+      mockWebhook.findMany.mockResolvedValue([
+        webhook(),
+        webhook({ id: 'hook-002', events: JSON.stringify(['transfer.requested']) }),
+      ]);
+      mockDelivery.create.mockResolvedValue({});
+
+      const queued = await emitWebhookEvent('org-001', 'animal.created', { animalId: 'animal-001' });
+
+      expect(queued).toBe(1);
+      expect(mockDelivery.create).toHaveBeenCalledTimes(1);
+      const { data } = mockDelivery.create.mock.calls[0][0];
+      expect(data.webhookId).toBe('hook-001');
+      expect(JSON.parse(data.payload)).toMatchObject({
+        event: 'animal.created',
+        organizationId: 'org-001',
+        data: { animalId: 'animal-001' },
+      });
+    });
+
+    it('should never throw', async () => {
+      mockWebhook.findMany.mockRejectedValue(new Error('database down'));
+
+      await expect(emitWebhookEvent('org-001', 'animal.created', {})).resolves.toBe(0);
+    });
+  });
+
+  describe('sendWebhookRequest', () => {
+    it('should send signed headers alongside custom headers', async () => {
+      fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+      const result = await sendWebhookRequest(webhook(), 'delivery-001', 'animal.created', '{"a":1}');
+
+      expect(result).toMatchObject({ success: true, statusCode: 200, responseBody: 'ok' });
+      const [, init] = fetchMock.mock.calls[0];
+      const headers = init.headers as Record<string, string>;
+      expect(headers['X-Partner-Id']).toBe('42');
+      expect(headers['X-ShelterLink-Delivery']).toBe('delivery-001');
+      expect(headers['X-ShelterLink-Signature']).toBe(
+        signWebhookPayload('whsec_test', headers['X-ShelterLink-Timestamp'], '{"a":1}')
+      );
+    });
+
+    it('should report network errors as failures', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const result = await sendWebhookRequest(webhook(), 'delivery-001', 'animal.created', '{}');
+
+      expect(result).toMatchObject({ success: false, error: 'ECONNREFUSED' });
+    });
+  });
+
+  describe('processWebhookQueue', () => {
+    beforeEach(() => {
+      mockDelivery.findMany.mockResolvedValue([{ id: 'delivery-001', status: 'PENDING' }]);
+      mockDelivery.updateMany.mockResolvedValue({ count: 1 });
+      mockDelivery.update.mockResolvedValue({});
+      mockWebhook.update.mockResolvedValue({});
+    });
+
+    it('should mark successful deliveries', async () => {
+      mockDelivery.findUnique.mockResolvedValue(queuedDelivery());
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await expect(processWebhookQueue()).resolves.toBe(1);
+
+      expect(mockDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'SUCCESS', attemptCount: 1, statusCode: 204 }),
+      }));
+    });
+
+    it('should schedule a retry with backoff after a failure', async () => {
+      mockDelivery.findUnique.mockResolvedValue(queuedDelivery({ attemptCount: 2 }));
+      fetchMock.mockResolvedValue(new Response('busy', { status: 503 }));
+
+      const before = Date.now();
+      await processWebhookQueue();
+
+      const { data } = mockDelivery.update.mock.calls[0][0];
+      expect(data.status).toBe('FAILED');
+      expect(data.attemptCount).toBe(3);
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(3));
+      expect(mockWebhook.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ lastStatus: 'FAILED', failureCount: { increment: 1 } }),
+      }));
+    });
+
+    it('should dead-letter a delivery once attempts are exhausted', async () => {
+      mockDelivery.findUnique.mockResolvedValue(
+        queuedDelivery({ attemptCount: WEBHOOK_RETRY_POLICY.maxAttempts - 1 })
+      );
+      fetchMock.mockResolvedValue(new Response('error', { status: 500 }));
+
+      await processWebhookQueue();
+
+      expect(mockDelivery.update.mock.calls[0][0].data.status).toBe('DEAD');
+    });
+
+    it('should skip deliveries claimed by another worker', async () => {
+      mockDelivery.updateMany
+        .mockResolvedValueOnce({ count: 0 }) // stale claim recovery
+        .mockResolvedValueOnce({ count: 0 }); // claim lost
+
+      await expect(processWebhookQueue()).resolves.toBe(0);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -16,13 +16,17 @@ const configSchema = z.object({
     baseUrl: z.string().default('http://localhost:3001'),
   }),
   
+  web: z.object({
+    baseUrl: z.string().default('http://localhost:3000'),
+  }),
+  
   cors: z.object({
     origins: z.array(z.string()).default(['http://localhost:3000']),
   }),
   
   jwt: z.object({
     secret: z.string().min(32),
-    expiresIn: z.string().default('7d'),
+    expiresIn: z.string().default('15m'),
     refreshExpiresIn: z.string().default('30d'),
   }),
   
@@ -48,8 +52,9 @@ const configSchema = z.object({
   }),
   
   email: z.object({
-    provider: z.enum(['smtp', 'sendgrid', 'mailgun']).default('smtp'),
+    provider: z.enum(['smtp', 'file', 'console']).default('console'),
     from: z.string().default('noreply@shelterlink.org'),
+    filePath: z.string().default('./tmp/mail'),
     smtpHost: z.string().optional(),
     smtpPort: z.number().optional(),
     smtpUser: z.string().optional(),
@@ -61,6 +66,12 @@ const configSchema = z.object({
     publicApi: z.boolean().default(true),
     transfers: z.boolean().default(true),
     webhooks: z.boolean().default(true),
+    scheduler: z.boolean().default(true),
+  }),
+  
+  jobs: z.object({
+    /** Cron expression (UTC) for the nightly risk recalculation */
+    riskRecalculationSchedule: z.string().default('0 3 * * *'),
   }),
   
   integrations: z.object({
@@ -87,6 +98,10 @@ function loadConfig(): Config {
       baseUrl: process.env.API_BASE_URL,
     },
     
+    web: {
+      baseUrl: process.env.WEB_BASE_URL,
+    },
+    
     cors: {
       origins: process.env.CORS_ORIGINS?.split(',').map(s => s.trim()),
     },
@@ -119,8 +134,10 @@ function loadConfig(): Config {
     },
     
     email: {
-      provider: process.env.EMAIL_PROVIDER as 'smtp' | 'sendgrid' | 'mailgun',
+      // SMTP when configured, otherwise mail is written to the log
+      provider: (process.env.EMAIL_PROVIDER ?? (process.env.SMTP_HOST ? 'smtp' : undefined)) as 'smtp' | 'file' | 'console',
       from: process.env.EMAIL_FROM,
+      filePath: process.env.EMAIL_FILE_PATH,
       smtpHost: process.env.SMTP_HOST,
       smtpPort: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined,
       smtpUser: process.env.SMTP_USER,
@@ -132,6 +149,11 @@ function loadConfig(): Config {
       publicApi: process.env.FEATURE_PUBLIC_API !== 'false',
       transfers: process.env.FEATURE_TRANSFERS !== 'false',
       webhooks: process.env.FEATURE_WEBHOOKS !== 'false',
+      scheduler: process.env.FEATURE_SCHEDULER !== 'false',
+    },
+    
+    jobs: {
+      riskRecalculationSchedule: process.env.RISK_RECALCULATION_CRON,
     },
     
     integrations: {
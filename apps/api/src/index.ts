@@ -7,8 +7,10 @@
  *   - SQLite database
  *   - Local file storage
  *   - No Redis/caching
- *   - Simplified auth (no refresh tokens)
- *   - Removed import/webhook routes (archived)
+ *   - Simplified auth (JWT + refresh token sessions, org API keys)
+ *   - Removed import routes (archived)
+ *   - Webhook deliveries run in-process (no separate worker)
+ *   - Scheduled jobs run in-process on every instance, locked per slot
  */
 
 import Fastify from 'fastify';
@@ -21,19 +23,38 @@ import fs from 'fs';
 
 import { logger as pinoLogger } from './lib/logger.js';
 import { errorHandler } from './lib/errors.js';
+import { auditMiddleware, auditResponseHook } from './middleware/audit.js';
+import { config } from './config/index.js';
+import { startWebhookWorker, stopWebhookWorker } from './services/webhooks.js';
+import { startScheduler, stopScheduler } from './services/scheduler.js';
+import { registerScheduledJobs } from './services/scheduled-jobs.js';
 
 // Routes
 import { healthRoutes } from './routes/health.js';
 import { authRoutes } from './routes/auth.js';
 import { animalRoutes } from './routes/animals.js';
+import { medicalRoutes } from './routes/medical.js';
+import { behaviorRoutes } from './routes/behavior.js';
+import { kennelObservationRoutes } from './routes/kennel-observations.js';
+import { holdRoutes } from './routes/holds.js';
 import { organizationRoutes } from './routes/organizations.js';
+import { memberRoutes } from './routes/members.js';
+import { apiKeyRoutes } from './routes/api-keys.js';
 import { transferRoutes } from './routes/transfers.js';
 import { riskRoutes } from './routes/risk.js';
+import { riskPolicyRoutes } from './routes/risk-policies.js';
+import { riskReviewRoutes } from './routes/risk-reviews.js';
+import { riskOverrideRoutes } from './routes/risk-overrides.js';
+import { riskAlertRoutes } from './routes/risk-alerts.js';
 import { dataRoutes } from './routes/data.js';
+import { auditRoutes } from './routes/audit.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { jobRoutes } from './routes/jobs.js';
 
 // Environment config
 const PORT = parseInt(process.env.PORT ?? '4000', 10);
 const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production-min-32-chars';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN ?? '15m';
 const CORS_ORIGIN = process.env.CORS_ORIGIN ?? 'http://localhost:3000';
 
 // Create Fastify instance
@@ -63,7 +84,7 @@ async function registerPlugins() {
   await app.register(jwt, {
     secret: JWT_SECRET,
     sign: {
-      expiresIn: '7d',
+      expiresIn: JWT_EXPIRES_IN,
     },
   });
 
@@ -96,10 +117,22 @@ async function registerRoutes() {
   // Animal routes (public read, auth write)
   await app.register(animalRoutes, { prefix: '/api/animals' });
   await app.register(animalRoutes, { prefix: '/animals' });
+  await app.register(medicalRoutes, { prefix: '/api/animals' });
+  await app.register(medicalRoutes, { prefix: '/animals' });
+  await app.register(behaviorRoutes, { prefix: '/api/animals' });
+  await app.register(behaviorRoutes, { prefix: '/animals' });
+  await app.register(kennelObservationRoutes, { prefix: '/api/animals' });
+  await app.register(kennelObservationRoutes, { prefix: '/animals' });
+  await app.register(holdRoutes, { prefix: '/api/animals' });
+  await app.register(holdRoutes, { prefix: '/animals' });
 
   // Organization routes (includes join requests)
   await app.register(organizationRoutes, { prefix: '/api/organizations' });
   await app.register(organizationRoutes, { prefix: '/organizations' });
+  await app.register(memberRoutes, { prefix: '/api/organizations' });
+  await app.register(memberRoutes, { prefix: '/organizations' });
+  await app.register(apiKeyRoutes, { prefix: '/api/organizations' });
+  await app.register(apiKeyRoutes, { prefix: '/organizations' });
 
   // Transfer routes
   await app.register(transferRoutes, { prefix: '/api/transfers' });
@@ -108,12 +141,36 @@ async function registerRoutes() {
   // Risk routes
   await app.register(riskRoutes, { prefix: '/api/risk' });
   await app.register(riskRoutes, { prefix: '/risk' });
+  await app.register(riskPolicyRoutes, { prefix: '/api/risk' });
+  await app.register(riskPolicyRoutes, { prefix: '/risk' });
+  await app.register(riskReviewRoutes, { prefix: '/api/risk' });
+  await app.register(riskReviewRoutes, { prefix: '/risk' });
+  await app.register(riskOverrideRoutes, { prefix: '/api/risk' });
+  await app.register(riskOverrideRoutes, { prefix: '/risk' });
+  await app.register(riskAlertRoutes, { prefix: '/api/risk' });
+  await app.register(riskAlertRoutes, { prefix: '/risk' });
 
   // Data export/import routes
   await app.register(dataRoutes, { prefix: '/api/data' });
   await app.register(dataRoutes, { prefix: '/data' });
+
+  // Audit log routes
+  await app.register(auditRoutes, { prefix: '/api/audit' });
+  await app.register(auditRoutes, { prefix: '/audit' });
+
+  // Webhook routes
+  await app.register(webhookRoutes, { prefix: '/api/webhooks' });
+  await app.register(webhookRoutes, { prefix: '/webhooks' });
+
+  // Scheduled job routes (superadmin)
+  await app.register(jobRoutes, { prefix: '/api/jobs' });
+  await app.register(jobRoutes, { prefix: '/jobs' });
 }
 
+// Audit trail for mutating requests
+app.addHook('onRequest', auditMiddleware);
+app.addHook('onResponse', auditResponseHook);
+
 // Error handler
 app.setErrorHandler(errorHandler);
 
@@ -122,12 +179,22 @@ async function start() {
   try {
     await registerPlugins();
     await registerRoutes();
+    // Registered even with the scheduler off so jobs can be run by hand
+    registerScheduledJobs();
 
     await app.listen({
       port: PORT,
       host: '0.0.0.0',
     });
 
+    if (config.features.webhooks) {
+      startWebhookWorker();
+    }
+
+    if (config.features.scheduler) {
+      startScheduler();
+    }
+
     console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
 ║                                                               ║
@@ -151,6 +218,8 @@ async function start() {
 // Graceful shutdown
 async function shutdown() {
   console.log('Shutting down gracefully...');
+  stopWebhookWorker();
+  stopScheduler();
   await app.close();
   process.exit(0);
 }
@@ -0,0 +1,136 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field expressions (minute hour day-of-month month
+ * day-of-week), evaluated in UTC. Each field accepts `*`, values, ranges
+ * (`1-5`), steps (`*\/15`, `0-30/10`) and comma-separated lists.
+ * Day of week is 0-6 from Sunday; 7 is also Sunday.
+ *
+ * As in cron, when both day fields are restricted a date matches if
+ * either one does.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field was not `*` */
+  restrictsDayOfMonth: boolean;
+  /** Day-of-week field was not `*` */
+  restrictsDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// Searching further than this means the expression never matches (e.g. 31 February)
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(value: string, field: typeof FIELDS[number]): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${field.name}: "${part}"`);
+    }
+
+    let from: number = field.min;
+    let to: number = field.max;
+    if (match[1] !== '*') {
+      const [start, end] = match[1].split('-').map(Number);
+      from = start;
+      // A single value with a step runs to the end of the range, as in cron
+      to = end ?? (match[2] ? field.max : start);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+
+    if (from < field.min || to > field.max || from > to || step < 1) {
+      throw new Error(`Invalid cron ${field.name}: "${part}"`);
+    }
+
+    for (let n = from; n <= to; n += step) {
+      result.add(n);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a five-field cron expression. Throws on invalid input.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields, got ${parts.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: parts[2] !== '*',
+    restrictsDayOfWeek: parts[4] !== '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First time strictly after `after` (to the minute) that matches
+ */
+export function getNextCronDate(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error('Cron expression never matches');
+}
@@ -72,8 +72,8 @@ export class ApiError extends Error {
 
 // Convenience error classes
 export class UnauthorizedError extends ApiError {
-  constructor(message = 'Authentication required') {
-    super(message, ErrorCodes.UNAUTHORIZED, 401);
+  constructor(message = 'Authentication required', details?: Record<string, unknown>) {
+    super(message, ErrorCodes.UNAUTHORIZED, 401, details);
   }
 }
 
@@ -106,6 +106,12 @@ export class ConflictError extends ApiError {
   }
 }
 
+export class InvalidStateError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, ErrorCodes.INVALID_STATE, 409, details);
+  }
+}
+
 export class RateLimitError extends ApiError {
   constructor(retryAfter?: number) {
     super('Rate limit exceeded', ErrorCodes.RATE_LIMITED, 429, { retryAfter });
@@ -145,6 +151,10 @@ export function errorHandler(
       code: error.code,
     }, error.message);
 
+    if (typeof error.details?.retryAfter === 'number') {
+      reply.header('Retry-After', String(error.details.retryAfter));
+    }
+
     return reply.status(error.statusCode).send({
       success: false,
       error: error.toJSON(),
@@ -1,7 +1,13 @@
 /**
  * Audit Middleware
- * 
- * Logs all API requests for security and compliance
+ *
+ * Logs all mutating API requests for security and compliance.
+ *
+ * Registered globally in index.ts: auditMiddleware (onRequest) marks the
+ * request, auditResponseHook (onResponse) writes the AuditLog row once the
+ * request has succeeded. Routes that change animals, transfers or join
+ * requests call setAuditContext() with the record before and after the
+ * change so the log stores a field-level diff.
  */
 
 import type { FastifyRequest, FastifyReply } from 'fastify';
@@ -14,25 +20,96 @@ const logger = createLogger('audit');
 const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
 
 // Paths that should be excluded from audit logs
-const EXCLUDED_PATHS = ['/api/health', '/docs'];
+const EXCLUDED_PATHS = ['/api/health', '/health', '/docs'];
+
+// Fields that never appear in a diff
+const IGNORED_FIELDS = ['updatedAt', 'createdAt', 'passwordHash'];
+
+const DEFAULT_ACTIONS: Record<string, string> = {
+  POST: 'CREATE',
+  PUT: 'UPDATE',
+  PATCH: 'UPDATE',
+  DELETE: 'DELETE',
+};
+
+export type AuditChanges = Record<string, { old: unknown; new: unknown }>;
+
+/**
+ * Details a route attaches to the request for the audit entry
+ */
+export interface AuditContext {
+  resourceType: string;
+  resourceId?: string;
+  /** Overrides the action derived from the HTTP method (e.g. APPROVE) */
+  action?: string;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
 
 /**
  * Extract resource info from URL path
  */
 function extractResourceInfo(url: string): { resourceType: string; resourceId?: string } {
-  const parts = url.split('/').filter(Boolean);
-  
+  const parts = url.split('?')[0].split('/').filter(Boolean);
+
   // Skip 'api' prefix
   if (parts[0] === 'api') {
     parts.shift();
   }
-  
+
   const resourceType = parts[0] ?? 'unknown';
-  const resourceId = parts[1] && !parts[1].startsWith('?') ? parts[1] : undefined;
-  
+  const resourceId = parts[1];
+
   return { resourceType, resourceId };
 }
 
+/**
+ * Normalize a value so dates and JSON-ish values compare by content
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Field-level diff between two versions of a record
+ */
+export function diffRecords(
+  before: object | null | undefined,
+  after: object | null | undefined
+): AuditChanges {
+  const oldRecord = (before ?? {}) as Record<string, unknown>;
+  const newRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)]);
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const oldValue = normalizeValue(oldRecord[field]);
+    const newValue = normalizeValue(newRecord[field]);
+
+    // Nested relations are not diffed, only scalar columns
+    if (typeof oldValue === 'object' && oldValue !== null) continue;
+    if (typeof newValue === 'object' && newValue !== null) continue;
+
+    if (oldValue !== newValue) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Attach audit details to the current request
+ */
+export function setAuditContext(request: FastifyRequest, context: AuditContext) {
+  request.auditContext = { ...request.auditContext, ...context };
+}
+
 /**
  * Audit middleware hook
  */
@@ -44,16 +121,50 @@ export async function auditMiddleware(
   if (!AUDITED_METHODS.includes(request.method)) {
     return;
   }
-  
+
   // Skip excluded paths
   if (EXCLUDED_PATHS.some(path => request.url.startsWith(path))) {
     return;
   }
-  
+
   // Store start time for response timing
   request.auditStartTime = Date.now();
 }
 
+/**
+ * Write the audit entry once the response has been sent.
+ * Failed requests changed nothing and are left to the application log.
+ */
+export async function auditResponseHook(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  if (request.auditStartTime === undefined || reply.statusCode >= 400) {
+    return;
+  }
+
+  const context = request.auditContext;
+  const fromUrl = extractResourceInfo(request.url);
+  const changes = context && (context.before || context.after)
+    ? diffRecords(context.before, context.after)
+    : undefined;
+
+  await createAuditLog(
+    request,
+    context?.action ?? DEFAULT_ACTIONS[request.method],
+    context?.resourceType ?? fromUrl.resourceType,
+    context?.resourceId ?? fromUrl.resourceId,
+    changes,
+    {
+      ...context?.metadata,
+      method: request.method,
+      url: request.url,
+      statusCode: reply.statusCode,
+      durationMs: Date.now() - request.auditStartTime,
+    }
+  );
+}
+
 /**
  * Create audit log entry after request completes
  */
@@ -62,34 +173,34 @@ export async function createAuditLog(
   action: string,
   resourceType: string,
   resourceId?: string,
-  changes?: Record<string, { old: unknown; new: unknown }>,
+  changes?: AuditChanges,
   metadata?: Record<string, unknown>
 ) {
   try {
     const user = request.user;
-    const organization = request.organization;
-    
+
     await prisma.auditLog.create({
       data: {
-        userId: user?.id,
-        organizationId: organization?.id,
+        // API keys are not users; they are recorded in metadata instead
+        userId: user?.apiKeyId ? undefined : user?.id,
+        organizationId: user?.organizationId,
         action,
         resourceType,
         resourceId,
-        changes: changes ? formatChanges(changes) : undefined,
+        changes: changes ? JSON.stringify(formatChanges(changes)) : undefined,
         ipAddress: request.ip,
         userAgent: request.headers['user-agent'],
         requestId: request.id,
-        metadata: metadata ?? {},
+        metadata: JSON.stringify(user?.apiKeyId ? { ...metadata, apiKeyId: user.apiKeyId } : metadata ?? {}),
       },
     });
-    
+
     logger.debug({
       action,
       resourceType,
       resourceId,
       userId: user?.id,
-      organizationId: organization?.id,
+      organizationId: user?.organizationId,
     }, 'Audit log created');
   } catch (error) {
     logger.error({ error }, 'Failed to create audit log');
@@ -99,7 +210,7 @@ export async function createAuditLog(
 /**
  * Format changes for storage
  */
-function formatChanges(changes: Record<string, { old: unknown; new: unknown }>) {
+function formatChanges(changes: AuditChanges) {
   return Object.entries(changes).map(([field, { old: oldValue, new: newValue }]) => ({
     field,
     oldValue,
@@ -107,20 +218,10 @@ function formatChanges(changes: Record<string, { old: unknown; new: unknown }>)
   }));
 }
 
-// Extend FastifyRequest type
+// Extend FastifyRequest type (user is declared in middleware/auth.ts)
 declare module 'fastify' {
   interface FastifyRequest {
     auditStartTime?: number;
-    user?: {
-      id: string;
-      email: string;
-      name: string;
-      role?: string;
-    } | null;
-    organization?: {
-      id: string;
-      name: string;
-      slug: string;
-    } | null;
+    auditContext?: AuditContext;
   }
 }
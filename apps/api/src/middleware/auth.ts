@@ -3,33 +3,62 @@
  * 
  * JWT authentication with optional anonymous access.
  * 
+ * Access tokens are short-lived and tied to a server-side Session
+ * (services/sessions.ts), so logout takes effect immediately.
+ * 
+ * Integrations authenticate with `Authorization: ApiKey <key>` instead
+ * (services/api-keys.ts) and act with only the permissions of their key.
+ * 
+ * Failed sign-ins are throttled in routes/auth.ts (services/login-throttle.ts).
+ * 
  * TODO: Production - Add these features from _archive/routes/auth.ts:
- *   - Refresh tokens and session storage
- *   - API key authentication
  *   - Rate limiting per user
- *   - Account locking on failed attempts
- *   - Audit logging
  */
 
 import type { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
-import { PrismaClient } from '@prisma/client';
 import { UnauthorizedError, ForbiddenError } from '../lib/errors.js';
 import { createLogger } from '../lib/logger.js';
+import { isSessionActive } from '../services/sessions.js';
+import { authenticateApiKey } from '../services/api-keys.js';
+import type { RiskDetailAccess } from '../services/risk-scoring.js';
 
 const logger = createLogger('auth');
-const prisma = new PrismaClient();
-
-// Extend FastifyRequest with user info
-declare module 'fastify' {
-  interface FastifyRequest {
-    user?: {
-      id: string;
-      email: string;
-      name: string;
-      globalRole: string;
-      organizationId?: string;
-      organizationRole?: string;
-    };
+
+/**
+ * Claims carried by an access token
+ */
+export interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  email: string;
+  name: string;
+  globalRole: string;
+  orgId?: string;
+  orgRole?: string;
+}
+
+/**
+ * Authenticated user attached to the request
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  globalRole: string;
+  organizationId?: string;
+  organizationRole?: string;
+  sessionId?: string;
+  /** Set when authenticated with an API key instead of a session */
+  apiKeyId?: string;
+  /** Permissions granted to the API key (replaces role-based checks) */
+  permissions?: Permission[];
+}
+
+// Type request.user and app.jwt.sign() payloads
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    payload: AccessTokenPayload;
+    user: AuthUser;
   }
 }
 
@@ -39,6 +68,16 @@ const PUBLIC_PATHS = [
   '/api/health',
   '/auth/login',
   '/api/auth/login',
+  '/auth/refresh',
+  '/api/auth/refresh',
+  '/auth/invitations',
+  '/api/auth/invitations',
+  '/auth/forgot-password',
+  '/api/auth/forgot-password',
+  '/auth/reset-password',
+  '/api/auth/reset-password',
+  '/auth/verify-email',
+  '/api/auth/verify-email',
   '/organizations/join-request',
   '/api/organizations/join-request',
   '/docs',
@@ -61,6 +100,22 @@ export const Permissions = {
   'animal:write': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
   'animal:delete': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER'],
   
+  // Medical records and vaccinations (staff only; volunteers see the public view)
+  'medical:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  'medical:write': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  
+  // Behavioral assessments (volunteers handling animals need to read them)
+  'behavior:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF', 'VOLUNTEER'],
+  'behavior:write': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  
+  // Kennel observations (logged by staff and volunteers on rounds)
+  'observation:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF', 'VOLUNTEER'],
+  'observation:write': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF', 'VOLUNTEER'],
+  
+  // Stray, legal and quarantine holds (staff only; reasons can carry case details)
+  'hold:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  'hold:write': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  
   // Organization permissions
   'org:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF', 'VOLUNTEER', 'READ_ONLY'],
   'org:write': ['SUPERADMIN', 'OWNER', 'ADMIN'],
@@ -78,10 +133,37 @@ export const Permissions = {
   // Data export/import
   'data:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER'],
   'data:write': ['SUPERADMIN', 'OWNER', 'ADMIN'],
+  
+  // Audit log
+  'audit:read': ['SUPERADMIN', 'OWNER', 'ADMIN'],
+  
+  // Risk scoring policies
+  'risk:policy': ['SUPERADMIN', 'OWNER', 'ADMIN'],
+  'risk:review': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER'],
+  'risk:override': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER'],
+  'risk:alerts': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER', 'STAFF'],
+  
+  // API keys
+  'org:api-keys': ['SUPERADMIN', 'OWNER', 'ADMIN'],
+  
+  // Webhooks
+  'webhook:read': ['SUPERADMIN', 'OWNER', 'ADMIN', 'MANAGER'],
+  'webhook:write': ['SUPERADMIN', 'OWNER', 'ADMIN'],
 } as const;
 
 export type Permission = keyof typeof Permissions;
 
+/**
+ * Permissions an API key may hold: anything an organization role can do,
+ * except managing people and keys
+ */
+export const API_KEY_PERMISSIONS = (Object.keys(Permissions) as Permission[]).filter(
+  (permission) =>
+    permission !== 'org:users' &&
+    permission !== 'org:api-keys' &&
+    Permissions[permission].some(role => role !== 'SUPERADMIN')
+);
+
 /**
  * Check if a role has a permission
  */
@@ -99,6 +181,11 @@ export function userHasPermission(
 ): boolean {
   if (!request.user) return false;
   
+  // API keys hold an explicit permission list
+  if (request.user.apiKeyId) {
+    return request.user.permissions?.includes(permission) ?? false;
+  }
+  
   // SUPERADMIN can do anything
   if (request.user.globalRole === 'SUPERADMIN') return true;
   
@@ -110,6 +197,66 @@ export function userHasPermission(
   return false;
 }
 
+/**
+ * Check a permission over a record of `organizationId`. Staff of other
+ * organizations may read shared animals but not their records.
+ */
+export function userHasOrganizationPermission(
+  request: FastifyRequest,
+  organizationId: string,
+  permission: Permission
+): boolean {
+  return request.user?.organizationId === organizationId && userHasPermission(request, permission);
+}
+
+/**
+ * Which medical and hold details of an animal's risk profile the caller may see
+ */
+export function riskDetailAccess(request: FastifyRequest, organizationId: string): RiskDetailAccess {
+  return {
+    medical: userHasOrganizationPermission(request, organizationId, 'medical:read'),
+    holds: userHasOrganizationPermission(request, organizationId, 'hold:read'),
+  };
+}
+
+/**
+ * Verify the bearer token and its session, returning the user it belongs to
+ */
+async function verifyAccessToken(request: FastifyRequest): Promise<AuthUser> {
+  let decoded: AccessTokenPayload;
+  try {
+    decoded = await request.jwtVerify<AccessTokenPayload>();
+  } catch (error) {
+    logger.debug({ error }, 'JWT verification failed');
+    throw new UnauthorizedError('Invalid or expired token');
+  }
+
+  // Tokens issued before sessions existed carry no sid
+  if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  return {
+    id: decoded.sub,
+    email: decoded.email,
+    name: decoded.name,
+    globalRole: decoded.globalRole,
+    organizationId: decoded.orgId,
+    organizationRole: decoded.orgRole,
+    sessionId: decoded.sid,
+  };
+}
+
+/**
+ * Resolve the user for a Bearer token or an API key
+ */
+function authenticate(request: FastifyRequest, authHeader: string): Promise<AuthUser> {
+  if (authHeader.startsWith('ApiKey ')) {
+    return authenticateApiKey(authHeader.slice('ApiKey '.length).trim());
+  }
+  return verifyAccessToken(request);
+}
+
 /**
  * Optional auth middleware - sets user if token present, but doesn't require it
  */
@@ -117,30 +264,14 @@ export function optionalAuth(): preHandlerHookHandler {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     const authHeader = request.headers.authorization;
     
-    if (!authHeader?.startsWith('Bearer ')) {
+    if (!authHeader?.startsWith('Bearer ') && !authHeader?.startsWith('ApiKey ')) {
       // No token - continue as anonymous
       request.user = undefined;
       return;
     }
     
     try {
-      const decoded = await request.jwtVerify<{
-        sub: string;
-        email: string;
-        name: string;
-        globalRole: string;
-        orgId?: string;
-        orgRole?: string;
-      }>();
-      
-      request.user = {
-        id: decoded.sub,
-        email: decoded.email,
-        name: decoded.name,
-        globalRole: decoded.globalRole,
-        organizationId: decoded.orgId,
-        organizationRole: decoded.orgRole,
-      };
+      request.user = await authenticate(request, authHeader);
     } catch (error) {
       // Invalid token - continue as anonymous
       logger.debug({ error }, 'Invalid token, continuing as anonymous');
@@ -156,32 +287,11 @@ export function requireAuth(): preHandlerHookHandler {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     const authHeader = request.headers.authorization;
     
-    if (!authHeader?.startsWith('Bearer ')) {
+    if (!authHeader?.startsWith('Bearer ') && !authHeader?.startsWith('ApiKey ')) {
       throw new UnauthorizedError('Authentication required');
     }
     
-    try {
-      const decoded = await request.jwtVerify<{
-        sub: string;
-        email: string;
-        name: string;
-        globalRole: string;
-        orgId?: string;
-        orgRole?: string;
-      }>();
-      
-      request.user = {
-        id: decoded.sub,
-        email: decoded.email,
-        name: decoded.name,
-        globalRole: decoded.globalRole,
-        organizationId: decoded.orgId,
-        organizationRole: decoded.orgRole,
-      };
-    } catch (error) {
-      logger.error({ error }, 'JWT verification failed');
-      throw new UnauthorizedError('Invalid or expired token');
-    }
+    request.user = await authenticate(request, authHeader);
   };
 }
 
@@ -11,22 +11,47 @@
  * 
  * TODO: Production - Add from original:
  *   - Microchip management
- *   - Medical records integration
- *   - Behavioral assessments
  *   - Full event sourcing
  */
 
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import type { RiskScoringConfig } from '@shelter-link/types';
 import path from 'path';
 import fs from 'fs/promises';
 import { pipeline } from 'stream/promises';
 import { createWriteStream } from 'fs';
-import { NotFoundError, ForbiddenError, ValidationError } from '../lib/errors.js';
+import { NotFoundError, ForbiddenError, InvalidStateError, ValidationError } from '../lib/errors.js';
 import { createLogger } from '../lib/logger.js';
-import { optionalAuth, requireAuth, requirePermission, requireOrganization, userHasPermission } from '../middleware/auth.js';
-import { updateAnimalRiskProfile, calculateRiskScore } from '../services/risk-scoring.js';
+import {
+  optionalAuth,
+  requireAuth,
+  requirePermission,
+  requireOrganization,
+  riskDetailAccess,
+  userHasPermission,
+} from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  updateAnimalRiskProfile,
+  calculateRiskScore,
+  isRiskDeadlineVisible,
+  visibleRiskReasons,
+} from '../services/risk-scoring.js';
+import { emitWebhookEvent } from '../services/webhooks.js';
+import { publicRiskScore, publicRiskSeverity } from '../services/risk-review.js';
+import { getOrganizationRiskPolicy } from '../services/risk-policies.js';
+import { PUBLIC_PLACEMENT_FILTER, assertAdoptable, isHiddenFromPublic } from '../services/behavior.js';
+import { activeHoldFilter, assertNoBlockingHold, formatHold } from '../services/holds.js';
+import {
+  AnimalStatus,
+  PUBLIC_LISTING_STATUSES,
+  OUTCOME_STATUSES,
+  assertStatusTransition,
+  statusForOutcome,
+} from '../services/animal-lifecycle.js';
+import { ACTIVE_TRANSFER_STATUSES } from '../services/transfer-lifecycle.js';
 
 const logger = createLogger('animals');
 const prisma = new PrismaClient();
@@ -60,6 +85,7 @@ const searchSchema = z.object({
   riskSeverity: z.string().optional(),
   isSenior: z.coerce.boolean().optional(),
   hasSpecialNeeds: z.coerce.boolean().optional(),
+  placementRestriction: z.string().optional(),
   q: z.string().optional(), // Text search
 });
 
@@ -107,6 +133,29 @@ const outcomeSchema = z.object({
   notes: z.string().optional(),
 });
 
+const intakeSchema = z.object({
+  intakeType: z.enum(['STRAY', 'OWNER_SURRENDER', 'TRANSFER_IN', 'RETURN', 'BORN_IN_CARE', 'OTHER']),
+  condition: z.string().optional(),
+  foundLocation: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * TRANSFER_PENDING belongs to the transfer until it completes or is cancelled
+ */
+async function assertNoActiveTransfer(animalId: string) {
+  const transfer = await prisma.transferRequest.findFirst({
+    where: { animalId, status: { in: ACTIVE_TRANSFER_STATUSES } },
+    select: { id: true, status: true },
+  });
+  if (transfer) {
+    throw new InvalidStateError('Cancel the active transfer before changing this animal\'s status', {
+      transferId: transfer.id,
+      transferStatus: transfer.status,
+    });
+  }
+}
+
 export async function animalRoutes(app: FastifyInstance) {
   /**
    * List/search animals - PUBLIC (optional auth)
@@ -143,7 +192,9 @@ export async function animalRoutes(app: FastifyInstance) {
     // For public/anonymous, only show public animals
     if (!isStaff) {
       where.isPublic = true;
-      where.status = { in: ['IN_SHELTER', 'IN_FOSTER', 'AVAILABLE'] };
+      where.status = { in: PUBLIC_LISTING_STATUSES };
+      // Rescue-only and not-adoptable animals stay out of public adoption listings
+      where.AND = [PUBLIC_PLACEMENT_FILTER];
     } else {
       // Staff can see all statuses
       if (params.status) {
@@ -198,6 +249,10 @@ export async function animalRoutes(app: FastifyInstance) {
       if (params.hasSpecialNeeds !== undefined) {
         where.riskProfile = { ...where.riskProfile, hasSpecialNeeds: params.hasSpecialNeeds };
       }
+      // e.g. RESCUE_ONLY for rescue partners looking for animals to pull
+      if (params.placementRestriction) {
+        where.placementRestriction = { in: params.placementRestriction.split(',') };
+      }
     }
 
     // Text search (name, breed)
@@ -251,6 +306,7 @@ export async function animalRoutes(app: FastifyInstance) {
         goodWithChildren: animal.goodWithChildren,
         goodWithDogs: animal.goodWithDogs,
         goodWithCats: animal.goodWithCats,
+        placementRestriction: animal.placementRestriction,
         daysInShelter: animal.daysInShelter,
         adoptionFee: animal.adoptionFee,
         organization: animal.organization,
@@ -270,7 +326,10 @@ export async function animalRoutes(app: FastifyInstance) {
           riskProfile: animal.riskProfile ? {
             urgencyScore: animal.riskProfile.urgencyScore,
             severity: animal.riskProfile.riskSeverity,
-            reasons: JSON.parse(animal.riskProfile.riskReasons as string || '[]'),
+            reasons: visibleRiskReasons(
+              JSON.parse(animal.riskProfile.riskReasons as string || '[]'),
+              riskDetailAccess(request, animal.organizationId)
+            ),
             isSenior: animal.riskProfile.isSenior,
             hasSpecialNeeds: animal.riskProfile.hasSpecialNeeds,
           } : null,
@@ -306,6 +365,7 @@ export async function animalRoutes(app: FastifyInstance) {
     },
   }, async (request, reply) => {
     const { organizationId } = request.query as { organizationId?: string };
+    const isStaff = request.user && userHasPermission(request, 'animal:read');
 
     const where: any = {
       isPublic: true,
@@ -318,6 +378,9 @@ export async function animalRoutes(app: FastifyInstance) {
     if (organizationId) {
       where.organizationId = organizationId;
     }
+    if (!isStaff) {
+      where.AND = [PUBLIC_PLACEMENT_FILTER];
+    }
 
     const animals = await prisma.animal.findMany({
       where,
@@ -335,24 +398,42 @@ export async function animalRoutes(app: FastifyInstance) {
       take: 50,
     });
 
-    return {
-      success: true,
-      data: animals.map(a => ({
-        id: a.id,
-        name: a.name,
-        species: a.species,
-        breedDisplay: a.breedSecondary ? `${a.breedPrimary} / ${a.breedSecondary} Mix` : a.breedPrimary,
-        ageCategory: a.ageCategory,
-        daysInShelter: a.daysInShelter,
-        organization: a.organization,
-        thumbnailUrl: a.photos[0] ? `/uploads/${a.id}/${a.photos[0].filename}` : null,
-        risk: a.riskProfile ? {
-          score: a.riskProfile.urgencyScore,
-          severity: a.riskProfile.riskSeverity,
-          reasons: JSON.parse(a.riskProfile.riskReasons as string || '[]'),
-        } : null,
-      })),
-    };
+    // Scores of unconfirmed CRITICALs are held below each policy's threshold
+    const policies = new Map<string, RiskScoringConfig>();
+    if (!isStaff) {
+      for (const organizationId of new Set(animals.map(a => a.organizationId))) {
+        policies.set(organizationId, (await getOrganizationRiskPolicy(organizationId)).config);
+      }
+    }
+
+    const data = animals.map(a => ({
+      id: a.id,
+      name: a.name,
+      species: a.species,
+      breedDisplay: a.breedSecondary ? `${a.breedPrimary} / ${a.breedSecondary} Mix` : a.breedPrimary,
+      ageCategory: a.ageCategory,
+      daysInShelter: a.daysInShelter,
+      organization: a.organization,
+      thumbnailUrl: a.photos[0] ? `/uploads/${a.id}/${a.photos[0].filename}` : null,
+      risk: a.riskProfile ? {
+        score: isStaff
+          ? a.riskProfile.urgencyScore
+          : publicRiskScore(a.riskProfile, policies.get(a.organizationId)!),
+        // Unconfirmed CRITICAL badges are held back from the public
+        severity: isStaff ? a.riskProfile.riskSeverity : publicRiskSeverity(a.riskProfile),
+        // Medical and hold reasons only for the animal's own staff
+        reasons: visibleRiskReasons(
+          JSON.parse(a.riskProfile.riskReasons as string || '[]'),
+          riskDetailAccess(request, a.organizationId)
+        ),
+      } : null,
+    }));
+    // Ordered by the scores shown, so the order does not single out held-back CRITICALs
+    if (!isStaff) {
+      data.sort((x, y) => (y.risk?.score ?? 0) - (x.risk?.score ?? 0) || x.id.localeCompare(y.id));
+    }
+
+    return { success: true, data };
   });
 
   /**
@@ -394,7 +475,7 @@ export async function animalRoutes(app: FastifyInstance) {
     }
 
     // Check if public user can view this animal
-    if (!isStaff && !animal.isPublic) {
+    if (!isStaff && (!animal.isPublic || isHiddenFromPublic(animal.placementRestriction))) {
       throw new NotFoundError('Animal', id);
     }
 
@@ -420,6 +501,7 @@ export async function animalRoutes(app: FastifyInstance) {
       goodWithDogs: animal.goodWithDogs,
       goodWithCats: animal.goodWithCats,
       houseTrained: animal.houseTrained,
+      placementRestriction: animal.placementRestriction,
       daysInShelter: animal.daysInShelter,
       adoptionFee: animal.adoptionFee,
       organization: animal.organization,
@@ -433,6 +515,10 @@ export async function animalRoutes(app: FastifyInstance) {
 
     // Add staff-only fields
     if (isStaff) {
+      // Medical and hold details only for the animal's own staff
+      const access = riskDetailAccess(request, animal.organizationId);
+      const showDeadline = isRiskDeadlineVisible(animal.riskProfile?.deadlineType ?? null, access);
+
       response.staffNotes = animal.staffNotes;
       response.intakeNotes = animal.intakeNotes;
       response.internalId = animal.internalId;
@@ -444,14 +530,35 @@ export async function animalRoutes(app: FastifyInstance) {
       response.riskProfile = animal.riskProfile ? {
         urgencyScore: animal.riskProfile.urgencyScore,
         severity: animal.riskProfile.riskSeverity,
-        reasons: JSON.parse(animal.riskProfile.riskReasons as string || '[]'),
+        reasons: visibleRiskReasons(JSON.parse(animal.riskProfile.riskReasons as string || '[]'), access),
         lengthOfStay: animal.riskProfile.lengthOfStay,
         isSenior: animal.riskProfile.isSenior,
         hasSpecialNeeds: animal.riskProfile.hasSpecialNeeds,
+        ...(access.medical ? {
+          medicalScore: animal.riskProfile.medicalScore,
+          hasMedicalDeadline: animal.riskProfile.hasMedicalDeadline,
+        } : {}),
+        behavioralScore: animal.riskProfile.behavioralScore,
+        kennelStressLevel: animal.riskProfile.kennelStressLevel,
+        enrichmentDeficit: animal.riskProfile.enrichmentDeficit,
+        deadlineDate: showDeadline ? animal.riskProfile.deadlineDate?.toISOString() ?? null : null,
+        deadlineType: showDeadline ? animal.riskProfile.deadlineType : null,
+        isManualOverride: animal.riskProfile.isManualOverride,
+        overrideReason: animal.riskProfile.overrideReason,
         lastCalculated: animal.riskProfile.lastCalculated.toISOString(),
       } : null;
       response.intakeEvents = animal.intakeEvents;
       response.outcomeEvents = animal.outcomeEvents;
+
+      // Active holds, for the animal's own staff (reasons can carry case details)
+      if (access.holds) {
+        const now = new Date();
+        const holds = await prisma.animalHold.findMany({
+          where: { animalId: id, ...activeHoldFilter(now) },
+          orderBy: { startDate: 'asc' },
+        });
+        response.holds = holds.map(hold => formatHold(hold, now));
+      }
     }
 
     return { success: true, data: response };
@@ -501,7 +608,7 @@ export async function animalRoutes(app: FastifyInstance) {
           isPublic: body.isPublic ?? true,
           internalId: body.internalId,
           intakeDate: new Date(),
-          status: 'IN_SHELTER',
+          status: AnimalStatus.IN_SHELTER,
         },
       });
 
@@ -521,9 +628,19 @@ export async function animalRoutes(app: FastifyInstance) {
       return newAnimal;
     });
 
+    setAuditContext(request, { resourceType: 'animals', resourceId: animal.id, after: animal });
+
     // Calculate risk profile (outside transaction)
     await updateAnimalRiskProfile(animal.id);
 
+    await emitWebhookEvent(orgId, 'animal.created', {
+      animalId: animal.id,
+      name: animal.name,
+      species: animal.species,
+      status: animal.status,
+      intakeType: body.intake.intakeType,
+    });
+
     logger.info({ animalId: animal.id, orgId }, 'Animal created');
 
     return {
@@ -556,12 +673,40 @@ export async function animalRoutes(app: FastifyInstance) {
       throw new ForbiddenError('Access denied to this animal');
     }
 
+    // Status changes must follow the lifecycle; outcomes go through POST /:id/outcome
+    if (typeof body.status === 'string' && body.status !== existing.status) {
+      const nextStatus = assertStatusTransition(existing.status, body.status);
+      if (OUTCOME_STATUSES.includes(nextStatus)) {
+        throw new ValidationError('Use the outcome endpoint to record adoptions, transfers and other outcomes');
+      }
+      if (nextStatus === AnimalStatus.TRANSFER_PENDING) {
+        throw new ValidationError('Request a transfer to move an animal to another organization');
+      }
+      // An adoption pending is the start of an adoption
+      if (nextStatus === AnimalStatus.PENDING) {
+        await assertNoBlockingHold(id, 'ADOPTION');
+      }
+      if (existing.status === AnimalStatus.TRANSFER_PENDING) {
+        await assertNoActiveTransfer(id);
+      }
+    }
+
     // Update animal
     const updated = await prisma.animal.update({
       where: { id },
       data: { ...body, updatedAt: new Date() },
     });
 
+    setAuditContext(request, { resourceType: 'animals', resourceId: id, before: existing, after: updated });
+
+    if (updated.status !== existing.status) {
+      await emitWebhookEvent(existing.organizationId, 'animal.status_changed', {
+        animalId: id,
+        previousStatus: existing.status,
+        status: updated.status,
+      });
+    }
+
     // Recalculate risk profile
     await updateAnimalRiskProfile(id);
 
@@ -592,31 +737,28 @@ export async function animalRoutes(app: FastifyInstance) {
       throw new ForbiddenError('Access denied');
     }
 
-    // Map outcome type to animal status
-    const statusMap: Record<string, string> = {
-      ADOPTION: 'ADOPTED',
-      TRANSFER_OUT: 'TRANSFERRED',
-      RETURN_TO_OWNER: 'RECLAIMED',
-      EUTHANASIA: 'EUTHANIZED',
-      DIED_IN_CARE: 'DECEASED',
-      FOSTER: 'IN_FOSTER',
-    };
-
-    const newStatus = statusMap[body.outcomeType] ?? 'ADOPTED';
+    const newStatus = assertStatusTransition(animal.status, statusForOutcome(body.outcomeType));
+    if (body.outcomeType === 'ADOPTION') {
+      assertAdoptable(animal.placementRestriction);
+    }
+    await assertNoBlockingHold(id, body.outcomeType);
+    if (animal.status === AnimalStatus.TRANSFER_PENDING) {
+      await assertNoActiveTransfer(id);
+    }
 
-    await prisma.$transaction(async (tx) => {
+    const outcome = await prisma.$transaction(async (tx) => {
       // Update animal status
       await tx.animal.update({
         where: { id },
         data: {
           status: newStatus,
           outcomeDate: new Date(),
-          isPublic: ['ADOPTED', 'TRANSFERRED', 'EUTHANIZED', 'DECEASED'].includes(newStatus) ? false : animal.isPublic,
+          isPublic: OUTCOME_STATUSES.includes(newStatus) ? false : animal.isPublic,
         },
       });
 
       // Create outcome event
-      await tx.outcomeEvent.create({
+      return tx.outcomeEvent.create({
         data: {
           animalId: id,
           organizationId: request.user!.organizationId!,
@@ -633,6 +775,29 @@ export async function animalRoutes(app: FastifyInstance) {
       });
     });
 
+    setAuditContext(request, {
+      resourceType: 'animals',
+      resourceId: id,
+      action: 'OUTCOME',
+      before: { status: animal.status },
+      after: { status: newStatus },
+      metadata: { outcomeType: body.outcomeType },
+    });
+
+    // Adopter details stay out of webhook payloads
+    await emitWebhookEvent(animal.organizationId, 'outcome.created', {
+      outcomeId: outcome.id,
+      animalId: id,
+      outcomeType: body.outcomeType,
+      destinationOrgId: body.destinationOrgId ?? null,
+      outcomeDate: outcome.outcomeDate.toISOString(),
+    });
+    await emitWebhookEvent(animal.organizationId, 'animal.status_changed', {
+      animalId: id,
+      previousStatus: animal.status,
+      status: newStatus,
+    });
+
     // Build response with appropriate messaging
     let message: string;
     if (body.outcomeType === 'ADOPTION') {
@@ -656,6 +821,83 @@ export async function animalRoutes(app: FastifyInstance) {
     };
   });
 
+  /**
+   * Record a new intake for an animal that left care (e.g. adoption return)
+   */
+  app.post('/:id/intake', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('animal:write')],
+    schema: {
+      description: 'Record a return or re-intake for an existing animal',
+      tags: ['Animals'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = intakeSchema.parse(request.body);
+    const orgId = request.user!.organizationId!;
+
+    const animal = await prisma.animal.findUnique({ where: { id } });
+    if (!animal) {
+      throw new NotFoundError('Animal', id);
+    }
+
+    if (animal.organizationId !== orgId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    const newStatus = assertStatusTransition(animal.status, AnimalStatus.IN_SHELTER, {
+      intakeType: body.intakeType,
+    });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.animal.update({
+        where: { id },
+        data: {
+          status: newStatus,
+          intakeDate: new Date(),
+          outcomeDate: null,
+        },
+      });
+
+      await tx.intakeEvent.create({
+        data: {
+          animalId: id,
+          organizationId: orgId,
+          intakeType: body.intakeType,
+          condition: body.condition ?? 'HEALTHY',
+          foundLocation: body.foundLocation,
+          notes: body.notes,
+          processedBy: request.user!.name,
+        },
+      });
+    });
+
+    setAuditContext(request, {
+      resourceType: 'animals',
+      resourceId: id,
+      action: 'INTAKE',
+      before: { status: animal.status },
+      after: { status: newStatus },
+      metadata: { intakeType: body.intakeType },
+    });
+
+    await emitWebhookEvent(orgId, 'animal.status_changed', {
+      animalId: id,
+      previousStatus: animal.status,
+      status: newStatus,
+    });
+
+    await updateAnimalRiskProfile(id);
+
+    logger.info({ animalId: id, intakeType: body.intakeType }, 'Animal re-intake recorded');
+
+    return {
+      success: true,
+      data: { status: newStatus },
+      message: `${animal.name} is back in care.`,
+    };
+  });
+
   /**
    * Upload photo - Requires auth + organization
    * TODO: Production - Migrate to S3/MinIO with CDN, add image optimization
@@ -0,0 +1,193 @@
+/**
+ * API Key Routes
+ *
+ * Create, list and revoke an organization's integration keys.
+ * Authentication with a key is handled in middleware/auth.ts.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError, ForbiddenError, ValidationError } from '../lib/errors.js';
+import {
+  requireAuth,
+  requirePermission,
+  hasPermission,
+  API_KEY_PERMISSIONS,
+  type Permission,
+} from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { createApiKey, parseKeyPermissions, revokeApiKey } from '../services/api-keys.js';
+
+// Schemas
+const createApiKeySchema = z.object({
+  name: z.string().min(2).max(100),
+  permissions: z.array(z.string()).min(1),
+  expiresAt: z.string().datetime().optional(),
+});
+
+/**
+ * Load the organization by slug and check the caller acts for it
+ */
+async function getManagedOrganization(request: FastifyRequest, slug: string) {
+  const org = await prisma.organization.findUnique({ where: { slug } });
+  if (!org) {
+    throw new NotFoundError('Organization', slug);
+  }
+
+  if (request.user!.globalRole !== 'SUPERADMIN' && request.user!.organizationId !== org.id) {
+    throw new ForbiddenError('Access denied to this organization');
+  }
+
+  return org;
+}
+
+export async function apiKeyRoutes(app: FastifyInstance) {
+  /**
+   * List API keys (never includes the secret)
+   */
+  app.get('/:slug/api-keys', {
+    preHandler: [requireAuth(), requirePermission('org:api-keys')],
+    schema: {
+      description: 'List API keys for an organization',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { slug } = request.params as { slug: string };
+    const org = await getManagedOrganization(request, slug);
+
+    const keys = await prisma.apiKey.findMany({
+      where: { organizationId: org.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+
+    return {
+      success: true,
+      data: keys.map(k => ({
+        id: k.id,
+        name: k.name,
+        keyPrefix: k.keyPrefix,
+        permissions: parseKeyPermissions(k.permissions),
+        status: k.revokedAt ? 'REVOKED' : k.expiresAt && k.expiresAt <= now ? 'EXPIRED' : 'ACTIVE',
+        createdByName: k.createdByName,
+        lastUsedAt: k.lastUsedAt?.toISOString() ?? null,
+        expiresAt: k.expiresAt?.toISOString() ?? null,
+        revokedAt: k.revokedAt?.toISOString() ?? null,
+        createdAt: k.createdAt.toISOString(),
+      })),
+      meta: {
+        availablePermissions: API_KEY_PERMISSIONS,
+      },
+    };
+  });
+
+  /**
+   * Create an API key
+   * The key is returned once and cannot be retrieved again.
+   */
+  app.post('/:slug/api-keys', {
+    preHandler: [requireAuth(), requirePermission('org:api-keys')],
+    schema: {
+      description: 'Create an API key for an organization',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'permissions'],
+        properties: {
+          name: { type: 'string' },
+          permissions: { type: 'array', items: { type: 'string' } },
+          expiresAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { slug } = request.params as { slug: string };
+    const body = createApiKeySchema.parse(request.body);
+    const org = await getManagedOrganization(request, slug);
+
+    const unknown = body.permissions.filter(p => !API_KEY_PERMISSIONS.includes(p as Permission));
+    if (unknown.length > 0) {
+      throw new ValidationError('Permissions cannot be granted to an API key', {
+        permissions: unknown,
+        allowed: API_KEY_PERMISSIONS,
+      });
+    }
+
+    // Nobody can hand a key more than their own role allows
+    const permissions = [...new Set(body.permissions)] as Permission[];
+    const isSuperAdmin = request.user!.globalRole === 'SUPERADMIN';
+    const beyondRole = isSuperAdmin
+      ? []
+      : permissions.filter(p => !hasPermission(request.user!.organizationRole ?? '', p));
+    if (beyondRole.length > 0) {
+      throw new ForbiddenError(`Your role cannot grant: ${beyondRole.join(', ')}`);
+    }
+
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : undefined;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    const { apiKey, key } = await createApiKey({
+      organizationId: org.id,
+      name: body.name,
+      permissions,
+      expiresAt,
+      createdBy: { id: request.user!.id, name: request.user!.name },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'api_keys',
+      resourceId: apiKey.id,
+      after: { name: apiKey.name, keyPrefix: apiKey.keyPrefix, permissions: apiKey.permissions, expiresAt: apiKey.expiresAt },
+      metadata: { organizationId: org.id },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        permissions,
+        expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+        createdAt: apiKey.createdAt.toISOString(),
+        key,
+      },
+      message: 'Copy this key now - it will not be shown again',
+    });
+  });
+
+  /**
+   * Revoke an API key
+   */
+  app.delete('/:slug/api-keys/:id', {
+    preHandler: [requireAuth(), requirePermission('org:api-keys')],
+    schema: {
+      description: 'Revoke an API key',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { slug, id } = request.params as { slug: string; id: string };
+    const org = await getManagedOrganization(request, slug);
+
+    const revoked = await revokeApiKey(org.id, id);
+    if (!revoked) {
+      throw new NotFoundError('API key', id);
+    }
+
+    setAuditContext(request, {
+      resourceType: 'api_keys',
+      resourceId: id,
+      action: 'REVOKE',
+      metadata: { organizationId: org.id },
+    });
+
+    return { success: true, message: 'API key revoked' };
+  });
+}
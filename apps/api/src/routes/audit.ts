@@ -0,0 +1,116 @@
+/**
+ * Audit Log Routes
+ *
+ * Read access to the audit trail written by middleware/audit.ts.
+ * Organization admins see their own organization; SUPERADMIN sees every
+ * organization (including platform actions with no organization) unless
+ * filtered by organizationId.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { ValidationError } from '../lib/errors.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+
+// Schemas
+const auditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  userId: z.string().optional(),
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  action: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  organizationId: z.string().optional(), // SUPERADMIN only
+});
+
+/**
+ * Parse a JSON column, tolerating rows written before it was structured
+ */
+function parseJson(value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export async function auditRoutes(app: FastifyInstance) {
+  /**
+   * List audit log entries - org admins
+   */
+  app.get('/', {
+    preHandler: [requireAuth(), requirePermission('audit:read')],
+    schema: {
+      description: 'List audit log entries for your organization',
+      tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const params = auditQuerySchema.parse(request.query);
+    const isSuperAdmin = request.user!.globalRole === 'SUPERADMIN';
+
+    if (params.from && params.to && new Date(params.from) > new Date(params.to)) {
+      throw new ValidationError('"from" must be before "to"');
+    }
+
+    // Permission implies an organization role for everyone but SUPERADMIN
+    const where: any = {};
+    if (!isSuperAdmin) {
+      where.organizationId = request.user!.organizationId;
+    } else if (params.organizationId) {
+      where.organizationId = params.organizationId;
+    }
+
+    if (params.userId) where.userId = params.userId;
+    if (params.resourceType) where.resourceType = params.resourceType;
+    if (params.resourceId) where.resourceId = params.resourceId;
+    if (params.action) where.action = params.action;
+
+    if (params.from || params.to) {
+      where.createdAt = {};
+      if (params.from) where.createdAt.gte = new Date(params.from);
+      if (params.to) where.createdAt.lte = new Date(params.to);
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.pageSize,
+        take: params.pageSize,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: entries.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId,
+        changes: parseJson(entry.changes) ?? [],
+        metadata: parseJson(entry.metadata) ?? {},
+        user: entry.user,
+        ipAddress: entry.ipAddress,
+        requestId: entry.requestId,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        totalItems: total,
+        totalPages: Math.ceil(total / params.pageSize),
+        hasNextPage: params.page * params.pageSize < total,
+        hasPreviousPage: params.page > 1,
+      },
+    };
+  });
+}
@@ -1,32 +1,139 @@
 /**
  * Authentication Routes (Simplified for Prototype)
  * 
- * Single login endpoint with 7-day JWT token.
+ * Login issues a short-lived access token plus a rotating refresh token
+ * backed by a Session row (see services/sessions.ts).
+ * 
+ * Password reset and email verification use single-use emailed tokens
+ * (see services/account.ts).
+ * 
+ * Failed sign-ins are throttled per email and per IP with escalating
+ * lockouts (see services/login-throttle.ts).
  * 
  * TODO: Production - Add these features from _archive/routes/auth.ts:
- *   - POST /register - User registration with email verification
- *   - POST /refresh - Refresh token endpoint
- *   - POST /forgot-password - Password reset flow
- *   - Session storage in database
- *   - Failed attempt tracking and account locking
- *   - Multi-organization context switching
+ *   - POST /register - Self-service user registration
  */
 
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@shelter-link/database';
-import { UnauthorizedError } from '../lib/errors.js';
+import { UnauthorizedError, ForbiddenError, NotFoundError } from '../lib/errors.js';
 import { createLogger } from '../lib/logger.js';
+import { optionalAuth, requireAuth, requireSuperAdmin } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeAllSessions,
+  setSessionOrganization,
+} from '../services/sessions.js';
+import { acceptInvitation, findInvitationByToken } from '../services/memberships.js';
+import { assertLoginAllowed, clearLoginFailures, recordLoginFailure, unlockEmail } from '../services/login-throttle.js';
+import { requestPasswordReset, resetPassword, sendVerificationEmail, verifyEmail } from '../services/account.js';
 
 const logger = createLogger('auth');
 
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
 // Validation schemas
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+const switchOrganizationSchema = z.object({
+  organizationId: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8).max(128),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const unlockSchema = z.object({
+  email: z.string().email(),
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+  name: z.string().min(2).max(100).optional(),
+  password: z.string().min(8).max(128),
+});
+
+interface TokenUser {
+  id: string;
+  email: string;
+  name: string;
+  globalRole: string;
+}
+
+interface TokenMembership {
+  organizationId: string;
+  role: string;
+}
+
+interface MembershipWithOrganization extends TokenMembership {
+  isPrimary: boolean;
+  organization: { id: string; name: string; slug: string; type: string };
+}
+
+/**
+ * Shape memberships for the client
+ */
+function formatMemberships(memberships: MembershipWithOrganization[]) {
+  return memberships.map(o => ({
+    id: o.organization.id,
+    name: o.organization.name,
+    slug: o.organization.slug,
+    type: o.organization.type,
+    role: o.role,
+    isPrimary: o.isPrimary,
+  }));
+}
+
+/**
+ * Sign an access token for a session
+ */
+function signAccessToken(
+  app: FastifyInstance,
+  user: TokenUser,
+  membership: TokenMembership | undefined,
+  sessionId: string
+): string {
+  return app.jwt.sign(
+    {
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      name: user.name,
+      globalRole: user.globalRole,
+      orgId: membership?.organizationId,
+      orgRole: membership?.role,
+    },
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
 export async function authRoutes(app: FastifyInstance) {
   /**
    * Login - Get JWT token
@@ -51,7 +158,9 @@ export async function authRoutes(app: FastifyInstance) {
             data: {
               type: 'object',
               properties: {
+                accessToken: { type: 'string' },
                 token: { type: 'string' },
+                refreshToken: { type: 'string' },
                 expiresIn: { type: 'number' },
                 user: { type: 'object' },
               },
@@ -63,6 +172,8 @@ export async function authRoutes(app: FastifyInstance) {
   }, async (request, reply) => {
     const body = loginSchema.parse(request.body);
 
+    await assertLoginAllowed(body.email, request.ip);
+
     // Find user with their organizations
     const user = await prisma.user.findUnique({
       where: { email: body.email.toLowerCase() },
@@ -75,15 +186,14 @@ export async function authRoutes(app: FastifyInstance) {
       },
     });
 
-    if (!user) {
+    // Compare against a dummy hash for unknown emails so timing matches
+    const validPassword = await bcrypt.compare(body.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !validPassword) {
+      await recordLoginFailure(body.email, request.ip);
       throw new UnauthorizedError('Invalid email or password');
     }
 
-    // Check password
-    const validPassword = await bcrypt.compare(body.password, user.passwordHash);
-    if (!validPassword) {
-      throw new UnauthorizedError('Invalid email or password');
-    }
+    await clearLoginFailures(body.email);
 
     // Check if account is active
     if (user.status !== 'ACTIVE') {
@@ -99,27 +209,21 @@ export async function authRoutes(app: FastifyInstance) {
     // Get primary organization (if any)
     const primaryOrg = user.organizations.find(o => o.isPrimary) ?? user.organizations[0];
 
-    // Generate JWT token (7 days)
-    // TODO: Production - Add refresh tokens, store session in database
-    const token = app.jwt.sign(
-      {
-        sub: user.id,
-        email: user.email,
-        name: user.name,
-        globalRole: user.globalRole,
-        orgId: primaryOrg?.organizationId,
-        orgRole: primaryOrg?.role,
-      },
-      { expiresIn: '7d' }
-    );
+    const { session, refreshToken } = await createSession(user.id, primaryOrg?.organizationId, {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
+    });
+    const accessToken = signAccessToken(app, user, primaryOrg, session.id);
 
-    logger.info({ userId: user.id, email: user.email }, 'User logged in');
+    logger.info({ userId: user.id, email: user.email, sessionId: session.id }, 'User logged in');
 
     return {
       success: true,
       data: {
-        token,
-        expiresIn: 7 * 24 * 60 * 60, // 7 days in seconds
+        accessToken,
+        token: accessToken, // Deprecated alias for older clients
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
         user: {
           id: user.id,
           email: user.email,
@@ -127,66 +231,414 @@ export async function authRoutes(app: FastifyInstance) {
           phone: user.phone,
           avatarUrl: user.avatarUrl,
           globalRole: user.globalRole,
-          organizations: user.organizations.map(o => ({
-            id: o.organization.id,
-            name: o.organization.name,
-            slug: o.organization.slug,
-            role: o.role,
-            isPrimary: o.isPrimary,
-          })),
+          emailVerified: Boolean(user.emailVerifiedAt),
+          currentOrganizationId: primaryOrg?.organizationId ?? null,
+          organizations: formatMemberships(user.organizations),
         },
       },
     };
   });
 
   /**
-   * Logout - Just returns success (stateless JWT)
-   * TODO: Production - Invalidate session in database, add to token blacklist
+   * Refresh - Exchange a refresh token for a new access + refresh token pair
+   */
+  app.post('/refresh', {
+    schema: {
+      description: 'Rotate refresh token and issue a new access token',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['refreshToken'],
+        properties: {
+          refreshToken: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = refreshSchema.parse(request.body);
+
+    const { session, refreshToken } = await rotateSession(body.refreshToken, {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
+    });
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      include: { organizations: true },
+    });
+
+    if (!user || user.status !== 'ACTIVE') {
+      await revokeSession(session.id);
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    // Keep acting for the session's organization while the membership exists
+    const membership = user.organizations.find(o => o.organizationId === session.organizationId)
+      ?? user.organizations.find(o => o.isPrimary)
+      ?? user.organizations[0];
+
+    const accessToken = signAccessToken(app, user, membership, session.id);
+
+    return {
+      success: true,
+      data: {
+        accessToken,
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      },
+    };
+  });
+
+  /**
+   * Logout - Revoke the current session
+   * Accepts either the access token or the refresh token, so a client with
+   * an expired access token can still sign out.
    */
   app.post('/logout', {
+    preHandler: [optionalAuth()],
     schema: {
-      description: 'Logout (stateless - just for client cleanup)',
+      description: 'Logout and revoke the current session',
       tags: ['Auth'],
     },
   }, async (request, reply) => {
-    // In production, we would invalidate the session in the database
-    // For prototype, JWT is stateless so logout is just client-side
+    const body = logoutSchema.parse(request.body ?? {});
+
+    if (request.user?.sessionId) {
+      await revokeSession(request.user.sessionId);
+    } else if (body.refreshToken) {
+      await revokeSessionByRefreshToken(body.refreshToken);
+    }
+
     return { success: true };
   });
 
   /**
-   * Get current user info
+   * Logout everywhere - Revoke every session of the current user
    */
-  app.get('/me', {
+  app.post('/logout-all', {
+    preHandler: [requireAuth()],
     schema: {
-      description: 'Get current authenticated user',
+      description: 'Sign out of all devices',
+      tags: ['Auth'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const count = await revokeAllSessions(request.user!.id);
+
+    logger.info({ userId: request.user!.id }, 'User signed out of all devices');
+
+    return {
+      success: true,
+      data: { revokedSessions: count },
+      message: 'Signed out of all devices',
+    };
+  });
+
+  /**
+   * Unlock an email locked out by failed sign-ins - SUPERADMIN only
+   */
+  app.post('/unlock', {
+    preHandler: [requireAuth(), requireSuperAdmin()],
+    schema: {
+      description: 'Clear failed sign-in lockout for an email address',
+      tags: ['Auth'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = unlockSchema.parse(request.body);
+
+    const wasLocked = await unlockEmail(body.email);
+
+    setAuditContext(request, {
+      resourceType: 'users',
+      action: 'UNLOCK',
+      metadata: { email: body.email.toLowerCase(), wasLocked },
+    });
+
+    logger.info({ email: body.email, wasLocked, unlockedBy: request.user!.id }, 'Sign-in lockout cleared');
+
+    return {
+      success: true,
+      data: { email: body.email.toLowerCase(), wasLocked },
+      message: wasLocked ? 'Account unlocked' : 'Account was not locked',
+    };
+  });
+
+  /**
+   * Switch organization - Reissue the access token for another membership
+   * The refresh token is unchanged; the session remembers the new organization.
+   */
+  app.post('/switch-organization', {
+    preHandler: [requireAuth()],
+    schema: {
+      description: 'Act for another organization the user belongs to',
+      tags: ['Auth'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['organizationId'],
+        properties: {
+          organizationId: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = switchOrganizationSchema.parse(request.body);
+    const current = request.user!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: current.id },
+      include: {
+        organizations: {
+          include: {
+            organization: true,
+          },
+        },
+      },
+    });
+
+    if (!user || user.status !== 'ACTIVE') {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    const membership = user.organizations.find(o => o.organizationId === body.organizationId);
+    if (!membership) {
+      throw new ForbiddenError('You are not a member of this organization');
+    }
+
+    if (membership.organization.status !== 'ACTIVE') {
+      throw new NotFoundError('Organization', body.organizationId);
+    }
+
+    await setSessionOrganization(current.sessionId!, membership.organizationId);
+    const accessToken = signAccessToken(app, user, membership, current.sessionId!);
+
+    logger.info({
+      userId: user.id,
+      fromOrganizationId: current.organizationId,
+      toOrganizationId: membership.organizationId,
+    }, 'User switched organization');
+
+    return {
+      success: true,
+      data: {
+        accessToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        organization: formatMemberships([membership])[0],
+      },
+    };
+  });
+
+  /**
+   * Forgot password - PUBLIC
+   * Always succeeds so the response does not reveal whether an account exists.
+   */
+  app.post('/forgot-password', {
+    schema: {
+      description: 'Email a password reset link',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = forgotPasswordSchema.parse(request.body);
+
+    await requestPasswordReset(body.email);
+
+    return {
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent.',
+    };
+  });
+
+  /**
+   * Reset password - PUBLIC (token is the credential)
+   * Signs the user out of every device.
+   */
+  app.post('/reset-password', {
+    schema: {
+      description: 'Set a new password using a reset token',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string' },
+          password: { type: 'string', minLength: 8 },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = resetPasswordSchema.parse(request.body);
+
+    await resetPassword(body.token, body.password);
+
+    setAuditContext(request, { resourceType: 'users', action: 'PASSWORD_RESET' });
+
+    return {
+      success: true,
+      message: 'Your password has been reset. Sign in with your new password.',
+    };
+  });
+
+  /**
+   * Verify email - PUBLIC (token is the credential)
+   */
+  app.post('/verify-email', {
+    schema: {
+      description: 'Confirm an email address using a verification token',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = verifyEmailSchema.parse(request.body);
+
+    const userId = await verifyEmail(body.token);
+
+    setAuditContext(request, { resourceType: 'users', resourceId: userId, action: 'VERIFY_EMAIL' });
+
+    return { success: true, message: 'Your email address has been verified.' };
+  });
+
+  /**
+   * Resend the verification email for the current user
+   */
+  app.post('/resend-verification', {
+    preHandler: [requireAuth()],
+    schema: {
+      description: 'Send a new email verification link',
       tags: ['Auth'],
       security: [{ bearerAuth: [] }],
     },
   }, async (request, reply) => {
-    // Check for auth header
-    const authHeader = request.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
-      throw new UnauthorizedError('Authentication required');
+    const user = await prisma.user.findUnique({
+      where: { id: request.user!.id },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User', request.user!.id);
     }
 
-    let decoded;
-    try {
-      decoded = await request.jwtVerify<{
-        sub: string;
-        email: string;
-        name: string;
-        globalRole: string;
-        orgId?: string;
-        orgRole?: string;
-      }>();
-    } catch {
-      throw new UnauthorizedError('Invalid or expired token');
+    if (user.emailVerifiedAt) {
+      return { success: true, message: 'Your email address is already verified.' };
     }
 
+    await sendVerificationEmail(user);
+
+    return { success: true, message: `Verification email sent to ${user.email}` };
+  });
+
+  /**
+   * Preview an invitation - PUBLIC (token is the credential)
+   */
+  app.get('/invitations/:token', {
+    schema: {
+      description: 'Show the organization and role an invitation is for',
+      tags: ['Auth'],
+    },
+  }, async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const invitation = await findInvitationByToken(token);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+
+    return {
+      success: true,
+      data: {
+        email: invitation.email,
+        role: invitation.role,
+        organization: {
+          name: invitation.organization.name,
+          slug: invitation.organization.slug,
+        },
+        invitedByName: invitation.invitedByName,
+        expiresAt: invitation.expiresAt.toISOString(),
+        // New users choose a name and password; existing users confirm theirs
+        hasAccount: Boolean(existingUser),
+      },
+    };
+  });
+
+  /**
+   * Accept an invitation - PUBLIC (token is the credential)
+   */
+  app.post('/invitations/accept', {
+    schema: {
+      description: 'Redeem an invitation, creating the account if needed',
+      tags: ['Auth'],
+      body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string' },
+          name: { type: 'string' },
+          password: { type: 'string', minLength: 8 },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const body = acceptInvitationSchema.parse(request.body);
+
+    const { user, membership, organization } = await acceptInvitation({
+      token: body.token,
+      name: body.name,
+      password: body.password,
+      ipAddress: request.ip,
+    });
+
+    setAuditContext(request, {
+      resourceType: 'invitations',
+      action: 'ACCEPT',
+      metadata: { organizationId: organization.id, userId: user.id, role: membership.role },
+    });
+
+    return {
+      success: true,
+      data: {
+        email: user.email,
+        role: membership.role,
+        organization: { id: organization.id, name: organization.name, slug: organization.slug },
+      },
+      message: `You have joined ${organization.name}. Sign in to continue.`,
+    };
+  });
+
+  /**
+   * Get current user info
+   */
+  app.get('/me', {
+    preHandler: [requireAuth()],
+    schema: {
+      description: 'Get current authenticated user',
+      tags: ['Auth'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
     // Fetch fresh user data
     const user = await prisma.user.findUnique({
-      where: { id: decoded.sub },
+      where: { id: request.user!.id },
       include: {
         organizations: {
           include: {
@@ -209,14 +661,9 @@ export async function authRoutes(app: FastifyInstance) {
         phone: user.phone,
         avatarUrl: user.avatarUrl,
         globalRole: user.globalRole,
-        organizations: user.organizations.map(o => ({
-          id: o.organization.id,
-          name: o.organization.name,
-          slug: o.organization.slug,
-          type: o.organization.type,
-          role: o.role,
-          isPrimary: o.isPrimary,
-        })),
+        emailVerified: Boolean(user.emailVerifiedAt),
+        currentOrganizationId: request.user!.organizationId ?? null,
+        organizations: formatMemberships(user.organizations),
       },
     };
   });
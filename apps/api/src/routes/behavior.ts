@@ -0,0 +1,270 @@
+/**
+ * Behavior Routes
+ *
+ * Behavioral assessments of an animal (see services/behavior.ts).
+ * Staff-only, and only for animals of the caller's organization.
+ *
+ * Every change re-derives the animal's placement restriction from its
+ * latest assessment. Compatibility suggestions are returned with each
+ * assessment and written to the animal only when asked (applySuggestions).
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  AssessmentResult,
+  ReactivityLevel,
+  ToleranceLevel,
+  formatAssessment,
+  suggestCompatibility,
+  syncPlacementRestriction,
+} from '../services/behavior.js';
+
+// Schemas
+const text = (max: number) => z.string().trim().max(max).optional().nullable();
+const list = z.array(z.string().trim().min(1).max(200)).max(50);
+const reactivity = z.nativeEnum(ReactivityLevel).optional().nullable();
+
+const assessmentSchema = z.object({
+  assessmentType: z.string().trim().min(1).max(50).transform(v => v.toUpperCase()).optional(),
+  date: z.coerce.date().optional(),
+  location: text(200),
+  durationMinutes: z.number().int().positive().max(24 * 60).optional().nullable(),
+  overallScore: z.number().int().min(0).max(100).optional().nullable(),
+  result: z.nativeEnum(AssessmentResult).optional(),
+  behaviors: list.optional(),
+  triggers: list.optional(),
+  recommendations: list.optional(),
+  trainingNeeds: list.optional(),
+  resourceGuarding: z.boolean().optional().nullable(),
+  dogReactivity: reactivity,
+  catReactivity: reactivity,
+  humanReactivity: reactivity,
+  handlingTolerance: z.nativeEnum(ToleranceLevel).optional().nullable(),
+  assessor: text(200),
+  notes: text(5000),
+  /** Copy the suggested goodWithDogs/goodWithCats to the animal */
+  applySuggestions: z.boolean().optional(),
+});
+
+const updateAssessmentSchema = assessmentSchema.partial();
+
+/** List fields stored as JSON strings */
+const LIST_FIELDS = ['behaviors', 'triggers', 'recommendations', 'trainingNeeds'] as const;
+
+/**
+ * Turn parsed input into column values
+ */
+function toData(body: Omit<z.infer<typeof updateAssessmentSchema>, 'applySuggestions'>) {
+  const data: Record<string, unknown> = { ...body };
+  for (const field of LIST_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = JSON.stringify(body[field]);
+    }
+  }
+  return data;
+}
+
+/**
+ * Load an animal of the caller's organization
+ */
+async function getOwnAnimal(request: FastifyRequest, id: string) {
+  const animal = await prisma.animal.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true, goodWithDogs: true, goodWithCats: true },
+  });
+
+  if (!animal || animal.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+async function getAssessment(animalId: string, assessmentId: string) {
+  const assessment = await prisma.behavioralAssessment.findUnique({ where: { id: assessmentId } });
+
+  if (!assessment || assessment.animalId !== animalId) {
+    throw new NotFoundError('Behavioral assessment', assessmentId);
+  }
+
+  return assessment;
+}
+
+/**
+ * Write the suggestions that have a value to the animal; returns what changed
+ */
+async function applySuggestions(
+  animal: { id: string; goodWithDogs: boolean | null; goodWithCats: boolean | null },
+  assessment: { dogReactivity: string | null; catReactivity: string | null }
+) {
+  const suggestions = suggestCompatibility(assessment);
+  const changes: { goodWithDogs?: boolean; goodWithCats?: boolean } = {};
+
+  if (suggestions.goodWithDogs !== null && suggestions.goodWithDogs !== animal.goodWithDogs) {
+    changes.goodWithDogs = suggestions.goodWithDogs;
+  }
+  if (suggestions.goodWithCats !== null && suggestions.goodWithCats !== animal.goodWithCats) {
+    changes.goodWithCats = suggestions.goodWithCats;
+  }
+
+  if (Object.keys(changes).length > 0) {
+    await prisma.animal.update({ where: { id: animal.id }, data: changes });
+  }
+
+  return changes;
+}
+
+export async function behaviorRoutes(app: FastifyInstance) {
+  /**
+   * GET /animals/:id/assessments
+   * Newest first; the first one sets the placement restriction
+   */
+  app.get('/:id/assessments', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('behavior:read')],
+    schema: {
+      description: 'List behavioral assessments of an animal',
+      tags: ['Behavior'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await getOwnAnimal(request, id);
+
+    const assessments = await prisma.behavioralAssessment.findMany({
+      where: { animalId: id },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return { success: true, data: assessments.map(formatAssessment) };
+  });
+
+  /**
+   * GET /animals/:id/assessments/:assessmentId
+   */
+  app.get('/:id/assessments/:assessmentId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('behavior:read')],
+    schema: {
+      description: 'Get a behavioral assessment',
+      tags: ['Behavior'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, assessmentId } = request.params as { id: string; assessmentId: string };
+    await getOwnAnimal(request, id);
+    const assessment = await getAssessment(id, assessmentId);
+
+    return { success: true, data: formatAssessment(assessment) };
+  });
+
+  /**
+   * POST /animals/:id/assessments
+   */
+  app.post('/:id/assessments', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('behavior:write')],
+    schema: {
+      description: 'Record a behavioral assessment',
+      tags: ['Behavior'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { applySuggestions: apply, ...body } = assessmentSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const assessment = await prisma.behavioralAssessment.create({
+      data: {
+        ...toData(body),
+        animalId: id,
+        organizationId: user.organizationId!,
+        assessorId: user.id,
+        assessor: body.assessor ?? user.name,
+      },
+    });
+
+    const placementRestriction = await syncPlacementRestriction(id);
+    const applied = apply ? await applySuggestions(animal, assessment) : {};
+
+    setAuditContext(request, {
+      resourceType: 'behavioral_assessments',
+      resourceId: assessment.id,
+      after: assessment,
+      metadata: { animalId: id, placementRestriction, applied },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: formatAssessment(assessment),
+      placementRestriction,
+    });
+  });
+
+  /**
+   * PATCH /animals/:id/assessments/:assessmentId
+   */
+  app.patch('/:id/assessments/:assessmentId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('behavior:write')],
+    schema: {
+      description: 'Update a behavioral assessment',
+      tags: ['Behavior'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, assessmentId } = request.params as { id: string; assessmentId: string };
+    const { applySuggestions: apply, ...body } = updateAssessmentSchema.parse(request.body);
+    const animal = await getOwnAnimal(request, id);
+    const existing = await getAssessment(id, assessmentId);
+
+    const updated = await prisma.behavioralAssessment.update({
+      where: { id: assessmentId },
+      data: toData(body),
+    });
+
+    const placementRestriction = await syncPlacementRestriction(id);
+    const applied = apply ? await applySuggestions(animal, updated) : {};
+
+    setAuditContext(request, {
+      resourceType: 'behavioral_assessments',
+      resourceId: assessmentId,
+      before: existing,
+      after: updated,
+      metadata: { animalId: id, placementRestriction, applied },
+    });
+
+    return { success: true, data: formatAssessment(updated), placementRestriction };
+  });
+
+  /**
+   * DELETE /animals/:id/assessments/:assessmentId
+   */
+  app.delete('/:id/assessments/:assessmentId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('behavior:write')],
+    schema: {
+      description: 'Delete a behavioral assessment',
+      tags: ['Behavior'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, assessmentId } = request.params as { id: string; assessmentId: string };
+    await getOwnAnimal(request, id);
+    const existing = await getAssessment(id, assessmentId);
+
+    await prisma.behavioralAssessment.delete({ where: { id: assessmentId } });
+
+    const placementRestriction = await syncPlacementRestriction(id);
+
+    setAuditContext(request, {
+      resourceType: 'behavioral_assessments',
+      resourceId: assessmentId,
+      before: existing,
+      metadata: { animalId: id, placementRestriction },
+    });
+
+    return { success: true, placementRestriction };
+  });
+}
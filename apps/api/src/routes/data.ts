@@ -17,6 +17,7 @@ import { NotFoundError, ForbiddenError, ValidationError } from '../lib/errors.js
 import { createLogger } from '../lib/logger.js';
 import { requireAuth, requireOrganization, requirePermission } from '../middleware/auth.js';
 import { updateAnimalRiskProfile } from '../services/risk-scoring.js';
+import { AnimalStatus, assertStatusTransition, normalizeAnimalStatus } from '../services/animal-lifecycle.js';
 
 const logger = createLogger('data');
 const prisma = new PrismaClient();
@@ -205,17 +206,31 @@ export async function dataRoutes(app: FastifyInstance) {
         }
 
         // Check if updating existing (by internalId or id)
-        let existingId: string | null = null;
+        let existing: { id: string; status: string } | null = null;
         if (row.id) {
-          const existing = await prisma.animal.findFirst({
+          existing = await prisma.animal.findFirst({
             where: { id: row.id, organizationId: orgId },
           });
-          if (existing) existingId = existing.id;
         } else if (row.internalId) {
-          const existing = await prisma.animal.findFirst({
+          existing = await prisma.animal.findFirst({
             where: { internalId: row.internalId, organizationId: orgId },
           });
-          if (existing) existingId = existing.id;
+        }
+
+        // Validate status against the lifecycle (legacy names are mapped)
+        let status: string = AnimalStatus.IN_SHELTER;
+        if (row.status) {
+          const normalized = normalizeAnimalStatus(String(row.status));
+          if (!normalized) {
+            results.errors.push({ row: i + 1, error: `Unknown status: ${row.status}` });
+            continue;
+          }
+          status = normalized;
+        } else if (existing) {
+          status = existing.status;
+        }
+        if (existing) {
+          assertStatusTransition(existing.status, status);
         }
 
         const animalData = {
@@ -228,7 +243,7 @@ export async function dataRoutes(app: FastifyInstance) {
           size: row.size || null,
           colorPrimary: row.colorPrimary || null,
           colorSecondary: row.colorSecondary || null,
-          status: row.status || 'IN_SHELTER',
+          status,
           alteredStatus: row.alteredStatus || 'UNKNOWN',
           birthDate: row.birthDate ? new Date(row.birthDate) : null,
           intakeDate: row.intakeDate ? new Date(row.intakeDate) : new Date(),
@@ -244,12 +259,12 @@ export async function dataRoutes(app: FastifyInstance) {
           isPublic: row.isPublic !== 'false' && row.isPublic !== false,
         };
 
-        if (existingId) {
+        if (existing) {
           await prisma.animal.update({
-            where: { id: existingId },
+            where: { id: existing.id },
             data: animalData,
           });
-          await updateAnimalRiskProfile(existingId);
+          await updateAnimalRiskProfile(existing.id);
           results.updated++;
         } else {
           const animal = await prisma.animal.create({
@@ -0,0 +1,267 @@
+/**
+ * Hold Routes
+ *
+ * Stray, legal, bite quarantine and other holds on an animal, and the
+ * organization's holds expiring soon (see services/holds.ts). Staff of the
+ * animal's organization place, extend and release them.
+ *
+ * Holds end at their end date without anyone touching them; releasing one
+ * ends it early. Either way the risk score is recalculated, since a hold
+ * ending soon raises HOLD_EXPIRING.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { InvalidStateError, NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  HOLD_EXPIRING_HOURS,
+  HoldType,
+  assertHoldDates,
+  formatHold,
+  getExpiringHolds,
+  isHoldActive,
+} from '../services/holds.js';
+import { updateRiskProfileIfInCare } from '../services/risk-scoring.js';
+
+// Schemas
+const holdSchema = z.object({
+  holdType: z.nativeEnum(HoldType),
+  reason: z.string().trim().min(1).max(1000),
+  caseNumber: z.string().trim().max(100).optional().nullable(),
+  /** Defaults to now */
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional().nullable(),
+});
+
+const updateHoldSchema = z.object({
+  reason: z.string().trim().min(1).max(1000).optional(),
+  caseNumber: z.string().trim().max(100).optional().nullable(),
+  /** Extend or shorten; null leaves it open until released */
+  endDate: z.coerce.date().optional().nullable(),
+});
+
+const releaseSchema = z.object({
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+const listQuerySchema = z.object({
+  includeEnded: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+});
+
+const expiringQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24 * 14).default(HOLD_EXPIRING_HOURS),
+});
+
+/**
+ * Load an animal of the caller's organization
+ */
+async function getOwnAnimal(request: FastifyRequest, id: string) {
+  const animal = await prisma.animal.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true, status: true },
+  });
+
+  if (!animal || animal.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+async function getHold(animalId: string, holdId: string) {
+  const hold = await prisma.animalHold.findUnique({ where: { id: holdId } });
+
+  if (!hold || hold.animalId !== animalId) {
+    throw new NotFoundError('Hold', holdId);
+  }
+
+  return hold;
+}
+
+export async function holdRoutes(app: FastifyInstance) {
+  /**
+   * GET /animals/holds/expiring
+   * Active holds ending within `hours` (default 48), soonest first
+   */
+  app.get('/holds/expiring', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('hold:read')],
+    schema: {
+      description: 'List holds expiring soon',
+      tags: ['Holds'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { hours } = expiringQuerySchema.parse(request.query);
+
+    const holds = await getExpiringHolds(request.user!.organizationId!, hours);
+
+    return { success: true, data: holds };
+  });
+
+  /**
+   * GET /animals/:id/holds
+   * Active holds, or every hold with includeEnded, newest first
+   */
+  app.get('/:id/holds', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('hold:read')],
+    schema: {
+      description: 'List holds on an animal',
+      tags: ['Holds'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { includeEnded } = listQuerySchema.parse(request.query);
+    await getOwnAnimal(request, id);
+
+    const now = new Date();
+    const holds = await prisma.animalHold.findMany({
+      where: { animalId: id },
+      orderBy: { startDate: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: holds
+        .filter(hold => includeEnded || isHoldActive(hold, now) || hold.startDate > now)
+        .map(hold => formatHold(hold, now)),
+    };
+  });
+
+  /**
+   * POST /animals/:id/holds
+   */
+  app.post('/:id/holds', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('hold:write')],
+    schema: {
+      description: 'Place a hold on an animal',
+      tags: ['Holds'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = holdSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const startDate = body.startDate ?? new Date();
+    const endDate = body.endDate ?? null;
+    assertHoldDates({ holdType: body.holdType, startDate, endDate });
+
+    const hold = await prisma.animalHold.create({
+      data: {
+        animalId: id,
+        organizationId: animal.organizationId,
+        holdType: body.holdType,
+        reason: body.reason,
+        caseNumber: body.caseNumber,
+        startDate,
+        endDate,
+        placedById: user.id,
+        placedBy: user.name,
+      },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'animal_holds',
+      resourceId: hold.id,
+      after: hold,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return reply.status(201).send({ success: true, data: formatHold(hold) });
+  });
+
+  /**
+   * PATCH /animals/:id/holds/:holdId
+   */
+  app.patch('/:id/holds/:holdId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('hold:write')],
+    schema: {
+      description: 'Update a hold',
+      tags: ['Holds'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, holdId } = request.params as { id: string; holdId: string };
+    const body = updateHoldSchema.parse(request.body);
+    const animal = await getOwnAnimal(request, id);
+
+    const existing = await getHold(id, holdId);
+    if (existing.releasedAt) {
+      throw new InvalidStateError('A released hold cannot be changed', { releasedAt: existing.releasedAt });
+    }
+
+    const endDate = body.endDate === undefined ? existing.endDate : body.endDate;
+    assertHoldDates({ holdType: existing.holdType, startDate: existing.startDate, endDate });
+
+    const hold = await prisma.animalHold.update({
+      where: { id: holdId },
+      data: body,
+    });
+
+    setAuditContext(request, {
+      resourceType: 'animal_holds',
+      resourceId: holdId,
+      before: existing,
+      after: hold,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return { success: true, data: formatHold(hold) };
+  });
+
+  /**
+   * POST /animals/:id/holds/:holdId/release
+   * End a hold early
+   */
+  app.post('/:id/holds/:holdId/release', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('hold:write')],
+    schema: {
+      description: 'Release a hold',
+      tags: ['Holds'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, holdId } = request.params as { id: string; holdId: string };
+    const body = releaseSchema.parse(request.body ?? {});
+    const animal = await getOwnAnimal(request, id);
+
+    const existing = await getHold(id, holdId);
+    if (existing.releasedAt || (existing.endDate && existing.endDate <= new Date())) {
+      throw new InvalidStateError('Hold has already ended', {
+        endDate: existing.endDate,
+        releasedAt: existing.releasedAt,
+      });
+    }
+
+    const hold = await prisma.animalHold.update({
+      where: { id: holdId },
+      data: {
+        releasedAt: new Date(),
+        releasedBy: request.user!.name,
+        releaseNotes: body.notes,
+      },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'animal_holds',
+      resourceId: holdId,
+      action: 'RELEASE',
+      before: existing,
+      after: hold,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return { success: true, data: formatHold(hold) };
+  });
+}
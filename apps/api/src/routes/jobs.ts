@@ -0,0 +1,143 @@
+/**
+ * Scheduled Job Routes
+ *
+ * SUPERADMIN view of the scheduler (services/scheduler.ts): registered
+ * jobs, their run history, and running a job on demand.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { requireAuth, requireSuperAdmin } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { JobRunStatus, getRegisteredJobs, triggerJob } from '../services/scheduler.js';
+
+// Schemas
+const listRunsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  jobName: z.string().optional(),
+  status: z.nativeEnum(JobRunStatus).optional(),
+});
+
+type JobRunRecord = NonNullable<Awaited<ReturnType<typeof prisma.jobRun.findUnique>>>;
+
+function formatRun(run: JobRunRecord) {
+  return {
+    id: run.id,
+    jobName: run.jobName,
+    status: run.status,
+    scheduledFor: run.scheduledFor.toISOString(),
+    instanceId: run.instanceId,
+    triggeredBy: run.triggeredBy,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    durationMs: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : null,
+    processed: run.processed,
+    succeeded: run.succeeded,
+    failed: run.failed,
+    errors: JSON.parse(run.errors),
+    error: run.error,
+  };
+}
+
+export async function jobRoutes(app: FastifyInstance) {
+  /**
+   * GET /jobs
+   * Registered jobs with their next slot and latest run
+   */
+  app.get('/', {
+    preHandler: [requireAuth(), requireSuperAdmin()],
+    schema: {
+      description: 'List scheduled jobs (superadmin only)',
+      tags: ['Admin'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const jobs = getRegisteredJobs();
+
+    const lastRuns = await Promise.all(jobs.map(job =>
+      prisma.jobRun.findFirst({
+        where: { jobName: job.name },
+        orderBy: { startedAt: 'desc' },
+      })
+    ));
+
+    return {
+      success: true,
+      data: jobs.map((job, i) => ({
+        ...job,
+        nextRunAt: job.nextRunAt.toISOString(),
+        lastRun: lastRuns[i] ? formatRun(lastRuns[i]!) : null,
+      })),
+    };
+  });
+
+  /**
+   * GET /jobs/runs
+   * Run history, newest first
+   */
+  app.get('/runs', {
+    preHandler: [requireAuth(), requireSuperAdmin()],
+    schema: {
+      description: 'List scheduled job runs (superadmin only)',
+      tags: ['Admin'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const params = listRunsQuerySchema.parse(request.query);
+
+    const where: any = {};
+    if (params.jobName) where.jobName = params.jobName;
+    if (params.status) where.status = params.status;
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (params.page - 1) * params.pageSize,
+        take: params.pageSize,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: runs.map(formatRun),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        totalItems: total,
+        totalPages: Math.ceil(total / params.pageSize),
+        hasNextPage: params.page * params.pageSize < total,
+        hasPreviousPage: params.page > 1,
+      },
+    };
+  });
+
+  /**
+   * POST /jobs/:name/run
+   * Run a job now and wait for it to finish
+   */
+  app.post('/:name/run', {
+    preHandler: [requireAuth(), requireSuperAdmin()],
+    schema: {
+      description: 'Run a scheduled job now (superadmin only)',
+      tags: ['Admin'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { name } = request.params as { name: string };
+
+    const run = await triggerJob(name, request.user!.email);
+
+    setAuditContext(request, {
+      resourceType: 'jobs',
+      resourceId: run.id,
+      action: 'RUN_JOB',
+      metadata: { jobName: name, status: run.status, processed: run.processed, failed: run.failed },
+    });
+
+    return { success: true, data: formatRun(run) };
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Kennel Observation Routes
+ *
+ * Daily observations of an animal and the kennel round of animals not yet
+ * observed today (see services/kennel-observations.ts). Staff and
+ * volunteers of the animal's organization log and read them.
+ *
+ * Observations feed the risk score, so logging or deleting one
+ * recalculates it.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { ForbiddenError, NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization, userHasPermission } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  EnrichmentType,
+  KennelStressLevel,
+  formatObservation,
+  getKennelRound,
+  startOfToday,
+} from '../services/kennel-observations.js';
+import { STRESS_WINDOW_DAYS, updateRiskProfileIfInCare } from '../services/risk-scoring.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Schemas
+const observationSchema = z.object({
+  stressLevel: z.nativeEnum(KennelStressLevel),
+  enrichment: z.array(z.nativeEnum(EnrichmentType)).max(20).default([]),
+  notes: z.string().trim().max(1000).optional().nullable(),
+  /** Defaults to now; set when logging a round after the fact */
+  observedAt: z.coerce.date().optional(),
+});
+
+const listQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(STRESS_WINDOW_DAYS * 2),
+});
+
+const roundQuerySchema = z.object({
+  /** Start of the observer's day; defaults to midnight server time */
+  since: z.coerce.date().optional(),
+  includeObserved: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+});
+
+/**
+ * Load an animal of the caller's organization
+ */
+async function getOwnAnimal(request: FastifyRequest, id: string) {
+  const animal = await prisma.animal.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true, status: true },
+  });
+
+  if (!animal || animal.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+export async function kennelObservationRoutes(app: FastifyInstance) {
+  /**
+   * GET /animals/kennel-round
+   * Animals on site not yet observed today, in kennel order
+   */
+  app.get('/kennel-round', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('observation:read')],
+    schema: {
+      description: 'List animals still to observe on today\'s kennel round',
+      tags: ['Kennel Observations'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { since, includeObserved } = roundQuerySchema.parse(request.query);
+
+    const entries = await getKennelRound(
+      request.user!.organizationId!,
+      since ?? startOfToday(),
+      includeObserved
+    );
+
+    return { success: true, data: entries };
+  });
+
+  /**
+   * GET /animals/:id/observations
+   * Newest first, over the last `days` (default two weeks)
+   */
+  app.get('/:id/observations', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('observation:read')],
+    schema: {
+      description: 'List kennel observations of an animal',
+      tags: ['Kennel Observations'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { days } = listQuerySchema.parse(request.query);
+    await getOwnAnimal(request, id);
+
+    const observations = await prisma.kennelObservation.findMany({
+      where: { animalId: id, observedAt: { gte: new Date(Date.now() - days * DAY_MS) } },
+      orderBy: { observedAt: 'desc' },
+    });
+
+    return { success: true, data: observations.map(formatObservation) };
+  });
+
+  /**
+   * POST /animals/:id/observations
+   */
+  app.post('/:id/observations', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('observation:write')],
+    schema: {
+      description: 'Log a kennel observation',
+      tags: ['Kennel Observations'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = observationSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const observation = await prisma.kennelObservation.create({
+      data: {
+        animalId: id,
+        organizationId: animal.organizationId,
+        observedAt: body.observedAt ?? new Date(),
+        stressLevel: body.stressLevel,
+        enrichment: JSON.stringify(body.enrichment),
+        notes: body.notes,
+        observerId: user.id,
+        observer: user.name,
+      },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'kennel_observations',
+      resourceId: observation.id,
+      after: observation,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return reply.status(201).send({ success: true, data: formatObservation(observation) });
+  });
+
+  /**
+   * DELETE /animals/:id/observations/:observationId
+   * The observer may remove their own; staff who edit animals may remove any
+   */
+  app.delete('/:id/observations/:observationId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('observation:write')],
+    schema: {
+      description: 'Delete a kennel observation',
+      tags: ['Kennel Observations'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, observationId } = request.params as { id: string; observationId: string };
+    const animal = await getOwnAnimal(request, id);
+
+    const existing = await prisma.kennelObservation.findUnique({ where: { id: observationId } });
+    if (!existing || existing.animalId !== id) {
+      throw new NotFoundError('Kennel observation', observationId);
+    }
+    if (existing.observerId !== request.user!.id && !userHasPermission(request, 'animal:write')) {
+      throw new ForbiddenError('Only the observer or staff can delete an observation');
+    }
+
+    await prisma.kennelObservation.delete({ where: { id: observationId } });
+
+    setAuditContext(request, {
+      resourceType: 'kennel_observations',
+      resourceId: observationId,
+      before: existing,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return { success: true };
+  });
+}
@@ -0,0 +1,457 @@
+/**
+ * Medical Routes
+ *
+ * Medical records and vaccinations of an animal, and the organization's list
+ * of follow-ups and doses coming due (see services/medical.ts).
+ *
+ * Staff of the animal's organization see everything. Everyone else sees the
+ * entries marked public on a public animal, without diagnosis text.
+ *
+ * Medical records feed the risk score, so changing one recalculates it.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError } from '../lib/errors.js';
+import { optionalAuth, requireAuth, requirePermission, requireOrganization, userHasPermission } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  DUE_CARE_DAYS,
+  MedicalRecordType,
+  VaccinationRoute,
+  assertMedicalRecordDates,
+  assertVaccinationDates,
+  formatMedicalRecord,
+  formatPublicMedicalRecord,
+  formatPublicVaccination,
+  formatVaccination,
+  getDueCare,
+} from '../services/medical.js';
+import { updateRiskProfileIfInCare } from '../services/risk-scoring.js';
+
+// Schemas
+const text = (max: number) => z.string().trim().max(max).optional().nullable();
+
+const medicationSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  dosage: z.string().trim().max(200).optional(),
+  frequency: z.string().trim().max(200).optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+const medicalRecordSchema = z.object({
+  recordType: z.nativeEnum(MedicalRecordType),
+  date: z.coerce.date().optional(),
+  diagnosis: text(2000),
+  treatment: text(2000),
+  medications: z.array(medicationSchema).max(50).optional(),
+  weightKg: z.number().positive().max(1000).optional().nullable(),
+  bodyConditionScore: z.number().int().min(1).max(9).optional().nullable(),
+  prognosis: text(500),
+  followUpRequired: z.boolean().optional(),
+  followUpDate: z.coerce.date().optional().nullable(),
+  isTreatable: z.boolean().optional(),
+  affectsAdoptability: z.boolean().optional(),
+  estimatedCost: z.number().int().min(0).optional().nullable(),
+  veterinarian: text(200),
+  notes: text(5000),
+  isPublic: z.boolean().optional(),
+});
+
+const updateMedicalRecordSchema = medicalRecordSchema.partial().extend({
+  /** Mark the follow-up done (or reopen it) */
+  followUpCompleted: z.boolean().optional(),
+});
+
+const vaccinationSchema = z.object({
+  vaccineType: z.string().trim().min(1).max(50).transform(v => v.toUpperCase()),
+  product: text(200),
+  lotNumber: text(100),
+  dateGiven: z.coerce.date().optional(),
+  expirationDate: z.coerce.date().optional().nullable(),
+  nextDueDate: z.coerce.date().optional().nullable(),
+  route: z.nativeEnum(VaccinationRoute).optional(),
+  site: text(100),
+  administeredBy: text(200),
+  notes: text(2000),
+  isPublic: z.boolean().optional(),
+});
+
+const updateVaccinationSchema = vaccinationSchema.partial();
+
+const dueQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(60).default(DUE_CARE_DAYS),
+});
+
+/**
+ * Load an animal of any organization
+ */
+async function getAnimal(id: string) {
+  const animal = await prisma.animal.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true, isPublic: true, status: true },
+  });
+
+  if (!animal) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+/**
+ * Load an animal of the caller's organization
+ */
+async function getOwnAnimal(request: FastifyRequest, id: string) {
+  const animal = await getAnimal(id);
+
+  if (animal.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+/**
+ * Load an animal whose medical history the caller may read, and whether
+ * they see all of it (staff of its organization) or only the public entries
+ */
+async function getReadableAnimal(request: FastifyRequest, id: string) {
+  const animal = await getAnimal(id);
+  const isStaff = request.user?.organizationId === animal.organizationId
+    && userHasPermission(request, 'medical:read');
+
+  if (!isStaff && !animal.isPublic) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return { animal, isStaff };
+}
+
+async function getRecord(animalId: string, recordId: string) {
+  const record = await prisma.medicalRecord.findUnique({ where: { id: recordId } });
+
+  if (!record || record.animalId !== animalId) {
+    throw new NotFoundError('Medical record', recordId);
+  }
+
+  return record;
+}
+
+async function getVaccination(animalId: string, vaccinationId: string) {
+  const vaccination = await prisma.vaccination.findUnique({ where: { id: vaccinationId } });
+
+  if (!vaccination || vaccination.animalId !== animalId) {
+    throw new NotFoundError('Vaccination', vaccinationId);
+  }
+
+  return vaccination;
+}
+
+export async function medicalRoutes(app: FastifyInstance) {
+  /**
+   * GET /animals/medical/due
+   * Follow-ups and vaccinations due within `days` (default a week), overdue included
+   */
+  app.get('/medical/due', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:read')],
+    schema: {
+      description: 'List follow-ups and vaccinations coming due',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { days } = dueQuerySchema.parse(request.query);
+
+    const items = await getDueCare(request.user!.organizationId!, days);
+
+    return { success: true, data: items };
+  });
+
+  // ==========================================================================
+  // Medical records
+  // ==========================================================================
+
+  /**
+   * GET /animals/:id/medical
+   * Newest first; public entries only, without diagnosis, for non-staff
+   */
+  app.get('/:id/medical', {
+    preHandler: [optionalAuth()],
+    schema: {
+      description: 'List medical records of an animal',
+      tags: ['Medical'],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { isStaff } = await getReadableAnimal(request, id);
+
+    const records = await prisma.medicalRecord.findMany({
+      where: { animalId: id, ...(isStaff ? {} : { isPublic: true }) },
+      orderBy: { date: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: records.map(isStaff ? formatMedicalRecord : formatPublicMedicalRecord),
+    };
+  });
+
+  /**
+   * GET /animals/:id/medical/:recordId
+   */
+  app.get('/:id/medical/:recordId', {
+    preHandler: [optionalAuth()],
+    schema: {
+      description: 'Get a medical record',
+      tags: ['Medical'],
+    },
+  }, async (request, reply) => {
+    const { id, recordId } = request.params as { id: string; recordId: string };
+    const { isStaff } = await getReadableAnimal(request, id);
+    const record = await getRecord(id, recordId);
+
+    if (!isStaff && !record.isPublic) {
+      throw new NotFoundError('Medical record', recordId);
+    }
+
+    return { success: true, data: isStaff ? formatMedicalRecord(record) : formatPublicMedicalRecord(record) };
+  });
+
+  /**
+   * POST /animals/:id/medical
+   */
+  app.post('/:id/medical', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Add a medical record',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = medicalRecordSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const date = body.date ?? new Date();
+    assertMedicalRecordDates({
+      date,
+      followUpRequired: body.followUpRequired ?? false,
+      followUpDate: body.followUpDate ?? null,
+    });
+
+    const record = await prisma.medicalRecord.create({
+      data: {
+        ...body,
+        date,
+        medications: JSON.stringify(body.medications ?? []),
+        animalId: id,
+        organizationId: animal.organizationId,
+        veterinarianId: user.id,
+        veterinarian: body.veterinarian ?? user.name,
+      },
+    });
+
+    setAuditContext(request, { resourceType: 'medical_records', resourceId: record.id, after: record, metadata: { animalId: id } });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return reply.status(201).send({ success: true, data: formatMedicalRecord(record) });
+  });
+
+  /**
+   * PATCH /animals/:id/medical/:recordId
+   */
+  app.patch('/:id/medical/:recordId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Update a medical record',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, recordId } = request.params as { id: string; recordId: string };
+    const { followUpCompleted, medications, ...body } = updateMedicalRecordSchema.parse(request.body);
+    const animal = await getOwnAnimal(request, id);
+    const existing = await getRecord(id, recordId);
+
+    assertMedicalRecordDates({
+      date: body.date ?? existing.date,
+      followUpRequired: body.followUpRequired ?? existing.followUpRequired,
+      followUpDate: body.followUpDate !== undefined ? body.followUpDate : existing.followUpDate,
+    });
+
+    const data: Record<string, unknown> = { ...body };
+    if (medications !== undefined) {
+      data.medications = JSON.stringify(medications);
+    }
+    if (followUpCompleted !== undefined) {
+      data.followUpCompletedAt = followUpCompleted ? existing.followUpCompletedAt ?? new Date() : null;
+    }
+
+    const updated = await prisma.medicalRecord.update({ where: { id: recordId }, data });
+
+    setAuditContext(request, {
+      resourceType: 'medical_records',
+      resourceId: recordId,
+      before: existing,
+      after: updated,
+      metadata: { animalId: id },
+    });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return { success: true, data: formatMedicalRecord(updated) };
+  });
+
+  /**
+   * DELETE /animals/:id/medical/:recordId
+   */
+  app.delete('/:id/medical/:recordId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Delete a medical record',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, recordId } = request.params as { id: string; recordId: string };
+    const animal = await getOwnAnimal(request, id);
+    const existing = await getRecord(id, recordId);
+
+    await prisma.medicalRecord.delete({ where: { id: recordId } });
+
+    setAuditContext(request, { resourceType: 'medical_records', resourceId: recordId, before: existing, metadata: { animalId: id } });
+
+    await updateRiskProfileIfInCare(animal);
+
+    return { success: true };
+  });
+
+  // ==========================================================================
+  // Vaccinations
+  // ==========================================================================
+
+  /**
+   * GET /animals/:id/vaccinations
+   * Newest first; public entries only for non-staff
+   */
+  app.get('/:id/vaccinations', {
+    preHandler: [optionalAuth()],
+    schema: {
+      description: 'List vaccinations of an animal',
+      tags: ['Medical'],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { isStaff } = await getReadableAnimal(request, id);
+
+    const vaccinations = await prisma.vaccination.findMany({
+      where: { animalId: id, ...(isStaff ? {} : { isPublic: true }) },
+      orderBy: { dateGiven: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: vaccinations.map(isStaff ? formatVaccination : formatPublicVaccination),
+    };
+  });
+
+  /**
+   * POST /animals/:id/vaccinations
+   */
+  app.post('/:id/vaccinations', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Record a vaccination',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = vaccinationSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const dateGiven = body.dateGiven ?? new Date();
+    assertVaccinationDates({
+      dateGiven,
+      expirationDate: body.expirationDate ?? null,
+      nextDueDate: body.nextDueDate ?? null,
+    });
+
+    const vaccination = await prisma.vaccination.create({
+      data: {
+        ...body,
+        dateGiven,
+        animalId: id,
+        organizationId: animal.organizationId,
+        administeredById: user.id,
+        administeredBy: body.administeredBy ?? user.name,
+      },
+    });
+
+    setAuditContext(request, { resourceType: 'vaccinations', resourceId: vaccination.id, after: vaccination, metadata: { animalId: id } });
+
+    return reply.status(201).send({ success: true, data: formatVaccination(vaccination) });
+  });
+
+  /**
+   * PATCH /animals/:id/vaccinations/:vaccinationId
+   */
+  app.patch('/:id/vaccinations/:vaccinationId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Update a vaccination',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, vaccinationId } = request.params as { id: string; vaccinationId: string };
+    const body = updateVaccinationSchema.parse(request.body);
+    await getOwnAnimal(request, id);
+    const existing = await getVaccination(id, vaccinationId);
+
+    assertVaccinationDates({
+      dateGiven: body.dateGiven ?? existing.dateGiven,
+      expirationDate: body.expirationDate !== undefined ? body.expirationDate : existing.expirationDate,
+      nextDueDate: body.nextDueDate !== undefined ? body.nextDueDate : existing.nextDueDate,
+    });
+
+    const updated = await prisma.vaccination.update({ where: { id: vaccinationId }, data: body });
+
+    setAuditContext(request, {
+      resourceType: 'vaccinations',
+      resourceId: vaccinationId,
+      before: existing,
+      after: updated,
+      metadata: { animalId: id },
+    });
+
+    return { success: true, data: formatVaccination(updated) };
+  });
+
+  /**
+   * DELETE /animals/:id/vaccinations/:vaccinationId
+   */
+  app.delete('/:id/vaccinations/:vaccinationId', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('medical:write')],
+    schema: {
+      description: 'Delete a vaccination',
+      tags: ['Medical'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id, vaccinationId } = request.params as { id: string; vaccinationId: string };
+    await getOwnAnimal(request, id);
+    const existing = await getVaccination(id, vaccinationId);
+
+    await prisma.vaccination.delete({ where: { id: vaccinationId } });
+
+    setAuditContext(request, { resourceType: 'vaccinations', resourceId: vaccinationId, before: existing, metadata: { animalId: id } });
+
+    return { success: true };
+  });
+}
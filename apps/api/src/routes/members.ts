@@ -0,0 +1,329 @@
+/**
+ * Organization Member Routes
+ *
+ * List, invite, re-role and remove the members of an organization.
+ * Role rules and invitations live in services/memberships.ts; invitations
+ * are redeemed through /auth/invitations.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError, ForbiddenError, InvalidStateError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  ORG_ROLES,
+  assertCanManageRole,
+  assertNotLastOwner,
+  createInvitation,
+  sendInvitationEmail,
+} from '../services/memberships.js';
+import { revokeOrganizationSessions } from '../services/sessions.js';
+
+const logger = createLogger('members');
+
+// Schemas
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(ORG_ROLES).default('STAFF'),
+  expiresInDays: z.number().int().min(1).max(30).optional(),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(ORG_ROLES),
+});
+
+/**
+ * Load the organization by slug and check the caller acts for it
+ */
+async function getManagedOrganization(request: FastifyRequest, slug: string) {
+  const org = await prisma.organization.findUnique({ where: { slug } });
+  if (!org) {
+    throw new NotFoundError('Organization', slug);
+  }
+
+  if (request.user!.globalRole !== 'SUPERADMIN' && request.user!.organizationId !== org.id) {
+    throw new ForbiddenError('Access denied to this organization');
+  }
+
+  return org;
+}
+
+/**
+ * Find a membership of the organization or throw NotFoundError
+ */
+async function getMembership(organizationId: string, userId: string) {
+  const membership = await prisma.userOrganization.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  });
+  if (!membership) {
+    throw new NotFoundError('Member', userId);
+  }
+  return membership;
+}
+
+export async function memberRoutes(app: FastifyInstance) {
+  /**
+   * List members and pending invitations
+   */
+  app.get('/:slug/members', {
+    preHandler: [requireAuth(), requirePermission('org:users')],
+    schema: {
+      description: 'List organization members and pending invitations',
+      tags: ['Members'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { slug } = request.params as { slug: string };
+    const org = await getManagedOrganization(request, slug);
+
+    const [members, invitations] = await Promise.all([
+      prisma.userOrganization.findMany({
+        where: { organizationId: org.id },
+        include: {
+          user: { select: { id: true, name: true, email: true, status: true, lastLoginAt: true } },
+        },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      prisma.invitation.findMany({
+        where: {
+          organizationId: org.id,
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        members: members.map(m => ({
+          userId: m.user.id,
+          name: m.user.name,
+          email: m.user.email,
+          status: m.user.status,
+          role: m.role,
+          isPrimary: m.isPrimary,
+          invitedAt: m.invitedAt?.toISOString() ?? null,
+          joinedAt: m.joinedAt.toISOString(),
+          lastLoginAt: m.user.lastLoginAt?.toISOString() ?? null,
+        })),
+        invitations: invitations.map(i => ({
+          id: i.id,
+          email: i.email,
+          role: i.role,
+          invitedByName: i.invitedByName,
+          expiresAt: i.expiresAt.toISOString(),
+          createdAt: i.createdAt.toISOString(),
+        })),
+      },
+    };
+  });
+
+  /**
+   * Invite a member by email
+   * The token is also returned once so it can be shared directly.
+   */
+  app.post('/:slug/members', {
+    preHandler: [requireAuth(), requirePermission('org:users')],
+    schema: {
+      description: 'Invite a user to join the organization',
+      tags: ['Members'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+          role: { type: 'string', enum: [...ORG_ROLES] },
+          expiresInDays: { type: 'integer', minimum: 1, maximum: 30 },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { slug } = request.params as { slug: string };
+    const body = inviteSchema.parse(request.body);
+    const org = await getManagedOrganization(request, slug);
+
+    assertCanManageRole(request.user!, body.role);
+
+    const { invitation, token } = await createInvitation({
+      organizationId: org.id,
+      email: body.email,
+      role: body.role,
+      expiresInDays: body.expiresInDays,
+      invitedBy: { id: request.user!.id, name: request.user!.name },
+    });
+
+    const emailSent = await sendInvitationEmail(invitation, token, org.name);
+
+    setAuditContext(request, {
+      resourceType: 'invitations',
+      resourceId: invitation.id,
+      action: 'INVITE',
+      after: { email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt },
+      metadata: { organizationId: org.id },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt.toISOString(),
+        token,
+        emailSent,
+      },
+      message: emailSent
+        ? `Invitation sent to ${invitation.email}`
+        : `Invitation created for ${invitation.email}, but the email could not be sent`,
+    });
+  });
+
+  /**
+   * Change a member's role
+   */
+  app.patch('/:slug/members/:userId', {
+    preHandler: [requireAuth(), requirePermission('org:users')],
+    schema: {
+      description: 'Change the role of an organization member',
+      tags: ['Members'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['role'],
+        properties: {
+          role: { type: 'string', enum: [...ORG_ROLES] },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { slug, userId } = request.params as { slug: string; userId: string };
+    const body = updateMemberSchema.parse(request.body);
+    const org = await getManagedOrganization(request, slug);
+    const membership = await getMembership(org.id, userId);
+
+    // Must outrank both the current and the new role
+    assertCanManageRole(request.user!, membership.role);
+    assertCanManageRole(request.user!, body.role);
+
+    if (membership.role === body.role) {
+      return { success: true, data: { userId, role: membership.role } };
+    }
+
+    if (body.role !== 'OWNER') {
+      await assertNotLastOwner(org.id, userId);
+    }
+
+    const updated = await prisma.userOrganization.update({
+      where: { id: membership.id },
+      data: { role: body.role },
+    });
+
+    // Access tokens carry the old role; make the member sign in again
+    await revokeOrganizationSessions(userId, org.id);
+
+    setAuditContext(request, {
+      resourceType: 'members',
+      resourceId: userId,
+      before: { role: membership.role },
+      after: { role: updated.role },
+      metadata: { organizationId: org.id },
+    });
+
+    logger.info({ organizationId: org.id, userId, from: membership.role, to: updated.role }, 'Member role changed');
+
+    return {
+      success: true,
+      data: { userId, role: updated.role },
+      message: `${membership.user.name} is now ${updated.role}`,
+    };
+  });
+
+  /**
+   * Remove a member
+   */
+  app.delete('/:slug/members/:userId', {
+    preHandler: [requireAuth(), requirePermission('org:users')],
+    schema: {
+      description: 'Remove a member from the organization',
+      tags: ['Members'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { slug, userId } = request.params as { slug: string; userId: string };
+    const org = await getManagedOrganization(request, slug);
+    const membership = await getMembership(org.id, userId);
+
+    // Leaving the organization yourself is always allowed
+    if (userId !== request.user!.id) {
+      assertCanManageRole(request.user!, membership.role);
+    }
+    await assertNotLastOwner(org.id, userId);
+
+    await prisma.userOrganization.delete({ where: { id: membership.id } });
+    await revokeOrganizationSessions(userId, org.id);
+
+    setAuditContext(request, {
+      resourceType: 'members',
+      resourceId: userId,
+      action: 'REMOVE',
+      before: { email: membership.user.email, role: membership.role },
+      metadata: { organizationId: org.id },
+    });
+
+    logger.info({ organizationId: org.id, userId, removedBy: request.user!.id }, 'Member removed');
+
+    return {
+      success: true,
+      message: `${membership.user.name} was removed from ${org.name}`,
+    };
+  });
+
+  /**
+   * Revoke a pending invitation
+   */
+  app.delete('/:slug/invitations/:id', {
+    preHandler: [requireAuth(), requirePermission('org:users')],
+    schema: {
+      description: 'Revoke a pending invitation',
+      tags: ['Members'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { slug, id } = request.params as { slug: string; id: string };
+    const org = await getManagedOrganization(request, slug);
+
+    const invitation = await prisma.invitation.findFirst({
+      where: { id, organizationId: org.id },
+    });
+    if (!invitation || invitation.revokedAt) {
+      throw new NotFoundError('Invitation', id);
+    }
+    if (invitation.acceptedAt) {
+      throw new InvalidStateError('Invitation has already been accepted');
+    }
+
+    assertCanManageRole(request.user!, invitation.role);
+
+    await prisma.invitation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'invitations',
+      resourceId: id,
+      action: 'REVOKE',
+      metadata: { organizationId: org.id, email: invitation.email },
+    });
+
+    return { success: true, message: 'Invitation revoked' };
+  });
+}
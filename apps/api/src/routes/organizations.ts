@@ -10,6 +10,10 @@ import { prisma } from '@shelter-link/database';
 import { NotFoundError, ForbiddenError, ValidationError } from '../lib/errors.js';
 import { createLogger } from '../lib/logger.js';
 import { optionalAuth, requireAuth, requireSuperAdmin, requirePermission } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { AnimalStatus, IN_CARE_STATUSES, PUBLIC_LISTING_STATUSES, isInCare } from '../services/animal-lifecycle.js';
+import { publicRiskScore, publicRiskSeverity } from '../services/risk-review.js';
+import { resolveRiskPolicy } from '../services/risk-policies.js';
 
 const logger = createLogger('organizations');
 
@@ -113,7 +117,7 @@ export async function organizationRoutes(app: FastifyInstance) {
         _count: {
           select: {
             animals: {
-              where: { status: { in: ['IN_SHELTER', 'IN_FOSTER', 'AVAILABLE'] } },
+              where: { status: { in: PUBLIC_LISTING_STATUSES } },
             },
           },
         },
@@ -156,6 +160,7 @@ export async function organizationRoutes(app: FastifyInstance) {
     // Superadmin gets aggregate stats
     if (user.globalRole === 'SUPERADMIN') {
       const allAnimals = await prisma.animal.findMany({
+        where: { status: { in: IN_CARE_STATUSES } },
         include: { riskProfile: true },
       });
       
@@ -171,14 +176,14 @@ export async function organizationRoutes(app: FastifyInstance) {
           organizationName: 'All Organizations (Superadmin)',
           totalAnimals: allAnimals.length,
           status: {
-            available: allAnimals.filter(a => a.status === 'AVAILABLE').length,
-            medical: allAnimals.filter(a => a.status === 'MEDICAL_HOLD').length,
-            behavioral: allAnimals.filter(a => a.status === 'BEHAVIORAL_HOLD').length,
-            transferred: allAnimals.filter(a => a.status === 'TRANSFER_PENDING').length,
+            available: allAnimals.filter(a => a.status === AnimalStatus.AVAILABLE).length,
+            medical: allAnimals.filter(a => a.status === AnimalStatus.IN_MEDICAL).length,
+            behavioral: allAnimals.filter(a => a.status === AnimalStatus.HOLD).length,
+            transferred: allAnimals.filter(a => a.status === AnimalStatus.TRANSFER_PENDING).length,
           },
           riskSummary: bySeverity,
           capacity: {
-            current: allAnimals.filter(a => ['AVAILABLE', 'MEDICAL_HOLD', 'BEHAVIORAL_HOLD'].includes(a.status)).length,
+            current: allAnimals.filter(a => isInCare(a.status)).length,
             total: null,
           },
         },
@@ -197,6 +202,7 @@ export async function organizationRoutes(app: FastifyInstance) {
       where: { id: orgId },
       include: {
         animals: {
+          where: { status: { in: IN_CARE_STATUSES } },
           include: { riskProfile: true },
         },
       },
@@ -222,14 +228,14 @@ export async function organizationRoutes(app: FastifyInstance) {
         organizationSlug: org.slug,
         totalAnimals: org.animals.length,
         status: {
-          available: org.animals.filter(a => a.status === 'AVAILABLE').length,
-          medical: org.animals.filter(a => a.status === 'MEDICAL_HOLD').length,
-          behavioral: org.animals.filter(a => a.status === 'BEHAVIORAL_HOLD').length,
-          transferred: org.animals.filter(a => a.status === 'TRANSFER_PENDING').length,
+          available: org.animals.filter(a => a.status === AnimalStatus.AVAILABLE).length,
+          medical: org.animals.filter(a => a.status === AnimalStatus.IN_MEDICAL).length,
+          behavioral: org.animals.filter(a => a.status === AnimalStatus.HOLD).length,
+          transferred: org.animals.filter(a => a.status === AnimalStatus.TRANSFER_PENDING).length,
         },
         riskSummary: bySeverity,
         capacity: {
-          current: org.animals.filter(a => ['AVAILABLE', 'MEDICAL_HOLD', 'BEHAVIORAL_HOLD'].includes(a.status)).length,
+          current: org.animals.filter(a => isInCare(a.status)).length,
           total: org.capacity,
         },
       },
@@ -254,20 +260,21 @@ export async function organizationRoutes(app: FastifyInstance) {
         _count: {
           select: {
             animals: {
-              where: { status: { in: ['IN_SHELTER', 'IN_FOSTER', 'AVAILABLE'] } },
+              where: { status: { in: PUBLIC_LISTING_STATUSES } },
             },
           },
         },
         // Include at-risk animals for this org
         animals: {
           where: {
-            status: { in: ['IN_SHELTER', 'IN_FOSTER', 'AVAILABLE'] },
+            status: { in: PUBLIC_LISTING_STATUSES },
             riskProfile: { urgencyScore: { gte: 60 } },
           },
           include: { riskProfile: true },
           orderBy: { riskProfile: { urgencyScore: 'desc' } },
           take: 10,
         },
+        riskPolicy: true,
       },
     });
 
@@ -275,6 +282,18 @@ export async function organizationRoutes(app: FastifyInstance) {
       throw new NotFoundError('Organization', slug);
     }
 
+    // Unconfirmed CRITICALs are shown as HIGH, scored below the critical threshold
+    const { config } = resolveRiskPolicy(org.riskPolicy);
+    const atRiskAnimals = org.animals
+      .map(a => ({
+        id: a.id,
+        name: a.name,
+        species: a.species,
+        urgencyScore: a.riskProfile ? publicRiskScore(a.riskProfile, config) : undefined,
+        riskSeverity: a.riskProfile ? publicRiskSeverity(a.riskProfile) : undefined,
+      }))
+      .sort((x, y) => (y.urgencyScore ?? 0) - (x.urgencyScore ?? 0) || x.id.localeCompare(y.id));
+
     return {
       success: true,
       data: {
@@ -292,13 +311,7 @@ export async function organizationRoutes(app: FastifyInstance) {
         website: org.website,
         capacity: org.capacity,
         animalCount: org._count.animals,
-        atRiskAnimals: org.animals.map(a => ({
-          id: a.id,
-          name: a.name,
-          species: a.species,
-          urgencyScore: a.riskProfile?.urgencyScore,
-          riskSeverity: a.riskProfile?.riskSeverity,
-        })),
+        atRiskAnimals,
       },
     };
   });
@@ -363,6 +376,8 @@ export async function organizationRoutes(app: FastifyInstance) {
       },
     });
 
+    setAuditContext(request, { resourceType: 'join_requests', resourceId: joinRequest.id, after: joinRequest });
+
     logger.info({ requestId: joinRequest.id, orgName: body.organizationName }, 'Join request submitted');
 
     return {
@@ -453,7 +468,7 @@ export async function organizationRoutes(app: FastifyInstance) {
       });
 
       // Update join request
-      await prisma.joinRequest.update({
+      const updated = await prisma.joinRequest.update({
         where: { id },
         data: {
           status: 'APPROVED',
@@ -464,6 +479,14 @@ export async function organizationRoutes(app: FastifyInstance) {
         },
       });
 
+      setAuditContext(request, {
+        resourceType: 'join_requests',
+        resourceId: id,
+        action: 'APPROVE',
+        before: joinRequest,
+        after: updated,
+      });
+
       logger.info({ requestId: id, orgId: org.id }, 'Join request approved');
 
       return {
@@ -473,7 +496,7 @@ export async function organizationRoutes(app: FastifyInstance) {
       };
     } else {
       // Reject
-      await prisma.joinRequest.update({
+      const updated = await prisma.joinRequest.update({
         where: { id },
         data: {
           status: 'REJECTED',
@@ -483,6 +506,14 @@ export async function organizationRoutes(app: FastifyInstance) {
         },
       });
 
+      setAuditContext(request, {
+        resourceType: 'join_requests',
+        resourceId: id,
+        action: 'REJECT',
+        before: joinRequest,
+        after: updated,
+      });
+
       logger.info({ requestId: id }, 'Join request rejected');
 
       return {
@@ -599,7 +630,7 @@ export async function organizationRoutes(app: FastifyInstance) {
     const atRiskCount = await prisma.animal.count({
       where: {
         organizationId: org.id,
-        status: { in: ['IN_SHELTER', 'IN_FOSTER', 'AVAILABLE'] },
+        status: { in: IN_CARE_STATUSES },
         riskProfile: { urgencyScore: { gte: 60 } },
       },
     });
@@ -608,7 +639,7 @@ export async function organizationRoutes(app: FastifyInstance) {
     const avgLos = await prisma.animal.aggregate({
       where: {
         organizationId: org.id,
-        status: { in: ['IN_SHELTER', 'AVAILABLE'] },
+        status: { in: IN_CARE_STATUSES },
       },
       _avg: { daysInShelter: true },
     });
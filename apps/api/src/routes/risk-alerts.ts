@@ -0,0 +1,147 @@
+/**
+ * Risk Alert Routes
+ *
+ * Threshold alerts raised by recalculation (see services/risk-alerts.ts).
+ * Staff and above see the alerts of their organization and acknowledge them.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { acknowledgeRiskAlert } from '../services/risk-alerts.js';
+
+// Schemas
+const listAlertsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(['OPEN', 'ACKNOWLEDGED', 'ALL']).default('OPEN'),
+  severity: z.enum(['CRITICAL', 'HIGH', 'ELEVATED']).optional(),
+  animalId: z.string().optional(),
+});
+
+const acknowledgeAlertSchema = z.object({
+  resolutionNotes: z.string().trim().min(1).max(2000).optional(),
+});
+
+type RiskAlertRecord = NonNullable<Awaited<ReturnType<typeof prisma.riskAlert.findUnique>>>;
+
+/**
+ * Load an alert of the caller's organization
+ */
+async function getOwnAlert(request: FastifyRequest, id: string) {
+  const alert = await prisma.riskAlert.findUnique({ where: { id } });
+
+  if (!alert || alert.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Risk alert', id);
+  }
+
+  return alert;
+}
+
+function formatAlert(alert: RiskAlertRecord, animal?: { id: string; name: string; species: string } | null) {
+  return {
+    id: alert.id,
+    animalId: alert.animalId,
+    ...(animal !== undefined ? { animal } : {}),
+    alertType: alert.alertType,
+    severity: alert.severity,
+    previousScore: alert.previousScore,
+    newScore: alert.newScore,
+    previousSeverity: alert.previousSeverity,
+    newSeverity: alert.newSeverity,
+    triggeringFactors: JSON.parse(alert.triggeringFactors),
+    message: alert.message,
+    recommendedActions: JSON.parse(alert.recommendedActions),
+    acknowledged: alert.acknowledgedAt !== null,
+    acknowledgedBy: alert.acknowledgedByName,
+    acknowledgedAt: alert.acknowledgedAt?.toISOString() ?? null,
+    resolutionNotes: alert.resolutionNotes,
+    createdAt: alert.createdAt.toISOString(),
+  };
+}
+
+export async function riskAlertRoutes(app: FastifyInstance) {
+  /**
+   * GET /risk/alerts
+   * Open alerts by default, newest first
+   */
+  app.get('/alerts', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:alerts')],
+    schema: {
+      description: 'List risk alerts',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const params = listAlertsQuerySchema.parse(request.query);
+    const orgId = request.user!.organizationId!;
+
+    const where: any = { organizationId: orgId };
+    if (params.status === 'OPEN') where.acknowledgedAt = null;
+    if (params.status === 'ACKNOWLEDGED') where.acknowledgedAt = { not: null };
+    if (params.severity) where.severity = params.severity;
+    if (params.animalId) where.animalId = params.animalId;
+
+    const [alerts, total] = await Promise.all([
+      prisma.riskAlert.findMany({
+        where,
+        include: { animal: { select: { id: true, name: true, species: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.pageSize,
+        take: params.pageSize,
+      }),
+      prisma.riskAlert.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: alerts.map(a => formatAlert(a, a.animal)),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        totalItems: total,
+        totalPages: Math.ceil(total / params.pageSize),
+        hasNextPage: params.page * params.pageSize < total,
+        hasPreviousPage: params.page > 1,
+      },
+    };
+  });
+
+  /**
+   * POST /risk/alerts/:id/acknowledge
+   * Acknowledge an open alert, optionally noting what was done
+   */
+  app.post('/alerts/:id/acknowledge', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:alerts')],
+    schema: {
+      description: 'Acknowledge a risk alert',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = acknowledgeAlertSchema.parse(request.body ?? {});
+    const user = request.user!;
+    const existing = await getOwnAlert(request, id);
+
+    const acknowledged = await acknowledgeRiskAlert(id, body.resolutionNotes ?? null, { id: user.id, name: user.name });
+
+    setAuditContext(request, {
+      resourceType: 'risk_alerts',
+      resourceId: id,
+      action: 'ACKNOWLEDGE',
+      before: { acknowledged: false },
+      after: { acknowledged: true },
+      metadata: {
+        animalId: existing.animalId,
+        severity: existing.severity,
+        resolutionNotes: body.resolutionNotes ?? null,
+      },
+    });
+
+    return { success: true, data: formatAlert(acknowledged!) };
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Risk Override Routes
+ *
+ * Manual overrides of an animal's risk score and their history
+ * (see services/risk-overrides.ts).
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { InvalidStateError, NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { RiskOverrideEndReason, endRiskOverride, setRiskOverride } from '../services/risk-overrides.js';
+import { updateAnimalRiskProfile } from '../services/risk-scoring.js';
+
+// Schemas
+const overrideSchema = z.object({
+  urgencyScore: z.number().int().min(0).max(100),
+  riskSeverity: z.enum(['CRITICAL', 'HIGH', 'ELEVATED', 'MODERATE', 'LOW']),
+  reason: z.string().trim().min(1, 'A reason is required').max(2000),
+  expiresAt: z.coerce.date().optional().nullable(),
+});
+
+/**
+ * Load an animal of the caller's organization with its risk profile
+ */
+async function getOwnAnimal(request: FastifyRequest, id: string) {
+  const animal = await prisma.animal.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true, riskProfile: true },
+  });
+
+  if (!animal || animal.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Animal', id);
+  }
+
+  return animal;
+}
+
+export async function riskOverrideRoutes(app: FastifyInstance) {
+  /**
+   * PUT /risk/animals/:id/override
+   * Replace the animal's score and severity until cleared or expired
+   */
+  app.put('/animals/:id/override', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:override')],
+    schema: {
+      description: 'Override an animal risk score',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = overrideSchema.parse(request.body);
+    const user = request.user!;
+    const animal = await getOwnAnimal(request, id);
+
+    const override = await setRiskOverride(id, {
+      urgencyScore: body.urgencyScore,
+      riskSeverity: body.riskSeverity,
+      reason: body.reason,
+      expiresAt: body.expiresAt,
+    }, { id: user.id, name: user.name });
+
+    setAuditContext(request, {
+      resourceType: 'animals',
+      resourceId: id,
+      action: 'OVERRIDE_RISK',
+      before: animal.riskProfile
+        ? { urgencyScore: animal.riskProfile.urgencyScore, riskSeverity: animal.riskProfile.riskSeverity }
+        : null,
+      after: { urgencyScore: override.urgencyScore, riskSeverity: override.riskSeverity },
+      metadata: { reason: override.reason, expiresAt: override.expiresAt?.toISOString() ?? null },
+    });
+
+    return {
+      success: true,
+      data: {
+        id: override.id,
+        animalId: id,
+        urgencyScore: override.urgencyScore,
+        riskSeverity: override.riskSeverity,
+        reason: override.reason,
+        expiresAt: override.expiresAt?.toISOString() ?? null,
+        calculatedScore: override.calculatedScore,
+        calculatedSeverity: override.calculatedSeverity,
+        createdByName: override.createdByName,
+        createdAt: override.createdAt.toISOString(),
+      },
+      message: 'Risk override set',
+    };
+  });
+
+  /**
+   * DELETE /risk/animals/:id/override
+   * Clear the override and go back to the calculated score
+   */
+  app.delete('/animals/:id/override', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:override')],
+    schema: {
+      description: 'Clear an animal risk override',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const animal = await getOwnAnimal(request, id);
+
+    if (!animal.riskProfile?.isManualOverride) {
+      throw new InvalidStateError('Animal has no active risk override');
+    }
+
+    await endRiskOverride(id, RiskOverrideEndReason.CLEARED, request.user!.name);
+    const result = await updateAnimalRiskProfile(id);
+
+    setAuditContext(request, {
+      resourceType: 'animals',
+      resourceId: id,
+      action: 'CLEAR_RISK_OVERRIDE',
+      before: { urgencyScore: animal.riskProfile.urgencyScore, riskSeverity: animal.riskProfile.riskSeverity },
+      after: { urgencyScore: result.urgencyScore, riskSeverity: result.riskSeverity },
+    });
+
+    return {
+      success: true,
+      data: result,
+      message: 'Risk override cleared',
+    };
+  });
+
+  /**
+   * GET /risk/animals/:id/overrides
+   * Every override of the animal, newest first
+   */
+  app.get('/animals/:id/overrides', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('animal:read')],
+    schema: {
+      description: 'Get animal risk override history',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await getOwnAnimal(request, id);
+
+    const overrides = await prisma.riskOverride.findMany({
+      where: { animalId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: overrides.map(o => ({
+        id: o.id,
+        urgencyScore: o.urgencyScore,
+        riskSeverity: o.riskSeverity,
+        reason: o.reason,
+        expiresAt: o.expiresAt?.toISOString() ?? null,
+        calculatedScore: o.calculatedScore,
+        calculatedSeverity: o.calculatedSeverity,
+        createdByName: o.createdByName,
+        createdAt: o.createdAt.toISOString(),
+        active: o.endedAt === null,
+        endedAt: o.endedAt?.toISOString() ?? null,
+        endReason: o.endReason,
+        endedByName: o.endedByName,
+      })),
+    };
+  });
+}
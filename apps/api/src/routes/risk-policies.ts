@@ -0,0 +1,387 @@
+/**
+ * Risk Policy Routes
+ *
+ * Versioned risk scoring policies and the per-organization selection.
+ * Organization policies belong to one organization; platform policies
+ * (no organization) are managed by superadmins and selectable by all.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { DEFAULT_RISK_SCORING_CONFIG, RISK_WEIGHT_LIMITS } from '@shelter-link/types';
+import { NotFoundError, ForbiddenError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  DEFAULT_RISK_POLICY,
+  createRiskPolicy,
+  lintRiskScoringConfig,
+  parseRiskPolicyConfig,
+  publishRiskPolicy,
+  retireRiskPolicy,
+  resolveRiskPolicy,
+  riskPolicyLabel,
+  selectRiskPolicy,
+  updateRiskPolicyDraft,
+} from '../services/risk-policies.js';
+import { recalculateOrganizationRiskProfiles } from '../services/risk-scoring.js';
+import { loadSimulationAnimals, simulateRiskPolicy } from '../services/risk-simulation.js';
+
+// Schemas
+const createPolicySchema = z.object({
+  name: z.string().min(3).max(100).regex(/^[^@]+$/, 'Name cannot contain @'),
+  description: z.string().max(2000).optional(),
+  config: z.unknown(),
+  platform: z.boolean().default(false),
+});
+
+const updatePolicySchema = z.object({
+  description: z.string().max(2000).optional(),
+  config: z.unknown().optional(),
+});
+
+const selectPolicySchema = z.object({
+  policyId: z.string().nullable(),
+});
+
+type RiskPolicyRecord = NonNullable<Awaited<ReturnType<typeof prisma.riskPolicy.findUnique>>>;
+
+/**
+ * Load a policy the caller can see: their organization's or a platform policy
+ */
+async function getVisiblePolicy(request: FastifyRequest, id: string) {
+  const policy = await prisma.riskPolicy.findUnique({ where: { id } });
+
+  const user = request.user!;
+  if (!policy || (
+    user.globalRole !== 'SUPERADMIN' &&
+    policy.organizationId !== null &&
+    policy.organizationId !== user.organizationId
+  )) {
+    throw new NotFoundError('Risk policy', id);
+  }
+
+  return policy;
+}
+
+/**
+ * Load a policy the caller may change. Platform policies are superadmin-only.
+ */
+async function getManagedPolicy(request: FastifyRequest, id: string) {
+  const policy = await getVisiblePolicy(request, id);
+
+  if (policy.organizationId === null && request.user!.globalRole !== 'SUPERADMIN') {
+    throw new ForbiddenError('Platform policies are managed by superadmins');
+  }
+
+  return policy;
+}
+
+function formatPolicy(policy: RiskPolicyRecord) {
+  return {
+    id: policy.id,
+    organizationId: policy.organizationId,
+    scope: policy.organizationId ? 'ORGANIZATION' : 'PLATFORM',
+    name: policy.name,
+    version: policy.version,
+    algorithmVersion: riskPolicyLabel(policy),
+    description: policy.description,
+    status: policy.status,
+    config: parseRiskPolicyConfig(policy),
+    createdByName: policy.createdByName,
+    publishedAt: policy.publishedAt?.toISOString() ?? null,
+    createdAt: policy.createdAt.toISOString(),
+  };
+}
+
+export async function riskPolicyRoutes(app: FastifyInstance) {
+  /**
+   * GET /risk/policies
+   * Policies visible to the organization and which one is selected
+   */
+  app.get('/policies', {
+    preHandler: [requireAuth(), requirePermission('org:read')],
+    schema: {
+      description: 'List risk scoring policies',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const user = request.user!;
+    const orgId = user.organizationId;
+
+    const where = user.globalRole === 'SUPERADMIN' && !orgId
+      ? {}
+      : { OR: [{ organizationId: null }, { organizationId: orgId ?? undefined }] };
+
+    const [policies, org] = await Promise.all([
+      prisma.riskPolicy.findMany({
+        where,
+        orderBy: [{ name: 'asc' }, { version: 'desc' }],
+      }),
+      orgId
+        ? prisma.organization.findUnique({ where: { id: orgId }, select: { riskPolicyId: true } })
+        : null,
+    ]);
+
+    return {
+      success: true,
+      data: policies.map(formatPolicy),
+      meta: {
+        selectedPolicyId: org?.riskPolicyId ?? null,
+        default: {
+          algorithmVersion: DEFAULT_RISK_POLICY.algorithmVersion,
+          config: DEFAULT_RISK_SCORING_CONFIG,
+        },
+        weightLimits: RISK_WEIGHT_LIMITS,
+      },
+    };
+  });
+
+  /**
+   * GET /risk/policies/:id
+   */
+  app.get('/policies/:id', {
+    preHandler: [requireAuth(), requirePermission('org:read')],
+    schema: {
+      description: 'Get a risk scoring policy',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const policy = await getVisiblePolicy(request, id);
+
+    const inUse = await prisma.organization.count({ where: { riskPolicyId: id } });
+
+    return {
+      success: true,
+      data: {
+        ...formatPolicy(policy),
+        selectedByOrganizations: inUse,
+      },
+    };
+  });
+
+  /**
+   * POST /risk/policies
+   * Create a draft as the next version of `name`
+   */
+  app.post('/policies', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Create a risk scoring policy draft',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const body = createPolicySchema.parse(request.body);
+    const user = request.user!;
+
+    if (body.platform && user.globalRole !== 'SUPERADMIN') {
+      throw new ForbiddenError('Platform policies are managed by superadmins');
+    }
+    if (!body.platform && !user.organizationId) {
+      throw new ForbiddenError('Organization membership required');
+    }
+
+    const policy = await createRiskPolicy({
+      organizationId: body.platform ? null : user.organizationId!,
+      name: body.name,
+      description: body.description,
+      config: body.config,
+      createdBy: { id: user.id, name: user.name },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'risk_policies',
+      resourceId: policy.id,
+      after: { name: policy.name, version: policy.version, config: policy.config },
+    });
+
+    return reply.status(201).send({ success: true, data: formatPolicy(policy) });
+  });
+
+  /**
+   * POST /risk/policies/lint
+   * Check a config against the schema and ethical limits without saving it
+   */
+  app.post('/policies/lint', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Validate a risk scoring config',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { config } = (request.body ?? {}) as { config?: unknown };
+    const violations = lintRiskScoringConfig(config);
+
+    return {
+      success: true,
+      data: { valid: violations.length === 0, violations },
+    };
+  });
+
+  /**
+   * PATCH /risk/policies/:id
+   * Edit a draft
+   */
+  app.patch('/policies/:id', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Update a risk scoring policy draft',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updatePolicySchema.parse(request.body);
+    const existing = await getManagedPolicy(request, id);
+
+    const updated = await updateRiskPolicyDraft(id, {
+      description: body.description,
+      config: body.config,
+    });
+
+    setAuditContext(request, {
+      resourceType: 'risk_policies',
+      resourceId: id,
+      before: { description: existing.description, config: existing.config },
+      after: { description: updated.description, config: updated.config },
+    });
+
+    return { success: true, data: formatPolicy(updated) };
+  });
+
+  /**
+   * POST /risk/policies/:id/publish
+   * Freeze a draft so it can be selected
+   */
+  app.post('/policies/:id/publish', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Publish a risk scoring policy',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await getManagedPolicy(request, id);
+
+    const published = await publishRiskPolicy(id);
+
+    setAuditContext(request, { resourceType: 'risk_policies', resourceId: id, action: 'PUBLISH' });
+
+    return {
+      success: true,
+      data: formatPolicy(published!),
+      message: `${riskPolicyLabel(published!)} published`,
+    };
+  });
+
+  /**
+   * POST /risk/policies/:id/retire
+   */
+  app.post('/policies/:id/retire', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Retire a risk scoring policy',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await getManagedPolicy(request, id);
+
+    const retired = await retireRiskPolicy(id);
+
+    setAuditContext(request, { resourceType: 'risk_policies', resourceId: id, action: 'RETIRE' });
+
+    return { success: true, data: formatPolicy(retired) };
+  });
+
+  /**
+   * POST /risk/policies/:id/simulate
+   * Re-score every current and historical animal of the organization (all
+   * organizations for superadmins without one) under the policy, without
+   * saving, and compare with the policy in use today
+   */
+  app.post('/policies/:id/simulate', {
+    preHandler: [requireAuth(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Simulate a risk scoring policy against current and historical animals',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const policy = await getVisiblePolicy(request, id);
+    const orgId = request.user!.organizationId ?? null;
+
+    if (!orgId && request.user!.globalRole !== 'SUPERADMIN') {
+      throw new ForbiddenError('Organization membership required');
+    }
+
+    const animals = await loadSimulationAnimals(orgId);
+    const simulation = simulateRiskPolicy(animals, resolveRiskPolicy(policy));
+
+    setAuditContext(request, {
+      resourceType: 'risk_policies',
+      resourceId: id,
+      action: 'SIMULATE',
+      metadata: {
+        organizationId: orgId,
+        animals: simulation.totals.animals,
+        severityChanges: simulation.severityChanges,
+      },
+    });
+
+    return { success: true, data: simulation };
+  });
+
+  /**
+   * PUT /risk/policy
+   * Select the policy the organization scores with (null = default) and
+   * rescore animals in care
+   */
+  app.put('/policy', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:policy')],
+    schema: {
+      description: 'Select the organization risk scoring policy',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const body = selectPolicySchema.parse(request.body);
+    const orgId = request.user!.organizationId!;
+
+    const before = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { riskPolicyId: true },
+    });
+
+    const policy = await selectRiskPolicy(orgId, body.policyId);
+    const { updated: recalculated } = await recalculateOrganizationRiskProfiles(orgId);
+
+    setAuditContext(request, {
+      resourceType: 'organizations',
+      resourceId: orgId,
+      action: 'SELECT_RISK_POLICY',
+      before: { riskPolicyId: before?.riskPolicyId ?? null },
+      after: { riskPolicyId: policy.id },
+      metadata: { algorithmVersion: policy.algorithmVersion, recalculated },
+    });
+
+    return {
+      success: true,
+      data: {
+        policyId: policy.id,
+        algorithmVersion: policy.algorithmVersion,
+        recalculated,
+      },
+      message: `Now scoring with ${policy.algorithmVersion}`,
+    };
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Risk Review Routes
+ *
+ * Human review queue for risk score changes (see services/risk-review.ts).
+ * Managers and above work the queue of their organization.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { NotFoundError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { RiskReviewStatus, resolveRiskReview, type RiskReviewDecision } from '../services/risk-review.js';
+
+// Schemas
+const listReviewsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.nativeEnum(RiskReviewStatus).default(RiskReviewStatus.PENDING),
+  animalId: z.string().optional(),
+});
+
+const note = z.string().trim().min(1, 'A note is required').max(2000);
+
+const resolveReviewSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('CONFIRM'), note }),
+  z.object({
+    action: z.literal('ADJUST'),
+    note,
+    adjustedScore: z.number().int().min(0).max(100),
+    /** Kept as a manual override until then; open-ended when omitted */
+    expiresAt: z.coerce.date().optional().nullable(),
+  }),
+  z.object({ action: z.literal('DISMISS'), note }),
+]);
+
+type RiskReviewRecord = NonNullable<Awaited<ReturnType<typeof prisma.riskReview.findUnique>>>;
+
+/**
+ * Load a review of the caller's organization
+ */
+async function getOwnReview(request: FastifyRequest, id: string) {
+  const review = await prisma.riskReview.findUnique({ where: { id } });
+
+  if (!review || review.organizationId !== request.user!.organizationId) {
+    throw new NotFoundError('Risk review', id);
+  }
+
+  return review;
+}
+
+function formatReview(review: RiskReviewRecord, animal?: { id: string; name: string; species: string } | null) {
+  return {
+    id: review.id,
+    animalId: review.animalId,
+    ...(animal !== undefined ? { animal } : {}),
+    triggers: JSON.parse(review.triggers),
+    missingFields: JSON.parse(review.missingFields),
+    previousScore: review.previousScore,
+    previousSeverity: review.previousSeverity,
+    newScore: review.newScore,
+    newSeverity: review.newSeverity,
+    status: review.status,
+    adjustedScore: review.adjustedScore,
+    adjustedSeverity: review.adjustedSeverity,
+    note: review.note,
+    reviewedByName: review.reviewedByName,
+    reviewedAt: review.reviewedAt?.toISOString() ?? null,
+    createdAt: review.createdAt.toISOString(),
+    updatedAt: review.updatedAt.toISOString(),
+  };
+}
+
+export async function riskReviewRoutes(app: FastifyInstance) {
+  /**
+   * GET /risk/reviews
+   * Review queue, pending items by default, oldest first
+   */
+  app.get('/reviews', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:review')],
+    schema: {
+      description: 'List risk score reviews',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const params = listReviewsQuerySchema.parse(request.query);
+    const orgId = request.user!.organizationId!;
+
+    const where: any = { organizationId: orgId, status: params.status };
+    if (params.animalId) where.animalId = params.animalId;
+
+    const [reviews, total] = await Promise.all([
+      prisma.riskReview.findMany({
+        where,
+        include: { animal: { select: { id: true, name: true, species: true } } },
+        orderBy: { createdAt: params.status === RiskReviewStatus.PENDING ? 'asc' : 'desc' },
+        skip: (params.page - 1) * params.pageSize,
+        take: params.pageSize,
+      }),
+      prisma.riskReview.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: reviews.map(r => formatReview(r, r.animal)),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        totalItems: total,
+        totalPages: Math.ceil(total / params.pageSize),
+        hasNextPage: params.page * params.pageSize < total,
+        hasPreviousPage: params.page > 1,
+      },
+    };
+  });
+
+  /**
+   * GET /risk/reviews/:id
+   */
+  app.get('/reviews/:id', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:review')],
+    schema: {
+      description: 'Get a risk score review',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const review = await getOwnReview(request, id);
+
+    return { success: true, data: formatReview(review) };
+  });
+
+  /**
+   * POST /risk/reviews/:id/resolve
+   * Confirm, adjust or dismiss a pending review, with a note
+   */
+  app.post('/reviews/:id/resolve', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('risk:review')],
+    schema: {
+      description: 'Resolve a risk score review',
+      tags: ['Risk'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = resolveReviewSchema.parse(request.body) as RiskReviewDecision;
+    const user = request.user!;
+    const existing = await getOwnReview(request, id);
+
+    const resolved = await resolveRiskReview(id, body, { id: user.id, name: user.name });
+
+    setAuditContext(request, {
+      resourceType: 'risk_reviews',
+      resourceId: id,
+      action: body.action,
+      before: { status: existing.status, score: existing.newScore, severity: existing.newSeverity },
+      after: {
+        status: resolved!.status,
+        adjustedScore: resolved!.adjustedScore,
+        adjustedSeverity: resolved!.adjustedSeverity,
+      },
+      metadata: { animalId: existing.animalId, note: body.note },
+    });
+
+    return { success: true, data: formatReview(resolved!) };
+  });
+}
@@ -4,17 +4,49 @@
  * Simplified risk assessment endpoints.
  * 
  * TODO (Production):
- * - Add kennel stress tracking
- * - Add medical/behavioral score inputs
+ * - Add behavioral assessment score inputs
  * - Integrate ML-based predictions
- * - Add historical risk tracking
  * - Add admin override capabilities
  */
 
 import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
 import { prisma } from '@shelter-link/database';
-import { requireAuth, requireOrganization, requirePermission, optionalAuth } from '../middleware/auth.js';
-import { calculateRiskScore, updateAnimalRiskProfile, recalculateOrganizationRiskProfiles } from '../services/risk-scoring.js';
+import { PROHIBITED_RISK_FACTORS } from '@shelter-link/types';
+import {
+  requireAuth,
+  requireOrganization,
+  requirePermission,
+  optionalAuth,
+  riskDetailAccess,
+  userHasPermission,
+} from '../middleware/auth.js';
+import {
+  STRESS_WINDOW_DAYS,
+  calculateRiskScore,
+  effectiveSeverityThresholds,
+  maximumRiskScore,
+  recalculateOrganizationRiskProfiles,
+  updateAnimalRiskProfile,
+  visibleRiskFactors,
+  visibleRiskReasons,
+} from '../services/risk-scoring.js';
+import { IN_CARE_STATUSES } from '../services/animal-lifecycle.js';
+import { DEFAULT_RISK_POLICY, getOrganizationRiskPolicy } from '../services/risk-policies.js';
+import { buildRiskBiasReport, loadBiasReportAnimals } from '../services/risk-bias.js';
+import { publicRiskScore, publicRiskSeverity } from '../services/risk-review.js';
+import { RiskHistoryBucket, getRiskHistories, getRiskHistory } from '../services/risk-history.js';
+import { ForbiddenError, NotFoundError } from '../lib/errors.js';
+
+const historyQuerySchema = z.object({
+  bucket: z.nativeEnum(RiskHistoryBucket).default(RiskHistoryBucket.DAY),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+const historiesQuerySchema = historyQuerySchema.extend({
+  /** Comma-separated, at most 100 */
+  animalIds: z.string().min(1).refine(value => value.split(',').length <= 100, 'At most 100 animal IDs'),
+});
 
 // ============================================================================
 // Routes
@@ -43,7 +75,7 @@ export async function riskRoutes(app: FastifyInstance) {
     const animals = await prisma.animal.findMany({
       where: {
         ...where,
-        status: { in: ['AVAILABLE', 'MEDICAL_HOLD', 'BEHAVIORAL_HOLD'] },
+        status: { in: IN_CARE_STATUSES },
       },
       include: {
         riskProfile: true,
@@ -98,12 +130,15 @@ export async function riskRoutes(app: FastifyInstance) {
 
   /**
    * GET /risk/animals/:id
-   * Get risk profile for a specific animal
+   * Get risk profile for a specific animal, with the per-factor breakdown.
+   * The public sees an unconfirmed CRITICAL as HIGH, scored below the
+   * critical threshold.
    */
   app.get('/animals/:id', {
     preHandler: [optionalAuth()],
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
+    const isStaff = request.user && userHasPermission(request, 'animal:read');
     
     const profile = await prisma.riskProfile.findUnique({
       where: { animalId: id },
@@ -134,28 +169,117 @@ export async function riskRoutes(app: FastifyInstance) {
       });
     }
     
-    // Parse risk reasons JSON
+    // Parse risk reasons and factor breakdown JSON
     let reasons: string[] = [];
+    let factors: unknown[] = [];
     try {
       reasons = JSON.parse(profile.riskReasons || '[]');
+      factors = JSON.parse(profile.riskFactors || '[]');
     } catch {
       reasons = [];
+      factors = [];
     }
     
+    const riskSeverity = isStaff ? profile.riskSeverity : publicRiskSeverity(profile);
+    const urgencyScore = isStaff
+      ? profile.urgencyScore
+      : publicRiskScore(profile, (await getOrganizationRiskPolicy(profile.animal.organization.id)).config);
+    // Medical and hold details stay with the animal's own staff
+    const access = riskDetailAccess(request, profile.animal.organization.id);
+    reasons = visibleRiskReasons(reasons, access);
+    factors = visibleRiskFactors(factors as Array<{ factor: string }>, access);
+    
     return {
       success: true,
       data: {
         animalId: profile.animalId,
-        urgencyScore: profile.urgencyScore,
-        riskSeverity: profile.riskSeverity,
+        urgencyScore,
+        riskSeverity,
+        ...(isStaff ? {
+          criticalConfirmedAt: profile.criticalConfirmedAt?.toISOString() ?? null,
+          calculatedScore: profile.calculatedScore,
+          calculatedSeverity: profile.calculatedSeverity,
+          isManualOverride: profile.isManualOverride,
+          overrideReason: profile.overrideReason,
+          overrideBy: profile.overrideBy,
+          overrideExpiresAt: profile.overrideExpiresAt?.toISOString() ?? null,
+        } : {}),
         riskReasons: reasons,
+        // Explains the calculated score, which an override may have replaced
+        riskFactors: factors,
         lengthOfStay: profile.lengthOfStay,
         isSenior: profile.isSenior,
         hasSpecialNeeds: profile.hasSpecialNeeds,
         lastCalculated: profile.lastCalculated.toISOString(),
+        algorithmVersion: profile.algorithmVersion,
         animal: profile.animal,
         // Explain the score
-        explanation: getScoreExplanation(profile.urgencyScore, reasons),
+        explanation: getScoreExplanation(riskSeverity, reasons),
+      },
+    };
+  });
+
+  /**
+   * GET /risk/history?animalIds=a,b,c
+   * Score histories of several animals at once, for lists with a sparkline
+   * per animal. Animals of other organizations are left out.
+   */
+  app.get('/history', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('animal:read')],
+  }, async (request, reply) => {
+    const params = historiesQuerySchema.parse(request.query);
+    const animalIds = [...new Set(params.animalIds.split(','))];
+
+    const animals = await prisma.animal.findMany({
+      where: { id: { in: animalIds }, organizationId: request.user!.organizationId },
+      select: { id: true },
+    });
+    const ownIds = new Set(animals.map(a => a.id));
+
+    const histories = await getRiskHistories(
+      animalIds.filter(id => ownIds.has(id)),
+      { bucket: params.bucket, days: params.days }
+    );
+
+    return {
+      success: true,
+      data: histories.map(history => ({
+        ...history,
+        from: history.from.toISOString(),
+        to: history.to.toISOString(),
+        points: history.points.map(p => ({ ...p, bucketStart: p.bucketStart.toISOString() })),
+      })),
+    };
+  });
+
+  /**
+   * GET /risk/animals/:id/history
+   * Score history bucketed by day or week, with the trend over the range
+   */
+  app.get('/animals/:id/history', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('animal:read')],
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const params = historyQuerySchema.parse(request.query);
+
+    const animal = await prisma.animal.findUnique({
+      where: { id },
+      select: { organizationId: true },
+    });
+
+    if (!animal || animal.organizationId !== request.user!.organizationId) {
+      throw new NotFoundError('Animal', id);
+    }
+
+    const history = await getRiskHistory(id, { bucket: params.bucket, days: params.days });
+
+    return {
+      success: true,
+      data: {
+        ...history,
+        from: history.from.toISOString(),
+        to: history.to.toISOString(),
+        points: history.points.map(p => ({ ...p, bucketStart: p.bucketStart.toISOString() })),
       },
     };
   });
@@ -233,7 +357,7 @@ export async function riskRoutes(app: FastifyInstance) {
     const animals = await prisma.animal.findMany({
       where: {
         organizationId: orgId,
-        status: { in: ['AVAILABLE', 'MEDICAL_HOLD', 'BEHAVIORAL_HOLD'] },
+        status: { in: IN_CARE_STATUSES },
       },
       include: {
         riskProfile: true,
@@ -282,55 +406,94 @@ export async function riskRoutes(app: FastifyInstance) {
     };
   });
 
+  /**
+   * GET /risk/bias-report
+   * Compare current scores across color, breed and intake source for the
+   * organization (all organizations for superadmins without one)
+   */
+  app.get('/bias-report', {
+    preHandler: [requireAuth(), requirePermission('audit:read')],
+  }, async (request, reply) => {
+    const user = request.user!;
+    const orgId = user.organizationId ?? null;
+
+    if (!orgId && user.globalRole !== 'SUPERADMIN') {
+      throw new ForbiddenError('Organization membership required');
+    }
+
+    const animals = await loadBiasReportAnimals(orgId);
+
+    return {
+      success: true,
+      data: buildRiskBiasReport(animals),
+    };
+  });
+
   /**
    * GET /risk/factors
-   * Get explanation of risk factors used in scoring
+   * Explain the factors and thresholds of the policy the caller's
+   * organization scores with (the default policy when anonymous). Weights
+   * are the factors' real shares of the score; thresholds are scaled to
+   * the highest score the evaluated factors can reach.
    */
-  app.get('/factors', async (request, reply) => {
+  app.get('/factors', {
+    preHandler: [optionalAuth()],
+  }, async (request, reply) => {
+    const orgId = request.user?.organizationId;
+    const policy = orgId ? await getOrganizationRiskPolicy(orgId) : DEFAULT_RISK_POLICY;
+    const { weights } = policy.config;
+    const severityThresholds = effectiveSeverityThresholds(policy.config);
+    
     return {
       success: true,
       data: {
+        algorithmVersion: policy.algorithmVersion,
+        maximumScore: maximumRiskScore(policy.config),
         factors: [
           {
             name: 'Length of Stay',
-            weight: 40,
+            weight: Math.round(weights.lengthOfStay * 100),
             description: 'Animals with longer shelter stays face increased risk',
             thresholds: [
-              { days: 60, score: 'Maximum (40 points)' },
-              { days: 30, score: 'High (25 points)' },
-              { days: 14, score: 'Moderate (scaled)' },
+              { days: '2x target', score: 'Maximum' },
+              { days: 'Target reached', score: 'High' },
+              { days: 'Below target', score: 'Scaled' },
             ],
           },
           {
             name: 'Senior Status',
-            weight: 20,
+            weight: Math.round(weights.specialCategories * 50),
             description: 'Senior and geriatric animals are often overlooked',
             applies: 'SENIOR and GERIATRIC age categories',
           },
           {
             name: 'Special Needs',
-            weight: 20,
+            weight: Math.round(weights.specialCategories * 50),
             description: 'Animals with medical or behavioral needs require more resources',
             applies: 'Any animal with documented special needs',
           },
           {
-            name: 'Large Breed Dogs',
-            weight: 10,
-            description: 'Large and extra-large dogs face adoption challenges',
-            applies: 'LARGE and EXTRA_LARGE dogs only',
+            name: 'Medical',
+            weight: Math.round(weights.medical * 100),
+            description: 'Conditions that need treatment or narrow the pool of adopters',
+            applies: 'Untreatable conditions, heartworm, FIV/FeLV, conditions affecting adoptability and follow-ups due within 3 days',
           },
           {
-            name: 'Black Animal Bias',
-            weight: 10,
-            description: 'Black animals are statistically adopted at lower rates',
-            applies: 'Animals with black as primary color',
+            name: 'Kennel Stress',
+            weight: Math.round(weights.behavioral * 100),
+            description: 'Stress observed on kennel rounds; animals nobody observed get no points',
+            applies: `Average stress over the last ${STRESS_WINDOW_DAYS} days or a rising trend, raised when enrichment is mostly missing`,
           },
         ],
+        excludedFactors: Object.entries(PROHIBITED_RISK_FACTORS).map(([factor, { reason }]) => ({
+          factor,
+          reason,
+        })),
         severityLevels: [
-          { level: 'CRITICAL', minScore: 80, action: 'Immediate intervention needed' },
-          { level: 'HIGH', minScore: 60, action: 'Priority attention required' },
-          { level: 'ELEVATED', minScore: 40, action: 'Close monitoring recommended' },
-          { level: 'MODERATE', minScore: 20, action: 'Standard care protocols' },
+          { level: 'CRITICAL', minScore: severityThresholds.critical, action: 'Immediate intervention needed' },
+          { level: 'HIGH', minScore: severityThresholds.high, action: 'Priority attention required' },
+          { level: 'ELEVATED', minScore: severityThresholds.elevated, action: 'Close monitoring recommended' },
+          { level: 'MODERATE', minScore: severityThresholds.moderate, action: 'Standard care protocols' },
           { level: 'LOW', minScore: 0, action: 'Routine monitoring' },
         ],
       },
@@ -342,26 +505,31 @@ export async function riskRoutes(app: FastifyInstance) {
 // Helpers
 // ============================================================================
 
-function getScoreExplanation(score: number, reasons: string[]): string {
+function getScoreExplanation(severity: string, reasons: string[]): string {
   const reasonLabels: Record<string, string> = {
     'LONG_LOS': 'extended shelter stay',
     'SENIOR': 'senior status',
     'SPECIAL_NEEDS': 'special needs',
-    'LARGE_BREED': 'large breed challenges',
-    'BLACK_ANIMAL': 'black animal bias',
+    'MEDICAL_CRITICAL': 'a condition that is not treatable',
+    'MEDICAL_URGENT': 'a medical follow-up due soon',
+    'FIV_FELV': 'FIV/FeLV status',
+    'HEARTWORM_POSITIVE': 'heartworm treatment',
+    'KENNEL_STRESS': 'signs of kennel stress',
+    'HOLD_EXPIRING': 'a hold ending soon',
   };
   
   const readableReasons = reasons
     .map(r => reasonLabels[r] || r)
     .join(', ');
   
-  if (score >= 80) {
+  // Severity rather than score: thresholds depend on the policy
+  if (severity === 'CRITICAL') {
     return `CRITICAL: This animal needs immediate attention due to ${readableReasons || 'multiple risk factors'}.`;
-  } else if (score >= 60) {
+  } else if (severity === 'HIGH') {
     return `HIGH RISK: Priority placement needed. Contributing factors: ${readableReasons || 'elevated risk indicators'}.`;
-  } else if (score >= 40) {
+  } else if (severity === 'ELEVATED') {
     return `ELEVATED: Enhanced visibility recommended due to ${readableReasons || 'moderate risk factors'}.`;
-  } else if (score >= 20) {
+  } else if (severity === 'MODERATE') {
     return `MODERATE: Standard care with attention to ${readableReasons || 'typical adoption timeline'}.`;
   } else {
     return `LOW: Good adoption prospects expected.`;
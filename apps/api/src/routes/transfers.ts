@@ -3,6 +3,13 @@
  * 
  * Simplified transfer request management between organizations.
  * 
+ * Animals with a behavioral placement restriction (RESCUE_ONLY,
+ * NOT_ADOPTABLE) can only go to rescue partners (see services/behavior.ts).
+ * Active stray, legal and quarantine holds stop a transfer from being
+ * requested, scheduled or sent on its way (see services/holds.ts). Once
+ * the animal is in transit, arrival is confirmed whatever holds were
+ * placed since.
+ * 
  * TODO (Production):
  * - Add medical/behavioral summaries
  * - Integrate transport coordination
@@ -14,6 +21,42 @@ import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '@shelter-link/database';
 import { requireAuth, requirePermission, requireOrganization, optionalAuth } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import { AnimalStatus, assertStatusTransition } from '../services/animal-lifecycle.js';
+import {
+  TransferStatus,
+  ACTIVE_TRANSFER_STATUSES,
+  assertTransferTransition,
+  canTransitionTransfer,
+} from '../services/transfer-lifecycle.js';
+import { updateAnimalRiskProfile } from '../services/risk-scoring.js';
+import { canTransferTo } from '../services/behavior.js';
+import { describeBlockingHolds, getBlockingHolds } from '../services/holds.js';
+import { emitWebhookEvent } from '../services/webhooks.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('transfers');
+
+/**
+ * Notify both organizations of a transfer status change
+ */
+async function emitTransferStatusChanged(
+  transfer: { id: string; animalId: string; fromOrganizationId: string; toOrganizationId: string },
+  previousStatus: string,
+  status: string
+) {
+  const data = {
+    transferId: transfer.id,
+    animalId: transfer.animalId,
+    fromOrganizationId: transfer.fromOrganizationId,
+    toOrganizationId: transfer.toOrganizationId,
+    previousStatus,
+    status,
+  };
+
+  await emitWebhookEvent(transfer.fromOrganizationId, 'transfer.status_changed', data);
+  await emitWebhookEvent(transfer.toOrganizationId, 'transfer.status_changed', data);
+}
 
 // ============================================================================
 // Schemas
@@ -32,6 +75,14 @@ const respondSchema = z.object({
   responseNotes: z.string().optional(),
 });
 
+const scheduleSchema = z.object({
+  scheduledDate: z.string().datetime(),
+});
+
+const progressSchema = z.object({
+  notes: z.string().optional(),
+});
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -104,6 +155,8 @@ export async function transferRoutes(app: FastifyInstance) {
         requestedByName: t.requestedByName,
         respondedAt: t.respondedAt?.toISOString() ?? null,
         responseNotes: t.responseNotes,
+        scheduledDate: t.scheduledDate?.toISOString() ?? null,
+        completedAt: t.completedAt?.toISOString() ?? null,
         animal: {
           id: t.animal.id,
           name: t.animal.name,
@@ -182,10 +235,17 @@ export async function transferRoutes(app: FastifyInstance) {
         ...transfer,
         requestedAt: transfer.requestedAt.toISOString(),
         respondedAt: transfer.respondedAt?.toISOString() ?? null,
+        scheduledDate: transfer.scheduledDate?.toISOString() ?? null,
         completedAt: transfer.completedAt?.toISOString() ?? null,
         direction: transfer.fromOrganizationId === orgId ? 'outgoing' : 'incoming',
-        canRespond: transfer.toOrganizationId === orgId && transfer.status === 'PENDING',
-        canCancel: transfer.fromOrganizationId === orgId && transfer.status === 'PENDING',
+        canRespond: transfer.toOrganizationId === orgId && transfer.status === TransferStatus.PENDING,
+        canCancel: transfer.fromOrganizationId === orgId
+          && canTransitionTransfer(transfer.status, TransferStatus.CANCELLED),
+        canSchedule: canTransitionTransfer(transfer.status, TransferStatus.SCHEDULED),
+        canMarkInTransit: transfer.fromOrganizationId === orgId
+          && canTransitionTransfer(transfer.status, TransferStatus.IN_TRANSIT),
+        canComplete: transfer.toOrganizationId === orgId
+          && canTransitionTransfer(transfer.status, TransferStatus.COMPLETED),
       },
     };
   });
@@ -220,7 +280,7 @@ export async function transferRoutes(app: FastifyInstance) {
       });
     }
     
-    if (animal.status !== 'AVAILABLE') {
+    if (animal.status !== AnimalStatus.AVAILABLE) {
       return reply.status(400).send({
         success: false,
         error: 'Animal is not available for transfer',
@@ -246,18 +306,34 @@ export async function transferRoutes(app: FastifyInstance) {
       });
     }
     
-    // Check for existing pending transfer
+    // Behavioral placement restrictions limit where the animal may go
+    if (!canTransferTo(animal.placementRestriction, toOrg.type)) {
+      return reply.status(400).send({
+        success: false,
+        error: `Animal is assessed ${animal.placementRestriction} and cannot be transferred to a ${toOrg.type}`,
+      });
+    }
+    
+    const holds = await getBlockingHolds(animal.id, 'TRANSFER_OUT');
+    if (holds.length > 0) {
+      return reply.status(400).send({
+        success: false,
+        error: `Animal is on hold and cannot be transferred: ${describeBlockingHolds(holds)}`,
+      });
+    }
+    
+    // Check for an existing transfer that has not finished yet
     const existing = await prisma.transferRequest.findFirst({
       where: {
         animalId: body.animalId,
-        status: 'PENDING',
+        status: { in: ACTIVE_TRANSFER_STATUSES },
       },
     });
     
     if (existing) {
       return reply.status(400).send({
         success: false,
-        error: 'A pending transfer request already exists for this animal',
+        error: 'An active transfer request already exists for this animal',
       });
     }
     
@@ -271,7 +347,7 @@ export async function transferRoutes(app: FastifyInstance) {
         reason: body.reason,
         notes: body.notes,
         requestedByName: user.name,
-        status: 'PENDING',
+        status: TransferStatus.PENDING,
       },
       include: {
         animal: {
@@ -284,12 +360,29 @@ export async function transferRoutes(app: FastifyInstance) {
     });
     
     // Update animal status
+    const pendingStatus = assertStatusTransition(animal.status, AnimalStatus.TRANSFER_PENDING);
     await prisma.animal.update({
       where: { id: body.animalId },
-      data: { status: 'TRANSFER_PENDING' },
+      data: { status: pendingStatus },
     });
     
-    // TODO: Send notification to destination org
+    setAuditContext(request, { resourceType: 'transfers', resourceId: transfer.id, after: transfer });
+    
+    // The destination organization's integrations learn about the request here
+    const requested = {
+      transferId: transfer.id,
+      animalId: transfer.animalId,
+      fromOrganizationId: fromOrgId,
+      toOrganizationId: body.toOrganizationId,
+      urgency: transfer.urgency,
+    };
+    await emitWebhookEvent(fromOrgId, 'transfer.requested', requested);
+    await emitWebhookEvent(body.toOrganizationId, 'transfer.requested', requested);
+    await emitWebhookEvent(fromOrgId, 'animal.status_changed', {
+      animalId: animal.id,
+      previousStatus: animal.status,
+      status: pendingStatus,
+    });
     
     return reply.status(201).send({
       success: true,
@@ -302,7 +395,8 @@ export async function transferRoutes(app: FastifyInstance) {
 
   /**
    * PUT /transfers/:id
-   * Respond to a transfer request (approve/decline) or cancel
+   * Respond to a transfer request (approve/decline) or cancel it.
+   * Approval does not move the animal - see /schedule, /in-transit and /complete.
    */
   app.put('/:id', {
     preHandler: [requireAuth(), requireOrganization(), requirePermission('transfer:write')],
@@ -326,13 +420,6 @@ export async function transferRoutes(app: FastifyInstance) {
       });
     }
     
-    if (transfer.status !== 'PENDING') {
-      return reply.status(400).send({
-        success: false,
-        error: 'Transfer request is no longer pending',
-      });
-    }
-    
     // Determine action type
     const isCancel = body.status === 'CANCELLED';
     const isFromOrg = transfer.fromOrganizationId === orgId;
@@ -354,38 +441,59 @@ export async function transferRoutes(app: FastifyInstance) {
       });
     }
     
-    // Update transfer
-    const updated = await prisma.transferRequest.update({
-      where: { id },
-      data: {
-        status: body.status,
-        responseNotes: body.responseNotes,
-        respondedAt: new Date(),
-        respondedByName: user.name,
-        completedAt: body.status === 'APPROVED' ? new Date() : null,
-      },
-    });
+    assertTransferTransition(transfer.status, body.status);
     
-    // Handle animal status update
-    if (body.status === 'APPROVED') {
-      // Transfer the animal to the new org
-      await prisma.animal.update({
-        where: { id: transfer.animalId },
+    // Declined and cancelled transfers return the animal to AVAILABLE;
+    // approved transfers keep it TRANSFER_PENDING until arrival
+    const nextAnimalStatus = body.status === 'APPROVED'
+      ? null
+      : assertStatusTransition(transfer.animal.status, AnimalStatus.AVAILABLE);
+    
+    // A cancellation after approval keeps the original response
+    const isResponse = transfer.status === TransferStatus.PENDING;
+    
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.transferRequest.update({
+        where: { id },
         data: {
-          organizationId: transfer.toOrganizationId,
-          status: 'AVAILABLE',
+          status: body.status,
+          ...(isResponse ? {
+            responseNotes: body.responseNotes,
+            respondedAt: new Date(),
+            respondedByName: user.name,
+          } : {}),
         },
       });
-    } else {
-      // Reset animal to available
-      await prisma.animal.update({
-        where: { id: transfer.animalId },
-        data: { status: 'AVAILABLE' },
+      
+      if (nextAnimalStatus) {
+        await tx.animal.update({
+          where: { id: transfer.animalId },
+          data: { status: nextAnimalStatus },
+        });
+      }
+      
+      return result;
+    });
+    
+    setAuditContext(request, {
+      resourceType: 'transfers',
+      resourceId: id,
+      action: body.status === 'APPROVED' ? 'APPROVE' : body.status === 'DECLINED' ? 'DECLINE' : 'CANCEL',
+      before: transfer,
+      after: updated,
+    });
+    
+    await emitTransferStatusChanged(transfer, transfer.status, updated.status);
+    if (nextAnimalStatus) {
+      await emitWebhookEvent(transfer.fromOrganizationId, 'animal.status_changed', {
+        animalId: transfer.animalId,
+        previousStatus: transfer.animal.status,
+        status: nextAnimalStatus,
       });
     }
     
     const messages = {
-      APPROVED: `Transfer approved! ${transfer.animal.name} has been transferred.`,
+      APPROVED: `Transfer approved. Schedule a pickup date for ${transfer.animal.name} to continue.`,
       DECLINED: `Transfer request declined.`,
       CANCELLED: `Transfer request cancelled.`,
     };
@@ -400,6 +508,299 @@ export async function transferRoutes(app: FastifyInstance) {
     };
   });
 
+  /**
+   * POST /transfers/:id/schedule
+   * Set (or move) the pickup date of an approved transfer. Either organization
+   * may schedule since transport is arranged between both parties.
+   */
+  app.post('/:id/schedule', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('transfer:write')],
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = scheduleSchema.parse(request.body);
+    const orgId = request.user!.organizationId!;
+    
+    const transfer = await prisma.transferRequest.findUnique({
+      where: { id },
+      include: { animal: { select: { name: true } } },
+    });
+    
+    if (!transfer) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Transfer request not found',
+      });
+    }
+    
+    if (transfer.fromOrganizationId !== orgId && transfer.toOrganizationId !== orgId) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Access denied',
+      });
+    }
+    
+    const scheduledDate = new Date(body.scheduledDate);
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    
+    if (scheduledDate < startOfToday) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Pickup date cannot be in the past',
+      });
+    }
+    
+    assertTransferTransition(transfer.status, TransferStatus.SCHEDULED);
+    
+    // A hold may have been placed since the transfer was requested
+    const holds = await getBlockingHolds(transfer.animalId, 'TRANSFER_OUT');
+    if (holds.length > 0) {
+      return reply.status(400).send({
+        success: false,
+        error: `Animal is on hold and cannot be transferred: ${describeBlockingHolds(holds)}`,
+      });
+    }
+    
+    const updated = await prisma.transferRequest.update({
+      where: { id },
+      data: {
+        status: TransferStatus.SCHEDULED,
+        scheduledDate,
+      },
+    });
+    
+    setAuditContext(request, {
+      resourceType: 'transfers',
+      resourceId: id,
+      action: 'SCHEDULE',
+      before: transfer,
+      after: updated,
+    });
+    
+    if (transfer.status !== updated.status) {
+      await emitTransferStatusChanged(transfer, transfer.status, updated.status);
+    }
+    
+    return {
+      success: true,
+      data: {
+        id: updated.id,
+        status: updated.status,
+        scheduledDate: scheduledDate.toISOString(),
+        message: `Pickup for ${transfer.animal.name} scheduled for ${scheduledDate.toDateString()}.`,
+      },
+    };
+  });
+
+  /**
+   * POST /transfers/:id/in-transit
+   * Sending organization hands the animal over to transport
+   */
+  app.post('/:id/in-transit', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('transfer:write')],
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = progressSchema.parse(request.body ?? {});
+    const orgId = request.user!.organizationId!;
+    
+    const transfer = await prisma.transferRequest.findUnique({
+      where: { id },
+      include: { animal: { select: { name: true } } },
+    });
+    
+    if (!transfer) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Transfer request not found',
+      });
+    }
+    
+    if (transfer.fromOrganizationId !== orgId) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Only the sending organization can mark a transfer in transit',
+      });
+    }
+    
+    assertTransferTransition(transfer.status, TransferStatus.IN_TRANSIT);
+    
+    // A hold may have been placed since the transfer was requested
+    const holds = await getBlockingHolds(transfer.animalId, 'TRANSFER_OUT');
+    if (holds.length > 0) {
+      return reply.status(400).send({
+        success: false,
+        error: `Animal is on hold and cannot be transferred: ${describeBlockingHolds(holds)}`,
+      });
+    }
+    
+    const updated = await prisma.transferRequest.update({
+      where: { id },
+      data: {
+        status: TransferStatus.IN_TRANSIT,
+        ...(body.notes ? { notes: transfer.notes ? `${transfer.notes}\n${body.notes}` : body.notes } : {}),
+      },
+    });
+    
+    setAuditContext(request, {
+      resourceType: 'transfers',
+      resourceId: id,
+      action: 'IN_TRANSIT',
+      before: transfer,
+      after: updated,
+    });
+    
+    await emitTransferStatusChanged(transfer, transfer.status, updated.status);
+    
+    return {
+      success: true,
+      data: {
+        id: updated.id,
+        status: updated.status,
+        message: `${transfer.animal.name} is on the way.`,
+      },
+    };
+  });
+
+  /**
+   * POST /transfers/:id/complete
+   * Receiving organization confirms arrival. Ownership moves here, together
+   * with a TRANSFER_OUT outcome for the sender and a TRANSFER_IN intake for
+   * the receiver.
+   */
+  app.post('/:id/complete', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('transfer:write')],
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = progressSchema.parse(request.body ?? {});
+    const orgId = request.user!.organizationId!;
+    const user = request.user!;
+    
+    const transfer = await prisma.transferRequest.findUnique({
+      where: { id },
+      include: {
+        animal: true,
+        fromOrganization: { select: { id: true, name: true } },
+        toOrganization: { select: { id: true, name: true } },
+      },
+    });
+    
+    if (!transfer) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Transfer request not found',
+      });
+    }
+    
+    if (transfer.toOrganizationId !== orgId) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Only the receiving organization can confirm arrival',
+      });
+    }
+    
+    // No hold check: the animal has already left, and an IN_TRANSIT
+    // transfer can only complete. Holds are checked before it leaves.
+    assertTransferTransition(transfer.status, TransferStatus.COMPLETED);
+    
+    // Leaves the sender as TRANSFERRED, then re-enters care at the receiver
+    const outgoingStatus = assertStatusTransition(transfer.animal.status, AnimalStatus.TRANSFERRED);
+    const arrivalStatus = assertStatusTransition(outgoingStatus, AnimalStatus.IN_SHELTER, {
+      intakeType: 'TRANSFER_IN',
+    });
+    
+    const now = new Date();
+    
+    const completed = await prisma.$transaction(async (tx) => {
+      const result = await tx.transferRequest.update({
+        where: { id },
+        data: {
+          status: TransferStatus.COMPLETED,
+          completedAt: now,
+        },
+      });
+      
+      await tx.outcomeEvent.create({
+        data: {
+          animalId: transfer.animalId,
+          organizationId: transfer.fromOrganizationId,
+          outcomeType: 'TRANSFER_OUT',
+          outcomeDate: now,
+          destinationOrgId: transfer.toOrganizationId,
+          destinationOrgName: transfer.toOrganization.name,
+          notes: transfer.reason,
+          processedBy: transfer.requestedByName,
+        },
+      });
+      
+      await tx.intakeEvent.create({
+        data: {
+          animalId: transfer.animalId,
+          organizationId: transfer.toOrganizationId,
+          intakeType: 'TRANSFER_IN',
+          intakeDate: now,
+          notes: body.notes ?? `Transferred from ${transfer.fromOrganization.name}`,
+          processedBy: user.name,
+        },
+      });
+      
+      await tx.animal.update({
+        where: { id: transfer.animalId },
+        data: {
+          organizationId: transfer.toOrganizationId,
+          status: arrivalStatus,
+          intakeDate: now,
+          outcomeDate: null,
+        },
+      });
+      
+      return result;
+    });
+    
+    setAuditContext(request, {
+      resourceType: 'transfers',
+      resourceId: id,
+      action: 'COMPLETE',
+      before: transfer,
+      after: completed,
+      metadata: {
+        animalId: transfer.animalId,
+        fromOrganizationId: transfer.fromOrganizationId,
+        toOrganizationId: transfer.toOrganizationId,
+      },
+    });
+    
+    await emitTransferStatusChanged(transfer, transfer.status, completed.status);
+    await emitWebhookEvent(transfer.fromOrganizationId, 'animal.status_changed', {
+      animalId: transfer.animalId,
+      previousStatus: transfer.animal.status,
+      status: outgoingStatus,
+    });
+    await emitWebhookEvent(transfer.toOrganizationId, 'animal.status_changed', {
+      animalId: transfer.animalId,
+      previousStatus: outgoingStatus,
+      status: arrivalStatus,
+    });
+    
+    // Length of stay restarts at the receiving organization
+    await updateAnimalRiskProfile(transfer.animalId);
+    
+    logger.info({
+      transferId: id,
+      animalId: transfer.animalId,
+      fromOrganizationId: transfer.fromOrganizationId,
+      toOrganizationId: transfer.toOrganizationId,
+    }, 'Transfer completed');
+    
+    return {
+      success: true,
+      data: {
+        id,
+        status: TransferStatus.COMPLETED,
+        message: `${transfer.animal.name} has arrived at ${transfer.toOrganization.name}. Welcome!`,
+      },
+    };
+  });
+
   /**
    * GET /transfers/organizations
    * Get list of organizations available for transfers
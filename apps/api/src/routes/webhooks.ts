@@ -0,0 +1,428 @@
+/**
+ * Webhook Routes
+ *
+ * Manage outgoing webhooks for partner integrations.
+ * Events are queued and delivered by services/webhooks.ts.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import { config } from '../config/index.js';
+import { NotFoundError, ForbiddenError, ValidationError } from '../lib/errors.js';
+import { requireAuth, requirePermission, requireOrganization } from '../middleware/auth.js';
+import { setAuditContext } from '../middleware/audit.js';
+import {
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+  generateWebhookSecret,
+  parseJsonColumn,
+  requeueDelivery,
+  sendWebhookRequest,
+} from '../services/webhooks.js';
+
+// Production endpoints must be HTTPS; plain HTTP is allowed for local testing
+const webhookUrl = z.string().url().refine(
+  (url) => url.startsWith('https://') || (config.env !== 'production' && url.startsWith('http://')),
+  { message: 'Webhook URL must use https' }
+);
+
+// Schemas
+const createWebhookSchema = z.object({
+  name: z.string().min(3).max(100),
+  url: webhookUrl,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  headers: z.record(z.string()).optional(),
+  isActive: z.boolean().default(true),
+});
+
+const updateWebhookSchema = z.object({
+  name: z.string().min(3).max(100).optional(),
+  url: webhookUrl.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  headers: z.record(z.string()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.string().optional(),
+});
+
+/**
+ * Find a webhook of the caller's organization or throw
+ */
+async function getOwnWebhook(request: FastifyRequest, id: string) {
+  const webhook = await prisma.webhook.findUnique({ where: { id } });
+
+  if (!webhook) {
+    throw new NotFoundError('Webhook', id);
+  }
+
+  if (webhook.organizationId !== request.user!.organizationId) {
+    throw new ForbiddenError('Access denied');
+  }
+
+  return webhook;
+}
+
+/**
+ * Public shape of a webhook (secret never included)
+ */
+function formatWebhook(webhook: {
+  id: string;
+  name: string;
+  url: string;
+  events: string;
+  headers: string;
+  isActive: boolean;
+  lastTriggeredAt: Date | null;
+  lastStatus: string | null;
+  failureCount: number;
+  createdAt: Date;
+}) {
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    events: parseJsonColumn<string[]>(webhook.events, []),
+    headerNames: Object.keys(parseJsonColumn<Record<string, string>>(webhook.headers, {})),
+    isActive: webhook.isActive,
+    lastTriggeredAt: webhook.lastTriggeredAt?.toISOString() ?? null,
+    lastStatus: webhook.lastStatus,
+    failureCount: webhook.failureCount,
+    createdAt: webhook.createdAt.toISOString(),
+  };
+}
+
+export async function webhookRoutes(app: FastifyInstance) {
+  /**
+   * List webhooks
+   */
+  app.get('/', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:read')],
+    schema: {
+      description: 'List webhooks for organization',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const webhooks = await prisma.webhook.findMany({
+      where: { organizationId: request.user!.organizationId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      success: true,
+      data: webhooks.map(formatWebhook),
+      meta: { availableEvents: WEBHOOK_EVENTS },
+    };
+  });
+
+  /**
+   * Get webhook details with recent deliveries
+   */
+  app.get('/:id', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:read')],
+    schema: {
+      description: 'Get webhook details',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const webhook = await getOwnWebhook(request, id);
+
+    const [recentDeliveries, deadCount] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where: { webhookId: id },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+        select: {
+          id: true,
+          eventType: true,
+          status: true,
+          attemptCount: true,
+          statusCode: true,
+          duration: true,
+          createdAt: true,
+        },
+      }),
+      prisma.webhookDelivery.count({ where: { webhookId: id, status: WebhookDeliveryStatus.DEAD } }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        ...formatWebhook(webhook),
+        secretHint: `••••••••${webhook.secret.slice(-4)}`,
+        deadLetterCount: deadCount,
+        recentDeliveries,
+      },
+    };
+  });
+
+  /**
+   * Create webhook
+   * The signing secret is returned once.
+   */
+  app.post('/', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Create webhook',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const body = createWebhookSchema.parse(request.body);
+    const secret = generateWebhookSecret();
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        organizationId: request.user!.organizationId!,
+        name: body.name,
+        url: body.url,
+        events: JSON.stringify(body.events),
+        headers: JSON.stringify(body.headers ?? {}),
+        secret,
+        isActive: body.isActive,
+        createdById: request.user!.id,
+      },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'webhooks',
+      resourceId: webhook.id,
+      after: { name: webhook.name, url: webhook.url, events: webhook.events, isActive: webhook.isActive },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        ...formatWebhook(webhook),
+        secret, // Only returned on creation and rotation
+      },
+    });
+  });
+
+  /**
+   * Update webhook
+   */
+  app.patch('/:id', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Update webhook',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updateWebhookSchema.parse(request.body);
+    const webhook = await getOwnWebhook(request, id);
+
+    const updated = await prisma.webhook.update({
+      where: { id },
+      data: {
+        name: body.name,
+        url: body.url,
+        events: body.events ? JSON.stringify(body.events) : undefined,
+        headers: body.headers ? JSON.stringify(body.headers) : undefined,
+        isActive: body.isActive,
+        // Reset failure count if re-enabling
+        failureCount: body.isActive === true ? 0 : undefined,
+      },
+    });
+
+    setAuditContext(request, {
+      resourceType: 'webhooks',
+      resourceId: id,
+      before: { name: webhook.name, url: webhook.url, events: webhook.events, isActive: webhook.isActive },
+      after: { name: updated.name, url: updated.url, events: updated.events, isActive: updated.isActive },
+    });
+
+    return { success: true, data: formatWebhook(updated) };
+  });
+
+  /**
+   * Delete webhook (and its delivery history)
+   */
+  app.delete('/:id', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Delete webhook',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const webhook = await getOwnWebhook(request, id);
+
+    await prisma.webhook.delete({ where: { id } });
+
+    setAuditContext(request, {
+      resourceType: 'webhooks',
+      resourceId: id,
+      before: { name: webhook.name, url: webhook.url },
+    });
+
+    return { success: true, message: 'Webhook deleted' };
+  });
+
+  /**
+   * Rotate webhook secret
+   */
+  app.post('/:id/rotate-secret', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Rotate webhook secret',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await getOwnWebhook(request, id);
+
+    const secret = generateWebhookSecret();
+    await prisma.webhook.update({
+      where: { id },
+      data: { secret },
+    });
+
+    setAuditContext(request, { resourceType: 'webhooks', resourceId: id, action: 'ROTATE_SECRET' });
+
+    return {
+      success: true,
+      data: { secret },
+      message: 'Secret rotated. Update your endpoint to use the new secret.',
+    };
+  });
+
+  /**
+   * Send a test event immediately (not queued or retried)
+   */
+  app.post('/:id/test', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Send test webhook',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const webhook = await getOwnWebhook(request, id);
+
+    const deliveryId = crypto.randomUUID();
+    const body = JSON.stringify({
+      id: crypto.randomUUID(),
+      event: 'webhook.test',
+      timestamp: new Date().toISOString(),
+      organizationId: webhook.organizationId,
+      data: {
+        message: 'This is a test webhook from Shelter Link',
+        webhookId: webhook.id,
+      },
+    });
+
+    const result = await sendWebhookRequest(webhook, deliveryId, 'webhook.test', body);
+
+    return { success: true, data: result };
+  });
+
+  /**
+   * Get webhook delivery history
+   */
+  app.get('/:id/deliveries', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:read')],
+    schema: {
+      description: 'Get webhook delivery history',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const params = deliveriesQuerySchema.parse(request.query);
+    await getOwnWebhook(request, id);
+
+    const where: any = { webhookId: id };
+    if (params.status) where.status = params.status;
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.pageSize,
+        take: params.pageSize,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: deliveries.map(d => ({
+        id: d.id,
+        eventId: d.eventId,
+        eventType: d.eventType,
+        status: d.status,
+        attemptCount: d.attemptCount,
+        nextAttemptAt: d.status === WebhookDeliveryStatus.FAILED || d.status === WebhookDeliveryStatus.PENDING
+          ? d.nextAttemptAt.toISOString()
+          : null,
+        lastAttemptAt: d.lastAttemptAt?.toISOString() ?? null,
+        deliveredAt: d.deliveredAt?.toISOString() ?? null,
+        statusCode: d.statusCode,
+        errorMessage: d.errorMessage,
+        responseBody: d.responseBody,
+        duration: d.duration,
+        payload: parseJsonColumn(d.payload, null),
+        createdAt: d.createdAt.toISOString(),
+      })),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        totalItems: total,
+        totalPages: Math.ceil(total / params.pageSize),
+        hasNextPage: params.page * params.pageSize < total,
+        hasPreviousPage: params.page > 1,
+      },
+    };
+  });
+
+  /**
+   * Retry a failed or dead-lettered delivery
+   */
+  app.post('/deliveries/:deliveryId/retry', {
+    preHandler: [requireAuth(), requireOrganization(), requirePermission('webhook:write')],
+    schema: {
+      description: 'Retry failed webhook delivery',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { deliveryId } = request.params as { deliveryId: string };
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: { select: { organizationId: true } } },
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    if (delivery.webhook.organizationId !== request.user!.organizationId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    if (delivery.status !== WebhookDeliveryStatus.FAILED && delivery.status !== WebhookDeliveryStatus.DEAD) {
+      throw new ValidationError(`Cannot retry a ${delivery.status.toLowerCase()} delivery`);
+    }
+
+    await requeueDelivery(deliveryId);
+
+    setAuditContext(request, { resourceType: 'webhooks', resourceId: delivery.webhookId, action: 'RETRY_DELIVERY', metadata: { deliveryId } });
+
+    return { success: true, message: 'Delivery queued for retry' };
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Account Service
+ *
+ * Password reset and email verification.
+ *
+ * Both flows email the user a random token; only its SHA-256 hash is stored
+ * in UserToken. Tokens expire, and are single-use: redeeming one marks it
+ * used in the same conditional update that checks it, and issuing a new
+ * token discards the user's earlier unused ones of that type.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@shelter-link/database';
+import { ValidationError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { appLink, sendMail } from './mail.js';
+import { hashToken, revokeAllSessions } from './sessions.js';
+
+const logger = createLogger('account');
+
+export const UserTokenType = {
+  PASSWORD_RESET: 'PASSWORD_RESET',
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+} as const;
+
+export type UserTokenType = typeof UserTokenType[keyof typeof UserTokenType];
+
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60,
+  EMAIL_VERIFICATION: 48 * 60,
+};
+
+const PASSWORD_SALT_ROUNDS = 10;
+
+interface AccountUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/**
+ * Create a token of the given type, replacing any unused one
+ */
+export async function issueUserToken(userId: string, type: UserTokenType): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await prisma.userToken.deleteMany({
+    where: { userId, type, usedAt: null },
+  });
+
+  await prisma.userToken.create({
+    data: {
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES[type] * 60 * 1000),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Redeem a token, returning the user it was issued to.
+ * Throws ValidationError for unknown, expired or already used tokens.
+ */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string> {
+  const record = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.type !== type || record.usedAt || record.expiresAt < new Date()) {
+    throw new ValidationError('Invalid or expired token');
+  }
+
+  // Claim it atomically so two concurrent requests cannot both succeed
+  const claimed = await prisma.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new ValidationError('Invalid or expired token');
+  }
+
+  return record.userId;
+}
+
+/**
+ * Email a reset link if the address belongs to an active account.
+ * Resolves the same way either way so callers cannot probe for accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.toLowerCase() },
+    select: { id: true, email: true, name: true, status: true },
+  });
+
+  if (!user || user.status !== 'ACTIVE') {
+    logger.info({ email }, 'Password reset requested for unknown or inactive account');
+    return;
+  }
+
+  const token = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET);
+  const link = appLink('/reset-password', token);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your ShelterLink password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your ShelterLink account.',
+      `Choose a new password here (the link expires in ${TOKEN_TTL_MINUTES.PASSWORD_RESET} minutes):`,
+      '',
+      link,
+      '',
+      'If this was not you, you can ignore this email.',
+    ].join('\n'),
+  });
+
+  logger.info({ userId: user.id }, 'Password reset email sent');
+}
+
+/**
+ * Set a new password from a reset token and sign out every device
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const userId = await consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+  const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { emailVerifiedAt: true },
+  });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash,
+      // The reset link reached the inbox, so the address is confirmed
+      emailVerifiedAt: user?.emailVerifiedAt ?? new Date(),
+    },
+  });
+
+  await revokeAllSessions(userId);
+
+  logger.info({ userId }, 'Password reset');
+}
+
+/**
+ * Email a verification link to a user
+ */
+export async function sendVerificationEmail(user: AccountUser): Promise<void> {
+  const token = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION);
+  const link = appLink('/verify-email', token);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your ShelterLink email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm this is your email address:',
+      '',
+      link,
+      '',
+      'The link expires in 48 hours.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Mark the user's email as verified from a verification token
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  const userId = await consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  logger.info({ userId }, 'Email verified');
+
+  return userId;
+}
@@ -0,0 +1,240 @@
+/**
+ * Animal Lifecycle
+ *
+ * Single source of truth for animal statuses and the transitions between them.
+ * Routes must call assertStatusTransition() before writing a new status so that
+ * dashboards, risk recalculation and public listings all agree on what each
+ * status means.
+ *
+ * Leaving care (adoption, transfer, reclaim) is reversible only through a new
+ * intake event - e.g. ADOPTED -> IN_SHELTER requires a RETURN intake.
+ * EUTHANIZED and DECEASED are final.
+ */
+
+import { InvalidStateError, ValidationError } from '../lib/errors.js';
+
+// ============================================================================
+// Statuses
+// ============================================================================
+
+export const AnimalStatus = {
+  IN_SHELTER: 'IN_SHELTER',
+  IN_FOSTER: 'IN_FOSTER',
+  IN_MEDICAL: 'IN_MEDICAL',
+  HOLD: 'HOLD',
+  AVAILABLE: 'AVAILABLE',
+  PENDING: 'PENDING',
+  TRANSFER_PENDING: 'TRANSFER_PENDING',
+  ADOPTED: 'ADOPTED',
+  TRANSFERRED: 'TRANSFERRED',
+  RECLAIMED: 'RECLAIMED',
+  EUTHANIZED: 'EUTHANIZED',
+  DECEASED: 'DECEASED',
+} as const;
+
+export type AnimalStatus = typeof AnimalStatus[keyof typeof AnimalStatus];
+
+const ALL_STATUSES = Object.values(AnimalStatus) as AnimalStatus[];
+
+/** Animals the organization is currently responsible for */
+export const IN_CARE_STATUSES: AnimalStatus[] = [
+  AnimalStatus.IN_SHELTER,
+  AnimalStatus.IN_FOSTER,
+  AnimalStatus.IN_MEDICAL,
+  AnimalStatus.HOLD,
+  AnimalStatus.AVAILABLE,
+  AnimalStatus.PENDING,
+  AnimalStatus.TRANSFER_PENDING,
+];
+
+/** Animals that may appear in public listings */
+export const PUBLIC_LISTING_STATUSES: AnimalStatus[] = [
+  AnimalStatus.IN_SHELTER,
+  AnimalStatus.IN_FOSTER,
+  AnimalStatus.AVAILABLE,
+];
+
+/** Animals that have left the organization's care */
+export const OUTCOME_STATUSES: AnimalStatus[] = [
+  AnimalStatus.ADOPTED,
+  AnimalStatus.TRANSFERRED,
+  AnimalStatus.RECLAIMED,
+  AnimalStatus.EUTHANIZED,
+  AnimalStatus.DECEASED,
+];
+
+/** Statuses with no way back */
+export const FINAL_STATUSES: AnimalStatus[] = [
+  AnimalStatus.EUTHANIZED,
+  AnimalStatus.DECEASED,
+];
+
+/**
+ * Legacy status strings written by earlier versions of the routes, mapped to
+ * their lifecycle equivalent. Only used when normalizing external input.
+ */
+const LEGACY_STATUS_ALIASES: Record<string, AnimalStatus> = {
+  MEDICAL_HOLD: AnimalStatus.IN_MEDICAL,
+  BEHAVIORAL_HOLD: AnimalStatus.HOLD,
+  RETURNED: AnimalStatus.IN_SHELTER,
+};
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Allowed status changes while the animal is in care.
+ * Re-entry from an outcome status is handled by REINTAKE_TYPES instead.
+ */
+const TRANSITIONS: Record<AnimalStatus, AnimalStatus[]> = {
+  IN_SHELTER: ['IN_FOSTER', 'IN_MEDICAL', 'HOLD', 'AVAILABLE', 'ADOPTED', 'TRANSFERRED', 'RECLAIMED', 'EUTHANIZED', 'DECEASED'],
+  IN_FOSTER: ['IN_SHELTER', 'IN_MEDICAL', 'HOLD', 'AVAILABLE', 'PENDING', 'ADOPTED', 'TRANSFERRED', 'RECLAIMED', 'EUTHANIZED', 'DECEASED'],
+  IN_MEDICAL: ['IN_SHELTER', 'IN_FOSTER', 'HOLD', 'AVAILABLE', 'TRANSFERRED', 'RECLAIMED', 'EUTHANIZED', 'DECEASED'],
+  HOLD: ['IN_SHELTER', 'IN_FOSTER', 'IN_MEDICAL', 'AVAILABLE', 'RECLAIMED', 'EUTHANIZED', 'DECEASED'],
+  AVAILABLE: ['IN_SHELTER', 'IN_FOSTER', 'IN_MEDICAL', 'HOLD', 'PENDING', 'TRANSFER_PENDING', 'ADOPTED', 'TRANSFERRED', 'RECLAIMED', 'EUTHANIZED', 'DECEASED'],
+  PENDING: ['IN_SHELTER', 'IN_FOSTER', 'IN_MEDICAL', 'HOLD', 'AVAILABLE', 'ADOPTED', 'DECEASED'],
+  TRANSFER_PENDING: ['AVAILABLE', 'TRANSFERRED', 'DECEASED'],
+  ADOPTED: [],
+  TRANSFERRED: [],
+  RECLAIMED: [],
+  EUTHANIZED: [],
+  DECEASED: [],
+};
+
+/** Intake types that bring an animal back into care from an outcome status */
+const REINTAKE_TYPES: Partial<Record<AnimalStatus, string[]>> = {
+  ADOPTED: ['RETURN'],
+  TRANSFERRED: ['TRANSFER_IN'],
+  RECLAIMED: ['STRAY', 'OWNER_SURRENDER', 'RETURN'],
+};
+
+/** Status an animal enters after a (re-)intake */
+const REINTAKE_STATUS: AnimalStatus = AnimalStatus.IN_SHELTER;
+
+/** Outcome type -> resulting animal status */
+const OUTCOME_STATUS: Record<string, AnimalStatus> = {
+  ADOPTION: AnimalStatus.ADOPTED,
+  TRANSFER_OUT: AnimalStatus.TRANSFERRED,
+  RETURN_TO_OWNER: AnimalStatus.RECLAIMED,
+  EUTHANASIA: AnimalStatus.EUTHANIZED,
+  DIED_IN_CARE: AnimalStatus.DECEASED,
+  FOSTER: AnimalStatus.IN_FOSTER,
+};
+
+export interface TransitionContext {
+  /** Intake type recorded alongside the change (required to leave an outcome status) */
+  intakeType?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isAnimalStatus(value: unknown): value is AnimalStatus {
+  return typeof value === 'string' && ALL_STATUSES.includes(value as AnimalStatus);
+}
+
+export function isInCare(status: string): boolean {
+  return IN_CARE_STATUSES.includes(status as AnimalStatus);
+}
+
+/**
+ * Normalize a status from external input (imports, legacy rows).
+ * Returns null if the value is not a recognizable status.
+ */
+export function normalizeAnimalStatus(value: string | null | undefined): AnimalStatus | null {
+  if (!value) return null;
+  const upper = value.trim().toUpperCase();
+  if (isAnimalStatus(upper)) return upper;
+  return LEGACY_STATUS_ALIASES[upper] ?? null;
+}
+
+/**
+ * Resulting status for an outcome type
+ */
+export function statusForOutcome(outcomeType: string): AnimalStatus {
+  const status = OUTCOME_STATUS[outcomeType];
+  if (!status) {
+    throw new ValidationError(`Unknown outcome type: ${outcomeType}`);
+  }
+  return status;
+}
+
+/**
+ * Check whether a status change is allowed
+ */
+export function canTransition(
+  from: string,
+  to: string,
+  context: TransitionContext = {}
+): boolean {
+  if (!isAnimalStatus(to)) return false;
+
+  // Legacy rows may still carry an old status string
+  const current = normalizeAnimalStatus(from);
+  if (!current) return false;
+  if (current === to) return true;
+
+  const reintakeTypes = REINTAKE_TYPES[current];
+  if (reintakeTypes) {
+    return to === REINTAKE_STATUS
+      && context.intakeType !== undefined
+      && reintakeTypes.includes(context.intakeType);
+  }
+
+  return TRANSITIONS[current].includes(to);
+}
+
+/**
+ * Throw InvalidStateError if the status change is not allowed
+ */
+export function assertStatusTransition(
+  from: string,
+  to: string,
+  context: TransitionContext = {}
+): AnimalStatus {
+  if (!isAnimalStatus(to)) {
+    throw new ValidationError(`Unknown animal status: ${to}`, {
+      status: to,
+      allowed: ALL_STATUSES,
+    });
+  }
+
+  if (!canTransition(from, to, context)) {
+    const current = normalizeAnimalStatus(from);
+    const requiredIntakeTypes = current ? REINTAKE_TYPES[current] : undefined;
+
+    let message = `Cannot change status from ${from} to ${to}`;
+    if (current && FINAL_STATUSES.includes(current)) {
+      message = `${from} is a final status and cannot be changed`;
+    } else if (requiredIntakeTypes) {
+      message = `${from} animals can only return to care through a ${requiredIntakeTypes.join(' or ')} intake`;
+    }
+
+    throw new InvalidStateError(message, {
+      from,
+      to,
+      allowed: getAllowedTransitions(from),
+      ...(requiredIntakeTypes ? { requiredIntakeTypes } : {}),
+    });
+  }
+
+  return to;
+}
+
+/**
+ * Statuses reachable from the given status without an intake event
+ */
+export function getAllowedTransitions(from: string): AnimalStatus[] {
+  const current = normalizeAnimalStatus(from);
+  return current ? [...TRANSITIONS[current]] : [];
+}
+
+/**
+ * Intake types that can bring an animal back from the given status
+ */
+export function getReintakeTypes(from: string): string[] {
+  const current = normalizeAnimalStatus(from);
+  return current ? [...(REINTAKE_TYPES[current] ?? [])] : [];
+}
@@ -0,0 +1,121 @@
+/**
+ * API Key Service
+ *
+ * Organization-scoped keys for integrations, sent as
+ * `Authorization: ApiKey <key>`.
+ *
+ * Only a SHA-256 of the key is stored; the key is returned once on
+ * creation. A key authenticates as a synthetic user of its organization
+ * that holds exactly the permissions granted to the key, no role.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@shelter-link/database';
+import { UnauthorizedError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import type { AuthUser, Permission } from '../middleware/auth.js';
+import { hashToken } from './sessions.js';
+
+const logger = createLogger('api-keys');
+
+export const API_KEY_PREFIX = 'slk_';
+
+// Characters of the key kept in clear for display
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Avoid a write on every request; last-used is informational
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  organizationId: string;
+  name: string;
+  permissions: Permission[];
+  expiresAt?: Date;
+  createdBy: { id: string; name: string };
+}
+
+/**
+ * Parse the stored permissions column
+ */
+export function parseKeyPermissions(value: string): Permission[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create a key. The returned `key` is the only time it is available.
+ */
+export async function createApiKey(input: CreateApiKeyInput) {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(30).toString('base64url')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      organizationId: input.organizationId,
+      name: input.name,
+      keyHash: hashToken(key),
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      permissions: JSON.stringify(input.permissions),
+      createdById: input.createdBy.id,
+      createdByName: input.createdBy.name,
+      expiresAt: input.expiresAt,
+    },
+  });
+
+  logger.info({ apiKeyId: apiKey.id, organizationId: input.organizationId, permissions: input.permissions }, 'API key created');
+
+  return { apiKey, key };
+}
+
+/**
+ * Resolve a presented key to the synthetic user it acts as.
+ * Throws UnauthorizedError for unknown, revoked or expired keys.
+ */
+export async function authenticateApiKey(key: string): Promise<AuthUser> {
+  const apiKey = key.startsWith(API_KEY_PREFIX)
+    ? await prisma.apiKey.findUnique({
+        where: { keyHash: hashToken(key) },
+        include: { organization: { select: { status: true } } },
+      })
+    : null;
+
+  const now = new Date();
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    throw new UnauthorizedError('Invalid or expired API key');
+  }
+  if (apiKey.organization.status !== 'ACTIVE') {
+    throw new UnauthorizedError('Organization is not active');
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    id: `apikey:${apiKey.id}`,
+    email: '',
+    name: `API key: ${apiKey.name}`,
+    globalRole: 'API_KEY',
+    organizationId: apiKey.organizationId,
+    apiKeyId: apiKey.id,
+    permissions: parseKeyPermissions(apiKey.permissions),
+  };
+}
+
+/**
+ * Revoke a key of the organization. Returns false if there was none to revoke.
+ */
+export async function revokeApiKey(organizationId: string, id: string): Promise<boolean> {
+  const result = await prisma.apiKey.updateMany({
+    where: { id, organizationId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
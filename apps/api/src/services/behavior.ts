@@ -0,0 +1,181 @@
+/**
+ * Behavior Service
+ *
+ * Behavioral assessments of an animal and the placement rules that follow
+ * from them. The result of the latest assessment (by date) is copied to
+ * Animal.placementRestriction so listings can filter on it:
+ *
+ *   RESTRICTED     listed publicly, flagged for experienced homes
+ *   RESCUE_ONLY    hidden from public adoption; staff and rescue partners
+ *                  still see it and it may be transferred to a rescue or sanctuary
+ *   NOT_ADOPTABLE  hidden from public adoption; sanctuary transfer only
+ *
+ * Any other result clears the restriction. Reactivity levels suggest
+ * goodWithDogs/goodWithCats; staff decide whether to apply them.
+ */
+
+import { prisma } from '@shelter-link/database';
+import {
+  AssessmentResult,
+  ReactivityLevel,
+  type BehavioralAssessment,
+  type CompatibilitySuggestions,
+  type PlacementRestriction,
+  type ToleranceLevel,
+} from '@shelter-link/types';
+import { InvalidStateError } from '../lib/errors.js';
+
+export { AssessmentResult, ReactivityLevel, ToleranceLevel } from '@shelter-link/types';
+
+type AssessmentRow = NonNullable<Awaited<ReturnType<typeof prisma.behavioralAssessment.findUnique>>>;
+
+/** Results that restrict placement, copied to the animal */
+export const PLACEMENT_RESTRICTIONS: PlacementRestriction[] = [
+  AssessmentResult.RESTRICTED,
+  AssessmentResult.RESCUE_ONLY,
+  AssessmentResult.NOT_ADOPTABLE,
+];
+
+/** Restrictions that keep an animal out of public adoption listings */
+export const PUBLIC_HIDDEN_RESTRICTIONS: PlacementRestriction[] = [
+  AssessmentResult.RESCUE_ONLY,
+  AssessmentResult.NOT_ADOPTABLE,
+];
+
+/** Organization types an animal with a restriction may still be transferred to */
+const TRANSFER_DESTINATIONS: Partial<Record<PlacementRestriction, string[]>> = {
+  [AssessmentResult.RESCUE_ONLY]: ['RESCUE', 'SANCTUARY'],
+  [AssessmentResult.NOT_ADOPTABLE]: ['SANCTUARY'],
+};
+
+/**
+ * Prisma filter for animals the public may see in adoption listings.
+ * Spelled out with OR because NOT IN also drops rows where the column is null.
+ */
+export const PUBLIC_PLACEMENT_FILTER = {
+  OR: [
+    { placementRestriction: null },
+    { placementRestriction: { notIn: PUBLIC_HIDDEN_RESTRICTIONS } },
+  ],
+};
+
+// ============================================================================
+// Placement
+// ============================================================================
+
+/**
+ * The restriction an assessment result puts on placement, or null
+ */
+export function placementRestrictionFor(result: string): PlacementRestriction | null {
+  return (PLACEMENT_RESTRICTIONS as string[]).includes(result)
+    ? result as PlacementRestriction
+    : null;
+}
+
+export function isHiddenFromPublic(restriction: string | null): boolean {
+  return restriction !== null && (PUBLIC_HIDDEN_RESTRICTIONS as string[]).includes(restriction);
+}
+
+/**
+ * Refuse an adoption outcome for an animal that may not be adopted out directly
+ */
+export function assertAdoptable(restriction: string | null): void {
+  if (isHiddenFromPublic(restriction)) {
+    throw new InvalidStateError(
+      restriction === AssessmentResult.RESCUE_ONLY
+        ? 'Animal is assessed for rescue placement only'
+        : 'Animal is assessed as not adoptable',
+      { placementRestriction: restriction }
+    );
+  }
+}
+
+/**
+ * Whether an animal with this restriction may be transferred to an
+ * organization of the given type
+ */
+export function canTransferTo(restriction: string | null, organizationType: string): boolean {
+  const allowed = restriction ? TRANSFER_DESTINATIONS[restriction as PlacementRestriction] : undefined;
+  return !allowed || allowed.includes(organizationType);
+}
+
+/**
+ * Copy the result of the animal's latest assessment to the animal.
+ * Call after creating, changing or deleting an assessment.
+ */
+export async function syncPlacementRestriction(animalId: string): Promise<PlacementRestriction | null> {
+  const latest = await prisma.behavioralAssessment.findFirst({
+    where: { animalId },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    select: { result: true },
+  });
+  const placementRestriction = latest ? placementRestrictionFor(latest.result) : null;
+
+  await prisma.animal.update({
+    where: { id: animalId },
+    data: { placementRestriction },
+  });
+
+  return placementRestriction;
+}
+
+// ============================================================================
+// Compatibility
+// ============================================================================
+
+function suggestFromReactivity(level: string | null): boolean | null {
+  switch (level) {
+    case ReactivityLevel.NONE:
+      return true;
+    case ReactivityLevel.MODERATE:
+    case ReactivityLevel.SEVERE:
+      return false;
+    default:
+      // Mild reactivity is a case-by-case call
+      return null;
+  }
+}
+
+/**
+ * goodWithDogs/goodWithCats suggested by an assessment's reactivity levels
+ */
+export function suggestCompatibility(assessment: {
+  dogReactivity: string | null;
+  catReactivity: string | null;
+}): CompatibilitySuggestions {
+  return {
+    goodWithDogs: suggestFromReactivity(assessment.dogReactivity),
+    goodWithCats: suggestFromReactivity(assessment.catReactivity),
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatAssessment(assessment: AssessmentRow): BehavioralAssessment {
+  return {
+    id: assessment.id,
+    animalId: assessment.animalId,
+    assessmentType: assessment.assessmentType,
+    date: assessment.date.toISOString(),
+    location: assessment.location,
+    durationMinutes: assessment.durationMinutes,
+    overallScore: assessment.overallScore,
+    result: assessment.result as AssessmentResult,
+    behaviors: JSON.parse(assessment.behaviors || '[]'),
+    triggers: JSON.parse(assessment.triggers || '[]'),
+    recommendations: JSON.parse(assessment.recommendations || '[]'),
+    trainingNeeds: JSON.parse(assessment.trainingNeeds || '[]'),
+    resourceGuarding: assessment.resourceGuarding,
+    dogReactivity: assessment.dogReactivity as ReactivityLevel | null,
+    catReactivity: assessment.catReactivity as ReactivityLevel | null,
+    humanReactivity: assessment.humanReactivity as ReactivityLevel | null,
+    handlingTolerance: assessment.handlingTolerance as ToleranceLevel | null,
+    suggestions: suggestCompatibility(assessment),
+    assessor: assessment.assessor,
+    notes: assessment.notes,
+    createdAt: assessment.createdAt.toISOString(),
+    updatedAt: assessment.updatedAt.toISOString(),
+  };
+}
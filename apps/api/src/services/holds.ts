@@ -0,0 +1,218 @@
+/**
+ * Hold Service
+ *
+ * Holds staff place on an animal, each with a start, an optional end and a
+ * reason. A hold is active from its start until its end date passes or it
+ * is released. Active blocking holds stop outcomes:
+ *
+ *   STRAY_HOLD       only reclaim by the owner, foster, or death in care
+ *   OWNER_SURRENDER  same, while the paperwork is pending
+ *   LEGAL_HOLD       nothing but death in care
+ *   BITE_QUARANTINE  same, for the length of the observation period
+ *   RESCUE_HOLD      no adoption; transfer to the rescue partner is the point
+ *
+ * Behavioral and medical holds are for the record only. An emergency that
+ * cannot wait for a hold to end needs the hold released first, with notes.
+ *
+ * Holds ending within HOLD_EXPIRING_HOURS feed the organization's expiring
+ * list, and the risk engine raises HOLD_EXPIRING for them (risk-scoring.ts).
+ */
+
+import { prisma } from '@shelter-link/database';
+import { HoldType, type AnimalHold, type ExpiringHold } from '@shelter-link/types';
+import { InvalidStateError, ValidationError } from '../lib/errors.js';
+import { IN_CARE_STATUSES } from './animal-lifecycle.js';
+
+export { HoldType } from '@shelter-link/types';
+
+type HoldRow = NonNullable<Awaited<ReturnType<typeof prisma.animalHold.findUnique>>>;
+
+/** Default look-ahead of the expiring list */
+export const HOLD_EXPIRING_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface HoldRule {
+  /** Stops outcomes while active */
+  blocking: boolean;
+  /** Outcome types a blocking hold still allows */
+  allowedOutcomes: string[];
+  /** Timed by law or protocol, so the end date is known up front */
+  requiresEndDate: boolean;
+}
+
+const HOLD_RULES: Record<HoldType, HoldRule> = {
+  [HoldType.STRAY_HOLD]: {
+    blocking: true,
+    allowedOutcomes: ['RETURN_TO_OWNER', 'FOSTER', 'DIED_IN_CARE'],
+    requiresEndDate: true,
+  },
+  [HoldType.OWNER_SURRENDER]: {
+    blocking: true,
+    allowedOutcomes: ['RETURN_TO_OWNER', 'FOSTER', 'DIED_IN_CARE'],
+    requiresEndDate: false,
+  },
+  [HoldType.LEGAL_HOLD]: { blocking: true, allowedOutcomes: ['DIED_IN_CARE'], requiresEndDate: false },
+  [HoldType.BEHAVIORAL_HOLD]: { blocking: false, allowedOutcomes: [], requiresEndDate: false },
+  [HoldType.MEDICAL_HOLD]: { blocking: false, allowedOutcomes: [], requiresEndDate: false },
+  [HoldType.BITE_QUARANTINE]: { blocking: true, allowedOutcomes: ['DIED_IN_CARE'], requiresEndDate: true },
+  [HoldType.RESCUE_HOLD]: {
+    blocking: true,
+    allowedOutcomes: ['TRANSFER_OUT', 'RETURN_TO_OWNER', 'FOSTER', 'DIED_IN_CARE'],
+    requiresEndDate: false,
+  },
+};
+
+const HOLD_ANIMAL_SELECT = { id: true, name: true, species: true, kennelNumber: true } as const;
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export function isBlockingHold(holdType: string): boolean {
+  return HOLD_RULES[holdType as HoldType]?.blocking ?? false;
+}
+
+/**
+ * Started, and neither past its end date nor released
+ */
+export function isHoldActive(
+  hold: { startDate: Date; endDate: Date | null; releasedAt: Date | null },
+  asOf: Date = new Date()
+): boolean {
+  return !hold.releasedAt && hold.startDate <= asOf && (!hold.endDate || hold.endDate > asOf);
+}
+
+/**
+ * Whether an active hold of this type stops the outcome
+ */
+export function holdBlocksOutcome(holdType: string, outcomeType: string): boolean {
+  const rule = HOLD_RULES[holdType as HoldType];
+  return Boolean(rule?.blocking) && !rule.allowedOutcomes.includes(outcomeType);
+}
+
+/**
+ * Prisma filter for holds active at `asOf`
+ */
+export function activeHoldFilter(asOf: Date) {
+  return {
+    releasedAt: null,
+    startDate: { lte: asOf },
+    OR: [{ endDate: null }, { endDate: { gt: asOf } }],
+  };
+}
+
+/**
+ * Check the dates of a hold as it will be stored
+ */
+export function assertHoldDates(hold: { holdType: string; startDate: Date; endDate: Date | null }): void {
+  if (!hold.endDate && HOLD_RULES[hold.holdType as HoldType]?.requiresEndDate) {
+    throw new ValidationError(`A ${hold.holdType} needs an end date`);
+  }
+  if (hold.endDate && hold.endDate <= hold.startDate) {
+    throw new ValidationError('End date must be after the start date');
+  }
+}
+
+/**
+ * Active holds on the animal that stop the outcome
+ */
+export async function getBlockingHolds(
+  animalId: string,
+  outcomeType: string,
+  asOf: Date = new Date()
+): Promise<HoldRow[]> {
+  const holds = await prisma.animalHold.findMany({
+    where: { animalId, ...activeHoldFilter(asOf) },
+    orderBy: { startDate: 'asc' },
+  });
+
+  return holds.filter(hold => holdBlocksOutcome(hold.holdType, outcomeType));
+}
+
+/**
+ * Describe blocking holds for an error message, e.g. "STRAY_HOLD until 2025-06-03"
+ */
+export function describeBlockingHolds(holds: HoldRow[]): string {
+  return holds
+    .map(hold => `${hold.holdType} ${hold.endDate ? `until ${hold.endDate.toISOString().slice(0, 10)}` : 'until released'}`)
+    .join(', ');
+}
+
+/**
+ * Throw InvalidStateError if an active hold stops the outcome
+ */
+export async function assertNoBlockingHold(
+  animalId: string,
+  outcomeType: string,
+  asOf: Date = new Date()
+): Promise<void> {
+  const holds = await getBlockingHolds(animalId, outcomeType, asOf);
+
+  if (holds.length > 0) {
+    throw new InvalidStateError(`Animal is on hold: ${describeBlockingHolds(holds)}`, {
+      outcomeType,
+      holds: holds.map(hold => ({
+        id: hold.id,
+        holdType: hold.holdType,
+        endDate: hold.endDate?.toISOString() ?? null,
+      })),
+    });
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatHold(hold: HoldRow, asOf: Date = new Date()): AnimalHold {
+  return {
+    id: hold.id,
+    animalId: hold.animalId,
+    holdType: hold.holdType as HoldType,
+    reason: hold.reason,
+    caseNumber: hold.caseNumber,
+    startDate: hold.startDate.toISOString(),
+    endDate: hold.endDate?.toISOString() ?? null,
+    releasedAt: hold.releasedAt?.toISOString() ?? null,
+    releasedBy: hold.releasedBy,
+    releaseNotes: hold.releaseNotes,
+    placedBy: hold.placedBy,
+    isActive: isHoldActive(hold, asOf),
+    isBlocking: isBlockingHold(hold.holdType),
+    createdAt: hold.createdAt.toISOString(),
+    updatedAt: hold.updatedAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// Expiring holds
+// ============================================================================
+
+/**
+ * Active holds on animals in the organization's care that end within
+ * `hours`, soonest first
+ */
+export async function getExpiringHolds(
+  organizationId: string,
+  hours: number = HOLD_EXPIRING_HOURS,
+  now: Date = new Date()
+): Promise<ExpiringHold[]> {
+  const holds = await prisma.animalHold.findMany({
+    where: {
+      organizationId,
+      animal: { status: { in: IN_CARE_STATUSES } },
+      releasedAt: null,
+      startDate: { lte: now },
+      endDate: { gt: now, lte: new Date(now.getTime() + hours * HOUR_MS) },
+    },
+    include: { animal: { select: HOLD_ANIMAL_SELECT } },
+    orderBy: { endDate: 'asc' },
+  });
+
+  return holds.map(({ animal, ...hold }) => ({
+    ...formatHold(hold as HoldRow, now),
+    animal,
+    hoursRemaining: Math.max(0, Math.round((hold.endDate!.getTime() - now.getTime()) / HOUR_MS)),
+  }));
+}
@@ -0,0 +1,95 @@
+/**
+ * Kennel Observation Service
+ *
+ * Quick daily checks logged on kennel rounds: stress level, enrichment
+ * received and a note. The round lists animals on site with their latest
+ * observation, those not yet observed today first in kennel order.
+ *
+ * The last week of observations feeds the KENNEL_STRESS risk factor
+ * (assessKennelStress in risk-scoring.ts).
+ */
+
+import { prisma } from '@shelter-link/database';
+import type {
+  EnrichmentType,
+  KennelObservation,
+  KennelRoundEntry,
+  KennelStressLevel,
+} from '@shelter-link/types';
+import { AnimalStatus } from './animal-lifecycle.js';
+
+export { EnrichmentType, KennelStressLevel } from '@shelter-link/types';
+
+type ObservationRow = NonNullable<Awaited<ReturnType<typeof prisma.kennelObservation.findUnique>>>;
+
+/** Animals physically at the shelter; fosters are checked on by their foster */
+export const ON_SITE_STATUSES: AnimalStatus[] = [
+  AnimalStatus.IN_SHELTER,
+  AnimalStatus.IN_MEDICAL,
+  AnimalStatus.HOLD,
+  AnimalStatus.AVAILABLE,
+  AnimalStatus.PENDING,
+  AnimalStatus.TRANSFER_PENDING,
+];
+
+/**
+ * Start of the current day in server time
+ */
+export function startOfToday(now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export function formatObservation(observation: ObservationRow): KennelObservation {
+  return {
+    id: observation.id,
+    animalId: observation.animalId,
+    observedAt: observation.observedAt.toISOString(),
+    stressLevel: observation.stressLevel as KennelStressLevel,
+    enrichment: JSON.parse(observation.enrichment || '[]') as EnrichmentType[],
+    notes: observation.notes,
+    observer: observation.observer,
+    createdAt: observation.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Animals on site with their latest observation. `since` is when "today"
+ * began for the person on the round; only animals not observed since then
+ * unless `includeObserved`.
+ */
+export async function getKennelRound(
+  organizationId: string,
+  since: Date,
+  includeObserved = false
+): Promise<KennelRoundEntry[]> {
+  const animals = await prisma.animal.findMany({
+    where: { organizationId, status: { in: ON_SITE_STATUSES } },
+    select: {
+      id: true,
+      name: true,
+      species: true,
+      kennelNumber: true,
+      kennelObservations: {
+        select: { observedAt: true, stressLevel: true },
+        orderBy: { observedAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: [{ kennelNumber: 'asc' }, { name: 'asc' }],
+  });
+
+  const entries: KennelRoundEntry[] = animals.map(({ kennelObservations: [last], ...animal }) => ({
+    animal,
+    lastObservation: last
+      ? { observedAt: last.observedAt.toISOString(), stressLevel: last.stressLevel as KennelStressLevel }
+      : null,
+    observedToday: Boolean(last && last.observedAt >= since),
+  }));
+
+  // Stable sort keeps kennel order within each group
+  return includeObserved
+    ? entries.sort((a, b) => Number(a.observedToday) - Number(b.observedToday))
+    : entries.filter(entry => !entry.observedToday);
+}
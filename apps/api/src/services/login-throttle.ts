@@ -0,0 +1,173 @@
+/**
+ * Login Throttle
+ *
+ * Tracks failed sign-in attempts per email and per IP address and locks
+ * them out for an escalating period:
+ *
+ *   - email: 5 failures within 15 minutes locks that email for 5 minutes,
+ *            doubling with each further lock (capped at 24 hours)
+ *   - IP:    20 failures within 15 minutes locks that address the same way
+ *
+ * Emails are tracked whether or not an account exists, so a lockout says
+ * nothing about which addresses are registered. A successful sign-in clears
+ * the email's failures; a SUPERADMIN can unlock an email early.
+ *
+ * Counters live in a LoginAttemptStore. The default keeps them in memory,
+ * which is per-process; multi-instance deployments should plug in a shared
+ * store with setLoginAttemptStore().
+ */
+
+import { UnauthorizedError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('login-throttle');
+
+const MINUTE = 60 * 1000;
+
+export const LOGIN_THROTTLE_POLICY = {
+  failureWindowMs: 15 * MINUTE,
+  maxFailuresPerEmail: 5,
+  maxFailuresPerIp: 20,
+  baseLockMs: 5 * MINUTE,
+  maxLockMs: 24 * 60 * MINUTE,
+  // How long lock history is remembered for escalation
+  memoryMs: 24 * 60 * MINUTE,
+};
+
+export interface LoginAttemptRecord {
+  failures: number;
+  windowStartedAt: number;
+  lockCount: number;
+  lockedUntil?: number;
+}
+
+/**
+ * Storage for attempt counters; implementations must expire records after ttlMs
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | undefined>;
+  set(key: string, record: LoginAttemptRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Process-local store
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, { record: LoginAttemptRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<LoginAttemptRecord | undefined> {
+    const entry = this.records.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return entry.record;
+  }
+
+  async set(key: string, record: LoginAttemptRecord, ttlMs: number): Promise<void> {
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+let store: LoginAttemptStore = new MemoryLoginAttemptStore();
+
+/**
+ * Replace the attempt store (shared store in production, fresh store in tests)
+ */
+export function setLoginAttemptStore(next: LoginAttemptStore): void {
+  store = next;
+}
+
+function emailKey(email: string): string {
+  return `email:${email.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+/**
+ * Lock duration for the nth consecutive lock (0-based)
+ */
+export function lockDurationMs(lockCount: number): number {
+  return Math.min(
+    LOGIN_THROTTLE_POLICY.baseLockMs * 2 ** lockCount,
+    LOGIN_THROTTLE_POLICY.maxLockMs
+  );
+}
+
+function lockedFor(record: LoginAttemptRecord | undefined, now: number): number {
+  return record?.lockedUntil && record.lockedUntil > now ? record.lockedUntil - now : 0;
+}
+
+/**
+ * Throw UnauthorizedError if the email or IP is locked out
+ */
+export async function assertLoginAllowed(email: string, ip: string): Promise<void> {
+  const now = Date.now();
+  const [byEmail, byIp] = await Promise.all([store.get(emailKey(email)), store.get(ipKey(ip))]);
+  const remainingMs = Math.max(lockedFor(byEmail, now), lockedFor(byIp, now));
+
+  if (remainingMs > 0) {
+    throw new UnauthorizedError('Too many failed sign-in attempts. Try again later.', {
+      retryAfter: Math.ceil(remainingMs / 1000),
+    });
+  }
+}
+
+async function recordFailure(key: string, maxFailures: number): Promise<LoginAttemptRecord> {
+  const now = Date.now();
+  const existing = await store.get(key);
+
+  const windowExpired = !existing || now - existing.windowStartedAt > LOGIN_THROTTLE_POLICY.failureWindowMs;
+  const record: LoginAttemptRecord = {
+    failures: windowExpired ? 1 : existing.failures + 1,
+    windowStartedAt: windowExpired ? now : existing.windowStartedAt,
+    lockCount: existing?.lockCount ?? 0,
+    lockedUntil: existing?.lockedUntil,
+  };
+
+  if (record.failures >= maxFailures) {
+    record.lockedUntil = now + lockDurationMs(record.lockCount);
+    record.lockCount += 1;
+    record.failures = 0;
+    record.windowStartedAt = now;
+    logger.warn({ key, lockCount: record.lockCount, lockedUntil: new Date(record.lockedUntil) }, 'Sign-in locked after repeated failures');
+  }
+
+  await store.set(key, record, LOGIN_THROTTLE_POLICY.memoryMs);
+  return record;
+}
+
+/**
+ * Count a failed sign-in against the email and the IP
+ */
+export async function recordLoginFailure(email: string, ip: string): Promise<void> {
+  await Promise.all([
+    recordFailure(emailKey(email), LOGIN_THROTTLE_POLICY.maxFailuresPerEmail),
+    recordFailure(ipKey(ip), LOGIN_THROTTLE_POLICY.maxFailuresPerIp),
+  ]);
+}
+
+/**
+ * Forget an email's failures after a successful sign-in.
+ * IP counters are kept so one valid account cannot reset them.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await store.delete(emailKey(email));
+}
+
+/**
+ * Lift a lock on an email (SUPERADMIN). Returns whether it was locked.
+ */
+export async function unlockEmail(email: string): Promise<boolean> {
+  const record = await store.get(emailKey(email));
+  await store.delete(emailKey(email));
+  return lockedFor(record, Date.now()) > 0;
+}
@@ -0,0 +1,140 @@
+/**
+ * Mail Service
+ *
+ * Outgoing email behind a small transport interface:
+ *   - smtp:    delivered through nodemailer (production)
+ *   - file:    each message written as JSON to EMAIL_FILE_PATH (local dev, e2e)
+ *   - console: message logged (default when SMTP is not configured)
+ *
+ * Tests swap the transport with setMailTransport().
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('mail');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * SMTP delivery via nodemailer
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port?: number; user?: string; pass?: string }) {
+    const port = options.port ?? 587;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port,
+      secure: port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes each message to a JSON file, newest last by name
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Logs each message instead of sending it
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info({ to: message.to, subject: message.subject }, `Email (not sent):\n${message.text}`);
+  }
+}
+
+/**
+ * Build the transport selected by config.email.provider
+ */
+export function createMailTransport(emailConfig = config.email): MailTransport {
+  switch (emailConfig.provider) {
+    case 'smtp':
+      if (!emailConfig.smtpHost) {
+        throw new Error('EMAIL_PROVIDER=smtp requires SMTP_HOST');
+      }
+      return new SmtpTransport({
+        host: emailConfig.smtpHost,
+        port: emailConfig.smtpPort,
+        user: emailConfig.smtpUser,
+        pass: emailConfig.smtpPass,
+      });
+    case 'file':
+      return new FileTransport(emailConfig.filePath);
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+/**
+ * Link to a web app page carrying a one-time token
+ */
+export function appLink(pathname: string, token: string): string {
+  return `${config.web.baseUrl}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+let transport: MailTransport | undefined;
+
+/**
+ * Replace the active transport (tests)
+ */
+export function setMailTransport(next: MailTransport | undefined): void {
+  transport = next;
+}
+
+function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+/**
+ * Send an email. Failures are logged and reported as false so callers
+ * never reveal delivery problems (or account existence) to the client.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const active = getMailTransport();
+  try {
+    await active.send({ ...message, from: config.email.from });
+    logger.debug({ to: message.to, subject: message.subject, transport: active.name }, 'Email sent');
+    return true;
+  } catch (error) {
+    logger.error({ error, to: message.to, subject: message.subject, transport: active.name }, 'Failed to send email');
+    return false;
+  }
+}
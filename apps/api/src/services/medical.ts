@@ -0,0 +1,210 @@
+/**
+ * Medical Service
+ *
+ * Medical records and vaccinations of an animal. Both are staff-only by
+ * default. Staff may mark an entry public (a spay, a rabies vaccination)
+ * for the adoption profile; the public view then shows what was done and
+ * when, never diagnosis, treatment, medications or notes.
+ *
+ * Follow-ups and next vaccination doses feed the organization's "due this
+ * week" list. A follow-up is due until it is marked complete; a dose is due
+ * until a later dose of the same vaccine is recorded.
+ */
+
+import { prisma } from '@shelter-link/database';
+import type {
+  DueCareItem,
+  MedicalRecord,
+  MedicalRecordType,
+  Medication,
+  PublicMedicalRecord,
+  PublicVaccination,
+  Vaccination,
+  VaccinationRoute,
+} from '@shelter-link/types';
+import { ValidationError } from '../lib/errors.js';
+import { IN_CARE_STATUSES } from './animal-lifecycle.js';
+
+export { MedicalRecordType, VaccinationRoute } from '@shelter-link/types';
+
+type MedicalRecordRow = NonNullable<Awaited<ReturnType<typeof prisma.medicalRecord.findUnique>>>;
+type VaccinationRow = NonNullable<Awaited<ReturnType<typeof prisma.vaccination.findUnique>>>;
+
+/** Default look-ahead of the due list */
+export const DUE_CARE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DUE_ANIMAL_SELECT = { id: true, name: true, species: true, kennelNumber: true } as const;
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatMedicalRecord(record: MedicalRecordRow): MedicalRecord {
+  return {
+    id: record.id,
+    animalId: record.animalId,
+    recordType: record.recordType as MedicalRecordType,
+    date: record.date.toISOString(),
+    diagnosis: record.diagnosis,
+    treatment: record.treatment,
+    medications: JSON.parse(record.medications || '[]') as Medication[],
+    weightKg: record.weightKg,
+    bodyConditionScore: record.bodyConditionScore,
+    prognosis: record.prognosis,
+    followUpRequired: record.followUpRequired,
+    followUpDate: record.followUpDate?.toISOString() ?? null,
+    followUpCompletedAt: record.followUpCompletedAt?.toISOString() ?? null,
+    isTreatable: record.isTreatable,
+    affectsAdoptability: record.affectsAdoptability,
+    estimatedCost: record.estimatedCost,
+    veterinarian: record.veterinarian,
+    notes: record.notes,
+    isPublic: record.isPublic,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * What the public sees of a record: its type and date only
+ */
+export function formatPublicMedicalRecord(record: MedicalRecordRow): PublicMedicalRecord {
+  return {
+    id: record.id,
+    recordType: record.recordType as MedicalRecordType,
+    date: record.date.toISOString(),
+  };
+}
+
+export function formatVaccination(vaccination: VaccinationRow): Vaccination {
+  return {
+    id: vaccination.id,
+    animalId: vaccination.animalId,
+    vaccineType: vaccination.vaccineType,
+    product: vaccination.product,
+    lotNumber: vaccination.lotNumber,
+    dateGiven: vaccination.dateGiven.toISOString(),
+    expirationDate: vaccination.expirationDate?.toISOString() ?? null,
+    nextDueDate: vaccination.nextDueDate?.toISOString() ?? null,
+    route: vaccination.route as VaccinationRoute,
+    site: vaccination.site,
+    administeredBy: vaccination.administeredBy,
+    notes: vaccination.notes,
+    isPublic: vaccination.isPublic,
+    createdAt: vaccination.createdAt.toISOString(),
+  };
+}
+
+export function formatPublicVaccination(vaccination: VaccinationRow): PublicVaccination {
+  return {
+    id: vaccination.id,
+    vaccineType: vaccination.vaccineType,
+    dateGiven: vaccination.dateGiven.toISOString(),
+    expirationDate: vaccination.expirationDate?.toISOString() ?? null,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check the dates of a record as it will be stored
+ */
+export function assertMedicalRecordDates(record: {
+  date: Date;
+  followUpRequired: boolean;
+  followUpDate: Date | null;
+}): void {
+  if (record.followUpDate && !record.followUpRequired) {
+    throw new ValidationError('A follow-up date needs followUpRequired');
+  }
+  if (record.followUpDate && record.followUpDate < record.date) {
+    throw new ValidationError('Follow-up date must not be before the record date');
+  }
+}
+
+/**
+ * Check the dates of a vaccination as it will be stored
+ */
+export function assertVaccinationDates(vaccination: {
+  dateGiven: Date;
+  expirationDate: Date | null;
+  nextDueDate: Date | null;
+}): void {
+  if (vaccination.nextDueDate && vaccination.nextDueDate <= vaccination.dateGiven) {
+    throw new ValidationError('Next due date must be after the date given');
+  }
+  if (vaccination.expirationDate && vaccination.expirationDate <= vaccination.dateGiven) {
+    throw new ValidationError('Expiration date must be after the date given');
+  }
+}
+
+// ============================================================================
+// Due care
+// ============================================================================
+
+/**
+ * Follow-ups and vaccination doses of animals in the organization's care
+ * due within `days`, overdue ones included, soonest first
+ */
+export async function getDueCare(
+  organizationId: string,
+  days: number = DUE_CARE_DAYS,
+  now: Date = new Date()
+): Promise<DueCareItem[]> {
+  const horizon = new Date(now.getTime() + days * DAY_MS);
+  const inCare = { organizationId, status: { in: IN_CARE_STATUSES } };
+
+  const [followUps, doses] = await Promise.all([
+    prisma.medicalRecord.findMany({
+      where: {
+        animal: inCare,
+        followUpRequired: true,
+        followUpCompletedAt: null,
+        followUpDate: { lte: horizon },
+      },
+      include: { animal: { select: DUE_ANIMAL_SELECT } },
+    }),
+    prisma.vaccination.findMany({
+      where: { animal: inCare, nextDueDate: { lte: horizon } },
+      include: { animal: { select: DUE_ANIMAL_SELECT } },
+    }),
+  ]);
+
+  // A dose is no longer due once a later one of the same vaccine was given
+  const given = doses.length > 0
+    ? await prisma.vaccination.findMany({
+        where: { animalId: { in: [...new Set(doses.map(d => d.animalId))] } },
+        select: { animalId: true, vaccineType: true, dateGiven: true },
+      })
+    : [];
+  const dueDoses = doses.filter(dose => !given.some(other =>
+    other.animalId === dose.animalId &&
+    other.vaccineType === dose.vaccineType &&
+    other.dateGiven > dose.dateGiven
+  ));
+
+  const items: DueCareItem[] = [
+    ...followUps.map(record => ({
+      type: 'FOLLOW_UP' as const,
+      id: record.id,
+      animal: record.animal,
+      description: record.recordType,
+      dueDate: record.followUpDate!.toISOString(),
+      overdue: record.followUpDate! < now,
+    })),
+    ...dueDoses.map(dose => ({
+      type: 'VACCINATION' as const,
+      id: dose.id,
+      animal: dose.animal,
+      description: dose.vaccineType,
+      dueDate: dose.nextDueDate!.toISOString(),
+      overdue: dose.nextDueDate! < now,
+    })),
+  ];
+
+  return items.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
@@ -0,0 +1,276 @@
+/**
+ * Membership Service
+ *
+ * Organization roles, who may grant them, and invitations.
+ *
+ * Members are managed by anyone with `org:users`, but only for roles below
+ * their own: a MANAGER can invite STAFF, an ADMIN can promote to MANAGER,
+ * and only an OWNER (or SUPERADMIN) can create or remove another OWNER.
+ * An organization always keeps at least one OWNER.
+ *
+ * Invitations carry a random token that is shown once; only its hash is
+ * stored. It is emailed to the invitee and also returned to the inviter to
+ * share directly. Redeeming it creates the account (or links an existing
+ * one) and the membership in one transaction.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@shelter-link/database';
+import { ConflictError, ForbiddenError, InvalidStateError, NotFoundError, UnauthorizedError, ValidationError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { sendVerificationEmail } from './account.js';
+import { appLink, sendMail } from './mail.js';
+import { assertLoginAllowed, clearLoginFailures, recordLoginFailure } from './login-throttle.js';
+import { hashToken } from './sessions.js';
+
+const logger = createLogger('memberships');
+
+export const ORG_ROLES = ['OWNER', 'ADMIN', 'MANAGER', 'STAFF', 'VOLUNTEER', 'FOSTER', 'READ_ONLY'] as const;
+
+export type OrgRole = typeof ORG_ROLES[number];
+
+// Higher rank manages lower rank; volunteers and fosters are peers
+const ROLE_RANK: Record<OrgRole, number> = {
+  OWNER: 6,
+  ADMIN: 5,
+  MANAGER: 4,
+  STAFF: 3,
+  VOLUNTEER: 2,
+  FOSTER: 2,
+  READ_ONLY: 1,
+};
+
+export const INVITATION_TTL_DAYS = 7;
+
+const PASSWORD_SALT_ROUNDS = 10;
+
+export interface MembershipActor {
+  globalRole: string;
+  organizationRole?: string;
+}
+
+export interface InvitationInput {
+  organizationId: string;
+  email: string;
+  role: OrgRole;
+  expiresInDays?: number;
+  invitedBy: { id: string; name: string };
+}
+
+export interface AcceptInvitationInput {
+  token: string;
+  name?: string;
+  password: string;
+  /** For the sign-in throttle when an existing user confirms their password */
+  ipAddress: string;
+}
+
+/**
+ * Whether the actor may grant, change or remove the given role
+ */
+export function canManageRole(actor: MembershipActor, targetRole: string): boolean {
+  if (actor.globalRole === 'SUPERADMIN' || actor.organizationRole === 'OWNER') {
+    return true;
+  }
+
+  const actorRank = ROLE_RANK[actor.organizationRole as OrgRole];
+  const targetRank = ROLE_RANK[targetRole as OrgRole];
+  if (actorRank === undefined || targetRank === undefined) {
+    return false;
+  }
+
+  return actorRank > targetRank;
+}
+
+/**
+ * Throw ForbiddenError if the actor may not manage the given role
+ */
+export function assertCanManageRole(actor: MembershipActor, targetRole: string): void {
+  if (!canManageRole(actor, targetRole)) {
+    throw new ForbiddenError(`Your role cannot manage ${targetRole} members`);
+  }
+}
+
+/**
+ * Throw ConflictError if removing or demoting this member would leave the
+ * organization without an OWNER
+ */
+export async function assertNotLastOwner(organizationId: string, userId: string): Promise<void> {
+  const membership = await prisma.userOrganization.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    select: { role: true },
+  });
+  if (membership?.role !== 'OWNER') {
+    return;
+  }
+
+  const otherOwners = await prisma.userOrganization.count({
+    where: { organizationId, role: 'OWNER', userId: { not: userId } },
+  });
+  if (otherOwners === 0) {
+    throw new ConflictError('An organization must keep at least one owner');
+  }
+}
+
+function generateInvitationToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Invite an email address to an organization.
+ * Any earlier pending invitation for the same address is revoked.
+ */
+export async function createInvitation(input: InvitationInput) {
+  const email = input.email.toLowerCase();
+
+  const existingMember = await prisma.userOrganization.findFirst({
+    where: { organizationId: input.organizationId, user: { email } },
+  });
+  if (existingMember) {
+    throw new ConflictError('This user is already a member of the organization');
+  }
+
+  const token = generateInvitationToken();
+  const expiresAt = new Date(Date.now() + (input.expiresInDays ?? INVITATION_TTL_DAYS) * 24 * 60 * 60 * 1000);
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.invitation.updateMany({
+      where: { organizationId: input.organizationId, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return tx.invitation.create({
+      data: {
+        organizationId: input.organizationId,
+        email,
+        role: input.role,
+        tokenHash: hashToken(token),
+        invitedById: input.invitedBy.id,
+        invitedByName: input.invitedBy.name,
+        expiresAt,
+      },
+    });
+  });
+
+  logger.info({ invitationId: invitation.id, organizationId: input.organizationId, role: input.role }, 'Invitation created');
+
+  return { invitation, token };
+}
+
+/**
+ * Email the invitation link to the invitee
+ */
+export async function sendInvitationEmail(
+  invitation: { email: string; role: string; expiresAt: Date; invitedByName: string | null },
+  token: string,
+  organizationName: string
+): Promise<boolean> {
+  return sendMail({
+    to: invitation.email,
+    subject: `You're invited to join ${organizationName} on ShelterLink`,
+    text: [
+      `${invitation.invitedByName ?? 'A team member'} invited you to join ${organizationName} as ${invitation.role}.`,
+      '',
+      'Accept the invitation here:',
+      '',
+      appLink('/invitations/accept', token),
+      '',
+      `The invitation expires on ${invitation.expiresAt.toDateString()}.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Look up a redeemable invitation by its token
+ */
+export async function findInvitationByToken(token: string) {
+  const invitation = await prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { organization: { select: { id: true, name: true, slug: true, status: true } } },
+  });
+
+  if (!invitation || invitation.revokedAt) {
+    throw new NotFoundError('Invitation');
+  }
+  if (invitation.acceptedAt) {
+    throw new InvalidStateError('Invitation has already been accepted');
+  }
+  if (invitation.expiresAt < new Date()) {
+    throw new InvalidStateError('Invitation has expired');
+  }
+
+  return invitation;
+}
+
+/**
+ * Redeem an invitation. New users set their name and password; existing
+ * users confirm with their current password.
+ */
+export async function acceptInvitation(input: AcceptInvitationInput) {
+  const invitation = await findInvitationByToken(input.token);
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: invitation.email },
+    include: { organizations: { select: { organizationId: true } } },
+  });
+
+  if (existingUser) {
+    // Throttled like sign-in, or an invitation would be a way around its lockout
+    await assertLoginAllowed(existingUser.email, input.ipAddress);
+    const validPassword = await bcrypt.compare(input.password, existingUser.passwordHash);
+    if (!validPassword) {
+      await recordLoginFailure(existingUser.email, input.ipAddress);
+      throw new UnauthorizedError('Invalid email or password');
+    }
+    await clearLoginFailures(existingUser.email);
+    if (existingUser.organizations.some(o => o.organizationId === invitation.organizationId)) {
+      throw new ConflictError('You are already a member of this organization');
+    }
+  } else if (!input.name) {
+    throw new ValidationError('A name is required to create your account');
+  }
+
+  const passwordHash = existingUser ? undefined : await bcrypt.hash(input.password, PASSWORD_SALT_ROUNDS);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const user = existingUser ?? await tx.user.create({
+      data: {
+        email: invitation.email,
+        name: input.name!,
+        passwordHash: passwordHash!,
+      },
+    });
+
+    const membership = await tx.userOrganization.create({
+      data: {
+        userId: user.id,
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+        isPrimary: !existingUser || existingUser.organizations.length === 0,
+        invitedAt: invitation.createdAt,
+      },
+    });
+
+    await tx.invitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() },
+    });
+
+    return { user, membership };
+  });
+
+  logger.info({
+    invitationId: invitation.id,
+    userId: result.user.id,
+    organizationId: invitation.organizationId,
+    newUser: !existingUser,
+  }, 'Invitation accepted');
+
+  // Anyone holding the link could redeem it, so new addresses still get verified
+  if (!existingUser) {
+    await sendVerificationEmail(result.user);
+  }
+
+  return { ...result, organization: invitation.organization };
+}
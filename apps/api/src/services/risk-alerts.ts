@@ -0,0 +1,141 @@
+/**
+ * Risk Alert Service
+ *
+ * Recalculation raises a THRESHOLD_CROSSED alert when it moves an animal up
+ * into a higher severity, ELEVATED or above (see checkRiskThresholds in
+ * _archive/services/risk-scoring.full.ts). Moves down are good news and
+ * raise nothing. An override holds the severity, so it raises nothing either.
+ *
+ * An alert stays open until staff acknowledge it. While one is open, a
+ * crossing into the same or a lower severity does not raise another, so an
+ * animal moving back and forth across a threshold alerts once.
+ *
+ * Alerts suggest placement-focused actions only (RiskAlertAction).
+ */
+
+import { prisma } from '@shelter-link/database';
+import { RiskAlertAction, RiskAlertType, RISK_ALERT_MIN_SEVERITY } from '@shelter-link/types';
+import { InvalidStateError, NotFoundError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { SEVERITY_RANK, type RiskReason, type RiskSeverity } from './risk-scoring.js';
+
+const logger = createLogger('risk-alerts');
+
+export { RiskAlertAction, RiskAlertType };
+
+const SEVERITY_ACTIONS: Record<string, RiskAlertAction[]> = {
+  ELEVATED: [RiskAlertAction.FEATURE_LISTING, RiskAlertAction.REVIEW_ENRICHMENT],
+  HIGH: [RiskAlertAction.FEATURE_LISTING, RiskAlertAction.CONTACT_FOSTERS, RiskAlertAction.REDUCE_ADOPTION_FEE],
+  CRITICAL: [RiskAlertAction.CONTACT_RESCUE_PARTNERS, RiskAlertAction.REQUEST_TRANSFER, RiskAlertAction.CONTACT_FOSTERS],
+};
+
+const REASON_ACTIONS: Partial<Record<RiskReason, RiskAlertAction>> = {
+  SENIOR: RiskAlertAction.SENIOR_ADOPTER_OUTREACH,
+  SPECIAL_NEEDS: RiskAlertAction.SPECIAL_NEEDS_OUTREACH,
+};
+
+/**
+ * Suggested next steps for an animal at a severity, most urgent first
+ */
+export function getRecommendedActions(severity: string, reasons: RiskReason[]): RiskAlertAction[] {
+  const actions = [...(SEVERITY_ACTIONS[severity] ?? [])];
+  for (const reason of reasons) {
+    const action = REASON_ACTIONS[reason];
+    if (action && !actions.includes(action)) {
+      actions.push(action);
+    }
+  }
+  return actions;
+}
+
+export interface RiskAlertData {
+  animalId: string;
+  organizationId: string;
+  alertType: RiskAlertType;
+  severity: string;
+  previousScore: number;
+  newScore: number;
+  previousSeverity: string;
+  newSeverity: string;
+  triggeringFactors: string;
+  message: string;
+  recommendedActions: string;
+}
+
+/**
+ * The alert for a recalculation, or null when it crossed no threshold.
+ * A first calculation has nothing to cross from.
+ */
+export function buildThresholdAlert(input: {
+  animalId: string;
+  organizationId: string;
+  previous: { urgencyScore: number; riskSeverity: string } | null;
+  urgencyScore: number;
+  riskSeverity: RiskSeverity;
+  riskReasons: RiskReason[];
+}): RiskAlertData | null {
+  const { previous, urgencyScore, riskSeverity } = input;
+
+  if (
+    !previous ||
+    SEVERITY_RANK[riskSeverity] < SEVERITY_RANK[RISK_ALERT_MIN_SEVERITY] ||
+    SEVERITY_RANK[riskSeverity] <= SEVERITY_RANK[previous.riskSeverity]
+  ) {
+    return null;
+  }
+
+  return {
+    animalId: input.animalId,
+    organizationId: input.organizationId,
+    alertType: RiskAlertType.THRESHOLD_CROSSED,
+    severity: riskSeverity,
+    previousScore: previous.urgencyScore,
+    newScore: urgencyScore,
+    previousSeverity: previous.riskSeverity,
+    newSeverity: riskSeverity,
+    triggeringFactors: JSON.stringify(input.riskReasons),
+    message: `Risk rose from ${previous.riskSeverity} (${previous.urgencyScore}) to ${riskSeverity} (${urgencyScore})`,
+    recommendedActions: JSON.stringify(getRecommendedActions(riskSeverity, input.riskReasons)),
+  };
+}
+
+/**
+ * Whether an open alert of the animal already covers a crossing into `severity`
+ */
+export function isCoveredByOpenAlert(severity: string, openAlerts: Array<{ newSeverity: string }>): boolean {
+  return openAlerts.some(alert => SEVERITY_RANK[alert.newSeverity] >= SEVERITY_RANK[severity]);
+}
+
+/**
+ * Acknowledge an open alert, with optional notes on what was done
+ */
+export async function acknowledgeRiskAlert(
+  alertId: string,
+  resolutionNotes: string | null,
+  user: { id: string; name: string }
+) {
+  const alert = await prisma.riskAlert.findUnique({ where: { id: alertId } });
+  if (!alert) {
+    throw new NotFoundError('Risk alert', alertId);
+  }
+  if (alert.acknowledgedAt) {
+    throw new InvalidStateError('Risk alert is already acknowledged');
+  }
+
+  const acknowledged = await prisma.riskAlert.updateMany({
+    where: { id: alertId, acknowledgedAt: null },
+    data: {
+      acknowledgedAt: new Date(),
+      acknowledgedById: user.id,
+      acknowledgedByName: user.name,
+      resolutionNotes,
+    },
+  });
+  // Acknowledged concurrently by someone else
+  if (acknowledged.count === 0) {
+    throw new InvalidStateError('Risk alert was acknowledged by someone else');
+  }
+
+  logger.info({ alertId, animalId: alert.animalId, userId: user.id }, 'Risk alert acknowledged');
+  return prisma.riskAlert.findUnique({ where: { id: alertId } });
+}
@@ -0,0 +1,208 @@
+/**
+ * Risk Bias Report
+ *
+ * Bias audit required by docs/ETHICAL_AI_GUIDELINES.md ("Bias Detection").
+ * Color, breed and intake source are never scoring inputs, so scores of
+ * animals in care should not differ between those groups beyond what the
+ * permitted factors explain. Each group's mean score is compared with the
+ * population mean and flagged when the relative deviation exceeds the
+ * dimension's threshold:
+ *
+ *   - Color: 5% (guidelines)
+ *   - Breed: 10% (guidelines)
+ *   - Intake source: 10% (no threshold in the guidelines; breed's is used)
+ *
+ * Groups smaller than MIN_BIAS_GROUP_SIZE are reported but not flagged, as
+ * a handful of animals says nothing about bias.
+ */
+
+import { prisma } from '@shelter-link/database';
+import { RISK_SEVERITIES, roundTo, type RiskSeverity } from './risk-scoring.js';
+import { IN_CARE_STATUSES } from './animal-lifecycle.js';
+
+export const BIAS_THRESHOLDS = {
+  color: 0.05,
+  breed: 0.10,
+  intakeSource: 0.10,
+} as const;
+
+export type BiasDimension = keyof typeof BIAS_THRESHOLDS;
+
+export const MIN_BIAS_GROUP_SIZE = 5;
+
+export interface BiasReportAnimal {
+  colorPrimary: string | null;
+  breedPrimary: string | null;
+  intakeType: string | null;
+  urgencyScore: number;
+  riskSeverity: string;
+  algorithmVersion: string;
+}
+
+export interface BiasGroup {
+  key: string;
+  count: number;
+  meanScore: number;
+  medianScore: number;
+  /** (group mean - population mean) / population mean */
+  deviation: number;
+  severities: Record<RiskSeverity, number>;
+  flagged: boolean;
+}
+
+export interface BiasDimensionReport {
+  threshold: number;
+  groups: BiasGroup[];
+  flaggedGroups: string[];
+}
+
+export interface RiskBiasReport {
+  asOf: string;
+  algorithmVersions: string[];
+  minGroupSize: number;
+  population: {
+    count: number;
+    meanScore: number;
+    medianScore: number;
+    severities: Record<RiskSeverity, number>;
+  };
+  dimensions: Record<BiasDimension, BiasDimensionReport>;
+  flagged: number;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function countSeverities(animals: BiasReportAnimal[]): Record<RiskSeverity, number> {
+  const counts = Object.fromEntries(RISK_SEVERITIES.map(s => [s, 0])) as Record<RiskSeverity, number>;
+  for (const animal of animals) {
+    if (animal.riskSeverity in counts) {
+      counts[animal.riskSeverity as RiskSeverity]++;
+    }
+  }
+  return counts;
+}
+
+// Free-text values are grouped case-insensitively ("Black" and "black ")
+function textKey(value: string | null): string {
+  return value?.trim().toLowerCase() || 'unknown';
+}
+
+const KEY_OF: Record<BiasDimension, (animal: BiasReportAnimal) => string> = {
+  color: animal => textKey(animal.colorPrimary),
+  breed: animal => textKey(animal.breedPrimary),
+  intakeSource: animal => animal.intakeType ?? 'UNKNOWN',
+};
+
+function analyzeDimension(
+  animals: BiasReportAnimal[],
+  dimension: BiasDimension,
+  populationMean: number
+): BiasDimensionReport {
+  const threshold = BIAS_THRESHOLDS[dimension];
+  const groups = new Map<string, BiasReportAnimal[]>();
+  for (const animal of animals) {
+    const key = KEY_OF[dimension](animal);
+    const members = groups.get(key);
+    if (members) {
+      members.push(animal);
+    } else {
+      groups.set(key, [animal]);
+    }
+  }
+
+  const report = [...groups.entries()]
+    .map(([key, members]) => {
+      const scores = members.map(a => a.urgencyScore);
+      const groupMean = mean(scores);
+      const deviation = populationMean > 0 ? (groupMean - populationMean) / populationMean : 0;
+
+      return {
+        key,
+        count: members.length,
+        meanScore: roundTo(groupMean),
+        medianScore: roundTo(median(scores)),
+        deviation: roundTo(deviation, 3),
+        severities: countSeverities(members),
+        flagged: members.length >= MIN_BIAS_GROUP_SIZE && Math.abs(deviation) > threshold,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+
+  return {
+    threshold,
+    groups: report,
+    flaggedGroups: report.filter(g => g.flagged).map(g => g.key),
+  };
+}
+
+/**
+ * Compare score distributions across color, breed and intake source
+ */
+export function buildRiskBiasReport(animals: BiasReportAnimal[], now: Date = new Date()): RiskBiasReport {
+  const scores = animals.map(a => a.urgencyScore);
+  const populationMean = mean(scores);
+
+  const dimensions = {
+    color: analyzeDimension(animals, 'color', populationMean),
+    breed: analyzeDimension(animals, 'breed', populationMean),
+    intakeSource: analyzeDimension(animals, 'intakeSource', populationMean),
+  };
+
+  return {
+    asOf: now.toISOString(),
+    algorithmVersions: [...new Set(animals.map(a => a.algorithmVersion))].sort(),
+    minGroupSize: MIN_BIAS_GROUP_SIZE,
+    population: {
+      count: animals.length,
+      meanScore: roundTo(populationMean),
+      medianScore: roundTo(median(scores)),
+      severities: countSeverities(animals),
+    },
+    dimensions,
+    flagged: Object.values(dimensions).reduce((sum, d) => sum + d.flaggedGroups.length, 0),
+  };
+}
+
+/**
+ * Load the current risk profiles of animals in care for an organization
+ * (or all organizations when `organizationId` is null)
+ */
+export async function loadBiasReportAnimals(organizationId: string | null): Promise<BiasReportAnimal[]> {
+  const animals = await prisma.animal.findMany({
+    where: {
+      ...(organizationId ? { organizationId } : {}),
+      status: { in: IN_CARE_STATUSES },
+      riskProfile: { isNot: null },
+    },
+    select: {
+      colorPrimary: true,
+      breedPrimary: true,
+      intakeEvents: {
+        orderBy: { intakeDate: 'desc' },
+        take: 1,
+        select: { intakeType: true },
+      },
+      riskProfile: {
+        select: { urgencyScore: true, riskSeverity: true, algorithmVersion: true },
+      },
+    },
+  });
+
+  return animals.map(animal => ({
+    colorPrimary: animal.colorPrimary,
+    breedPrimary: animal.breedPrimary,
+    intakeType: animal.intakeEvents[0]?.intakeType ?? null,
+    urgencyScore: animal.riskProfile!.urgencyScore,
+    riskSeverity: animal.riskProfile!.riskSeverity,
+    algorithmVersion: animal.riskProfile!.algorithmVersion,
+  }));
+}
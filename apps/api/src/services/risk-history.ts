@@ -0,0 +1,189 @@
+/**
+ * Risk History Service
+ *
+ * Risk scoring records a snapshot of every calculation (score,
+ * severity, reasons, policy version). This service turns those snapshots
+ * into time-bucketed series for trend charts: one point per day or week,
+ * holding the last score of the bucket and its range.
+ */
+
+import { prisma } from '@shelter-link/database';
+import { RiskHistoryBucket, RiskTrend } from '@shelter-link/types';
+import type { RiskScoreResult } from './risk-scoring.js';
+
+export { RiskHistoryBucket, RiskTrend };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Score change over the range below which the trend is STABLE */
+export const TREND_MIN_CHANGE = 5;
+
+export interface RiskSnapshot {
+  urgencyScore: number;
+  riskSeverity: string;
+  isManualOverride: boolean;
+  createdAt: Date;
+}
+
+export interface RiskHistoryPoint {
+  bucketStart: Date;
+  urgencyScore: number;
+  riskSeverity: string;
+  minScore: number;
+  maxScore: number;
+  samples: number;
+  isManualOverride: boolean;
+}
+
+/**
+ * Snapshot row for one calculation. `effective` is what the profile shows,
+ * which differs from the calculated result while an override is active.
+ */
+export function buildRiskSnapshot(input: {
+  animalId: string;
+  organizationId: string;
+  result: RiskScoreResult;
+  effective: { urgencyScore: number; riskSeverity: string } | null;
+  algorithmVersion: string;
+  riskPolicyId: string | null;
+}) {
+  const { result, effective } = input;
+
+  return {
+    animalId: input.animalId,
+    organizationId: input.organizationId,
+    urgencyScore: effective?.urgencyScore ?? result.urgencyScore,
+    riskSeverity: effective?.riskSeverity ?? result.riskSeverity,
+    riskReasons: JSON.stringify(result.riskReasons),
+    calculatedScore: result.urgencyScore,
+    isManualOverride: effective !== null,
+    algorithmVersion: input.algorithmVersion,
+    riskPolicyId: input.riskPolicyId,
+  };
+}
+
+/**
+ * Start of the bucket containing `date`, in UTC. Weeks start on Monday.
+ */
+export function getBucketStart(date: Date, bucket: RiskHistoryBucket): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === RiskHistoryBucket.WEEK) {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setTime(start.getTime() - daysSinceMonday * DAY);
+  }
+  return start;
+}
+
+export function getRiskTrend(change: number): RiskTrend {
+  if (change >= TREND_MIN_CHANGE) return RiskTrend.RISING;
+  if (change <= -TREND_MIN_CHANGE) return RiskTrend.FALLING;
+  return RiskTrend.STABLE;
+}
+
+/**
+ * Bucket snapshots (any order) into a series, oldest bucket first
+ */
+export function bucketRiskSnapshots(
+  snapshots: RiskSnapshot[],
+  bucket: RiskHistoryBucket
+): { points: RiskHistoryPoint[]; trend: RiskTrend; change: number } {
+  const sorted = [...snapshots].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const buckets = new Map<number, RiskHistoryPoint>();
+
+  for (const snapshot of sorted) {
+    const bucketStart = getBucketStart(snapshot.createdAt, bucket);
+    const point = buckets.get(bucketStart.getTime());
+
+    if (!point) {
+      buckets.set(bucketStart.getTime(), {
+        bucketStart,
+        urgencyScore: snapshot.urgencyScore,
+        riskSeverity: snapshot.riskSeverity,
+        minScore: snapshot.urgencyScore,
+        maxScore: snapshot.urgencyScore,
+        samples: 1,
+        isManualOverride: snapshot.isManualOverride,
+      });
+      continue;
+    }
+
+    point.urgencyScore = snapshot.urgencyScore;
+    point.riskSeverity = snapshot.riskSeverity;
+    point.minScore = Math.min(point.minScore, snapshot.urgencyScore);
+    point.maxScore = Math.max(point.maxScore, snapshot.urgencyScore);
+    point.samples++;
+    point.isManualOverride = point.isManualOverride || snapshot.isManualOverride;
+  }
+
+  const points = [...buckets.values()];
+  const change = points.length > 1
+    ? points[points.length - 1].urgencyScore - points[0].urgencyScore
+    : 0;
+
+  return { points, trend: getRiskTrend(change), change };
+}
+
+interface RiskHistoryOptions {
+  bucket: RiskHistoryBucket;
+  days: number;
+  now?: Date;
+}
+
+// From the start of the bucket `days` days back, up to now
+function historyRange(options: RiskHistoryOptions): { from: Date; to: Date } {
+  const to = options.now ?? new Date();
+  const from = getBucketStart(new Date(to.getTime() - (options.days - 1) * DAY), options.bucket);
+  return { from, to };
+}
+
+const SNAPSHOT_SELECT = { urgencyScore: true, riskSeverity: true, isManualOverride: true, createdAt: true } as const;
+
+/**
+ * Score history of an animal over the last `days` days
+ */
+export async function getRiskHistory(animalId: string, options: RiskHistoryOptions) {
+  const { from, to } = historyRange(options);
+
+  const snapshots = await prisma.riskScoreSnapshot.findMany({
+    where: { animalId, createdAt: { gte: from, lte: to } },
+    select: SNAPSHOT_SELECT,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    animalId,
+    bucket: options.bucket,
+    from,
+    to,
+    ...bucketRiskSnapshots(snapshots, options.bucket),
+  };
+}
+
+/**
+ * Score histories of several animals in one query, in the order of
+ * `animalIds` - for lists that show a sparkline per animal
+ */
+export async function getRiskHistories(animalIds: string[], options: RiskHistoryOptions) {
+  const { from, to } = historyRange(options);
+
+  const snapshots: Array<RiskSnapshot & { animalId: string }> = animalIds.length === 0
+    ? []
+    : await prisma.riskScoreSnapshot.findMany({
+        where: { animalId: { in: animalIds }, createdAt: { gte: from, lte: to } },
+        select: { animalId: true, ...SNAPSHOT_SELECT },
+        orderBy: { createdAt: 'asc' },
+      });
+
+  const byAnimal = new Map<string, RiskSnapshot[]>(animalIds.map(id => [id, []]));
+  for (const snapshot of snapshots) {
+    byAnimal.get(snapshot.animalId)?.push(snapshot);
+  }
+
+  return animalIds.map(animalId => ({
+    animalId,
+    bucket: options.bucket,
+    from,
+    to,
+    ...bucketRiskSnapshots(byAnimal.get(animalId)!, options.bucket),
+  }));
+}
@@ -0,0 +1,187 @@
+/**
+ * Risk Override Service
+ *
+ * Staff can replace an animal's score and severity with their own judgement,
+ * with a reason and optionally an expiry. While an override is active,
+ * updateAnimalRiskProfile keeps it and only refreshes the calculated score
+ * stored next to it. The override lapses at the first recalculation after
+ * its expiry.
+ *
+ * Every override is kept in RiskOverride, ended as REPLACED (a newer
+ * override), CLEARED (by staff) or EXPIRED. A reviewer's ADJUST on a risk
+ * review (risk-review.ts) is an override too.
+ */
+
+import { prisma } from '@shelter-link/database';
+import { InvalidStateError, ValidationError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { updateAnimalRiskProfile, type RiskSeverity } from './risk-scoring.js';
+
+const logger = createLogger('risk-overrides');
+
+export const RiskOverrideEndReason = {
+  REPLACED: 'REPLACED',
+  CLEARED: 'CLEARED',
+  EXPIRED: 'EXPIRED',
+} as const;
+
+export type RiskOverrideEndReason = typeof RiskOverrideEndReason[keyof typeof RiskOverrideEndReason];
+
+export interface SetRiskOverrideInput {
+  urgencyScore: number;
+  riskSeverity: RiskSeverity;
+  reason: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Whether a profile's override still applies
+ */
+export function isOverrideActive(
+  profile: { isManualOverride: boolean; overrideExpiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return profile.isManualOverride && (!profile.overrideExpiresAt || profile.overrideExpiresAt > now);
+}
+
+interface RiskOverridePlan {
+  endActive: { where: Record<string, unknown>; data: Record<string, unknown> };
+  create: { data: Record<string, unknown> };
+  profile: { where: { id: string }; data: Record<string, unknown> };
+}
+
+/**
+ * The writes that replace an animal's active override with a new one, for
+ * the caller to run in its transaction
+ */
+export function planRiskOverride(
+  animal: { id: string; organizationId: string },
+  profile: { id: string; urgencyScore: number; riskSeverity: string; calculatedScore: number | null; calculatedSeverity: string | null },
+  input: SetRiskOverrideInput,
+  user: { id: string; name: string },
+  now: Date
+): RiskOverridePlan {
+  if (input.expiresAt && input.expiresAt <= now) {
+    throw new ValidationError('Override expiry must be in the future');
+  }
+
+  // Profiles scored before overrides existed have no calculated score
+  const calculatedScore = profile.calculatedScore ?? profile.urgencyScore;
+  const calculatedSeverity = profile.calculatedSeverity ?? profile.riskSeverity;
+
+  return {
+    endActive: {
+      where: { animalId: animal.id, endedAt: null },
+      data: { endedAt: now, endReason: RiskOverrideEndReason.REPLACED, endedByName: user.name },
+    },
+    create: {
+      data: {
+        animalId: animal.id,
+        organizationId: animal.organizationId,
+        urgencyScore: input.urgencyScore,
+        riskSeverity: input.riskSeverity,
+        reason: input.reason,
+        expiresAt: input.expiresAt ?? null,
+        calculatedScore,
+        calculatedSeverity,
+        createdById: user.id,
+        createdByName: user.name,
+      },
+    },
+    profile: {
+      where: { id: profile.id },
+      data: {
+        urgencyScore: input.urgencyScore,
+        riskSeverity: input.riskSeverity,
+        calculatedScore,
+        calculatedSeverity,
+        isManualOverride: true,
+        overrideReason: input.reason,
+        overrideBy: user.name,
+        overrideExpiresAt: input.expiresAt ?? null,
+        // A person chose this severity, so a CRITICAL is confirmed
+        criticalConfirmedAt: input.riskSeverity === 'CRITICAL' ? now : null,
+      },
+    },
+  };
+}
+
+/**
+ * Override an animal's score, replacing any active override
+ */
+export async function setRiskOverride(
+  animalId: string,
+  input: SetRiskOverrideInput,
+  user: { id: string; name: string }
+) {
+  const now = new Date();
+  if (input.expiresAt && input.expiresAt <= now) {
+    throw new ValidationError('Override expiry must be in the future');
+  }
+
+  let animal = await prisma.animal.findUnique({
+    where: { id: animalId },
+    select: { organizationId: true, riskProfile: true },
+  });
+  if (animal && !animal.riskProfile) {
+    // Nothing scored yet; score first so the override has a comparison
+    await updateAnimalRiskProfile(animalId);
+    animal = await prisma.animal.findUnique({
+      where: { id: animalId },
+      select: { organizationId: true, riskProfile: true },
+    });
+  }
+  const profile = animal?.riskProfile;
+  if (!animal || !profile) {
+    throw new InvalidStateError('Animal has no risk profile');
+  }
+
+  const plan = planRiskOverride({ id: animalId, organizationId: animal.organizationId }, profile, input, user, now);
+
+  const override = await prisma.$transaction(async (tx) => {
+    await tx.riskOverride.updateMany(plan.endActive);
+    const created = await tx.riskOverride.create(plan.create);
+    await tx.riskProfile.update(plan.profile);
+    return created;
+  });
+
+  logger.info(
+    { animalId, overrideId: override.id, urgencyScore: input.urgencyScore, calculatedScore: override.calculatedScore },
+    'Risk override set'
+  );
+
+  return override;
+}
+
+/**
+ * End the active override of an animal. The profile keeps the override
+ * values until the caller recalculates.
+ */
+export async function endRiskOverride(
+  animalId: string,
+  endReason: RiskOverrideEndReason,
+  endedByName: string | null
+): Promise<boolean> {
+  const now = new Date();
+
+  const [ended] = await prisma.$transaction([
+    prisma.riskOverride.updateMany({
+      where: { animalId, endedAt: null },
+      data: { endedAt: now, endReason, endedByName },
+    }),
+    prisma.riskProfile.updateMany({
+      where: { animalId },
+      data: {
+        isManualOverride: false,
+        overrideReason: null,
+        overrideBy: null,
+        overrideExpiresAt: null,
+      },
+    }),
+  ]);
+
+  if (ended.count > 0) {
+    logger.info({ animalId, endReason }, 'Risk override ended');
+  }
+  return ended.count > 0;
+}
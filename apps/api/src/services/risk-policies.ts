@@ -0,0 +1,399 @@
+/**
+ * Risk Policy Service
+ *
+ * Versioned RiskScoringConfig records that organizations select for
+ * calculateRiskScore. A policy starts as an editable DRAFT; publishing
+ * freezes it so every score can be traced to the exact configuration
+ * that produced it (RiskProfile.algorithmVersion / riskPolicyId). A change
+ * to a published policy is a new version under the same name.
+ *
+ * Organizations without a selection use DEFAULT_RISK_SCORING_CONFIG.
+ * Every config is checked against RISK_WEIGHT_LIMITS and
+ * PROHIBITED_RISK_FACTORS, the caps and exclusions from
+ * docs/ETHICAL_AI_GUIDELINES.md.
+ */
+
+import { z } from 'zod';
+import { prisma } from '@shelter-link/database';
+import {
+  DEFAULT_RISK_SCORING_CONFIG,
+  PROHIBITED_RISK_FACTORS,
+  RISK_WEIGHT_LIMITS,
+  RiskPolicyStatus,
+  type RiskScoringConfig,
+} from '@shelter-link/types';
+import { ConflictError, InvalidStateError, NotFoundError, ValidationError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('risk-policies');
+
+export { RiskPolicyStatus };
+
+// Allowed rounding error when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+export interface PolicyViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * Policy as used by the scoring engine
+ */
+export interface ResolvedRiskPolicy {
+  /** RiskPolicy id, null for the built-in default */
+  id: string | null;
+  /** Recorded on RiskProfile.algorithmVersion */
+  algorithmVersion: string;
+  config: RiskScoringConfig;
+}
+
+export const DEFAULT_RISK_POLICY: ResolvedRiskPolicy = {
+  id: null,
+  algorithmVersion: `default@${DEFAULT_RISK_SCORING_CONFIG.version}`,
+  config: DEFAULT_RISK_SCORING_CONFIG,
+};
+
+interface StoredRiskPolicy {
+  id: string;
+  name: string;
+  version: number;
+  config: string;
+}
+
+const weight = z.number().min(0).max(1);
+const score = z.number().int().min(1).max(100);
+const days = z.number().int().min(1).max(365);
+
+const riskScoringConfigSchema = z.object({
+  weights: z.object({
+    lengthOfStay: weight,
+    medical: weight,
+    behavioral: weight,
+    capacity: weight,
+    adoptability: weight,
+    specialCategories: weight,
+  }).strict(),
+  severityThresholds: z.object({
+    critical: score,
+    high: score,
+    elevated: score,
+    moderate: score,
+  }).strict(),
+  targetLos: z.record(
+    z.string().regex(/^[A-Z_]+$/, 'Species must be an uppercase Species value'),
+    z.object({ baby: days, young: days, adult: days, senior: days }).strict()
+  ).refine(value => Object.keys(value).length > 0, 'At least one species target is required'),
+  losPercentileThresholds: z.object({
+    elevated: score,
+    high: score,
+    critical: score,
+  }).strict(),
+});
+
+// Lowercase words of a camelCase, snake_case or kebab-case key
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Find keys anywhere in a config that name a prohibited input, e.g.
+ * `weights.colorPrimary` or `modifiers.largeBreed`. Matching is by whole
+ * word so `capacity` does not trip on `city`.
+ */
+function findProhibitedInputs(input: unknown, path: string[] = []): PolicyViolation[] {
+  if (input === null || typeof input !== 'object') {
+    return [];
+  }
+
+  const violations: PolicyViolation[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    const keyPath = [...path, key];
+    const words = keyWords(key);
+    const factor = Object.values(PROHIBITED_RISK_FACTORS).find(f =>
+      f.terms.some(term => words.includes(term))
+    );
+
+    if (factor) {
+      violations.push({
+        path: keyPath.join('.'),
+        message: `Prohibited risk factor: ${factor.reason}`,
+      });
+    } else {
+      violations.push(...findProhibitedInputs(value, keyPath));
+    }
+  }
+  return violations;
+}
+
+/**
+ * Check a config's structure and ethical limits.
+ * Returns every problem found; an empty list means the config is valid.
+ */
+export function lintRiskScoringConfig(input: unknown): PolicyViolation[] {
+  const prohibited = findProhibitedInputs(input);
+
+  const parsed = riskScoringConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    return [
+      ...prohibited,
+      ...parsed.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    ];
+  }
+
+  const config = parsed.data;
+  const violations: PolicyViolation[] = [...prohibited];
+
+  // calculateRiskScore scores each factor at its weight, so these are the
+  // factors' real shares of the score (see risk-ethics.test.ts)
+  for (const [factor, limit] of Object.entries(RISK_WEIGHT_LIMITS)) {
+    const value = config.weights[factor as keyof typeof config.weights];
+    if (value > limit) {
+      violations.push({
+        path: `weights.${factor}`,
+        message: `Weight ${value} exceeds the ethical limit of ${limit}`,
+      });
+    }
+  }
+
+  const weightSum = Object.values(config.weights).reduce((sum, value) => sum + value, 0);
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) {
+    violations.push({
+      path: 'weights',
+      message: `Weights must sum to 1.0 (got ${Number(weightSum.toFixed(4))})`,
+    });
+  }
+
+  const { critical, high, elevated, moderate } = config.severityThresholds;
+  if (!(critical > high && high > elevated && elevated > moderate)) {
+    violations.push({
+      path: 'severityThresholds',
+      message: 'Thresholds must decrease from critical to moderate',
+    });
+  }
+
+  const percentiles = config.losPercentileThresholds;
+  if (!(percentiles.critical > percentiles.high && percentiles.high > percentiles.elevated)) {
+    violations.push({
+      path: 'losPercentileThresholds',
+      message: 'Percentiles must increase from elevated to critical',
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Validate a config and return it typed, or throw ValidationError listing
+ * every violation
+ */
+export function validateRiskScoringConfig(input: unknown, version: string): RiskScoringConfig {
+  const violations = lintRiskScoringConfig(input);
+  if (violations.length > 0) {
+    throw new ValidationError('Risk scoring policy is not valid', { violations });
+  }
+
+  return { ...(riskScoringConfigSchema.parse(input) as Omit<RiskScoringConfig, 'version'>), version };
+}
+
+/**
+ * Label recorded on RiskProfile.algorithmVersion
+ */
+export function riskPolicyLabel(policy: { name: string; version: number }): string {
+  return `${policy.name}@${policy.version}`;
+}
+
+/**
+ * Parse a stored config column
+ */
+export function parseRiskPolicyConfig(policy: StoredRiskPolicy): RiskScoringConfig {
+  return JSON.parse(policy.config) as RiskScoringConfig;
+}
+
+/**
+ * Turn an organization's selected policy (or none) into what the engine
+ * scores with. A stored config that no longer parses falls back to the
+ * default rather than failing every recalculation.
+ */
+export function resolveRiskPolicy(policy: StoredRiskPolicy | null | undefined): ResolvedRiskPolicy {
+  if (!policy) {
+    return DEFAULT_RISK_POLICY;
+  }
+
+  try {
+    return {
+      id: policy.id,
+      algorithmVersion: riskPolicyLabel(policy),
+      config: parseRiskPolicyConfig(policy),
+    };
+  } catch (error) {
+    logger.error({ error, riskPolicyId: policy.id }, 'Unreadable risk policy config, using default');
+    return DEFAULT_RISK_POLICY;
+  }
+}
+
+/**
+ * Load the policy an organization scores with
+ */
+export async function getOrganizationRiskPolicy(organizationId: string): Promise<ResolvedRiskPolicy> {
+  const org = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { riskPolicy: true },
+  });
+
+  return resolveRiskPolicy(org?.riskPolicy);
+}
+
+export interface CreateRiskPolicyInput {
+  /** Null for a platform policy */
+  organizationId: string | null;
+  name: string;
+  description?: string;
+  config: unknown;
+  createdBy: { id: string; name: string };
+}
+
+/**
+ * Create a DRAFT as the next version of `name` for the owner
+ */
+export async function createRiskPolicy(input: CreateRiskPolicyInput) {
+  const latest = await prisma.riskPolicy.findFirst({
+    where: { organizationId: input.organizationId, name: input.name },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  const version = (latest?.version ?? 0) + 1;
+
+  const config = validateRiskScoringConfig(input.config, String(version));
+
+  try {
+    return await prisma.riskPolicy.create({
+      data: {
+        organizationId: input.organizationId,
+        name: input.name,
+        version,
+        description: input.description,
+        config: JSON.stringify(config),
+        status: RiskPolicyStatus.DRAFT,
+        createdById: input.createdBy.id,
+        createdByName: input.createdBy.name,
+      },
+    });
+  } catch (error) {
+    // Two drafts of the same name created at once
+    if ((error as { code?: string }).code === 'P2002') {
+      throw new ConflictError(`Version ${version} of "${input.name}" was just created, try again`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Edit a draft; published and retired versions are immutable
+ */
+export async function updateRiskPolicyDraft(
+  id: string,
+  changes: { description?: string; config?: unknown }
+) {
+  const policy = await prisma.riskPolicy.findUnique({ where: { id } });
+  if (!policy) {
+    throw new NotFoundError('Risk policy', id);
+  }
+  if (policy.status !== RiskPolicyStatus.DRAFT) {
+    throw new InvalidStateError('Only draft policies can be edited; create a new version instead');
+  }
+
+  const config = changes.config !== undefined
+    ? JSON.stringify(validateRiskScoringConfig(changes.config, String(policy.version)))
+    : undefined;
+
+  return prisma.riskPolicy.update({
+    where: { id },
+    data: { description: changes.description, config },
+  });
+}
+
+/**
+ * Freeze a draft so organizations can select it
+ */
+export async function publishRiskPolicy(id: string) {
+  const policy = await prisma.riskPolicy.findUnique({ where: { id } });
+  if (!policy) {
+    throw new NotFoundError('Risk policy', id);
+  }
+
+  // Limits may have tightened since the draft was saved
+  validateRiskScoringConfig(parseRiskPolicyConfig(policy), String(policy.version));
+
+  const result = await prisma.riskPolicy.updateMany({
+    where: { id, status: RiskPolicyStatus.DRAFT },
+    data: { status: RiskPolicyStatus.PUBLISHED, publishedAt: new Date() },
+  });
+  if (result.count === 0) {
+    throw new InvalidStateError(`Risk policy is already ${policy.status.toLowerCase()}`);
+  }
+
+  logger.info({ riskPolicyId: id, label: riskPolicyLabel(policy) }, 'Risk policy published');
+
+  return prisma.riskPolicy.findUnique({ where: { id } });
+}
+
+/**
+ * Stop a published policy from being selected. Organizations still using
+ * it must switch first.
+ */
+export async function retireRiskPolicy(id: string) {
+  const policy = await prisma.riskPolicy.findUnique({ where: { id } });
+  if (!policy) {
+    throw new NotFoundError('Risk policy', id);
+  }
+  if (policy.status !== RiskPolicyStatus.PUBLISHED) {
+    throw new InvalidStateError('Only published policies can be retired');
+  }
+
+  const inUse = await prisma.organization.count({ where: { riskPolicyId: id } });
+  if (inUse > 0) {
+    throw new ConflictError('Risk policy is still selected by organizations', { organizations: inUse });
+  }
+
+  return prisma.riskPolicy.update({
+    where: { id },
+    data: { status: RiskPolicyStatus.RETIRED },
+  });
+}
+
+/**
+ * Set the policy an organization scores with (null = default).
+ * Only published policies owned by the organization or the platform qualify.
+ */
+export async function selectRiskPolicy(organizationId: string, policyId: string | null): Promise<ResolvedRiskPolicy> {
+  if (policyId === null) {
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { riskPolicyId: null },
+    });
+    return DEFAULT_RISK_POLICY;
+  }
+
+  const policy = await prisma.riskPolicy.findUnique({ where: { id: policyId } });
+  if (!policy || (policy.organizationId !== null && policy.organizationId !== organizationId)) {
+    throw new NotFoundError('Risk policy', policyId);
+  }
+  if (policy.status !== RiskPolicyStatus.PUBLISHED) {
+    throw new InvalidStateError('Only published policies can be selected');
+  }
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: { riskPolicyId: policyId },
+  });
+
+  return resolveRiskPolicy(policy);
+}
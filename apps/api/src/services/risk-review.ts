@@ -0,0 +1,339 @@
+/**
+ * Risk Review Service
+ *
+ * Human review queue for the edge cases listed in
+ * docs/ETHICAL_AI_GUIDELINES.md ("Edge Cases Requiring Human Review"):
+ *
+ *   - SCORE_CHANGE: score moved more than 20 points within 24 hours
+ *   - CRITICAL: animal crossed into CRITICAL
+ *   - INCOMPLETE_DATA: scored HIGH or above with inputs missing
+ *   - STABILIZATION: scored HIGH or above in the first 72 hours after intake
+ *
+ * updateAnimalRiskProfile still stores every score; the queue records what
+ * changed and a reviewer (MANAGER and up) confirms, adjusts or dismisses it.
+ * An adjustment is a manual override (risk-overrides.ts), so recalculations
+ * keep it until it expires or is cleared.
+ * A CRITICAL severity is shown publicly as HIGH, with its score held just
+ * below the critical threshold, until a reviewer confirms it.
+ */
+
+import { prisma } from '@shelter-link/database';
+import { HUMAN_REVIEW_RULES, RiskReviewStatus, RiskReviewTrigger, type RiskScoringConfig } from '@shelter-link/types';
+import { InvalidStateError, NotFoundError, ValidationError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { planRiskOverride } from './risk-overrides.js';
+import { getOrganizationRiskPolicy } from './risk-policies.js';
+import {
+  SEVERITY_RANK,
+  effectiveSeverityThresholds,
+  getSeverityFromScore,
+  type RiskSeverity,
+} from './risk-scoring.js';
+
+const logger = createLogger('risk-review');
+
+export { RiskReviewStatus, RiskReviewTrigger };
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Scoring inputs the engine assumes a default for when missing
+ */
+export function findMissingRiskInputs(animal: { ageCategory: string | null }): string[] {
+  const missing: string[] = [];
+  if (!animal.ageCategory) {
+    // Target LOS falls back to adult and senior status is unknown
+    missing.push('ageCategory');
+  }
+  return missing;
+}
+
+export interface StoredRiskScore {
+  urgencyScore: number;
+  riskSeverity: string;
+  windowStartScore: number | null;
+  windowStartedAt: Date | null;
+}
+
+export interface ReviewCheck {
+  triggers: RiskReviewTrigger[];
+  /** Score-change window to store on the profile */
+  window: { windowStartScore: number; windowStartedAt: Date };
+}
+
+/**
+ * Decide which review triggers a recalculation hits.
+ *
+ * Score changes are measured against the score at the start of a 24-hour
+ * window, so several small moves that add up within a day are caught too.
+ */
+export function detectReviewTriggers(input: {
+  previous: StoredRiskScore | null;
+  urgencyScore: number;
+  riskSeverity: RiskSeverity;
+  intakeDate: Date;
+  missingFields: string[];
+  now?: Date;
+}): ReviewCheck {
+  const { previous, urgencyScore, riskSeverity, intakeDate, missingFields } = input;
+  const now = input.now ?? new Date();
+  const triggers: RiskReviewTrigger[] = [];
+
+  let window: ReviewCheck['window'];
+  if (!previous) {
+    window = { windowStartScore: urgencyScore, windowStartedAt: now };
+  } else if (
+    previous.windowStartScore !== null &&
+    previous.windowStartedAt &&
+    now.getTime() - previous.windowStartedAt.getTime() < HUMAN_REVIEW_RULES.scoreChangeWindowHours * HOUR
+  ) {
+    window = { windowStartScore: previous.windowStartScore, windowStartedAt: previous.windowStartedAt };
+  } else {
+    window = { windowStartScore: previous.urgencyScore, windowStartedAt: now };
+  }
+
+  if (previous && Math.abs(urgencyScore - window.windowStartScore) > HUMAN_REVIEW_RULES.scoreChangePoints) {
+    triggers.push(RiskReviewTrigger.SCORE_CHANGE);
+  }
+
+  if (riskSeverity === 'CRITICAL' && previous?.riskSeverity !== 'CRITICAL') {
+    triggers.push(RiskReviewTrigger.CRITICAL);
+  }
+
+  // Only worth a review when the score would drive action, and only once
+  // per severity change rather than on every recalculation
+  const actionable = SEVERITY_RANK[riskSeverity] >= SEVERITY_RANK.HIGH;
+  const severityChanged = previous?.riskSeverity !== riskSeverity;
+
+  if (actionable && severityChanged) {
+    if (missingFields.length > 0) {
+      triggers.push(RiskReviewTrigger.INCOMPLETE_DATA);
+    }
+    if (now.getTime() - intakeDate.getTime() < HUMAN_REVIEW_RULES.stabilizationHours * HOUR) {
+      triggers.push(RiskReviewTrigger.STABILIZATION);
+    }
+  }
+
+  return { triggers, window };
+}
+
+export interface RiskReviewInput {
+  animalId: string;
+  organizationId: string;
+  previous: StoredRiskScore | null;
+  urgencyScore: number;
+  riskSeverity: RiskSeverity;
+  triggers: RiskReviewTrigger[];
+  missingFields: string[];
+}
+
+interface RiskReviewData {
+  animalId: string;
+  organizationId: string;
+  triggers: string;
+  missingFields: string;
+  previousScore: number | null;
+  previousSeverity: string | null;
+  newScore: number;
+  newSeverity: string;
+}
+
+export type RiskReviewWrite =
+  | { type: 'update'; id: string; data: Pick<RiskReviewData, 'triggers' | 'missingFields' | 'newScore' | 'newSeverity'> }
+  | { type: 'create'; data: RiskReviewData };
+
+/**
+ * What a recalculation does to the queue. An animal has at most one PENDING
+ * review: new triggers are merged into it and it always shows the latest
+ * score. Without a pending review, one is opened only if triggers fired.
+ */
+export function planRiskReview(
+  pending: { id: string; triggers: string } | null,
+  input: RiskReviewInput
+): RiskReviewWrite | null {
+  if (pending) {
+    const triggers = new Set([...JSON.parse(pending.triggers) as string[], ...input.triggers]);
+    return {
+      type: 'update',
+      id: pending.id,
+      data: {
+        triggers: JSON.stringify([...triggers]),
+        missingFields: JSON.stringify(input.missingFields),
+        newScore: input.urgencyScore,
+        newSeverity: input.riskSeverity,
+      },
+    };
+  }
+
+  if (input.triggers.length === 0) {
+    return null;
+  }
+
+  return {
+    type: 'create',
+    data: {
+      animalId: input.animalId,
+      organizationId: input.organizationId,
+      triggers: JSON.stringify(input.triggers),
+      missingFields: JSON.stringify(input.missingFields),
+      previousScore: input.previous?.urgencyScore ?? null,
+      previousSeverity: input.previous?.riskSeverity ?? null,
+      newScore: input.urgencyScore,
+      newSeverity: input.riskSeverity,
+    },
+  };
+}
+
+/**
+ * Record a recalculation in the queue (see planRiskReview)
+ */
+export async function queueRiskReview(input: RiskReviewInput) {
+  const pending = await prisma.riskReview.findFirst({
+    where: { animalId: input.animalId, status: RiskReviewStatus.PENDING },
+  });
+
+  const write = planRiskReview(pending, input);
+  if (!write) {
+    return null;
+  }
+
+  if (write.type === 'update') {
+    return prisma.riskReview.update({ where: { id: write.id }, data: write.data });
+  }
+
+  const review = await prisma.riskReview.create({ data: write.data });
+
+  logger.info({ animalId: input.animalId, reviewId: review.id, triggers: input.triggers }, 'Risk review queued');
+  return review;
+}
+
+/**
+ * Severity the public sees: CRITICAL only once a reviewer has confirmed it
+ */
+export function publicRiskSeverity(profile: { riskSeverity: string; criticalConfirmedAt: Date | null }): string {
+  return profile.riskSeverity === 'CRITICAL' && !profile.criticalConfirmedAt ? 'HIGH' : profile.riskSeverity;
+}
+
+/**
+ * Score the public sees: an unconfirmed CRITICAL stays below the policy's
+ * critical threshold, so the number does not give away what the badge holds back
+ */
+export function publicRiskScore(
+  profile: { urgencyScore: number; riskSeverity: string; criticalConfirmedAt: Date | null },
+  config: RiskScoringConfig
+): number {
+  if (profile.riskSeverity !== 'CRITICAL' || profile.criticalConfirmedAt) {
+    return profile.urgencyScore;
+  }
+  return Math.min(profile.urgencyScore, effectiveSeverityThresholds(config).critical - 1);
+}
+
+export type RiskReviewDecision =
+  | { action: 'CONFIRM'; note: string }
+  | { action: 'ADJUST'; note: string; adjustedScore: number; expiresAt?: Date | null }
+  | { action: 'DISMISS'; note: string };
+
+/**
+ * Resolve a pending review.
+ *
+ * CONFIRM accepts the current score (and its CRITICAL severity publicly).
+ * ADJUST overrides the score with the note as the reason, until the
+ * optional expiry or until someone clears it.
+ * DISMISS closes the item without acting; an unconfirmed CRITICAL stays
+ * hidden from the public.
+ */
+export async function resolveRiskReview(
+  reviewId: string,
+  decision: RiskReviewDecision,
+  reviewer: { id: string; name: string }
+) {
+  const review = await prisma.riskReview.findUnique({
+    where: { id: reviewId },
+    include: { animal: { select: { riskProfile: true } } },
+  });
+  if (!review) {
+    throw new NotFoundError('Risk review', reviewId);
+  }
+  if (review.status !== RiskReviewStatus.PENDING) {
+    throw new InvalidStateError(`Risk review is already ${review.status.toLowerCase()}`);
+  }
+
+  const profile = review.animal.riskProfile;
+  if (!profile) {
+    throw new InvalidStateError('Animal has no risk profile');
+  }
+
+  const now = new Date();
+  const resolution = {
+    note: decision.note,
+    reviewedById: reviewer.id,
+    reviewedByName: reviewer.name,
+    reviewedAt: now,
+  };
+
+  let status: RiskReviewStatus;
+  let reviewData: Record<string, unknown> = {};
+  let profileData: Record<string, unknown> | null = null;
+  let override: ReturnType<typeof planRiskOverride> | null = null;
+
+  switch (decision.action) {
+    case 'CONFIRM':
+      status = RiskReviewStatus.CONFIRMED;
+      if (profile.riskSeverity === 'CRITICAL') {
+        profileData = { criticalConfirmedAt: now };
+      }
+      break;
+
+    case 'ADJUST': {
+      if (!Number.isInteger(decision.adjustedScore) || decision.adjustedScore < 0 || decision.adjustedScore > 100) {
+        throw new ValidationError('Adjusted score must be an integer from 0 to 100');
+      }
+      const policy = await getOrganizationRiskPolicy(review.organizationId);
+      const adjustedSeverity = getSeverityFromScore(decision.adjustedScore, effectiveSeverityThresholds(policy.config));
+
+      status = RiskReviewStatus.ADJUSTED;
+      reviewData = { adjustedScore: decision.adjustedScore, adjustedSeverity };
+      override = planRiskOverride(
+        { id: review.animalId, organizationId: review.organizationId },
+        profile,
+        {
+          urgencyScore: decision.adjustedScore,
+          riskSeverity: adjustedSeverity,
+          reason: decision.note,
+          expiresAt: decision.expiresAt,
+        },
+        reviewer,
+        now
+      );
+      break;
+    }
+
+    case 'DISMISS':
+      status = RiskReviewStatus.DISMISSED;
+      break;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const result = await tx.riskReview.updateMany({
+      where: { id: reviewId, status: RiskReviewStatus.PENDING },
+      data: { status, ...reviewData, ...resolution },
+    });
+    // Resolved concurrently by someone else
+    if (result.count === 0) {
+      throw new InvalidStateError('Risk review was resolved by someone else');
+    }
+
+    if (profileData) {
+      await tx.riskProfile.update({ where: { id: profile.id }, data: profileData });
+    }
+    if (override) {
+      await tx.riskOverride.updateMany(override.endActive);
+      await tx.riskOverride.create(override.create);
+      await tx.riskProfile.update(override.profile);
+    }
+  });
+
+  logger.info({ reviewId, animalId: review.animalId, status }, 'Risk review resolved');
+
+  return prisma.riskReview.findUnique({ where: { id: reviewId } });
+}
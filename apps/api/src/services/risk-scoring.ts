@@ -1,27 +1,84 @@
 /**
  * Risk Scoring Service (Simplified for Prototype)
  * 
- * Calculates urgency scores for animals based on 5 key factors.
+ * Calculates urgency scores for animals from the scoring policy
+ * (RiskScoringConfig) their organization selected - see risk-policies.ts.
  * For full 470-line version with ML features, see: _archive/services/risk-scoring.full.ts
  * 
- * Simplified Factors:
- *   1. Length of Stay (40%) - Days in shelter vs target
- *   2. Senior Status (20%) - Senior/geriatric animals
- *   3. Special Needs (20%) - Animals with special requirements
- *   4. Large Breed (10%) - Large dogs are harder to place
- *   5. Black Animal Bias (10%) - Documented adoption bias
+ * Policy-weighted factors:
+ *   1. Length of Stay (weights.lengthOfStay) - Days in shelter vs the
+ *      policy's target for species and age
+ *   2. Special Categories (weights.specialCategories) - Senior status and
+ *      special needs, half each
+ *   3. Medical (weights.medical) - The most serious finding in the animal's
+ *      medical records: an untreatable condition, heartworm, a condition
+ *      affecting adoptability, FIV/FeLV, or a follow-up due within 3 days
+ *   4. Kennel Stress (weights.behavioral) - Average stress level observed on
+ *      kennel rounds over the last 7 days, raised when enrichment is mostly
+ *      missing; KENNEL_STRESS from a moderate average or a rising trend
+ * 
+ * Each evaluated factor is returned in riskFactors with its weight, value
+ * and contribution in points, so the score can be explained factor by factor.
+ * 
+ * Every factor is worth at most its policy weight x 100 points, so its share
+ * of the score is the weight the policy linter checks against
+ * RISK_WEIGHT_LIMITS. The capacity and adoptability weights need data the
+ * prototype does not collect yet and score nothing; the highest reachable
+ * score is therefore the evaluated weights x 100 (maximumRiskScore), and
+ * severities are assigned against the policy's thresholds scaled down to
+ * that maximum (effectiveSeverityThresholds). Animals nobody has observed get
+ * no kennel stress points (docs/ETHICAL_AI_GUIDELINES.md: no behavioral
+ * prediction without observation).
+ * 
+ * Active holds with an end date become HOLD_EXPIRY deadlines. One ending
+ * within HOLD_EXPIRING_HOURS raises HOLD_EXPIRING without adding points:
+ * it is a prompt to plan the animal's next step, not a measure of risk.
+ * 
+ * Manual overrides (risk-overrides.ts) keep their score until they are
+ * cleared or expire; the calculated score is still stored for comparison.
+ * 
+ * Recalculations that hit a human review edge case (large jumps, new
+ * CRITICAL, incomplete data, stabilization period) are queued for a
+ * reviewer - see risk-review.ts. Moves up into a higher severity raise an
+ * alert for staff - see risk-alerts.ts.
+ * 
+ * Organization-wide recalculation (nightly, or after a policy change) loads
+ * animals in pages, scores them in memory and writes each page in a single
+ * transaction instead of three queries per animal.
+ * 
+ * Breed, color, size-as-breed-proxy, intake source and the other inputs in
+ * PROHIBITED_RISK_FACTORS are deliberately not accepted by
+ * calculateRiskScore (docs/ETHICAL_AI_GUIDELINES.md). The former Large Breed
+ * and Black Animal additions were removed for that reason.
  * 
  * TODO: Production - Integrate full risk scoring from _archive/services/risk-scoring.full.ts:
- *   - Medical score based on health records
  *   - Behavioral score from assessments
  *   - Shelter capacity pressure
  *   - ML-based adoptability prediction
  *   - Historical data analysis
- *   - Kennel stress detection
  */
 
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_RISK_SCORING_CONFIG, type RiskDeadline, type RiskScoringConfig } from '@shelter-link/types';
 import { createLogger } from '../lib/logger.js';
+import { IN_CARE_STATUSES, isInCare } from './animal-lifecycle.js';
+import { HOLD_EXPIRING_HOURS, isHoldActive } from './holds.js';
+import { buildThresholdAlert, isCoveredByOpenAlert, type RiskAlertData } from './risk-alerts.js';
+import { buildRiskSnapshot } from './risk-history.js';
+import { resolveRiskPolicy, type ResolvedRiskPolicy } from './risk-policies.js';
+import {
+  RiskReviewStatus,
+  detectReviewTriggers,
+  findMissingRiskInputs,
+  planRiskReview,
+  queueRiskReview,
+  type ReviewCheck,
+  type RiskReviewInput,
+  type RiskReviewWrite,
+  type StoredRiskScore,
+} from './risk-review.js';
+import { RiskOverrideEndReason, isOverrideActive } from './risk-overrides.js';
+import { emitWebhookEvent } from './webhooks.js';
 
 const logger = createLogger('risk-scoring');
 const prisma = new PrismaClient();
@@ -29,204 +86,997 @@ const prisma = new PrismaClient();
 // Risk severity levels
 export type RiskSeverity = 'CRITICAL' | 'HIGH' | 'ELEVATED' | 'MODERATE' | 'LOW';
 
+// Most to least severe, for reports that list every level
+export const RISK_SEVERITIES: RiskSeverity[] = ['CRITICAL', 'HIGH', 'ELEVATED', 'MODERATE', 'LOW'];
+
+// Keyed by string so stored severities can be compared without a cast
+export const SEVERITY_RANK: Record<string, number> = {
+  LOW: 0,
+  MODERATE: 1,
+  ELEVATED: 2,
+  HIGH: 3,
+  CRITICAL: 4,
+};
+
+/**
+ * Round a score or rate for reporting (one decimal place by default)
+ */
+export function roundTo(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
 // Risk reasons that can be identified
 export type RiskReason = 
   | 'LONG_LOS'
   | 'APPROACHING_TARGET_LOS'
   | 'SENIOR'
   | 'SPECIAL_NEEDS'
-  | 'LARGE_BREED'
-  | 'BLACK_ANIMAL';
+  | 'MEDICAL_CRITICAL'
+  | 'MEDICAL_URGENT'
+  | 'FIV_FELV'
+  | 'HEARTWORM_POSITIVE'
+  | 'KENNEL_STRESS'
+  | 'HOLD_EXPIRING';
+
+export type RiskFactorType = 'LENGTH_OF_STAY' | 'SENIOR' | 'SPECIAL_NEEDS' | 'MEDICAL' | 'KENNEL_STRESS';
+
+// Mirrors RiskFactor in @shelter-link/types
+export interface RiskFactorResult {
+  factor: RiskFactorType;
+  reason: RiskReason | null;
+  weight: number;              // 0-1, the policy weight
+  value: number;               // 0-1
+  contribution: number;        // points, weight x value x 100
+  explanation: string;
+  explanationKey: string;
+  explanationParams: Record<string, string | number>;
+  evaluatedAt: Date;
+}
 
 export interface RiskScoreResult {
   urgencyScore: number;        // 0-100
   riskSeverity: RiskSeverity;
   riskReasons: RiskReason[];
+  riskFactors: RiskFactorResult[];
   lengthOfStay: number;
+  targetLos: number;
   isSenior: boolean;
   hasSpecialNeeds: boolean;
+  /** Points the medical factor added */
+  medicalScore: number;
+  /** A follow-up is due within MEDICAL_DEADLINE_DAYS, or overdue */
+  hasMedicalDeadline: boolean;
+  /** Points the kennel stress factor added */
+  behavioralScore: number;
+  /** Average stress observed over STRESS_WINDOW_DAYS, NONE when not observed */
+  kennelStressLevel: KennelStressLevel;
+  enrichmentDeficit: boolean;
+  /** Active deadlines, soonest first */
+  deadlines: RiskDeadline[];
+}
+
+// Medical record fields a calculation reads
+export interface MedicalScoringRecord {
+  diagnosis: string | null;
+  isTreatable: boolean;
+  affectsAdoptability: boolean;
+  followUpRequired: boolean;
+  followUpDate: Date | null;
+  followUpCompletedAt: Date | null;
+}
+
+export const MEDICAL_SCORING_SELECT = {
+  diagnosis: true,
+  isTreatable: true,
+  affectsAdoptability: true,
+  followUpRequired: true,
+  followUpDate: true,
+  followUpCompletedAt: true,
+} as const;
+
+// A follow-up this close (or overdue) is a medical deadline
+const MEDICAL_DEADLINE_DAYS = 3;
+
+// Positive results only: intake exams routinely record negative tests
+const FIV_FELV_POSITIVE = /\b(FIV|FeLV)\b\s*(\+|pos)|\bpos\w*\s+(for\s+)?(FIV|FeLV)\b/i;
+const HEARTWORM_POSITIVE = /\bheartworm\s*(\+|pos|disease)|\bpos\w*\s+(for\s+)?heartworm/i;
+
+interface MedicalFinding {
+  /** Factor value, 0-1 */
+  level: number;
+  reason: RiskReason | null;
+  explanation: string;
+  explanationKey: string;
 }
 
-// Target length of stay by species (in days)
-const TARGET_LOS: Record<string, number> = {
-  DOG: 30,
-  CAT: 21,
-  RABBIT: 14,
-  GUINEA_PIG: 14,
-  HAMSTER: 14,
-  BIRD: 21,
-  REPTILE: 30,
-  FERRET: 21,
-  HORSE: 60,
-  OTHER: 30,
+// Most serious first; the factor takes the level of the most serious finding
+const MEDICAL_FINDINGS: Record<string, MedicalFinding> = {
+  untreatable: {
+    level: 1, reason: 'MEDICAL_CRITICAL',
+    explanation: 'A recorded condition is not treatable', explanationKey: 'medical.untreatable',
+  },
+  heartworm: {
+    level: 0.75, reason: 'HEARTWORM_POSITIVE',
+    explanation: 'Heartworm positive; treatment takes months', explanationKey: 'medical.heartworm',
+  },
+  affectsAdoptability: {
+    level: 0.6, reason: null,
+    explanation: 'A recorded condition affects adoptability', explanationKey: 'medical.affectsAdoptability',
+  },
+  fivFelv: {
+    level: 0.5, reason: 'FIV_FELV',
+    explanation: 'FIV/FeLV positive', explanationKey: 'medical.fivFelv',
+  },
+  followUpDue: {
+    level: 0.5, reason: 'MEDICAL_URGENT',
+    explanation: `Follow-up due within ${MEDICAL_DEADLINE_DAYS} days`, explanationKey: 'medical.followUpDue',
+  },
 };
 
+// Reasons that come from the medical records
+export const MEDICAL_RISK_REASONS: RiskReason[] = ['MEDICAL_CRITICAL', 'MEDICAL_URGENT', 'FIV_FELV', 'HEARTWORM_POSITIVE'];
+
+// Reasons that come from holds
+const HOLD_RISK_REASONS: RiskReason[] = ['HOLD_EXPIRING'];
+
+/**
+ * Which record-derived risk details a viewer may see: medical findings need
+ * medical:read, hold reasons hold:read, both in the animal's organization
+ */
+export interface RiskDetailAccess {
+  medical: boolean;
+  holds: boolean;
+}
+
+const NO_DETAIL_ACCESS: RiskDetailAccess = { medical: false, holds: false };
+
 /**
- * Calculate risk score for an animal
+ * Reasons and factors a viewer may see. What is derived from medical records
+ * and holds is left out without access to them; the score still includes it.
+ */
+export function visibleRiskReasons(reasons: string[], access: RiskDetailAccess): string[] {
+  return reasons.filter(reason =>
+    (access.medical || !MEDICAL_RISK_REASONS.includes(reason as RiskReason))
+    && (access.holds || !HOLD_RISK_REASONS.includes(reason as RiskReason))
+  );
+}
+
+export function visibleRiskFactors<T extends { factor: string }>(factors: T[], access: RiskDetailAccess): T[] {
+  return access.medical ? factors : factors.filter(f => f.factor !== 'MEDICAL');
+}
+
+/**
+ * Whether a viewer may see a deadline of this type
+ */
+export function isRiskDeadlineVisible(type: string | null, access: RiskDetailAccess): boolean {
+  if (type === 'MEDICAL_TREATMENT') return access.medical;
+  if (type === 'HOLD_EXPIRY') return access.holds;
+  return true;
+}
+
+/**
+ * Reasons and factors for public views, which see no medical or hold details
+ */
+export function publicRiskReasons(reasons: string[]): string[] {
+  return visibleRiskReasons(reasons, NO_DETAIL_ACCESS);
+}
+
+export function publicRiskFactors<T extends { factor: string }>(factors: T[]): T[] {
+  return visibleRiskFactors(factors, NO_DETAIL_ACCESS);
+}
+
+/**
+ * What an animal's medical records say about its risk, most serious finding first
+ */
+export function assessMedicalRecords(records: MedicalScoringRecord[], asOf: Date): MedicalFinding[] {
+  const deadline = asOf.getTime() + MEDICAL_DEADLINE_DAYS * 24 * 60 * 60 * 1000;
+  const found = new Set<MedicalFinding>();
+
+  for (const record of records) {
+    if (!record.isTreatable) found.add(MEDICAL_FINDINGS.untreatable);
+    if (record.diagnosis && HEARTWORM_POSITIVE.test(record.diagnosis)) found.add(MEDICAL_FINDINGS.heartworm);
+    if (record.affectsAdoptability) found.add(MEDICAL_FINDINGS.affectsAdoptability);
+    if (record.diagnosis && FIV_FELV_POSITIVE.test(record.diagnosis)) found.add(MEDICAL_FINDINGS.fivFelv);
+    if (
+      record.followUpRequired &&
+      !record.followUpCompletedAt &&
+      record.followUpDate &&
+      record.followUpDate.getTime() <= deadline
+    ) {
+      found.add(MEDICAL_FINDINGS.followUpDue);
+    }
+  }
+
+  return Object.values(MEDICAL_FINDINGS).filter(finding => found.has(finding));
+}
+
+// Kennel observation fields a calculation reads
+export interface StressScoringObservation {
+  observedAt: Date;
+  stressLevel: string;
+  /** JSON array of enrichment types */
+  enrichment: string;
+}
+
+// Observations older than this do not count
+export const STRESS_WINDOW_DAYS = 7;
+
+// The latest observations, enough to cover the window at a couple of rounds a day
+export const STRESS_SCORING_QUERY = {
+  select: { observedAt: true, stressLevel: true, enrichment: true },
+  orderBy: { observedAt: 'desc' },
+  take: 20,
+} as const;
+
+export type KennelStressLevel = 'NONE' | 'MILD' | 'MODERATE' | 'SEVERE' | 'CRITICAL';
+
+const STRESS_LEVELS: KennelStressLevel[] = ['NONE', 'MILD', 'MODERATE', 'SEVERE', 'CRITICAL'];
+
+// Level as a 0-1 value: one step is 0.25
+const stressValue = (level: string) => Math.max(0, STRESS_LEVELS.indexOf(level as KennelStressLevel)) / 4;
+
+// Enrichment in fewer than half of this many observations is a deficit
+const ENRICHMENT_MIN_OBSERVATIONS = 3;
+
+export interface KennelStressAssessment {
+  /** Average level over the window, rounded to the nearest level */
+  level: KennelStressLevel;
+  /** Average level, 0-1 */
+  average: number;
+  latest: KennelStressLevel;
+  /** The latest observation is at least a level above the earlier average */
+  rising: boolean;
+  enrichmentDeficit: boolean;
+  observations: number;
+}
+
+/**
+ * What the kennel observations of the last STRESS_WINDOW_DAYS say about an
+ * animal's stress; null when nobody observed it
+ */
+export function assessKennelStress(observations: StressScoringObservation[], asOf: Date): KennelStressAssessment | null {
+  const since = asOf.getTime() - STRESS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const recent = observations
+    .filter(o => o.observedAt.getTime() >= since && o.observedAt <= asOf)
+    .sort((a, b) => b.observedAt.getTime() - a.observedAt.getTime());
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  const values = recent.map(o => stressValue(o.stressLevel));
+  const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const [latest, ...earlier] = values;
+  const earlierAverage = earlier.reduce((sum, v) => sum + v, 0) / (earlier.length || 1);
+  const enriched = recent.filter(o => JSON.parse(o.enrichment || '[]').length > 0).length;
+
+  return {
+    level: STRESS_LEVELS[Math.round(average * 4)],
+    average,
+    latest: STRESS_LEVELS[latest * 4],
+    rising: earlier.length > 0 && latest - earlierAverage >= 0.25,
+    enrichmentDeficit: recent.length >= ENRICHMENT_MIN_OBSERVATIONS && enriched / recent.length < 0.5,
+    observations: recent.length,
+  };
+}
+
+// Hold fields a calculation reads
+export interface HoldScoringRecord {
+  holdType: string;
+  startDate: Date;
+  endDate: Date | null;
+  releasedAt: Date | null;
+}
+
+/**
+ * Holds not released and not past their end date at `now`. Holds that start
+ * later are still loaded and dropped when scoring.
+ */
+export function holdScoringQuery(now: Date) {
+  return {
+    where: { releasedAt: null, OR: [{ endDate: null }, { endDate: { gt: now } }] },
+    select: { holdType: true, startDate: true, endDate: true, releasedAt: true } as const,
+  };
+}
+
+/**
+ * HOLD_EXPIRY deadlines of the holds active at `asOf` that have an end
+ * date, soonest first
+ */
+export function holdDeadlines(holds: HoldScoringRecord[], asOf: Date): RiskDeadline[] {
+  return holds
+    .filter(hold => hold.endDate && isHoldActive(hold, asOf))
+    .sort((a, b) => a.endDate!.getTime() - b.endDate!.getTime())
+    .map(hold => ({
+      date: hold.endDate!,
+      type: 'HOLD_EXPIRY' as const,
+      description: `${hold.holdType} ends`,
+      isFlexible: false,
+    }));
+}
+
+// Target when a policy has neither the species nor OTHER (in days)
+const FALLBACK_TARGET_LOS = { baby: 14, young: 21, adult: 30, senior: 45 };
+
+/**
+ * Target length of stay for an animal under a policy
+ */
+export function getTargetLos(config: RiskScoringConfig, species: string, ageCategory: string | null): number {
+  const targets = config.targetLos[species] ?? config.targetLos.OTHER ?? FALLBACK_TARGET_LOS;
+
+  switch (ageCategory) {
+    case 'BABY':
+      return targets.baby;
+    case 'YOUNG':
+      return targets.young;
+    case 'SENIOR':
+    case 'GERIATRIC':
+      return targets.senior;
+    default:
+      return targets.adult;
+  }
+}
+
+// Weights of the factors calculateRiskScore evaluates
+const EVALUATED_WEIGHTS = ['lengthOfStay', 'specialCategories', 'medical', 'behavioral'] as const;
+
+/**
+ * Highest score a policy can produce: the weights this engine evaluates x 100
+ */
+export function maximumRiskScore(config: RiskScoringConfig): number {
+  return Math.round(EVALUATED_WEIGHTS.reduce((sum, key) => sum + config.weights[key], 0) * 100);
+}
+
+/**
+ * A policy's severity thresholds scaled to maximumRiskScore, so the scores
+ * the engine can reach span every severity
+ */
+export function effectiveSeverityThresholds(config: RiskScoringConfig): RiskScoringConfig['severityThresholds'] {
+  const scale = maximumRiskScore(config) / 100;
+  const { critical, high, elevated, moderate } = config.severityThresholds;
+
+  return {
+    critical: Math.round(critical * scale),
+    high: Math.round(high * scale),
+    elevated: Math.round(elevated * scale),
+    moderate: Math.round(moderate * scale),
+  };
+}
+
+/**
+ * Map a score to a severity using a policy's thresholds
+ */
+export function getSeverityFromScore(
+  score: number,
+  thresholds: RiskScoringConfig['severityThresholds'] = DEFAULT_RISK_SCORING_CONFIG.severityThresholds
+): RiskSeverity {
+  if (score >= thresholds.critical) return 'CRITICAL';
+  if (score >= thresholds.high) return 'HIGH';
+  if (score >= thresholds.elevated) return 'ELEVATED';
+  if (score >= thresholds.moderate) return 'MODERATE';
+  return 'LOW';
+}
+
+function buildFactor(
+  factor: RiskFactorType,
+  weight: number,
+  value: number,
+  evaluatedAt: Date,
+  detail: Pick<RiskFactorResult, 'reason' | 'explanation' | 'explanationKey' | 'explanationParams'>
+): RiskFactorResult {
+  return {
+    factor,
+    weight: Math.round(weight * 1000) / 1000,
+    value: Math.round(value * 1000) / 1000,
+    contribution: Math.round(weight * value * 1000) / 10,
+    evaluatedAt,
+    ...detail,
+  };
+}
+
+/**
+ * Calculate risk score for an animal.
+ * `asOf` is the moment length of stay is measured at (now, or the outcome
+ * date when re-scoring animals that have left care).
  */
 export function calculateRiskScore(animal: {
   intakeDate: Date;
   species: string;
   ageCategory: string | null;
   specialNeeds: string | null;
-  size: string | null;
-  colorPrimary: string | null;
-}): RiskScoreResult {
+  medicalRecords?: MedicalScoringRecord[];
+  kennelObservations?: StressScoringObservation[];
+  holds?: HoldScoringRecord[];
+}, config: RiskScoringConfig = DEFAULT_RISK_SCORING_CONFIG, asOf: Date = new Date()): RiskScoreResult {
   const riskReasons: RiskReason[] = [];
-  let score = 0;
+  const { weights } = config;
 
-  // 1. LENGTH OF STAY (40% weight)
-  const now = new Date();
-  const lengthOfStay = Math.floor(
-    (now.getTime() - animal.intakeDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  const targetLos = TARGET_LOS[animal.species] ?? TARGET_LOS.OTHER;
+  // 1. LENGTH OF STAY - factor 0-1
+  const lengthOfStay = Math.max(0, Math.floor(
+    (asOf.getTime() - animal.intakeDate.getTime()) / (1000 * 60 * 60 * 24)
+  ));
+  const targetLos = getTargetLos(config, animal.species, animal.ageCategory);
   const losRatio = lengthOfStay / targetLos;
-  
+
+  let losFactor: number;
   if (losRatio >= 2) {
-    score += 40;
+    losFactor = 1;
     riskReasons.push('LONG_LOS');
   } else if (losRatio >= 1) {
-    score += 25;
+    losFactor = 0.625;
     riskReasons.push('APPROACHING_TARGET_LOS');
   } else {
-    score += losRatio * 20;
+    losFactor = losRatio * 0.5;
   }
 
-  // 2. SENIOR STATUS (20% weight)
+  // 2. SPECIAL CATEGORIES - senior and special needs, half each
   const isSenior = animal.ageCategory === 'SENIOR' || animal.ageCategory === 'GERIATRIC';
   if (isSenior) {
-    score += 20;
     riskReasons.push('SENIOR');
   }
 
-  // 3. SPECIAL NEEDS (20% weight)
   const hasSpecialNeeds = Boolean(animal.specialNeeds && animal.specialNeeds.length > 0);
   if (hasSpecialNeeds) {
-    score += 20;
     riskReasons.push('SPECIAL_NEEDS');
   }
 
-  // 4. LARGE BREED (10% weight) - Large dogs are statistically harder to place
-  if (animal.species === 'DOG' && (animal.size === 'LARGE' || animal.size === 'EXTRA_LARGE')) {
-    score += 10;
-    riskReasons.push('LARGE_BREED');
+  const riskFactors: RiskFactorResult[] = [
+    buildFactor('LENGTH_OF_STAY', weights.lengthOfStay, losFactor, asOf, {
+      reason: losRatio >= 2 ? 'LONG_LOS' : losRatio >= 1 ? 'APPROACHING_TARGET_LOS' : null,
+      explanation: `${lengthOfStay} days in care against a target of ${targetLos} days`,
+      explanationKey: losRatio >= 2 ? 'lengthOfStay.overDouble' : losRatio >= 1 ? 'lengthOfStay.overTarget' : 'lengthOfStay.underTarget',
+      explanationParams: { lengthOfStay, targetLos },
+    }),
+    buildFactor('SENIOR', weights.specialCategories / 2, isSenior ? 1 : 0, asOf, {
+      reason: isSenior ? 'SENIOR' : null,
+      explanation: isSenior ? 'Senior animal' : 'Not a senior',
+      explanationKey: isSenior ? 'senior.yes' : 'senior.no',
+      explanationParams: {},
+    }),
+    buildFactor('SPECIAL_NEEDS', weights.specialCategories / 2, hasSpecialNeeds ? 1 : 0, asOf, {
+      reason: hasSpecialNeeds ? 'SPECIAL_NEEDS' : null,
+      explanation: hasSpecialNeeds ? 'Has special needs' : 'No special needs recorded',
+      explanationKey: hasSpecialNeeds ? 'specialNeeds.yes' : 'specialNeeds.no',
+      explanationParams: {},
+    }),
+  ];
+
+  const specialFactor = (isSenior ? 0.5 : 0) + (hasSpecialNeeds ? 0.5 : 0);
+  const score = (weights.lengthOfStay * losFactor + weights.specialCategories * specialFactor) * 100;
+
+  // 3. MEDICAL - only when something was found
+  const findings = assessMedicalRecords(animal.medicalRecords ?? [], asOf);
+  let medicalScore = 0;
+  if (findings.length > 0) {
+    const [worst] = findings;
+    for (const finding of findings) {
+      if (finding.reason) {
+        riskReasons.push(finding.reason);
+      }
+    }
+
+    const medical = buildFactor('MEDICAL', weights.medical, worst.level, asOf, {
+      reason: findings.find(f => f.reason)?.reason ?? null,
+      explanation: worst.explanation,
+      explanationKey: worst.explanationKey,
+      explanationParams: worst === MEDICAL_FINDINGS.followUpDue ? { days: MEDICAL_DEADLINE_DAYS } : {},
+    });
+    riskFactors.push(medical);
+    medicalScore = medical.contribution;
+  }
+
+  // 4. KENNEL STRESS - only for animals observed as stressed
+  const stress = assessKennelStress(animal.kennelObservations ?? [], asOf);
+  let behavioralScore = 0;
+  if (stress) {
+    const value = Math.min(1, stress.average + (stress.enrichmentDeficit ? 0.25 : 0));
+    const moderate = stressValue('MODERATE');
+    const raised = stress.average >= moderate || (stress.rising && stressValue(stress.latest) >= moderate);
+    if (raised) {
+      riskReasons.push('KENNEL_STRESS');
+    }
+
+    if (value > 0) {
+      const detail = stress.rising
+        ? {
+            explanation: `Stress rising, ${stress.latest} at the last observation`,
+            explanationKey: 'kennelStress.rising',
+            explanationParams: { level: stress.latest },
+          }
+        : stress.average > 0
+          ? {
+              explanation: `${stress.level} stress on average over the last ${STRESS_WINDOW_DAYS} days`,
+              explanationKey: 'kennelStress.average',
+              explanationParams: { level: stress.level, days: STRESS_WINDOW_DAYS },
+            }
+          : {
+              explanation: `Little enrichment recorded in the last ${STRESS_WINDOW_DAYS} days`,
+              explanationKey: 'kennelStress.enrichmentDeficit',
+              explanationParams: { days: STRESS_WINDOW_DAYS },
+            };
+      const kennelStress = buildFactor('KENNEL_STRESS', weights.behavioral, value, asOf, {
+        reason: raised ? 'KENNEL_STRESS' : null,
+        ...detail,
+      });
+      riskFactors.push(kennelStress);
+      behavioralScore = kennelStress.contribution;
+    }
   }
 
-  // 5. BLACK ANIMAL BIAS (10% weight) - Documented adoption bias
-  if (animal.colorPrimary?.toLowerCase() === 'black') {
-    score += 10;
-    riskReasons.push('BLACK_ANIMAL');
+  // 5. HOLDS - a hold ending soon is a reason to act, not points
+  const deadlines = holdDeadlines(animal.holds ?? [], asOf);
+  const expiringBy = asOf.getTime() + HOLD_EXPIRING_HOURS * 60 * 60 * 1000;
+  if (deadlines.some(deadline => deadline.date.getTime() <= expiringBy)) {
+    riskReasons.push('HOLD_EXPIRING');
   }
 
   // Clamp to 0-100
-  const urgencyScore = Math.min(100, Math.max(0, Math.round(score)));
-
-  // Determine severity level
-  let riskSeverity: RiskSeverity;
-  if (urgencyScore >= 80) {
-    riskSeverity = 'CRITICAL';
-  } else if (urgencyScore >= 60) {
-    riskSeverity = 'HIGH';
-  } else if (urgencyScore >= 40) {
-    riskSeverity = 'ELEVATED';
-  } else if (urgencyScore >= 20) {
-    riskSeverity = 'MODERATE';
-  } else {
-    riskSeverity = 'LOW';
-  }
+  const urgencyScore = Math.min(100, Math.max(0, Math.round(score + medicalScore + behavioralScore)));
 
   return {
     urgencyScore,
-    riskSeverity,
+    riskSeverity: getSeverityFromScore(urgencyScore, effectiveSeverityThresholds(config)),
     riskReasons,
+    riskFactors,
     lengthOfStay,
+    targetLos,
     isSenior,
     hasSpecialNeeds,
+    medicalScore: Math.round(medicalScore),
+    hasMedicalDeadline: findings.includes(MEDICAL_FINDINGS.followUpDue),
+    behavioralScore: Math.round(behavioralScore),
+    kennelStressLevel: stress?.level ?? 'NONE',
+    enrichmentDeficit: stress?.enrichmentDeficit ?? false,
+    deadlines,
   };
 }
 
+// Stored profile fields a recalculation reads
+const STORED_PROFILE_SELECT = {
+  urgencyScore: true,
+  riskSeverity: true,
+  windowStartScore: true,
+  windowStartedAt: true,
+  isManualOverride: true,
+  overrideExpiresAt: true,
+} as const;
+
+// Animal fields a recalculation at `now` reads
+function scoringAnimalSelect(now: Date) {
+  return {
+    id: true,
+    organizationId: true,
+    intakeDate: true,
+    species: true,
+    ageCategory: true,
+    specialNeeds: true,
+    medicalRecords: { select: MEDICAL_SCORING_SELECT },
+    kennelObservations: STRESS_SCORING_QUERY,
+    holds: holdScoringQuery(now),
+    riskProfile: { select: STORED_PROFILE_SELECT },
+  } as const;
+}
+
+interface ScoringAnimal {
+  id: string;
+  organizationId: string;
+  intakeDate: Date;
+  species: string;
+  ageCategory: string | null;
+  specialNeeds: string | null;
+  medicalRecords: MedicalScoringRecord[];
+  kennelObservations: StressScoringObservation[];
+  holds: HoldScoringRecord[];
+  riskProfile: (StoredRiskScore & { isManualOverride: boolean; overrideExpiresAt: Date | null }) | null;
+}
+
 /**
- * Update risk profile for an animal in database
+ * One animal's recalculation, worked out before anything is written
  */
-export async function updateAnimalRiskProfile(animalId: string): Promise<RiskScoreResult> {
-  const animal = await prisma.animal.findUnique({
-    where: { id: animalId },
-  });
+interface RiskProfileUpdate {
+  animal: ScoringAnimal;
+  result: RiskScoreResult;
+  overridden: boolean;
+  /** The override ran out; this update ends it */
+  overrideExpired: boolean;
+  review: ReviewCheck;
+  missingFields: string[];
+  profile: Record<string, unknown>;
+  snapshot: ReturnType<typeof buildRiskSnapshot>;
+  /** Threshold crossing, before checking for open alerts */
+  alert: RiskAlertData | null;
+}
 
-  if (!animal) {
-    throw new Error(`Animal not found: ${animalId}`);
-  }
+function planRiskProfileUpdate(animal: ScoringAnimal, policy: ResolvedRiskPolicy, now: Date): RiskProfileUpdate {
+  const previous = animal.riskProfile;
+  const previousSeverity = previous?.riskSeverity ?? null;
+  const overridden = previous ? isOverrideActive(previous, now) : false;
+  const overrideExpired = Boolean(previous?.isManualOverride) && !overridden;
 
   const result = calculateRiskScore({
     intakeDate: animal.intakeDate,
     species: animal.species,
     ageCategory: animal.ageCategory,
     specialNeeds: animal.specialNeeds,
-    size: animal.size,
-    colorPrimary: animal.colorPrimary,
+    medicalRecords: animal.medicalRecords,
+    kennelObservations: animal.kennelObservations,
+    holds: animal.holds,
+  }, policy.config, now);
+
+  const missingFields = findMissingRiskInputs(animal);
+  const review = detectReviewTriggers({
+    previous,
+    urgencyScore: result.urgencyScore,
+    riskSeverity: result.riskSeverity,
+    intakeDate: animal.intakeDate,
+    missingFields,
+    now,
   });
 
-  // Upsert risk profile
-  await prisma.riskProfile.upsert({
-    where: { animalId },
-    create: {
-      animalId,
-      urgencyScore: result.urgencyScore,
+  // The effective score, and everything derived from it, stays put while a
+  // person has overridden it
+  const effective = overridden ? {} : {
+    urgencyScore: result.urgencyScore,
+    riskSeverity: result.riskSeverity,
+    ...review.window,
+    // A new CRITICAL needs a new confirmation
+    ...(result.riskSeverity !== 'CRITICAL' || previousSeverity !== 'CRITICAL' ? { criticalConfirmedAt: null } : {}),
+  };
+
+  const profile = {
+    ...effective,
+    ...(overrideExpired ? { isManualOverride: false, overrideReason: null, overrideBy: null, overrideExpiresAt: null } : {}),
+    calculatedScore: result.urgencyScore,
+    calculatedSeverity: result.riskSeverity,
+    riskReasons: JSON.stringify(result.riskReasons),
+    riskFactors: JSON.stringify(result.riskFactors),
+    lengthOfStay: result.lengthOfStay,
+    isSenior: result.isSenior,
+    hasSpecialNeeds: result.hasSpecialNeeds,
+    medicalScore: result.medicalScore,
+    hasMedicalDeadline: result.hasMedicalDeadline,
+    behavioralScore: result.behavioralScore,
+    kennelStressLevel: result.kennelStressLevel,
+    enrichmentDeficit: result.enrichmentDeficit,
+    deadlineDate: result.deadlines[0]?.date ?? null,
+    deadlineType: result.deadlines[0]?.type ?? null,
+    algorithmVersion: policy.algorithmVersion,
+    riskPolicyId: policy.id,
+    lastCalculated: now,
+  };
+
+  const snapshot = buildRiskSnapshot({
+    animalId: animal.id,
+    organizationId: animal.organizationId,
+    result,
+    effective: overridden ? previous : null,
+    algorithmVersion: policy.algorithmVersion,
+    riskPolicyId: policy.id,
+  });
+
+  const alert = overridden ? null : buildThresholdAlert({
+    animalId: animal.id,
+    organizationId: animal.organizationId,
+    previous,
+    urgencyScore: result.urgencyScore,
+    riskSeverity: result.riskSeverity,
+    riskReasons: result.riskReasons,
+  });
+
+  return { animal, result, overridden, overrideExpired, review, missingFields, profile, snapshot, alert };
+}
+
+function upsertRiskProfile(update: RiskProfileUpdate) {
+  return prisma.riskProfile.upsert({
+    where: { animalId: update.animal.id },
+    create: { animalId: update.animal.id, ...update.profile },
+    update: update.profile,
+  });
+}
+
+// Same as endRiskOverride, on this client so it can join a transaction
+function endExpiredOverrides(animalIds: string[], now: Date) {
+  return prisma.riskOverride.updateMany({
+    where: { animalId: { in: animalIds }, endedAt: null },
+    data: { endedAt: now, endReason: RiskOverrideEndReason.EXPIRED, endedByName: null },
+  });
+}
+
+function toReviewInput(update: RiskProfileUpdate): RiskReviewInput {
+  return {
+    animalId: update.animal.id,
+    organizationId: update.animal.organizationId,
+    previous: update.animal.riskProfile,
+    urgencyScore: update.result.urgencyScore,
+    riskSeverity: update.result.riskSeverity,
+    triggers: update.review.triggers,
+    missingFields: update.missingFields,
+  };
+}
+
+/**
+ * Alerts to raise for crossings, leaving out those an open alert covers
+ */
+async function filterNewAlerts(updates: RiskProfileUpdate[]): Promise<RiskAlertData[]> {
+  const alerts = updates.map(u => u.alert).filter((alert): alert is RiskAlertData => alert !== null);
+  if (alerts.length === 0) {
+    return [];
+  }
+
+  const open: Array<{ animalId: string; newSeverity: string }> = await prisma.riskAlert.findMany({
+    where: { animalId: { in: alerts.map(a => a.animalId) }, acknowledgedAt: null },
+    select: { animalId: true, newSeverity: true },
+  });
+
+  return alerts.filter(alert =>
+    !isCoveredByOpenAlert(alert.newSeverity, open.filter(o => o.animalId === alert.animalId))
+  );
+}
+
+async function notifyRiskElevated(update: RiskProfileUpdate): Promise<void> {
+  const { animal, result } = update;
+  const previousSeverity = animal.riskProfile?.riskSeverity ?? null;
+
+  if (!update.overridden && SEVERITY_RANK[result.riskSeverity] > SEVERITY_RANK[previousSeverity ?? 'LOW']) {
+    await emitWebhookEvent(animal.organizationId, 'animal.risk_elevated', {
+      animalId: animal.id,
+      previousSeverity,
       riskSeverity: result.riskSeverity,
-      riskReasons: JSON.stringify(result.riskReasons),
-      lengthOfStay: result.lengthOfStay,
-      isSenior: result.isSenior,
-      hasSpecialNeeds: result.hasSpecialNeeds,
-      lastCalculated: new Date(),
-    },
-    update: {
       urgencyScore: result.urgencyScore,
-      riskSeverity: result.riskSeverity,
-      riskReasons: JSON.stringify(result.riskReasons),
-      lengthOfStay: result.lengthOfStay,
-      isSenior: result.isSenior,
-      hasSpecialNeeds: result.hasSpecialNeeds,
-      lastCalculated: new Date(),
-    },
-  });
+      riskReasons: result.riskReasons,
+    });
+  }
+}
 
-  // Also update daysInShelter on animal record
-  await prisma.animal.update({
+/**
+ * Update risk profile for an animal in database.
+ * An active manual override keeps its score and severity; the calculated
+ * ones are stored alongside and returned.
+ */
+export async function updateAnimalRiskProfile(animalId: string): Promise<RiskScoreResult> {
+  const now = new Date();
+  const animal = await prisma.animal.findUnique({
     where: { id: animalId },
-    data: { daysInShelter: result.lengthOfStay },
+    select: {
+      ...scoringAnimalSelect(now),
+      organization: { select: { riskPolicy: true } },
+    },
   });
 
+  if (!animal) {
+    throw new Error(`Animal not found: ${animalId}`);
+  }
+
+  const policy = resolveRiskPolicy(animal.organization.riskPolicy);
+  const update = planRiskProfileUpdate(animal, policy, now);
+  const { result } = update;
+  const alerts = await filterNewAlerts([update]);
+
+  await prisma.$transaction([
+    ...(update.overrideExpired ? [endExpiredOverrides([animalId], now)] : []),
+    upsertRiskProfile(update),
+    // Also update daysInShelter on animal record
+    prisma.animal.update({
+      where: { id: animalId },
+      data: { daysInShelter: result.lengthOfStay },
+    }),
+    prisma.riskScoreSnapshot.create({ data: update.snapshot }),
+    ...alerts.map(data => prisma.riskAlert.create({ data })),
+  ]);
+
+  if (update.overrideExpired) {
+    logger.info({ animalId, endReason: RiskOverrideEndReason.EXPIRED }, 'Risk override ended');
+  }
+  if (alerts.length > 0) {
+    logger.info({ animalId, severity: result.riskSeverity }, 'Risk alert raised');
+  }
+
+  if (update.overridden) {
+    logger.debug(
+      { animalId, calculatedScore: result.urgencyScore, algorithmVersion: policy.algorithmVersion },
+      'Updated calculated risk score under manual override'
+    );
+    return result;
+  }
+
+  await queueRiskReview(toReviewInput(update));
+
   logger.debug(
-    { animalId, score: result.urgencyScore, severity: result.riskSeverity },
+    { animalId, score: result.urgencyScore, severity: result.riskSeverity, algorithmVersion: policy.algorithmVersion },
     'Updated risk profile'
   );
 
+  await notifyRiskElevated(update);
+
   return result;
 }
 
 /**
- * Recalculate risk profiles for all animals in an organization
+ * Recalculate after a change to one of an animal's scoring inputs.
+ * Animals that have left care keep the profile they left with, as the
+ * scheduled recalculation does.
  */
-export async function recalculateOrganizationRiskProfiles(organizationId: string): Promise<number> {
-  const animals = await prisma.animal.findMany({
-    where: {
-      organizationId,
-      status: { in: ['IN_SHELTER', 'IN_FOSTER', 'IN_MEDICAL', 'AVAILABLE', 'PENDING'] },
-    },
-    select: { id: true },
+export async function updateRiskProfileIfInCare(animal: { id: string; status: string }): Promise<void> {
+  if (isInCare(animal.status)) {
+    await updateAnimalRiskProfile(animal.id);
+  }
+}
+
+export interface RecalculationResult {
+  total: number;
+  updated: number;
+  errors: Array<{ animalId: string; message: string }>;
+}
+
+export interface RecalculationProgress {
+  /** Animals in care when the recalculation started */
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+}
+
+export interface RecalculationOptions {
+  /** Animals loaded, scored and written together */
+  pageSize?: number;
+  /** Called after each page */
+  onProgress?: (progress: RecalculationProgress) => void | Promise<void>;
+}
+
+export const RECALCULATION_PAGE_SIZE = 200;
+
+/**
+ * Write a page of recalculations in one transaction. Returns the number of
+ * reviews opened and alerts raised.
+ */
+async function applyRiskProfileUpdates(
+  updates: RiskProfileUpdate[],
+  now: Date
+): Promise<{ reviews: number; alerts: number }> {
+  const scored = updates.filter(u => !u.overridden);
+
+  const pending = scored.length === 0 ? [] : await prisma.riskReview.findMany({
+    where: { animalId: { in: scored.map(u => u.animal.id) }, status: RiskReviewStatus.PENDING },
+    select: { id: true, animalId: true, triggers: true },
   });
+  const pendingByAnimal = new Map<string, { id: string; triggers: string }>(
+    pending.map((review: { id: string; animalId: string; triggers: string }) => [review.animalId, review])
+  );
+
+  const reviews = scored
+    .map(u => planRiskReview(pendingByAnimal.get(u.animal.id) ?? null, toReviewInput(u)))
+    .filter((write): write is RiskReviewWrite => write !== null);
+
+  // Animals with the same length of stay share one update
+  const byLengthOfStay = new Map<number, string[]>();
+  for (const { animal, result } of updates) {
+    byLengthOfStay.set(result.lengthOfStay, [...(byLengthOfStay.get(result.lengthOfStay) ?? []), animal.id]);
+  }
+
+  const expired = updates.filter(u => u.overrideExpired).map(u => u.animal.id);
+  const alerts = await filterNewAlerts(updates);
+
+  await prisma.$transaction([
+    ...(expired.length > 0 ? [endExpiredOverrides(expired, now)] : []),
+    ...updates.map(upsertRiskProfile),
+    ...[...byLengthOfStay].map(([daysInShelter, ids]) => prisma.animal.updateMany({
+      where: { id: { in: ids } },
+      data: { daysInShelter },
+    })),
+    prisma.riskScoreSnapshot.createMany({ data: updates.map(u => u.snapshot) }),
+    ...reviews.map(write => write.type === 'update'
+      ? prisma.riskReview.update({ where: { id: write.id }, data: write.data })
+      : prisma.riskReview.create({ data: write.data })),
+    ...alerts.map(data => prisma.riskAlert.create({ data })),
+  ]);
+
+  if (expired.length > 0) {
+    logger.info({ animalIds: expired, endReason: RiskOverrideEndReason.EXPIRED }, 'Risk overrides ended');
+  }
+
+  return {
+    reviews: reviews.filter(write => write.type === 'create').length,
+    alerts: alerts.length,
+  };
+}
 
+/**
+ * Recalculate risk profiles for all animals in an organization.
+ *
+ * Animals are loaded a page at a time, scored in memory and each page
+ * written in one transaction. If a page fails to commit, its animals are
+ * retried one by one so a single bad record only fails itself.
+ */
+export async function recalculateOrganizationRiskProfiles(
+  organizationId: string,
+  options: RecalculationOptions = {}
+): Promise<RecalculationResult> {
+  const pageSize = options.pageSize ?? RECALCULATION_PAGE_SIZE;
+  const where = {
+    organizationId,
+    status: { in: IN_CARE_STATUSES },
+  };
+
+  const [organization, total] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { riskPolicy: true },
+    }),
+    prisma.animal.count({ where }),
+  ]);
+  const policy = resolveRiskPolicy(organization?.riskPolicy);
+
+  let processed = 0;
   let updated = 0;
-  for (const animal of animals) {
-    try {
-      await updateAnimalRiskProfile(animal.id);
-      updated++;
-    } catch (error) {
-      logger.error({ error, animalId: animal.id }, 'Failed to update risk profile');
+  let reviewsQueued = 0;
+  let alertsRaised = 0;
+  const errors: RecalculationResult['errors'] = [];
+  const fail = (animalId: string, error: unknown) => {
+    logger.error({ error, animalId }, 'Failed to update risk profile');
+    errors.push({ animalId, message: error instanceof Error ? error.message : String(error) });
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const now = new Date();
+    const animals: ScoringAnimal[] = await prisma.animal.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      orderBy: { id: 'asc' },
+      take: pageSize,
+      select: scoringAnimalSelect(now),
+    });
+    if (animals.length === 0) break;
+    cursor = animals[animals.length - 1].id;
+
+    const updates: RiskProfileUpdate[] = [];
+    for (const animal of animals) {
+      try {
+        updates.push(planRiskProfileUpdate(animal, policy, now));
+      } catch (error) {
+        fail(animal.id, error);
+      }
     }
+
+    if (updates.length > 0) {
+      let committed = false;
+      try {
+        const written = await applyRiskProfileUpdates(updates, now);
+        reviewsQueued += written.reviews;
+        alertsRaised += written.alerts;
+        updated += updates.length;
+        committed = true;
+      } catch (error) {
+        logger.warn({ error, organizationId, cursor }, 'Risk recalculation page failed, retrying animals one by one');
+
+        for (const { animal } of updates) {
+          try {
+            await updateAnimalRiskProfile(animal.id);
+            updated++;
+          } catch (animalError) {
+            fail(animal.id, animalError);
+          }
+        }
+      }
+
+      // Retried animals have already sent their own
+      if (committed) {
+        for (const update of updates) {
+          await notifyRiskElevated(update);
+        }
+      }
+    }
+
+    processed += animals.length;
+    await options.onProgress?.({ total, processed, updated, failed: errors.length });
+    logger.debug({ organizationId, processed, total }, 'Risk recalculation progress');
+
+    if (animals.length < pageSize) break;
   }
 
-  logger.info({ organizationId, updated, total: animals.length }, 'Recalculated organization risk profiles');
-  return updated;
+  logger.info(
+    { organizationId, updated, total: processed, failed: errors.length, reviewsQueued, alertsRaised },
+    'Recalculated organization risk profiles'
+  );
+  return { total: processed, updated, errors };
 }
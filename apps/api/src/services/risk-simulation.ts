@@ -0,0 +1,313 @@
+/**
+ * Risk Policy Simulation
+ *
+ * Impact analysis for a proposed scoring policy, as required before rollout
+ * by docs/GOVERNANCE.md ("Simulation Testing: Run proposed changes against
+ * historical data"). Every animal - in care now or already placed - is
+ * scored twice in memory: under the policy its organization uses today and
+ * under the candidate. Nothing is written.
+ *
+ * Animals that left care are scored as of their outcome date, so their
+ * length of stay is what it was when they left, and only the medical records,
+ * kennel observations and holds on file by then count.
+ */
+
+import { prisma } from '@shelter-link/database';
+import {
+  MEDICAL_SCORING_SELECT,
+  RISK_SEVERITIES,
+  SEVERITY_RANK,
+  STRESS_SCORING_QUERY,
+  calculateRiskScore,
+  roundTo,
+  type HoldScoringRecord,
+  type MedicalScoringRecord,
+  type RiskSeverity,
+  type StressScoringObservation,
+} from './risk-scoring.js';
+import { resolveRiskPolicy, type ResolvedRiskPolicy } from './risk-policies.js';
+import { isInCare } from './animal-lifecycle.js';
+
+// Score delta histogram buckets (upper bounds, inclusive)
+const DELTA_BUCKETS = [
+  { label: '<= -20', max: -20 },
+  { label: '-19 to -10', max: -10 },
+  { label: '-9 to -1', max: -1 },
+  { label: '0', max: 0 },
+  { label: '1 to 9', max: 9 },
+  { label: '10 to 19', max: 19 },
+  { label: '>= 20', max: Infinity },
+];
+
+export interface SimulationAnimal {
+  id: string;
+  status: string;
+  species: string;
+  ageCategory: string | null;
+  size: string | null;
+  specialNeeds: string | null;
+  medicalRecords: Array<MedicalScoringRecord & { date: Date }>;
+  kennelObservations: StressScoringObservation[];
+  /** Every hold, released or not, so past animals see the ones active then */
+  holds: HoldScoringRecord[];
+  intakeDate: Date;
+  outcomeDate: Date | null;
+  intakeType: string | null;
+  /** Policy the animal's organization scores with today */
+  baseline: ResolvedRiskPolicy;
+}
+
+export type SeverityMatrix = Record<RiskSeverity, Record<RiskSeverity, number>>;
+
+interface Rescored {
+  animal: SimulationAnimal;
+  current: boolean;
+  baselineScore: number;
+  baselineSeverity: RiskSeverity;
+  candidateScore: number;
+  candidateSeverity: RiskSeverity;
+}
+
+export interface SimulationGroup {
+  key: string;
+  count: number;
+  meanBaselineScore: number;
+  meanCandidateScore: number;
+  meanDelta: number;
+  escalated: number;
+  deescalated: number;
+  candidateSeverities: Record<RiskSeverity, number>;
+}
+
+export interface RiskPolicySimulation {
+  candidate: { id: string | null; algorithmVersion: string };
+  baselineVersions: string[];
+  asOf: string;
+  totals: { animals: number; current: number; historical: number };
+  severityMatrices: {
+    all: SeverityMatrix;
+    current: SeverityMatrix;
+    historical: SeverityMatrix;
+  };
+  severityChanges: { unchanged: number; escalated: number; deescalated: number };
+  scoreDeltas: {
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+    distribution: Array<{ range: string; count: number }>;
+  };
+  breakdowns: {
+    species: SimulationGroup[];
+    ageCategory: SimulationGroup[];
+    size: SimulationGroup[];
+    intakeType: SimulationGroup[];
+  };
+}
+
+function emptyMatrix(): SeverityMatrix {
+  const matrix = {} as SeverityMatrix;
+  for (const from of RISK_SEVERITIES) {
+    matrix[from] = {} as Record<RiskSeverity, number>;
+    for (const to of RISK_SEVERITIES) {
+      matrix[from][to] = 0;
+    }
+  }
+  return matrix;
+}
+
+function mean(values: number[]): number {
+  return values.length ? roundTo(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : roundTo((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * The scoring inputs as they stood at `asOf`: later records and observations
+ * are dropped, and follow-ups and holds closed afterwards are still open
+ */
+function inputsAsOf(animal: SimulationAnimal, asOf: Date) {
+  const openAt = (closedAt: Date | null) => (closedAt && closedAt <= asOf ? closedAt : null);
+
+  return {
+    ...animal,
+    medicalRecords: animal.medicalRecords
+      .filter(record => record.date <= asOf)
+      .map(record => ({ ...record, followUpCompletedAt: openAt(record.followUpCompletedAt) })),
+    kennelObservations: animal.kennelObservations
+      .filter(observation => observation.observedAt <= asOf)
+      .slice(0, STRESS_SCORING_QUERY.take),
+    holds: animal.holds.map(hold => ({ ...hold, releasedAt: openAt(hold.releasedAt) })),
+  };
+}
+
+function direction(row: Rescored): number {
+  return SEVERITY_RANK[row.candidateSeverity] - SEVERITY_RANK[row.baselineSeverity];
+}
+
+function groupBy(rows: Rescored[], keyOf: (animal: SimulationAnimal) => string | null): SimulationGroup[] {
+  const groups = new Map<string, Rescored[]>();
+  for (const row of rows) {
+    const key = keyOf(row.animal) ?? 'UNKNOWN';
+    const members = groups.get(key);
+    if (members) {
+      members.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, members]) => {
+      const candidateSeverities = Object.fromEntries(RISK_SEVERITIES.map(s => [s, 0])) as Record<RiskSeverity, number>;
+      for (const row of members) {
+        candidateSeverities[row.candidateSeverity]++;
+      }
+
+      return {
+        key,
+        count: members.length,
+        meanBaselineScore: mean(members.map(r => r.baselineScore)),
+        meanCandidateScore: mean(members.map(r => r.candidateScore)),
+        meanDelta: mean(members.map(r => r.candidateScore - r.baselineScore)),
+        escalated: members.filter(r => direction(r) > 0).length,
+        deescalated: members.filter(r => direction(r) < 0).length,
+        candidateSeverities,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Score animals under their baseline and the candidate and summarize the
+ * differences
+ */
+export function simulateRiskPolicy(
+  animals: SimulationAnimal[],
+  candidate: ResolvedRiskPolicy,
+  now: Date = new Date()
+): RiskPolicySimulation {
+  const rows: Rescored[] = animals.map(animal => {
+    const current = isInCare(animal.status);
+    const asOf = current ? now : animal.outcomeDate ?? now;
+
+    const inputs = inputsAsOf(animal, asOf);
+
+    const baseline = calculateRiskScore(inputs, animal.baseline.config, asOf);
+    const proposed = calculateRiskScore(inputs, candidate.config, asOf);
+
+    return {
+      animal,
+      current,
+      baselineScore: baseline.urgencyScore,
+      baselineSeverity: baseline.riskSeverity,
+      candidateScore: proposed.urgencyScore,
+      candidateSeverity: proposed.riskSeverity,
+    };
+  });
+
+  const matrices = { all: emptyMatrix(), current: emptyMatrix(), historical: emptyMatrix() };
+  for (const row of rows) {
+    matrices.all[row.baselineSeverity][row.candidateSeverity]++;
+    matrices[row.current ? 'current' : 'historical'][row.baselineSeverity][row.candidateSeverity]++;
+  }
+
+  const deltas = rows.map(r => r.candidateScore - r.baselineScore);
+  const distribution = DELTA_BUCKETS.map(bucket => ({ range: bucket.label, count: 0 }));
+  for (const delta of deltas) {
+    distribution[DELTA_BUCKETS.findIndex(bucket => delta <= bucket.max)].count++;
+  }
+
+  const currentCount = rows.filter(r => r.current).length;
+
+  return {
+    candidate: { id: candidate.id, algorithmVersion: candidate.algorithmVersion },
+    baselineVersions: [...new Set(animals.map(a => a.baseline.algorithmVersion))].sort(),
+    asOf: now.toISOString(),
+    totals: {
+      animals: rows.length,
+      current: currentCount,
+      historical: rows.length - currentCount,
+    },
+    severityMatrices: matrices,
+    severityChanges: {
+      unchanged: rows.filter(r => direction(r) === 0).length,
+      escalated: rows.filter(r => direction(r) > 0).length,
+      deescalated: rows.filter(r => direction(r) < 0).length,
+    },
+    scoreDeltas: {
+      mean: mean(deltas),
+      median: median(deltas),
+      min: deltas.reduce((min, d) => Math.min(min, d), deltas[0] ?? 0),
+      max: deltas.reduce((max, d) => Math.max(max, d), deltas[0] ?? 0),
+      distribution,
+    },
+    breakdowns: {
+      species: groupBy(rows, a => a.species),
+      ageCategory: groupBy(rows, a => a.ageCategory),
+      size: groupBy(rows, a => a.size),
+      intakeType: groupBy(rows, a => a.intakeType),
+    },
+  };
+}
+
+/**
+ * Load every animal of an organization (or of all organizations when
+ * `organizationId` is null) for simulation
+ */
+export async function loadSimulationAnimals(organizationId: string | null): Promise<SimulationAnimal[]> {
+  const animals = await prisma.animal.findMany({
+    where: organizationId ? { organizationId } : {},
+    select: {
+      id: true,
+      status: true,
+      species: true,
+      ageCategory: true,
+      size: true,
+      specialNeeds: true,
+      medicalRecords: { select: { ...MEDICAL_SCORING_SELECT, date: true } },
+      // Untrimmed: the latest observations of a past animal may postdate its outcome
+      kennelObservations: { select: STRESS_SCORING_QUERY.select, orderBy: STRESS_SCORING_QUERY.orderBy },
+      holds: { select: { holdType: true, startDate: true, endDate: true, releasedAt: true } },
+      intakeDate: true,
+      outcomeDate: true,
+      intakeEvents: {
+        orderBy: { intakeDate: 'desc' },
+        take: 1,
+        select: { intakeType: true },
+      },
+      organization: { select: { riskPolicy: true } },
+    },
+  });
+
+  // Organizations share a handful of policies; parse each once
+  const policies = new Map<string | null, ResolvedRiskPolicy>();
+  const baselineFor = (policy: Parameters<typeof resolveRiskPolicy>[0]) => {
+    const key = policy?.id ?? null;
+    if (!policies.has(key)) {
+      policies.set(key, resolveRiskPolicy(policy));
+    }
+    return policies.get(key)!;
+  };
+
+  return animals.map(animal => ({
+    id: animal.id,
+    status: animal.status,
+    species: animal.species,
+    ageCategory: animal.ageCategory,
+    size: animal.size,
+    specialNeeds: animal.specialNeeds,
+    medicalRecords: animal.medicalRecords,
+    kennelObservations: animal.kennelObservations,
+    holds: animal.holds,
+    intakeDate: animal.intakeDate,
+    outcomeDate: animal.outcomeDate,
+    intakeType: animal.intakeEvents[0]?.intakeType ?? null,
+    baseline: baselineFor(animal.organization.riskPolicy),
+  }));
+}
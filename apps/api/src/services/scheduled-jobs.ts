@@ -0,0 +1,74 @@
+/**
+ * Scheduled Jobs
+ *
+ * The jobs the API registers with the scheduler (see scheduler.ts).
+ */
+
+import { prisma } from '@shelter-link/database';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { recalculateOrganizationRiskProfiles } from './risk-scoring.js';
+import { registerJob, reportJobProgress, type JobContext, type JobResult, type ScheduledJob } from './scheduler.js';
+
+const logger = createLogger('scheduled-jobs');
+
+const HOUR = 60 * 60 * 1000;
+
+export const RISK_RECALCULATION_JOB = 'risk-recalculation';
+
+/**
+ * Recalculate every animal in care, organization by organization, so
+ * length of stay and the scores built on it stay current. Within a run,
+ * counts are stored after every page.
+ */
+export async function recalculateAllRiskProfiles(context?: JobContext): Promise<JobResult> {
+  const organizations = await prisma.organization.findMany({
+    where: { status: { not: 'INACTIVE' } },
+    select: { id: true },
+  });
+
+  const result: JobResult = { processed: 0, succeeded: 0, failed: 0, errors: [] };
+
+  for (const organization of organizations) {
+    try {
+      const recalculated = await recalculateOrganizationRiskProfiles(organization.id, {
+        onProgress: context && (progress => reportJobProgress(context.runId, {
+          processed: result.processed + progress.processed,
+          succeeded: result.succeeded + progress.updated,
+          failed: result.failed + progress.failed,
+        })),
+      });
+      result.processed += recalculated.total;
+      result.succeeded += recalculated.updated;
+      result.failed += recalculated.errors.length;
+      result.errors.push(...recalculated.errors.map(e => ({ ref: e.animalId, message: e.message })));
+    } catch (error) {
+      logger.error({ error, organizationId: organization.id }, 'Failed to recalculate organization');
+      result.failed++;
+      result.errors.push({
+        ref: `organization:${organization.id}`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+export function getScheduledJobs(): ScheduledJob[] {
+  return [
+    {
+      name: RISK_RECALCULATION_JOB,
+      description: 'Recalculate risk scores of all animals in care',
+      schedule: config.jobs.riskRecalculationSchedule,
+      lockTtlMs: 2 * HOUR,
+      run: context => recalculateAllRiskProfiles(context),
+    },
+  ];
+}
+
+export function registerScheduledJobs(): void {
+  for (const job of getScheduledJobs()) {
+    registerJob(job);
+  }
+}
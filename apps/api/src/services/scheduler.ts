@@ -0,0 +1,291 @@
+/**
+ * Job Scheduler
+ *
+ * Runs registered jobs in-process on cron schedules (see lib/cron.ts, UTC).
+ * The scheduler polls on an interval, like the webhook worker; a slot
+ * missed while the process was down is not caught up.
+ *
+ * Every API instance runs the scheduler. A JobLock row per job makes sure
+ * each scheduled slot runs once: an instance claims the slot with a
+ * conditional update, and the lock expires after the job's lockTtlMs in
+ * case the instance dies mid-run.
+ *
+ * Each run is recorded in JobRun with its counts and per-item errors.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { prisma } from '@shelter-link/database';
+import { getNextCronDate, parseCronExpression } from '../lib/cron.js';
+import { ConflictError, NotFoundError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('scheduler');
+
+export const JobRunStatus = {
+  RUNNING: 'RUNNING',
+  SUCCEEDED: 'SUCCEEDED',
+  /** Finished, but some items failed */
+  PARTIAL: 'PARTIAL',
+  FAILED: 'FAILED',
+} as const;
+
+export type JobRunStatus = typeof JobRunStatus[keyof typeof JobRunStatus];
+
+/** Identifies this process in job locks and runs */
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// Per-item errors kept on a run
+const MAX_RUN_ERRORS = 100;
+
+export interface JobItemError {
+  /** What failed, e.g. an animal ID */
+  ref: string | null;
+  message: string;
+}
+
+export interface JobResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: JobItemError[];
+}
+
+export interface JobContext {
+  runId: string;
+  scheduledFor: Date;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  /** Five-field cron expression, UTC */
+  schedule: string;
+  /** How long a claimed slot stays locked if the instance never releases it */
+  lockTtlMs: number;
+  run: (context: JobContext) => Promise<JobResult>;
+}
+
+const jobs = new Map<string, { job: ScheduledJob; nextRunAt: Date }>();
+
+/**
+ * Add a job to the scheduler. Names must be unique.
+ */
+export function registerJob(job: ScheduledJob, now: Date = new Date()): void {
+  if (jobs.has(job.name)) {
+    throw new Error(`Job already registered: ${job.name}`);
+  }
+
+  const schedule = parseCronExpression(job.schedule);
+  jobs.set(job.name, { job, nextRunAt: getNextCronDate(schedule, now) });
+}
+
+export function unregisterJob(name: string): void {
+  jobs.delete(name);
+}
+
+export function getRegisteredJobs() {
+  return [...jobs.values()].map(({ job, nextRunAt }) => ({
+    name: job.name,
+    description: job.description,
+    schedule: job.schedule,
+    nextRunAt,
+  }));
+}
+
+/**
+ * Claim a slot of a job for this instance. Fails when another instance
+ * holds the lock or already claimed this slot or a later one.
+ */
+export async function acquireJobLock(
+  jobName: string,
+  scheduledFor: Date,
+  ttlMs: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  try {
+    await prisma.jobLock.upsert({
+      where: { jobName },
+      create: { jobName },
+      update: {},
+    });
+  } catch (error) {
+    // Another instance created the row first
+    if ((error as { code?: string }).code !== 'P2002') throw error;
+  }
+
+  const claimed = await prisma.jobLock.updateMany({
+    where: {
+      jobName,
+      AND: [
+        { OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: scheduledFor } }] },
+        { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+      ],
+    },
+    data: {
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + ttlMs),
+      lastScheduledFor: scheduledFor,
+    },
+  });
+
+  return claimed.count > 0;
+}
+
+export async function releaseJobLock(jobName: string): Promise<void> {
+  await prisma.jobLock.updateMany({
+    where: { jobName, lockedBy: INSTANCE_ID },
+    data: { lockedBy: null, lockedUntil: null },
+  });
+}
+
+function getRunStatus(result: JobResult): JobRunStatus {
+  if (result.failed === 0) return JobRunStatus.SUCCEEDED;
+  return result.succeeded > 0 ? JobRunStatus.PARTIAL : JobRunStatus.FAILED;
+}
+
+/**
+ * Run a registered job for a slot. Returns the run, or null when another
+ * instance has the slot.
+ */
+export async function runJob(
+  name: string,
+  options: { scheduledFor?: Date; triggeredBy?: string } = {}
+) {
+  const entry = jobs.get(name);
+  if (!entry) {
+    throw new NotFoundError('Job', name);
+  }
+
+  const { job } = entry;
+  const scheduledFor = options.scheduledFor ?? new Date();
+
+  if (!(await acquireJobLock(name, scheduledFor, job.lockTtlMs))) {
+    logger.info({ job: name, scheduledFor }, 'Job slot taken by another instance');
+    return null;
+  }
+
+  const run = await prisma.jobRun.create({
+    data: {
+      jobName: name,
+      scheduledFor,
+      instanceId: INSTANCE_ID,
+      triggeredBy: options.triggeredBy ?? null,
+    },
+  });
+
+  logger.info({ job: name, runId: run.id, scheduledFor }, 'Job started');
+
+  try {
+    const result = await job.run({ runId: run.id, scheduledFor });
+    const status = getRunStatus(result);
+
+    const finished = await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        finishedAt: new Date(),
+        processed: result.processed,
+        succeeded: result.succeeded,
+        failed: result.failed,
+        errors: JSON.stringify(result.errors.slice(0, MAX_RUN_ERRORS)),
+      },
+    });
+
+    logger.info(
+      { job: name, runId: run.id, status, processed: result.processed, failed: result.failed },
+      'Job finished'
+    );
+    return finished;
+  } catch (error) {
+    logger.error({ error, job: name, runId: run.id }, 'Job failed');
+
+    return prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: JobRunStatus.FAILED,
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  } finally {
+    await releaseJobLock(name);
+  }
+}
+
+/**
+ * Store a running job's counts so far, so the run history shows progress
+ */
+export async function reportJobProgress(runId: string, progress: Omit<JobResult, 'errors'>): Promise<void> {
+  await prisma.jobRun.update({
+    where: { id: runId },
+    data: progress,
+  });
+}
+
+/**
+ * Run a job now on behalf of a user
+ */
+export async function triggerJob(name: string, triggeredBy: string) {
+  const run = await runJob(name, { triggeredBy });
+  if (!run) {
+    throw new ConflictError(`Job ${name} is already running`);
+  }
+  return run;
+}
+
+let schedulerTimer: NodeJS.Timeout | undefined;
+let schedulerRunning = false;
+
+/**
+ * Start every job whose next slot has come, one after another
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  let started = 0;
+
+  for (const entry of jobs.values()) {
+    if (entry.nextRunAt > now) continue;
+
+    const scheduledFor = entry.nextRunAt;
+    entry.nextRunAt = getNextCronDate(entry.job.schedule, now);
+
+    try {
+      if (await runJob(entry.job.name, { scheduledFor })) {
+        started++;
+      }
+    } catch (error) {
+      logger.error({ error, job: entry.job.name }, 'Could not run scheduled job');
+    }
+  }
+
+  return started;
+}
+
+/**
+ * Poll for due jobs on an interval. Safe to call once per process.
+ */
+export function startScheduler(intervalMs = 30_000): void {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(async () => {
+    if (schedulerRunning) return;
+    schedulerRunning = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      logger.error({ error }, 'Scheduler tick failed');
+    } finally {
+      schedulerRunning = false;
+    }
+  }, intervalMs);
+  schedulerTimer.unref();
+
+  logger.info({ intervalMs, jobs: getRegisteredJobs() }, 'Scheduler started');
+}
+
+export function stopScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = undefined;
+  }
+}
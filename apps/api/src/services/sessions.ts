@@ -0,0 +1,203 @@
+/**
+ * Session Service
+ *
+ * Server-side login sessions backing short-lived access tokens.
+ *
+ * Each login creates a Session holding the hash of an opaque refresh token.
+ * Access tokens carry the session id (`sid`) and are rejected as soon as the
+ * session is revoked. Refresh tokens rotate on every use; presenting a token
+ * that has already been rotated out means it was copied, so the session is
+ * revoked.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@shelter-link/database';
+import { config } from '../config/index.js';
+import { UnauthorizedError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('sessions');
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * Convert a duration like "15m" or "30d" to seconds
+ */
+export function durationToSeconds(duration: string): number {
+  const match = /^(\d+)\s*([smhd])$/.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = durationToSeconds(config.jwt.expiresIn);
+export const REFRESH_TOKEN_TTL_SECONDS = durationToSeconds(config.jwt.refreshExpiresIn);
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * SHA-256 of a token; only hashes are stored
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+/**
+ * Start a new session for a user
+ */
+export async function createSession(
+  userId: string,
+  organizationId: string | undefined,
+  metadata: SessionMetadata = {}
+) {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      organizationId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+      expiresAt: refreshExpiry(),
+    },
+  });
+
+  return { session, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one.
+ * Throws UnauthorizedError if the token is unknown, expired or revoked.
+ */
+export async function rotateSession(refreshToken: string, metadata: SessionMetadata = {}) {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+  });
+
+  if (!session) {
+    // A rotated-out token being replayed: someone else holds a copy
+    const leaked = await prisma.session.findFirst({
+      where: { previousTokenHash: tokenHash, revokedAt: null },
+    });
+    if (leaked) {
+      await revokeSession(leaked.id);
+      logger.warn({ sessionId: leaked.id, userId: leaked.userId }, 'Refresh token reuse detected, session revoked');
+    }
+    throw new UnauthorizedError('Invalid refresh token');
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    throw new UnauthorizedError('Session has expired');
+  }
+
+  const nextToken = generateRefreshToken();
+  const data = {
+    refreshTokenHash: hashToken(nextToken),
+    previousTokenHash: tokenHash,
+    lastUsedAt: new Date(),
+    expiresAt: refreshExpiry(),
+    userAgent: metadata.userAgent ?? session.userAgent,
+    ipAddress: metadata.ipAddress ?? session.ipAddress,
+  };
+
+  // Claim the token atomically so two concurrent refreshes cannot both
+  // succeed; the one that loses holds a token that was just rotated out
+  const claimed = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data,
+  });
+  if (claimed.count === 0) {
+    throw new UnauthorizedError('Invalid refresh token');
+  }
+
+  return { session: { ...session, ...data }, refreshToken: nextToken };
+}
+
+/**
+ * Whether access tokens issued for this session are still valid
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return Boolean(session && !session.revokedAt && session.expiresAt > new Date());
+}
+
+/**
+ * Remember which organization the session acts for, so refreshed
+ * access tokens stay scoped to it
+ */
+export async function setSessionOrganization(sessionId: string, organizationId: string): Promise<void> {
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { organizationId },
+  });
+}
+
+/**
+ * Revoke a single session (logout)
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke the session a refresh token belongs to
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every session of a user (sign out all devices)
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  logger.info({ userId, count: result.count }, 'All sessions revoked');
+
+  return result.count;
+}
+
+/**
+ * Revoke a user's sessions acting for one organization (membership removed)
+ */
+export async function revokeOrganizationSessions(userId: string, organizationId: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { userId, organizationId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count;
+}
@@ -0,0 +1,73 @@
+/**
+ * Transfer Lifecycle
+ *
+ * Statuses a transfer request moves through between two organizations:
+ *
+ *   PENDING -> APPROVED -> SCHEDULED -> IN_TRANSIT -> COMPLETED
+ *
+ * The requesting organization may cancel until the animal is on the road;
+ * the receiving organization may only decline while the request is PENDING.
+ * The animal stays TRANSFER_PENDING with the sending organization until the
+ * receiving organization confirms arrival.
+ */
+
+import { InvalidStateError } from '../lib/errors.js';
+
+export const TransferStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  SCHEDULED: 'SCHEDULED',
+  IN_TRANSIT: 'IN_TRANSIT',
+  COMPLETED: 'COMPLETED',
+  DECLINED: 'DECLINED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type TransferStatus = typeof TransferStatus[keyof typeof TransferStatus];
+
+/** Transfers that still hold the animal in TRANSFER_PENDING */
+export const ACTIVE_TRANSFER_STATUSES: TransferStatus[] = [
+  TransferStatus.PENDING,
+  TransferStatus.APPROVED,
+  TransferStatus.SCHEDULED,
+  TransferStatus.IN_TRANSIT,
+];
+
+const TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+  PENDING: ['APPROVED', 'DECLINED', 'CANCELLED'],
+  APPROVED: ['SCHEDULED', 'CANCELLED'],
+  // Rescheduling keeps the transfer SCHEDULED with a new pickup date
+  SCHEDULED: ['SCHEDULED', 'IN_TRANSIT', 'CANCELLED'],
+  IN_TRANSIT: ['COMPLETED'],
+  COMPLETED: [],
+  DECLINED: [],
+  CANCELLED: [],
+};
+
+export function isActiveTransfer(status: string): boolean {
+  return ACTIVE_TRANSFER_STATUSES.includes(status as TransferStatus);
+}
+
+/**
+ * Check whether a transfer may move to the given status
+ */
+export function canTransitionTransfer(from: string, to: TransferStatus): boolean {
+  const allowed = TRANSITIONS[from as TransferStatus];
+  return allowed ? allowed.includes(to) : false;
+}
+
+/**
+ * Throw InvalidStateError if the transfer cannot move to the given status
+ */
+export function assertTransferTransition(from: string, to: TransferStatus): TransferStatus {
+  if (!canTransitionTransfer(from, to)) {
+    const allowed = TRANSITIONS[from as TransferStatus] ?? [];
+    throw new InvalidStateError(
+      allowed.length === 0
+        ? `Transfer is already ${from.toLowerCase()}`
+        : `Cannot move transfer from ${from} to ${to}`,
+      { from, to, allowed }
+    );
+  }
+  return to;
+}
@@ -0,0 +1,345 @@
+/**
+ * Webhook Service
+ *
+ * Emits organization events to subscribed webhooks.
+ *
+ * emitWebhookEvent() writes one WebhookDelivery row per subscribed webhook;
+ * that table is the queue, so events survive restarts. The worker started
+ * from index.ts claims due rows, POSTs the JSON body with an HMAC-SHA256
+ * signature and, on failure, reschedules with exponential backoff. After
+ * MAX_ATTEMPTS a delivery is parked as DEAD until someone retries it.
+ *
+ * Receivers verify `X-ShelterLink-Signature: sha256=<hex>`, computed over
+ * `<X-ShelterLink-Timestamp>.<raw body>` with the webhook secret.
+ *
+ * WEBHOOK_EVENTS is the subset of WebhookEventType (packages/types/src/api.ts)
+ * that is emitted today.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@shelter-link/database';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('webhooks');
+
+export const WEBHOOK_EVENTS = [
+  'animal.created',
+  'animal.status_changed',
+  'animal.risk_elevated',
+  'outcome.created',
+  'transfer.requested',
+  'transfer.status_changed',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  DELIVERING: 'DELIVERING',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+  DEAD: 'DEAD',
+} as const;
+
+export const WEBHOOK_RETRY_POLICY = {
+  maxAttempts: 8,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  requestTimeoutMs: 10 * 1000,
+  // A DELIVERING row older than this belongs to a worker that died
+  staleClaimMs: 5 * 60 * 1000,
+};
+
+const RESPONSE_BODY_LIMIT = 2000;
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+  headers: string;
+}
+
+export interface DeliveryAttemptResult {
+  success: boolean;
+  statusCode?: number;
+  duration: number;
+  responseBody?: string;
+  error?: string;
+}
+
+/**
+ * Generate a signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 signature header value for a body sent at `timestamp`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Delay before the next attempt after `attemptCount` failed attempts
+ */
+export function retryDelayMs(attemptCount: number): number {
+  return Math.min(
+    WEBHOOK_RETRY_POLICY.baseDelayMs * 2 ** Math.max(attemptCount - 1, 0),
+    WEBHOOK_RETRY_POLICY.maxDelayMs
+  );
+}
+
+/**
+ * Parse a JSON column, tolerating malformed values
+ */
+export function parseJsonColumn<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Queue an event for every active webhook of the organization subscribed to it.
+ * Never throws: a webhook problem must not fail the request that caused it.
+ */
+export async function emitWebhookEvent(
+  organizationId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<number> {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { organizationId, isActive: true },
+      select: { id: true, events: true },
+    });
+
+    const subscribed = webhooks.filter(w => parseJsonColumn<string[]>(w.events, []).includes(event));
+    if (subscribed.length === 0) {
+      return 0;
+    }
+
+    const eventId = crypto.randomUUID();
+    const payload = JSON.stringify({
+      id: eventId,
+      event,
+      timestamp: new Date().toISOString(),
+      organizationId,
+      data,
+    });
+
+    await prisma.$transaction(
+      subscribed.map(webhook => prisma.webhookDelivery.create({
+        data: { webhookId: webhook.id, eventId, eventType: event, payload },
+      }))
+    );
+
+    logger.debug({ organizationId, event, eventId, webhooks: subscribed.length }, 'Webhook event queued');
+    return subscribed.length;
+  } catch (error) {
+    logger.error({ error, organizationId, event }, 'Failed to queue webhook event');
+    return 0;
+  }
+}
+
+/**
+ * POST a body to a webhook once, without touching the queue
+ */
+export async function sendWebhookRequest(
+  webhook: WebhookTarget,
+  deliveryId: string,
+  eventType: string,
+  body: string
+): Promise<DeliveryAttemptResult> {
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000).toString();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        ...parseJsonColumn<Record<string, string>>(webhook.headers, {}),
+        'Content-Type': 'application/json',
+        'User-Agent': 'ShelterLink-Webhooks/1.0',
+        'X-ShelterLink-Event': eventType,
+        'X-ShelterLink-Delivery': deliveryId,
+        'X-ShelterLink-Timestamp': timestamp,
+        'X-ShelterLink-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_RETRY_POLICY.requestTimeoutMs),
+    });
+
+    const responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+
+    return {
+      success: response.ok,
+      statusCode: response.status,
+      duration: Date.now() - startedAt,
+      responseBody,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      duration: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Attempt one claimed delivery and record the outcome
+ */
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+  if (!delivery) return;
+
+  // Disabled since the event was queued: park it rather than send
+  if (!delivery.webhook.isActive) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: WebhookDeliveryStatus.DEAD, errorMessage: 'Webhook is disabled' },
+    });
+    return;
+  }
+
+  const result = await sendWebhookRequest(delivery.webhook, delivery.id, delivery.eventType, delivery.payload);
+  const attemptCount = delivery.attemptCount + 1;
+  const now = new Date();
+
+  let status: string = WebhookDeliveryStatus.SUCCESS;
+  let nextAttemptAt = delivery.nextAttemptAt;
+  if (!result.success) {
+    const exhausted = attemptCount >= WEBHOOK_RETRY_POLICY.maxAttempts;
+    status = exhausted ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.FAILED;
+    nextAttemptAt = new Date(now.getTime() + retryDelayMs(attemptCount));
+  }
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      attemptCount,
+      nextAttemptAt,
+      lastAttemptAt: now,
+      deliveredAt: result.success ? now : null,
+      statusCode: result.statusCode ?? null,
+      responseBody: result.responseBody ?? null,
+      errorMessage: result.error ?? null,
+      duration: result.duration,
+    },
+  });
+
+  await prisma.webhook.update({
+    where: { id: delivery.webhookId },
+    data: {
+      lastTriggeredAt: now,
+      lastStatus: result.success ? 'SUCCESS' : 'FAILED',
+      failureCount: result.success ? 0 : { increment: 1 },
+    },
+  });
+
+  if (status === WebhookDeliveryStatus.DEAD) {
+    logger.warn({ deliveryId, webhookId: delivery.webhookId, attemptCount }, 'Webhook delivery moved to dead letter');
+  }
+}
+
+/**
+ * Deliver every due queued delivery (up to `limit`).
+ * Rows are claimed with a conditional update so concurrent workers never
+ * send the same delivery twice.
+ */
+export async function processWebhookQueue(limit = 50): Promise<number> {
+  const now = new Date();
+
+  // Recover rows claimed by a worker that stopped mid-delivery
+  await prisma.webhookDelivery.updateMany({
+    where: {
+      status: WebhookDeliveryStatus.DELIVERING,
+      lastAttemptAt: { lt: new Date(now.getTime() - WEBHOOK_RETRY_POLICY.staleClaimMs) },
+    },
+    data: { status: WebhookDeliveryStatus.FAILED },
+  });
+
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: { in: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.FAILED] },
+      nextAttemptAt: { lte: now },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    select: { id: true, status: true },
+  });
+
+  let processed = 0;
+  for (const row of due) {
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: row.id, status: row.status },
+      data: { status: WebhookDeliveryStatus.DELIVERING, lastAttemptAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await attemptDelivery(row.id);
+      processed++;
+    } catch (error) {
+      logger.error({ error, deliveryId: row.id }, 'Webhook delivery attempt crashed');
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Put a failed or dead delivery back in the queue with a fresh attempt budget
+ */
+export async function requeueDelivery(deliveryId: string): Promise<void> {
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: WebhookDeliveryStatus.PENDING,
+      attemptCount: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+}
+
+let workerTimer: NodeJS.Timeout | undefined;
+let workerRunning = false;
+
+/**
+ * Poll the queue on an interval. Safe to call once per process.
+ */
+export function startWebhookWorker(intervalMs = 5000): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(async () => {
+    if (workerRunning) return;
+    workerRunning = true;
+    try {
+      await processWebhookQueue();
+    } catch (error) {
+      logger.error({ error }, 'Webhook worker tick failed');
+    } finally {
+      workerRunning = false;
+    }
+  }, intervalMs);
+  workerTimer.unref();
+
+  logger.info({ intervalMs }, 'Webhook worker started');
+}
+
+export function stopWebhookWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = undefined;
+  }
+}
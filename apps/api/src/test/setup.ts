@@ -7,7 +7,7 @@ import { vi, beforeAll, afterAll, afterEach } from 'vitest';
 
 // Mock environment variables
 process.env.NODE_ENV = 'test';
-process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.JWT_SECRET = 'test-jwt-secret-at-least-32-characters';
 process.env.JWT_EXPIRES_IN = '15m';
 process.env.JWT_REFRESH_EXPIRES_IN = '7d';
 process.env.API_PORT = '4001';
@@ -46,7 +46,7 @@ vi.mock('ioredis', () => ({
 const mockPrismaClient = {
   $connect: vi.fn(),
   $disconnect: vi.fn(),
-  $transaction: vi.fn((fn: any) => fn(mockPrismaClient)),
+  $transaction: vi.fn((arg: any) => (Array.isArray(arg) ? Promise.all(arg) : arg(mockPrismaClient))),
   
   animal: {
     findMany: vi.fn(),
@@ -54,6 +54,7 @@ const mockPrismaClient = {
     findFirst: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
+    updateMany: vi.fn(),
     delete: vi.fn(),
     count: vi.fn(),
   },
@@ -85,10 +86,88 @@ const mockPrismaClient = {
     create: vi.fn(),
     update: vi.fn(),
     upsert: vi.fn(),
+    updateMany: vi.fn(),
     delete: vi.fn(),
     count: vi.fn(),
   },
   
+  riskPolicy: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  
+  riskOverride: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  
+  riskScoreSnapshot: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+    createMany: vi.fn(),
+  },
+  
+  medicalRecord: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  
+  vaccination: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  
+  kennelObservation: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    delete: vi.fn(),
+  },
+  animalHold: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  
+  behavioralAssessment: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  
+  riskAlert: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn(),
+  },
+  
+  riskReview: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn(),
+  },
+  
   transferRequest: {
     findMany: vi.fn(),
     findUnique: vi.fn(),
@@ -99,20 +178,88 @@ const mockPrismaClient = {
     count: vi.fn(),
   },
   
+  userOrganization: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    count: vi.fn(),
+  },
+  
+  invitation: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn(),
+  },
+  
+  apiKey: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  
+  webhook: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  
+  webhookDelivery: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn(),
+  },
+  
+  userToken: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  
   session: {
     findMany: vi.fn(),
     findUnique: vi.fn(),
     findFirst: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
+    updateMany: vi.fn(),
     delete: vi.fn(),
     deleteMany: vi.fn(),
     count: vi.fn(),
   },
   
+  jobRun: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    count: vi.fn(),
+  },
+  
+  jobLock: {
+    upsert: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  
   auditLog: {
     create: vi.fn(),
     findMany: vi.fn(),
+    count: vi.fn(),
   },
 };
 
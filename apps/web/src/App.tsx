@@ -11,10 +11,15 @@ const Animals = lazy(() => import('@/pages/Animals'));
 const AddAnimal = lazy(() => import('@/pages/AddAnimal'));
 const AnimalDetail = lazy(() => import('@/pages/AnimalDetail'));
 const AtRisk = lazy(() => import('@/pages/AtRisk'));
+const KennelRound = lazy(() => import('@/pages/KennelRound'));
 const Transfers = lazy(() => import('@/pages/Transfers'));
 const Import = lazy(() => import('@/pages/Import'));
 const Settings = lazy(() => import('@/pages/Settings'));
 const Login = lazy(() => import('@/pages/Login'));
+const ForgotPassword = lazy(() => import('@/pages/ForgotPassword'));
+const ResetPassword = lazy(() => import('@/pages/ResetPassword'));
+const VerifyEmail = lazy(() => import('@/pages/VerifyEmail'));
+const AcceptInvitation = lazy(() => import('@/pages/AcceptInvitation'));
 const NotFound = lazy(() => import('@/pages/NotFound'));
 
 // Protected route wrapper
@@ -54,6 +59,26 @@ export default function App() {
               </PublicRoute>
             }
           />
+          <Route
+            path="/forgot-password"
+            element={
+              <PublicRoute>
+                <ForgotPassword />
+              </PublicRoute>
+            }
+          />
+          <Route
+            path="/reset-password"
+            element={
+              <PublicRoute>
+                <ResetPassword />
+              </PublicRoute>
+            }
+          />
+          {/* Opened from the verification email, signed in or not */}
+          <Route path="/verify-email" element={<VerifyEmail />} />
+          {/* Existing users may already be signed in to another organization */}
+          <Route path="/invitations/accept" element={<AcceptInvitation />} />
 
           {/* Protected routes with layout */}
           <Route
@@ -69,6 +94,7 @@ export default function App() {
             <Route path="animals/new" element={<AddAnimal />} />
             <Route path="animals/:id" element={<AnimalDetail />} />
             <Route path="at-risk" element={<AtRisk />} />
+            <Route path="kennel-round" element={<KennelRound />} />
             <Route path="transfers" element={<Transfers />} />
             <Route path="import" element={<Import />} />
             <Route path="settings" element={<Settings />} />
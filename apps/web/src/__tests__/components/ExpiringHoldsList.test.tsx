@@ -0,0 +1,46 @@
+/**
+ * ExpiringHoldsList Component Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { render, screen } from '../../test/setup';
+import ExpiringHoldsList, { type ExpiringHoldView } from '@/components/holds/ExpiringHoldsList';
+
+const hold = (overrides: Partial<ExpiringHoldView> = {}): ExpiringHoldView => ({
+  id: 'hold-001',
+  animalId: 'animal-001',
+  animal: { id: 'animal-001', name: 'Max', species: 'DOG', kennelNumber: 'A12' },
+  holdType: 'STRAY_HOLD',
+  reason: 'Found on Main St',
+  caseNumber: 'AC-2026-0142',
+  endDate: '2026-03-03T15:00:00Z',
+  hoursRemaining: 30,
+  ...overrides,
+});
+
+describe('ExpiringHoldsList', () => {
+  it('should list each hold with its animal, type and case', () => {
+    render(<ExpiringHoldsList holds={[hold()]} />, { wrapper: MemoryRouter });
+
+    expect(screen.getByRole('link', { name: 'Max' })).toHaveAttribute('href', '/animals/animal-001');
+    expect(screen.getByText('holds.types.STRAY_HOLD')).toBeInTheDocument();
+    expect(screen.getByText('AC-2026-0142 · Found on Main St')).toBeInTheDocument();
+  });
+
+  it('should flag holds ending within 12 hours as urgent', () => {
+    render(
+      <ExpiringHoldsList holds={[hold({ id: 'hold-001', hoursRemaining: 5 }), hold({ id: 'hold-002' })]} />,
+      { wrapper: MemoryRouter }
+    );
+
+    expect(screen.getAllByTestId('hold-urgent')).toHaveLength(1);
+    expect(screen.getAllByTestId('hold-soon')).toHaveLength(1);
+  });
+
+  it('should say when no holds are ending', () => {
+    render(<ExpiringHoldsList holds={[]} />, { wrapper: MemoryRouter });
+
+    expect(screen.getByText('holds.noneExpiring')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * MedicalHistory Component Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '../../test/setup';
+import MedicalHistory, {
+  type MedicalRecordView,
+  type VaccinationView,
+} from '@/components/medical/MedicalHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY).toISOString();
+
+const record = (overrides: Partial<MedicalRecordView> = {}): MedicalRecordView => ({
+  id: 'record-001',
+  recordType: 'SICK_EXAM',
+  date: daysFromNow(-3),
+  diagnosis: 'Upper respiratory infection',
+  treatment: 'Doxycycline',
+  veterinarian: 'Dr. Rivera',
+  followUpRequired: true,
+  followUpDate: daysFromNow(3),
+  followUpCompletedAt: null,
+  ...overrides,
+});
+
+const dose = (overrides: Partial<VaccinationView> = {}): VaccinationView => ({
+  id: 'vacc-001',
+  vaccineType: 'DHPP',
+  dateGiven: daysFromNow(-22),
+  nextDueDate: daysFromNow(-1),
+  ...overrides,
+});
+
+describe('MedicalHistory', () => {
+  it('should show records with their diagnosis and a follow-up due this week', () => {
+    render(<MedicalHistory records={[record()]} vaccinations={[]} />);
+
+    expect(screen.getByText('medical.recordTypes.SICK_EXAM')).toBeInTheDocument();
+    expect(screen.getByText('Upper respiratory infection')).toBeInTheDocument();
+    expect(screen.getByTestId('due-dueSoon')).toHaveTextContent('medical.followUp');
+    expect(screen.getByText('medical.noVaccinations')).toBeInTheDocument();
+  });
+
+  it('should show a completed follow-up as done', () => {
+    render(
+      <MedicalHistory records={[record({ followUpCompletedAt: daysFromNow(-1) })]} vaccinations={[]} />
+    );
+
+    expect(screen.getByText('medical.followUpDone')).toBeInTheDocument();
+    expect(screen.queryByTestId('due-dueSoon')).not.toBeInTheDocument();
+  });
+
+  it('should flag an overdue dose only on the latest dose of a vaccine', () => {
+    render(
+      <MedicalHistory
+        records={[]}
+        vaccinations={[
+          dose(),
+          dose({ id: 'vacc-000', dateGiven: daysFromNow(-400), nextDueDate: daysFromNow(-35) }),
+        ]}
+      />
+    );
+
+    expect(screen.getAllByTestId('due-overdue')).toHaveLength(1);
+    expect(screen.getByTestId('vaccination-vacc-001')).toHaveTextContent('medical.overdue');
+  });
+
+  it('should say when there is no history', () => {
+    render(<MedicalHistory records={[]} vaccinations={[]} />);
+
+    expect(screen.getByText('medical.noRecords')).toBeInTheDocument();
+    expect(screen.getByText('medical.noVaccinations')).toBeInTheDocument();
+  });
+});
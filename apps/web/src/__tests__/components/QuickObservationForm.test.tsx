@@ -0,0 +1,51 @@
+/**
+ * QuickObservationForm Component Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '../../test/setup';
+import QuickObservationForm from '@/components/kennel/QuickObservationForm';
+
+describe('QuickObservationForm', () => {
+  it('should not save until a stress level is picked', () => {
+    const onSubmit = vi.fn();
+    render(<QuickObservationForm onSubmit={onSubmit} />);
+
+    const save = screen.getByRole('button', { name: 'kennelRound.save' });
+    expect(save).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.stress.MILD' }));
+    expect(save).not.toBeDisabled();
+  });
+
+  it('should submit the stress level, toggled enrichment and trimmed notes', () => {
+    const onSubmit = vi.fn();
+    render(<QuickObservationForm onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.stress.MODERATE' }));
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.enrichmentTypes.WALK' }));
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.enrichmentTypes.TOY' }));
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.enrichmentTypes.TOY' }));
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: '  Pacing at the door  ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.save' }));
+
+    expect(screen.getByRole('button', { name: 'kennelRound.stress.MODERATE' })).toHaveAttribute('aria-pressed', 'true');
+    expect(onSubmit).toHaveBeenCalledWith({
+      stressLevel: 'MODERATE',
+      enrichment: ['WALK'],
+      notes: 'Pacing at the door',
+    });
+  });
+
+  it('should send no notes when left blank and disable saving while in flight', () => {
+    const onSubmit = vi.fn();
+    const { rerender } = render(<QuickObservationForm onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.stress.NONE' }));
+    fireEvent.click(screen.getByRole('button', { name: 'kennelRound.save' }));
+    expect(onSubmit).toHaveBeenCalledWith({ stressLevel: 'NONE', enrichment: [], notes: null });
+
+    rerender(<QuickObservationForm onSubmit={onSubmit} isSaving />);
+    expect(screen.getByRole('button', { name: 'kennelRound.save' })).toBeDisabled();
+  });
+});
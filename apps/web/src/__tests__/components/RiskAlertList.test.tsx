@@ -0,0 +1,61 @@
+/**
+ * RiskAlertList Component Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { render, screen, fireEvent } from '../../test/setup';
+import RiskAlertList, { type RiskAlertView } from '@/components/risk/RiskAlertList';
+
+const alert = (overrides: Partial<RiskAlertView> = {}): RiskAlertView => ({
+  id: 'alert-001',
+  animalId: 'animal-001',
+  animal: { id: 'animal-001', name: 'Max', species: 'DOG' },
+  severity: 'HIGH',
+  previousScore: 55,
+  newScore: 64,
+  previousSeverity: 'ELEVATED',
+  newSeverity: 'HIGH',
+  recommendedActions: ['FEATURE_LISTING', 'CONTACT_FOSTERS'],
+  createdAt: '2025-06-01T03:00:00Z',
+  ...overrides,
+});
+
+describe('RiskAlertList', () => {
+  it('should list each alert with its animal and recommended actions', () => {
+    render(<RiskAlertList alerts={[alert()]} onAcknowledge={vi.fn()} />, { wrapper: MemoryRouter });
+
+    expect(screen.getByRole('link', { name: 'Max' })).toHaveAttribute('href', '/animals/animal-001');
+    expect(screen.getByText('alerts.crossed')).toBeInTheDocument();
+    expect(screen.getByText('alerts.actions.FEATURE_LISTING')).toBeInTheDocument();
+    expect(screen.getByText('alerts.actions.CONTACT_FOSTERS')).toBeInTheDocument();
+  });
+
+  it('should acknowledge an alert and disable its button while in flight', () => {
+    const onAcknowledge = vi.fn();
+    const { rerender } = render(
+      <RiskAlertList alerts={[alert(), alert({ id: 'alert-002' })]} onAcknowledge={onAcknowledge} />,
+      { wrapper: MemoryRouter }
+    );
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'alerts.acknowledge' })[1]);
+    expect(onAcknowledge).toHaveBeenCalledWith('alert-002');
+
+    rerender(
+      <RiskAlertList
+        alerts={[alert(), alert({ id: 'alert-002' })]}
+        onAcknowledge={onAcknowledge}
+        acknowledgingId="alert-002"
+      />
+    );
+    const buttons = screen.getAllByRole('button', { name: 'alerts.acknowledge' });
+    expect(buttons[0]).not.toBeDisabled();
+    expect(buttons[1]).toBeDisabled();
+  });
+
+  it('should say when there are no open alerts', () => {
+    render(<RiskAlertList alerts={[]} onAcknowledge={vi.fn()} />, { wrapper: MemoryRouter });
+
+    expect(screen.getByText('alerts.empty')).toBeInTheDocument();
+  });
+});
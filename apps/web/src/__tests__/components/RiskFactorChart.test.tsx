@@ -0,0 +1,55 @@
+/**
+ * RiskFactorChart Component Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '../../test/setup';
+import RiskFactorChart, { type RiskFactorView } from '@/components/risk/RiskFactorChart';
+
+const factors: RiskFactorView[] = [
+  {
+    factor: 'LENGTH_OF_STAY',
+    reason: 'LONG_LOS',
+    weight: 0.714,
+    contribution: 71.4,
+    explanation: '80 days in care against a target of 30 days',
+    explanationKey: 'lengthOfStay.overDouble',
+    explanationParams: { lengthOfStay: 80, targetLos: 30 },
+  },
+  {
+    factor: 'SENIOR',
+    reason: null,
+    weight: 0.143,
+    contribution: 0,
+    explanation: 'Not a senior',
+    explanationKey: 'senior.no',
+    explanationParams: {},
+  },
+];
+
+describe('RiskFactorChart', () => {
+  it('should render a row per factor with its localized label and explanation', () => {
+    render(<RiskFactorChart factors={factors} />);
+
+    const los = screen.getByTestId('risk-factor-LENGTH_OF_STAY');
+    expect(within(los).getByText('factorTypes.length_of_stay')).toBeInTheDocument();
+    expect(within(los).getByText('factorExplanations.lengthOfStay.overDouble')).toBeInTheDocument();
+    expect(screen.getByTestId('risk-factor-SENIOR')).toBeInTheDocument();
+  });
+
+  it('should fill each bar to the contribution out of the factor maximum', () => {
+    render(<RiskFactorChart factors={factors} />);
+
+    const [los, senior] = screen.getAllByRole('meter');
+    expect(los).toHaveAttribute('aria-valuenow', '71');
+    expect(los).toHaveAttribute('aria-valuemax', '71');
+    expect(senior).toHaveAttribute('aria-valuenow', '0');
+    expect(senior).toHaveAttribute('aria-valuemax', '14');
+  });
+
+  it('should say when there is no breakdown', () => {
+    render(<RiskFactorChart factors={[]} />);
+
+    expect(screen.getByText('factors.empty')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * RiskSparkline Component Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '../../test/setup';
+import RiskSparkline, { getSparklinePoints } from '@/components/risk/RiskSparkline';
+
+describe('RiskSparkline', () => {
+  describe('getSparklinePoints', () => {
+    it('should spread scores across the width on a 0-100 scale', () => {
+      expect(getSparklinePoints([0, 50, 100], 100, 20)).toBe('0.0,20.0 50.0,10.0 100.0,0.0');
+    });
+
+    it('should clamp scores outside 0-100', () => {
+      expect(getSparklinePoints([-10, 120], 10, 10)).toBe('0.0,10.0 10.0,0.0');
+    });
+  });
+
+  describe('Rendering', () => {
+    it('should draw a line with the trend in its label', () => {
+      const { container } = render(<RiskSparkline scores={[40, 45, 62]} trend="RISING" />);
+
+      const svg = screen.getByRole('img');
+      expect(svg).toHaveAttribute('aria-label', 'history.sparklineLabel: history.trend.rising');
+      expect(svg.getAttribute('class')).toContain('text-red-500');
+      expect(container.querySelector('polyline')).toBeInTheDocument();
+    });
+
+    it('should say so when there is not enough history', () => {
+      render(<RiskSparkline scores={[40]} />);
+
+      expect(screen.queryByRole('img')).not.toBeInTheDocument();
+      expect(screen.getByText('history.notEnoughData')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { Heart } from 'lucide-react';
+
+interface AuthLayoutProps {
+  title: string;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
+/**
+ * Full-page shell for the signed-out screens that email links open
+ * (password reset, email verification, invitations).
+ */
+export default function AuthLayout({ title, children, footer }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-900 to-primary-700 flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center">
+          <div className="flex items-center gap-2">
+            <Heart className="h-10 w-10 text-white" />
+            <span className="text-3xl font-bold text-white">Shelter Link</span>
+          </div>
+        </div>
+
+        <h2 className="mt-6 text-center text-xl text-primary-100">{title}</h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-xl rounded-xl sm:px-10">{children}</div>
+
+        {footer && <p className="mt-6 text-center text-sm text-primary-200">{footer}</p>}
+      </div>
+    </div>
+  );
+}
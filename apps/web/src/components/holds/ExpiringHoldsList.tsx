@@ -0,0 +1,76 @@
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import clsx from 'clsx';
+
+export interface ExpiringHoldView {
+  id: string;
+  animalId: string;
+  animal: { id: string; name: string; species: string; kennelNumber: string | null };
+  holdType: string;
+  reason: string;
+  caseNumber: string | null;
+  endDate: string;
+  hoursRemaining: number;
+}
+
+interface ExpiringHoldsListProps {
+  holds: ExpiringHoldView[];
+}
+
+/** Under this many hours the hold is flagged red */
+const URGENT_HOURS = 12;
+
+/**
+ * Active holds ending soon, soonest first, so staff can plan what happens
+ * when each one ends
+ */
+export default function ExpiringHoldsList({ holds }: ExpiringHoldsListProps) {
+  const { t } = useTranslation('animals');
+
+  if (holds.length === 0) {
+    return (
+      <div className="p-6 text-center text-slate-500">
+        <Lock className="h-8 w-8 text-slate-300 mx-auto mb-2" />
+        {t('holds.noneExpiring')}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {holds.map((hold) => (
+        <li key={hold.id} className="p-4 flex items-start gap-4" data-testid={`expiring-hold-${hold.id}`}>
+          <span className="text-xs font-medium rounded px-2 py-0.5 bg-slate-100 text-slate-700 whitespace-nowrap">
+            {t(`holds.types.${hold.holdType}`)}
+          </span>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-slate-900">
+              <Link to={`/animals/${hold.animalId}`} className="font-medium hover:text-primary-600">
+                {hold.animal.name}
+              </Link>
+              {hold.animal.kennelNumber && (
+                <span className="text-slate-500"> · {hold.animal.kennelNumber}</span>
+              )}
+            </p>
+            <p className="text-xs text-slate-500 mt-0.5 truncate">
+              {hold.caseNumber ? `${hold.caseNumber} · ${hold.reason}` : hold.reason}
+            </p>
+            <p className="text-xs text-slate-400 mt-1">
+              {t('holds.ends', { date: new Date(hold.endDate).toLocaleString() })}
+            </p>
+          </div>
+          <span
+            className={clsx(
+              'text-xs font-medium rounded px-2 py-0.5 whitespace-nowrap',
+              hold.hoursRemaining < URGENT_HOURS ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+            )}
+            data-testid={hold.hoursRemaining < URGENT_HOURS ? 'hold-urgent' : 'hold-soon'}
+          >
+            {t('holds.hoursLeft', { count: hold.hoursRemaining })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import clsx from 'clsx';
+
+export const STRESS_LEVELS = ['NONE', 'MILD', 'MODERATE', 'SEVERE', 'CRITICAL'] as const;
+
+export const ENRICHMENT_TYPES = [
+  'WALK',
+  'PLAYGROUP',
+  'FOOD_PUZZLE',
+  'TOY',
+  'SOCIAL_TIME',
+  'TRAINING',
+  'SENSORY',
+  'OUTING',
+  'OTHER',
+] as const;
+
+export interface QuickObservation {
+  stressLevel: (typeof STRESS_LEVELS)[number];
+  enrichment: (typeof ENRICHMENT_TYPES)[number][];
+  notes: string | null;
+}
+
+interface QuickObservationFormProps {
+  onSubmit: (observation: QuickObservation) => void;
+  /** Save in flight */
+  isSaving?: boolean;
+}
+
+const STRESS_STYLES: Record<QuickObservation['stressLevel'], string> = {
+  NONE: 'bg-green-600 text-white border-green-600',
+  MILD: 'bg-lime-500 text-white border-lime-500',
+  MODERATE: 'bg-amber-500 text-white border-amber-500',
+  SEVERE: 'bg-orange-600 text-white border-orange-600',
+  CRITICAL: 'bg-red-600 text-white border-red-600',
+};
+
+/**
+ * One-tap kennel check: stress level, enrichment chips and an optional
+ * note. Buttons are sized for a thumb on a phone.
+ */
+export default function QuickObservationForm({ onSubmit, isSaving }: QuickObservationFormProps) {
+  const { t } = useTranslation('animals');
+  const [stressLevel, setStressLevel] = useState<QuickObservation['stressLevel'] | null>(null);
+  const [enrichment, setEnrichment] = useState<QuickObservation['enrichment']>([]);
+  const [notes, setNotes] = useState('');
+
+  const toggleEnrichment = (type: QuickObservation['enrichment'][number]) => {
+    setEnrichment((current) =>
+      current.includes(type) ? current.filter((e) => e !== type) : [...current, type]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stressLevel) return;
+    onSubmit({ stressLevel, enrichment, notes: notes.trim() || null });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700 mb-2">
+          {t('kennelRound.stressLevel')}
+        </legend>
+        <div className="grid grid-cols-5 gap-2">
+          {STRESS_LEVELS.map((level) => (
+            <button
+              key={level}
+              type="button"
+              aria-pressed={stressLevel === level}
+              onClick={() => setStressLevel(level)}
+              className={clsx(
+                'min-h-[44px] rounded-lg border text-xs font-medium',
+                stressLevel === level ? STRESS_STYLES[level] : 'bg-white text-slate-700 border-slate-300'
+              )}
+            >
+              {t(`kennelRound.stress.${level}`)}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700 mb-2">
+          {t('kennelRound.enrichment')}
+        </legend>
+        <div className="flex flex-wrap gap-2">
+          {ENRICHMENT_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              aria-pressed={enrichment.includes(type)}
+              onClick={() => toggleEnrichment(type)}
+              className={clsx(
+                'min-h-[44px] rounded-full border px-3 text-sm',
+                enrichment.includes(type)
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-slate-700 border-slate-300'
+              )}
+            >
+              {t(`kennelRound.enrichmentTypes.${type}`)}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block">
+        <span className="text-sm font-medium text-slate-700">{t('kennelRound.notes')}</span>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={t('kennelRound.notesPlaceholder')}
+          maxLength={1000}
+          rows={2}
+          className="input w-full resize-none mt-1"
+        />
+      </label>
+
+      <button
+        type="submit"
+        className="btn btn-primary w-full min-h-[44px]"
+        disabled={!stressLevel || isSaving}
+      >
+        {t('kennelRound.save')}
+      </button>
+    </form>
+  );
+}
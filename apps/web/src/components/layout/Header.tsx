@@ -1,6 +1,10 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Bell, Search, User } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Bell, Building2, Search, User } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { useAuthStore } from '@/stores/auth';
+import { api, ApiError } from '@/lib/api';
 
 export default function Header() {
   const { t } = useTranslation();
@@ -32,6 +36,8 @@ export default function Header() {
 
         {/* Right side actions */}
         <div className="flex items-center gap-2">
+          <OrganizationSwitcher />
+
           {/* Search button (mobile) */}
           <button
             type="button"
@@ -68,3 +74,65 @@ export default function Header() {
     </header>
   );
 }
+
+interface SwitchOrganizationResponse {
+  accessToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Lets users who belong to several organizations change which one they act for.
+ * Hidden for single-membership users.
+ */
+function OrganizationSwitcher() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const setOrganization = useAuthStore((state) => state.setOrganization);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!user || (user.organizations?.length ?? 0) < 2) {
+    return null;
+  }
+
+  const handleChange = async (organizationId: string) => {
+    if (organizationId === user.organizationId) return;
+    setIsSwitching(true);
+    try {
+      const response = await api.post<SwitchOrganizationResponse>('/auth/switch-organization', {
+        organizationId,
+      });
+      if (response.success && response.data) {
+        setOrganization(organizationId, response.data.accessToken);
+        // Everything cached so far belongs to the previous organization
+        queryClient.clear();
+      }
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : t('errors.generic'));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <Building2
+        className="pointer-events-none absolute left-2.5 h-4 w-4 text-slate-400"
+        aria-hidden="true"
+      />
+      <select
+        value={user.organizationId}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={isSwitching}
+        className="input py-1.5 pl-8 text-sm max-w-[200px]"
+        aria-label="Switch organization"
+      >
+        {user.organizations.map((membership) => (
+          <option key={membership.id} value={membership.id}>
+            {membership.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import {
   LayoutDashboard,
   PawPrint,
   AlertTriangle,
+  ClipboardCheck,
   ArrowLeftRight,
   Menu,
 } from 'lucide-react';
@@ -12,6 +13,7 @@ import clsx from 'clsx';
 const navItems = [
   { to: '/', icon: LayoutDashboard, labelKey: 'nav.dashboard', exact: true },
   { to: '/animals', icon: PawPrint, labelKey: 'nav.animals' },
+  { to: '/kennel-round', icon: ClipboardCheck, labelKey: 'nav.kennelRound' },
   { to: '/at-risk', icon: AlertTriangle, labelKey: 'At Risk' },
   { to: '/transfers', icon: ArrowLeftRight, labelKey: 'nav.transfers' },
   { to: '/more', icon: Menu, labelKey: 'More' },
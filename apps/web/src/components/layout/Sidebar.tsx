@@ -4,6 +4,7 @@ import {
   LayoutDashboard,
   PawPrint,
   AlertTriangle,
+  ClipboardCheck,
   ArrowLeftRight,
   Upload,
   Settings,
@@ -11,11 +12,13 @@ import {
   Heart,
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth';
+import { signOut } from '@/lib/api';
 import clsx from 'clsx';
 
 const navItems = [
   { to: '/', icon: LayoutDashboard, labelKey: 'nav.dashboard', exact: true },
   { to: '/animals', icon: PawPrint, labelKey: 'nav.animals' },
+  { to: '/kennel-round', icon: ClipboardCheck, labelKey: 'nav.kennelRound' },
   { to: '/at-risk', icon: AlertTriangle, labelKey: 'At Risk' },
   { to: '/transfers', icon: ArrowLeftRight, labelKey: 'nav.transfers' },
   { to: '/import', icon: Upload, labelKey: 'nav.import' },
@@ -24,7 +27,6 @@ const navItems = [
 
 export default function Sidebar() {
   const { t } = useTranslation();
-  const logout = useAuthStore((state) => state.logout);
   const user = useAuthStore((state) => state.user);
 
   return (
@@ -76,7 +78,7 @@ export default function Sidebar() {
                 </div>
                 
                 <button
-                  onClick={logout}
+                  onClick={() => signOut()}
                   className="group flex w-full gap-x-3 rounded-md p-2 text-sm font-medium leading-6 text-primary-200 hover:bg-primary-800 hover:text-white transition-colors"
                 >
                   <LogOut className="h-5 w-5 shrink-0" aria-hidden="true" />
@@ -0,0 +1,148 @@
+import { useTranslation } from 'react-i18next';
+import { Stethoscope, Syringe } from 'lucide-react';
+
+export interface MedicalRecordView {
+  id: string;
+  recordType: string;
+  date: string;
+  /** Staff only; absent from the public view */
+  diagnosis?: string | null;
+  treatment?: string | null;
+  veterinarian?: string | null;
+  followUpRequired?: boolean;
+  followUpDate?: string | null;
+  followUpCompletedAt?: string | null;
+}
+
+export interface VaccinationView {
+  id: string;
+  vaccineType: string;
+  dateGiven: string;
+  nextDueDate?: string | null;
+}
+
+interface MedicalHistoryProps {
+  records: MedicalRecordView[];
+  vaccinations: VaccinationView[];
+}
+
+const DUE_SOON_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DueState = 'overdue' | 'dueSoon' | 'scheduled';
+
+function dueState(date: string): DueState {
+  const remaining = new Date(date).getTime() - Date.now();
+  if (remaining < 0) return 'overdue';
+  if (remaining <= DUE_SOON_DAYS * DAY_MS) return 'dueSoon';
+  return 'scheduled';
+}
+
+const DUE_STYLES: Record<DueState, string> = {
+  overdue: 'bg-red-100 text-red-700',
+  dueSoon: 'bg-amber-100 text-amber-700',
+  scheduled: 'bg-slate-100 text-slate-600',
+};
+
+/**
+ * Medical records and vaccinations, newest first, with follow-ups and
+ * next doses flagged when they are due within a week or overdue
+ */
+export default function MedicalHistory({ records, vaccinations }: MedicalHistoryProps) {
+  const { t } = useTranslation('animals');
+
+  const due = (date: string, key: string) => {
+    const state = dueState(date);
+    return (
+      <span
+        className={`text-xs rounded px-2 py-0.5 ${DUE_STYLES[state]}`}
+        data-testid={`due-${state}`}
+      >
+        {t(`medical.${key}`, { date: new Date(date).toLocaleDateString() })}
+        {state === 'overdue' && ` · ${t('medical.overdue')}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <section>
+        <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+          <Stethoscope className="h-4 w-4" />
+          {t('medical.records')}
+        </h3>
+        {records.length === 0 ? (
+          <p className="text-sm text-slate-500">{t('medical.noRecords')}</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {records.map((record) => (
+              <li key={record.id} className="py-3" data-testid={`medical-record-${record.id}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-slate-900">
+                    {t(`medical.recordTypes.${record.recordType}`, { defaultValue: record.recordType })}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {new Date(record.date).toLocaleDateString()}
+                  </span>
+                </div>
+                {record.diagnosis && (
+                  <p className="text-sm text-slate-600 mt-1">{record.diagnosis}</p>
+                )}
+                {record.treatment && (
+                  <p className="text-xs text-slate-500 mt-1">{record.treatment}</p>
+                )}
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {record.followUpRequired && record.followUpDate && (
+                    record.followUpCompletedAt ? (
+                      <span className="text-xs rounded px-2 py-0.5 bg-green-100 text-green-700">
+                        {t('medical.followUpDone')}
+                      </span>
+                    ) : (
+                      due(record.followUpDate, 'followUp')
+                    )
+                  )}
+                  {record.veterinarian && (
+                    <span className="text-xs text-slate-400">{record.veterinarian}</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+          <Syringe className="h-4 w-4" />
+          {t('medical.vaccinations')}
+        </h3>
+        {vaccinations.length === 0 ? (
+          <p className="text-sm text-slate-500">{t('medical.noVaccinations')}</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {vaccinations.map((vaccination, i) => {
+              // Only the latest dose of a vaccine says when the next one is due
+              const isLatest = !vaccinations
+                .slice(0, i)
+                .some((v) => v.vaccineType === vaccination.vaccineType);
+
+              return (
+                <li key={vaccination.id} className="py-3" data-testid={`vaccination-${vaccination.id}`}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-slate-900">{vaccination.vaccineType}</span>
+                    <span className="text-xs text-slate-500">
+                      {t('medical.given', { date: new Date(vaccination.dateGiven).toLocaleDateString() })}
+                    </span>
+                  </div>
+                  {isLatest && vaccination.nextDueDate && (
+                    <div className="mt-1">{due(vaccination.nextDueDate, 'nextDue')}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
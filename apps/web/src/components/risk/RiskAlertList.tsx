@@ -0,0 +1,86 @@
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Bell, Check } from 'lucide-react';
+import RiskSeverityBadge, { type RiskSeverityLevel } from './RiskSeverityBadge';
+
+export interface RiskAlertView {
+  id: string;
+  animalId: string;
+  animal?: { id: string; name: string; species: string };
+  severity: RiskSeverityLevel;
+  previousScore: number;
+  newScore: number;
+  previousSeverity: RiskSeverityLevel;
+  newSeverity: RiskSeverityLevel;
+  recommendedActions: string[];
+  createdAt: string;
+}
+
+interface RiskAlertListProps {
+  alerts: RiskAlertView[];
+  onAcknowledge: (id: string) => void;
+  /** Alert whose acknowledgement is in flight */
+  acknowledgingId?: string | null;
+}
+
+/**
+ * Open threshold alerts, newest first, each with its suggested next steps
+ */
+export default function RiskAlertList({ alerts, onAcknowledge, acknowledgingId }: RiskAlertListProps) {
+  const { t } = useTranslation('risk');
+
+  if (alerts.length === 0) {
+    return (
+      <div className="p-6 text-center text-slate-500">
+        <Bell className="h-8 w-8 text-slate-300 mx-auto mb-2" />
+        {t('alerts.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {alerts.map((alert) => (
+        <li key={alert.id} className="p-4 flex items-start gap-4" data-testid={`risk-alert-${alert.id}`}>
+          <RiskSeverityBadge severity={alert.severity} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-slate-900">
+              <Link to={`/animals/${alert.animalId}`} className="font-medium hover:text-primary-600">
+                {alert.animal?.name ?? alert.animalId}
+              </Link>{' '}
+              <span className="text-slate-500">
+                {t('alerts.crossed', {
+                  from: t(`severity.${alert.previousSeverity.toLowerCase()}`),
+                  to: t(`severity.${alert.newSeverity.toLowerCase()}`),
+                  previousScore: alert.previousScore,
+                  newScore: alert.newScore,
+                })}
+              </span>
+            </p>
+            {alert.recommendedActions.length > 0 && (
+              <ul className="mt-1 flex flex-wrap gap-1" aria-label={t('alerts.recommended')}>
+                {alert.recommendedActions.map((action) => (
+                  <li key={action} className="text-xs bg-slate-100 text-slate-600 rounded px-2 py-0.5">
+                    {t(`alerts.actions.${action}`, { defaultValue: action })}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-slate-400 mt-1">
+              {new Date(alert.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            type="button"
+            className="btn btn-secondary btn-sm"
+            onClick={() => onAcknowledge(alert.id)}
+            disabled={acknowledgingId === alert.id}
+          >
+            <Check className="h-4 w-4" />
+            {t('alerts.acknowledge')}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,73 @@
+import { useTranslation } from 'react-i18next';
+
+export interface RiskFactorView {
+  factor: string;
+  reason: string | null;
+  /** Share of the score this factor can add (0-1) */
+  weight: number;
+  /** Points this factor added */
+  contribution: number;
+  explanation: string;
+  explanationKey: string;
+  explanationParams: Record<string, string | number>;
+}
+
+interface RiskFactorChartProps {
+  factors: RiskFactorView[];
+}
+
+/**
+ * Bar per factor on the 0-100 score scale: the filled part is what the
+ * factor added, the track behind it the most it could add.
+ */
+export default function RiskFactorChart({ factors }: RiskFactorChartProps) {
+  const { t } = useTranslation('risk');
+
+  if (factors.length === 0) {
+    return <p className="text-sm text-slate-500">{t('factors.empty')}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {factors.map((f) => {
+        const max = Math.round(f.weight * 100);
+        const points = Math.round(f.contribution);
+
+        return (
+          <li key={f.factor} data-testid={`risk-factor-${f.factor}`}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-slate-700">
+                {t(`factorTypes.${f.factor.toLowerCase()}`, { defaultValue: f.factor })}
+              </span>
+              <span className="text-xs text-slate-500">
+                {t('factors.points', { points, max })}
+              </span>
+            </div>
+            <div
+              className="relative h-2 mt-1 bg-slate-100 rounded-full overflow-hidden"
+              role="meter"
+              aria-valuemin={0}
+              aria-valuemax={max}
+              aria-valuenow={points}
+            >
+              <div
+                className="absolute inset-y-0 left-0 bg-slate-200 rounded-full"
+                style={{ width: `${f.weight * 100}%` }}
+              />
+              <div
+                className="absolute inset-y-0 left-0 bg-orange-500 rounded-full"
+                style={{ width: `${f.contribution}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {t(`factorExplanations.${f.explanationKey}`, {
+                ...f.explanationParams,
+                defaultValue: f.explanation,
+              })}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
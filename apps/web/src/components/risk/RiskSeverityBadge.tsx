@@ -1,7 +1,9 @@
 import { useTranslation } from 'react-i18next';
 import clsx from 'clsx';
 
-type Severity = 'CRITICAL' | 'HIGH' | 'ELEVATED' | 'MODERATE' | 'LOW' | string;
+export type RiskSeverityLevel = 'CRITICAL' | 'HIGH' | 'ELEVATED' | 'MODERATE' | 'LOW';
+
+type Severity = RiskSeverityLevel | string;
 
 interface RiskSeverityBadgeProps {
   severity: Severity;
@@ -0,0 +1,78 @@
+import { useTranslation } from 'react-i18next';
+import clsx from 'clsx';
+
+type Trend = 'RISING' | 'STABLE' | 'FALLING' | string;
+
+interface RiskSparklineProps {
+  /** Urgency scores, oldest first */
+  scores: number[];
+  trend?: Trend;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const trendClasses: Record<string, string> = {
+  RISING: 'text-red-500',
+  FALLING: 'text-green-500',
+  STABLE: 'text-slate-400',
+};
+
+/**
+ * Scores on a fixed 0-100 scale so sparklines are comparable across animals
+ */
+export function getSparklinePoints(scores: number[], width: number, height: number): string {
+  if (scores.length === 0) return '';
+  const step = scores.length > 1 ? width / (scores.length - 1) : 0;
+
+  return scores
+    .map((score, i) => {
+      const x = scores.length > 1 ? i * step : width / 2;
+      const y = height - (Math.min(Math.max(score, 0), 100) / 100) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export default function RiskSparkline({
+  scores,
+  trend = 'STABLE',
+  width = 96,
+  height = 24,
+  className,
+}: RiskSparklineProps) {
+  const { t } = useTranslation('risk');
+  const trendKey = trend.toLowerCase();
+
+  if (scores.length < 2) {
+    return (
+      <span className={clsx('text-xs text-slate-400', className)}>
+        {t('history.notEnoughData')}
+      </span>
+    );
+  }
+
+  const points = getSparklinePoints(scores, width, height);
+  const last = points.split(' ').pop()!.split(',');
+
+  return (
+    <svg
+      role="img"
+      aria-label={`${t('history.sparklineLabel')}: ${t(`history.trend.${trendKey}`)}`}
+      width={width}
+      height={height}
+      viewBox={`-2 -2 ${width + 4} ${height + 4}`}
+      className={clsx(trendClasses[trend] ?? trendClasses.STABLE, className)}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={last[0]} cy={last[1]} r={2} fill="currentColor" />
+    </svg>
+  );
+}
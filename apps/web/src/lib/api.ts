@@ -11,6 +11,7 @@ interface ApiOptions extends RequestInit {
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
+  message?: string;
   error?: {
     code: string;
     message: string;
@@ -21,8 +22,20 @@ interface ApiResponse<T> {
     limit: number;
     offset: number;
   };
+  /** Set by list endpoints that take page/pageSize */
+  pagination?: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
 }
 
+// Endpoints where a 401 means bad credentials rather than an expired token
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/logout'];
+
 class ApiError extends Error {
   constructor(
     public code: string,
@@ -37,7 +50,8 @@ class ApiError extends Error {
 
 async function request<T>(
   endpoint: string,
-  options: ApiOptions = {}
+  options: ApiOptions = {},
+  isRetry = false
 ): Promise<ApiResponse<T>> {
   const { params, ...fetchOptions } = options;
   
@@ -119,14 +133,13 @@ async function request<T>(
     const data: ApiResponse<T> = await response.json();
     
     if (!response.ok) {
-      // Handle token expiration
-      if (response.status === 401) {
+      // Handle token expiration - refresh once, then retry the original request
+      if (response.status === 401 && !NO_REFRESH_ENDPOINTS.includes(endpoint)) {
         const refreshToken = useAuthStore.getState().refreshToken;
-        if (refreshToken) {
+        if (refreshToken && !isRetry) {
           const refreshed = await refreshAccessToken(refreshToken);
           if (refreshed) {
-            // Retry original request
-            return request<T>(endpoint, options);
+            return request<T>(endpoint, options, true);
           }
         }
         useAuthStore.getState().logout();
@@ -155,7 +168,20 @@ async function request<T>(
   }
 }
 
-async function refreshAccessToken(refreshToken: string): Promise<boolean> {
+// Shared so that parallel 401s trigger a single refresh; refresh tokens are
+// single-use and a second rotation with the same token would revoke the session
+let refreshInFlight: Promise<boolean> | null = null;
+
+function refreshAccessToken(refreshToken: string): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = doRefresh(refreshToken).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function doRefresh(refreshToken: string): Promise<boolean> {
   try {
     const response = await fetch(`${API_BASE}/auth/refresh`, {
       method: 'POST',
@@ -169,9 +195,7 @@ async function refreshAccessToken(refreshToken: string): Promise<boolean> {
     
     const data = await response.json();
     if (data.success && data.data) {
-      const state = useAuthStore.getState();
-      state.login(
-        state.user!,
+      useAuthStore.getState().setTokens(
         data.data.accessToken,
         data.data.refreshToken || refreshToken
       );
@@ -184,6 +208,28 @@ async function refreshAccessToken(refreshToken: string): Promise<boolean> {
   }
 }
 
+/**
+ * Revoke the session on the server, then clear local auth state.
+ * With `everywhere`, every device signed in to the account is signed out.
+ */
+export async function signOut(everywhere = false): Promise<void> {
+  const { refreshToken } = useAuthStore.getState();
+  try {
+    if (everywhere) {
+      await request('/auth/logout-all', { method: 'POST' });
+    } else {
+      await request('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: refreshToken || undefined }),
+      });
+    }
+  } catch {
+    // Local sign-out still happens if the server can't be reached
+  } finally {
+    useAuthStore.getState().logout();
+  }
+}
+
 // API methods
 export const api = {
   get: <T>(endpoint: string, params?: Record<string, any>) =>
@@ -109,7 +109,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Brindle',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(1, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-001', 92, ['LONG_LOS', 'SENIOR', 'BSL_AFFECTED', 'CAPACITY_PRESSURE']),
+    riskProfile: createRiskProfile('animal-001', 92, ['LONG_LOS', 'SENIOR', 'CAPACITY_PRESSURE']),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(120),
@@ -131,7 +131,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Black',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(2, 'CAT'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-002', 88, ['LONG_LOS', 'SENIOR', 'FIV_FELV', 'BLACK_ANIMAL']),
+    riskProfile: createRiskProfile('animal-002', 88, ['LONG_LOS', 'SENIOR', 'FIV_FELV']),
     organizationId: 'org-001',
     locationId: 'loc-002',
     createdAt: daysAgo(90),
@@ -153,7 +153,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Black and Tan',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(3, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-003', 85, ['KENNEL_STRESS', 'BEHAVIORAL_DECLINE', 'LARGE_BREED']),
+    riskProfile: createRiskProfile('animal-003', 85, ['KENNEL_STRESS', 'BEHAVIORAL_DECLINE']),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(45),
@@ -199,7 +199,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Black and Rust',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(5, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-005', 68, ['LONG_LOS', 'LARGE_BREED', 'BSL_AFFECTED']),
+    riskProfile: createRiskProfile('animal-005', 68, ['LONG_LOS']),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(75),
@@ -243,7 +243,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Black',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(7, 'CAT'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-007', 62, ['LONG_LOS', 'BLACK_ANIMAL', 'LOW_INTEREST']),
+    riskProfile: createRiskProfile('animal-007', 62, ['LONG_LOS', 'LOW_INTEREST']),
     organizationId: 'org-001',
     locationId: 'loc-002',
     createdAt: daysAgo(55),
@@ -311,7 +311,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Fawn',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(10, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-010', 52, ['CAPACITY_PRESSURE', 'LARGE_BREED']),
+    riskProfile: createRiskProfile('animal-010', 52, ['CAPACITY_PRESSURE']),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(28),
@@ -377,7 +377,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'Blue',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(13, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-013', 42, ['LARGE_BREED', 'CAPACITY_PRESSURE']),
+    riskProfile: createRiskProfile('animal-013', 42, ['CAPACITY_PRESSURE']),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(25),
@@ -1020,7 +1020,7 @@ export const mockAnimals: MockAnimal[] = [
     primaryColor: 'White',
     isSpayedNeutered: true,
     photos: [{ url: getAnimalImage(42, 'DOG'), isPrimary: true }],
-    riskProfile: createRiskProfile('animal-042', 25, ['LARGE_BREED']),
+    riskProfile: createRiskProfile('animal-042', 25, []),
     organizationId: 'org-001',
     locationId: 'loc-001',
     createdAt: daysAgo(8),
@@ -1103,6 +1103,286 @@ export const getAtRiskAnimals = (): MockAnimal[] => {
   );
 };
 
+// Open threshold alerts, as recalculation raises them when an animal moves
+// up into ELEVATED, HIGH or CRITICAL. Acknowledging updates this list.
+const ALERT_ACTIONS: Record<string, string[]> = {
+  CRITICAL: ['CONTACT_RESCUE_PARTNERS', 'REQUEST_TRANSFER', 'CONTACT_FOSTERS'],
+  HIGH: ['FEATURE_LISTING', 'CONTACT_FOSTERS', 'REDUCE_ADOPTION_FEE'],
+  ELEVATED: ['FEATURE_LISTING', 'REVIEW_ENRICHMENT'],
+};
+const SEVERITY_BELOW: Record<string, string> = { CRITICAL: 'HIGH', HIGH: 'ELEVATED', ELEVATED: 'MODERATE' };
+const SCORE_BELOW: Record<string, number> = { CRITICAL: 79, HIGH: 59, ELEVATED: 39 };
+
+export const mockRiskAlerts = getAtRiskAnimals().map((animal, i) => {
+  const { severity, urgencyScore, riskReasons } = animal.riskProfile!;
+  return {
+    id: `alert-${String(i + 1).padStart(3, '0')}`,
+    animalId: animal.id,
+    animal: { id: animal.id, name: animal.name, species: animal.species },
+    alertType: 'THRESHOLD_CROSSED',
+    severity,
+    previousScore: SCORE_BELOW[severity],
+    newScore: urgencyScore,
+    previousSeverity: SEVERITY_BELOW[severity],
+    newSeverity: severity,
+    triggeringFactors: riskReasons,
+    message: `Risk rose from ${SEVERITY_BELOW[severity]} (${SCORE_BELOW[severity]}) to ${severity} (${urgencyScore})`,
+    recommendedActions: [
+      ...ALERT_ACTIONS[severity],
+      ...(riskReasons.includes('SENIOR') ? ['SENIOR_ADOPTER_OUTREACH'] : []),
+      ...(riskReasons.includes('SPECIAL_NEEDS') ? ['SPECIAL_NEEDS_OUTREACH'] : []),
+    ],
+    acknowledged: false,
+    acknowledgedBy: null as string | null,
+    acknowledgedAt: null as string | null,
+    resolutionNotes: null as string | null,
+    createdAt: new Date(Date.now() - (i + 1) * 3 * 60 * 60 * 1000).toISOString(),
+  };
+});
+
+// Helper to build an animal's medical history: an intake exam, and the
+// core vaccine with its booster three weeks later (due soon for new arrivals)
+const CORE_VACCINE: Record<string, string> = { DOG: 'DHPP', CAT: 'FVRCP' };
+
+export const getMedicalHistory = (animalId: string) => {
+  const animal = mockAnimals.find((a) => a.id === animalId);
+  if (!animal) return null;
+
+  const daysInCare = Math.floor((Date.now() - new Date(animal.intakeDate).getTime()) / (24 * 60 * 60 * 1000));
+  const records = [
+    {
+      id: `${animalId}-rec-1`,
+      animalId,
+      recordType: 'INTAKE_EXAM',
+      date: animal.intakeDate,
+      diagnosis: animal.description?.includes('FIV') ? 'FIV positive, asymptomatic' : null,
+      treatment: 'Dewormer, flea treatment',
+      medications: [],
+      weightKg: animal.weight ? Math.round((animal.weightUnit === 'LB' ? animal.weight / 2.2 : animal.weight) * 10) / 10 : null,
+      bodyConditionScore: 5,
+      prognosis: null,
+      followUpRequired: daysInCare < 14,
+      followUpDate: daysInCare < 14 ? daysAgo(daysInCare - 14) : null,
+      followUpCompletedAt: null,
+      isTreatable: true,
+      affectsAdoptability: false,
+      estimatedCost: null,
+      veterinarian: 'Dr. Rivera',
+      notes: null,
+      isPublic: true,
+      createdAt: animal.intakeDate,
+      updatedAt: animal.intakeDate,
+    },
+  ];
+
+  const vaccineType = CORE_VACCINE[animal.species];
+  const dose = (n: number, given: number, nextDue: number) => ({
+    id: `${animalId}-vacc-${n}`,
+    animalId,
+    vaccineType,
+    product: null,
+    lotNumber: null,
+    dateGiven: daysAgo(given),
+    expirationDate: null,
+    nextDueDate: daysAgo(nextDue),
+    route: 'SUBCUTANEOUS',
+    site: null,
+    administeredBy: 'Demo User',
+    notes: null,
+    isPublic: true,
+    createdAt: daysAgo(given),
+  });
+  const vaccinations = !vaccineType
+    ? []
+    : daysInCare < 21
+      ? [dose(1, daysInCare, daysInCare - 21)]
+      : [dose(2, daysInCare - 21, daysInCare - 21 - 365), dose(1, daysInCare, daysInCare - 21)];
+
+  return { records, vaccinations };
+};
+
+// Kennel observations logged today on the round. Animals on site get a
+// kennel number from their position; logging one adds to this list.
+export const mockKennelObservations: {
+  id: string;
+  animalId: string;
+  observedAt: string;
+  stressLevel: string;
+  enrichment: string[];
+  notes: string | null;
+  observer: string | null;
+  createdAt: string;
+}[] = [];
+
+export const getKennelRound = (includeObserved = false) => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const entries = mockAnimals
+    .filter((animal) => animal.status !== 'IN_FOSTER')
+    .map((animal, i) => {
+      const last = mockKennelObservations
+        .filter((o) => o.animalId === animal.id)
+        .sort((a, b) => b.observedAt.localeCompare(a.observedAt))[0];
+      // Seeded animals were last checked yesterday; the stressed dog looks it
+      const lastObservation = last
+        ? { observedAt: last.observedAt, stressLevel: last.stressLevel }
+        : {
+            observedAt: daysAgo(1),
+            stressLevel: animal.description?.includes('kennel stress') ? 'MODERATE' : 'NONE',
+          };
+      return {
+        animal: {
+          id: animal.id,
+          name: animal.name,
+          species: animal.species,
+          kennelNumber: `${animal.species === 'CAT' ? 'C' : 'D'}${i + 1}`,
+        },
+        lastObservation,
+        observedToday: new Date(lastObservation.observedAt) >= startOfToday,
+      };
+    });
+
+  return includeObserved
+    ? entries.sort((a, b) => Number(a.observedToday) - Number(b.observedToday))
+    : entries.filter((entry) => !entry.observedToday);
+};
+
+// Holds on the newest arrivals: a stray hold running out tomorrow and a
+// bite quarantine ending in the evening, for the expiring-holds panel
+export const getExpiringHolds = (hours = 48) => {
+  const newest = [...mockAnimals]
+    .filter((animal) => animal.status !== 'IN_FOSTER')
+    .sort((a, b) => b.intakeDate.localeCompare(a.intakeDate))
+    .slice(0, 2);
+  const hoursFromNow = (h: number) => new Date(Date.now() + h * 60 * 60 * 1000).toISOString();
+  const holds = [
+    { holdType: 'BITE_QUARANTINE', reason: 'Bite report, 10-day observation', caseNumber: 'BR-0412', hoursRemaining: 9 },
+    { holdType: 'STRAY_HOLD', reason: 'Found near the park, no microchip', caseNumber: 'AC-1187', hoursRemaining: 30 },
+  ];
+
+  return newest
+    .map((animal, i) => ({
+      id: `hold-${i + 1}`,
+      animalId: animal.id,
+      animal: { id: animal.id, name: animal.name, species: animal.species, kennelNumber: null },
+      ...holds[i],
+      startDate: animal.intakeDate,
+      endDate: hoursFromNow(holds[i].hoursRemaining),
+      isActive: true,
+      isBlocking: true,
+    }))
+    .filter((hold) => hold.hoursRemaining <= hours);
+};
+
+// Helper to build a daily score history ending at the current score.
+// Scores climb with length of stay, with a deterministic wobble per animal.
+export const getRiskHistory = (animalId: string, days = 30) => {
+  const animal = mockAnimals.find((a) => a.id === animalId);
+  if (!animal?.riskProfile) return null;
+
+  const current = animal.riskProfile.urgencyScore;
+  const seed = animalId.split('').reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  const slope = (seed % 5) * 0.3;
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  const points = Array.from({ length: days }, (_, i) => {
+    const daysAgo = days - 1 - i;
+    const wobble = daysAgo === 0 ? 0 : ((seed + i * 7) % 5) - 2;
+    const urgencyScore = Math.max(0, Math.min(100, Math.round(current - daysAgo * slope + wobble)));
+    return {
+      bucketStart: new Date(today.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+      urgencyScore,
+      riskSeverity: createRiskProfile(animalId, urgencyScore, []).severity,
+      minScore: urgencyScore,
+      maxScore: urgencyScore,
+      samples: 1,
+      isManualOverride: false,
+    };
+  });
+
+  const change = points[points.length - 1].urgencyScore - points[0].urgencyScore;
+  return {
+    animalId,
+    bucket: 'DAY',
+    from: points[0].bucketStart,
+    to: new Date().toISOString(),
+    points,
+    trend: change >= 5 ? 'RISING' : change <= -5 ? 'FALLING' : 'STABLE',
+    change,
+  };
+};
+
+// Helper to build the per-factor breakdown the scoring engine returns,
+// using the default policy (length of stay 0.25, special categories 0.10)
+export const getRiskFactors = (animal: MockAnimal) => {
+  if (!animal.riskProfile) return [];
+
+  const reasons = animal.riskProfile.riskReasons;
+  const lengthOfStay = Math.floor(
+    (Date.now() - new Date(animal.intakeDate).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  const isSenior = reasons.includes('SENIOR');
+  const targetLos = isSenior ? 45 : 30;
+  const losRatio = lengthOfStay / targetLos;
+  const losValue = losRatio >= 2 ? 1 : losRatio >= 1 ? 0.625 : losRatio * 0.5;
+  const hasSpecialNeeds = reasons.includes('SPECIAL_NEEDS') || reasons.includes('FIV_FELV');
+  const medicalReason = reasons.includes('HEARTWORM_POSITIVE') ? 'HEARTWORM_POSITIVE' : null;
+  const evaluatedAt = animal.riskProfile.lastCalculatedAt;
+
+  const factor = (
+    name: string,
+    weight: number,
+    value: number,
+    reason: string | null,
+    explanationKey: string,
+    explanation: string,
+    explanationParams: Record<string, number> = {}
+  ) => ({
+    factor: name,
+    reason,
+    weight: Math.round(weight * 1000) / 1000,
+    value: Math.round(value * 1000) / 1000,
+    contribution: Math.round(weight * value * 1000) / 10,
+    explanation,
+    explanationKey,
+    explanationParams,
+    evaluatedAt,
+  });
+
+  return [
+    factor(
+      'LENGTH_OF_STAY',
+      0.25,
+      losValue,
+      losRatio >= 2 ? 'LONG_LOS' : losRatio >= 1 ? 'APPROACHING_TARGET_LOS' : null,
+      losRatio >= 2 ? 'lengthOfStay.overDouble' : losRatio >= 1 ? 'lengthOfStay.overTarget' : 'lengthOfStay.underTarget',
+      `${lengthOfStay} days in care against a target of ${targetLos} days`,
+      { lengthOfStay, targetLos }
+    ),
+    factor(
+      'SENIOR',
+      0.05,
+      isSenior ? 1 : 0,
+      isSenior ? 'SENIOR' : null,
+      isSenior ? 'senior.yes' : 'senior.no',
+      isSenior ? 'Senior animal' : 'Not a senior'
+    ),
+    factor(
+      'SPECIAL_NEEDS',
+      0.05,
+      hasSpecialNeeds ? 1 : 0,
+      hasSpecialNeeds ? 'SPECIAL_NEEDS' : null,
+      hasSpecialNeeds ? 'specialNeeds.yes' : 'specialNeeds.no',
+      hasSpecialNeeds ? 'Has special needs' : 'No special needs recorded'
+    ),
+    ...(medicalReason
+      ? [factor('MEDICAL', 0.2, 0.75, medicalReason, 'medical.heartworm', 'Heartworm positive')]
+      : []),
+  ];
+};
+
 // Helper to get animals by status
 export const getAnimalsByStatus = (status: string): MockAnimal[] => {
   return mockAnimals.filter((animal) => animal.status === status);
@@ -27,7 +27,7 @@ export interface MockTransfer {
     name: string;
     slug: string;
   };
-  status: 'PENDING' | 'APPROVED' | 'DECLINED' | 'IN_TRANSIT' | 'COMPLETED' | 'CANCELLED';
+  status: 'PENDING' | 'APPROVED' | 'SCHEDULED' | 'DECLINED' | 'IN_TRANSIT' | 'COMPLETED' | 'CANCELLED';
   requestedById: string;
   requestedBy: {
     id: string;
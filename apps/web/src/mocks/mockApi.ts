@@ -6,6 +6,13 @@
 import {
   mockAnimals,
   getAtRiskAnimals,
+  getRiskFactors,
+  getRiskHistory,
+  getMedicalHistory,
+  getKennelRound,
+  getExpiringHolds,
+  mockKennelObservations,
+  mockRiskAlerts,
   searchAnimals,
 } from './data/animals';
 import {
@@ -28,6 +35,7 @@ import {
 export interface MockApiResponse<T> {
   success: boolean;
   data: T;
+  message?: string;
   error?: {
     code: string;
     message: string;
@@ -109,7 +117,7 @@ const routeHandlers: Record<
         success: true,
         data: {
           user: mockUser,
-          token: 'mock-jwt-token-' + Date.now(),
+          accessToken: 'mock-jwt-token-' + Date.now(),
           refreshToken: 'mock-refresh-token-' + Date.now(),
           expiresIn: 900,
         },
@@ -132,12 +140,71 @@ const routeHandlers: Record<
     return {
       success: true,
       data: {
-        token: 'mock-jwt-token-refreshed-' + Date.now(),
+        accessToken: 'mock-jwt-token-refreshed-' + Date.now(),
+        refreshToken: 'mock-refresh-token-' + Date.now(),
         expiresIn: 900,
       },
     };
   },
 
+  '/auth/switch-organization': async (method, _url, body) => {
+    await delay(150);
+    const { organizationId } = body as { organizationId: string };
+    return {
+      success: true,
+      data: {
+        accessToken: `mock-jwt-token-${organizationId}-` + Date.now(),
+        expiresIn: 900,
+      },
+    };
+  },
+
+  '/auth/logout': async () => {
+    await delay(100);
+    return { success: true, data: null };
+  },
+
+  '/auth/logout-all': async () => {
+    await delay(100);
+    return { success: true, data: { revokedSessions: 1 } };
+  },
+
+  '/auth/forgot-password': async () => {
+    await delay(300);
+    return {
+      success: true,
+      data: null,
+      message: 'If an account exists for that email, a reset link has been sent.',
+    };
+  },
+
+  '/auth/reset-password': async () => {
+    await delay(300);
+    return {
+      success: true,
+      data: null,
+      message: 'Your password has been reset. Sign in with your new password.',
+    };
+  },
+
+  '/auth/verify-email': async () => {
+    await delay(300);
+    return { success: true, data: null, message: 'Your email address has been verified.' };
+  },
+
+  '/auth/invitations/accept': async () => {
+    await delay(300);
+    return {
+      success: true,
+      data: {
+        email: 'new.volunteer@shelter.org',
+        role: 'VOLUNTEER',
+        organization: { id: mockOrganization.id, name: mockOrganization.name, slug: mockOrganization.slug },
+      },
+      message: `You have joined ${mockOrganization.name}. Sign in to continue.`,
+    };
+  },
+
   // Health routes
   '/health': async () => {
     return { success: true, data: { status: 'ok', timestamp: new Date().toISOString() } };
@@ -247,6 +314,47 @@ const routeHandlers: Record<
     return { success: true, data: calculateRiskDashboard() };
   },
 
+  '/risk/alerts': async (method, url) => {
+    await delay(150);
+    if (method === 'GET') {
+      const params = parseQueryParams(url);
+      const status = params.status || 'OPEN';
+      const page = parseInt(params.page || '1');
+      const pageSize = parseInt(params.pageSize || '50');
+
+      const alerts = mockRiskAlerts.filter((a) =>
+        status === 'ALL' ? true : status === 'OPEN' ? !a.acknowledged : a.acknowledged
+      );
+      const total = alerts.length;
+
+      return {
+        success: true,
+        data: alerts.slice((page - 1) * pageSize, page * pageSize),
+        pagination: {
+          page,
+          pageSize,
+          totalItems: total,
+          totalPages: Math.ceil(total / pageSize),
+          hasNextPage: page * pageSize < total,
+          hasPreviousPage: page > 1,
+        },
+      };
+    }
+    return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+  },
+
+  // Histories of several animals at once (exact match, ahead of /risk/:animalId)
+  '/risk/history': async (_method, url) => {
+    await delay(150);
+    const params = parseQueryParams(url);
+    const days = parseInt(params.days || '30');
+    const histories = (params.animalIds || '')
+      .split(',')
+      .map((id) => getRiskHistory(id, days))
+      .filter((history) => history !== null);
+    return { success: true, data: histories };
+  },
+
   '/risk/recalculate': async () => {
     await delay(500);
     return {
@@ -326,6 +434,20 @@ const routeHandlers: Record<
     return { success: true, data: calculateDashboardStats() };
   },
 
+  // Kennel round (exact match, ahead of /animals/:id)
+  '/animals/kennel-round': async (_method, url) => {
+    await delay(150);
+    const params = parseQueryParams(url);
+    return { success: true, data: getKennelRound(params.includeObserved === 'true') };
+  },
+
+  // Holds ending soon (exact match, ahead of /animals/:id)
+  '/animals/holds/expiring': async (_method, url) => {
+    await delay(150);
+    const params = parseQueryParams(url);
+    return { success: true, data: getExpiringHolds(params.hours ? Number(params.hours) : 48) };
+  },
+
   // Locations
   '/locations': async () => {
     await delay(100);
@@ -343,6 +465,23 @@ const dynamicRouteHandlers: {
     body?: unknown
   ) => Promise<MockApiResponse<unknown>>;
 }[] = [
+  {
+    pattern: '/auth/invitations/:token',
+    handler: async () => {
+      await delay(150);
+      return {
+        success: true,
+        data: {
+          email: 'new.volunteer@shelter.org',
+          role: 'VOLUNTEER',
+          organization: { name: mockOrganization.name, slug: mockOrganization.slug },
+          invitedByName: `${mockUser.firstName} ${mockUser.lastName}`,
+          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          hasAccount: false,
+        },
+      };
+    },
+  },
   {
     pattern: '/animals/:id',
     handler: async (method, params) => {
@@ -361,6 +500,82 @@ const dynamicRouteHandlers: {
       return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
     },
   },
+  {
+    pattern: '/animals/:id/medical',
+    handler: async (method, params) => {
+      await delay(150);
+      if (method === 'GET') {
+        const history = getMedicalHistory(params.id);
+        if (history) {
+          return { success: true, data: history.records };
+        }
+        return {
+          success: false,
+          data: null,
+          error: { code: 'NOT_FOUND', message: 'Animal not found' },
+        };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
+  {
+    pattern: '/animals/:id/vaccinations',
+    handler: async (method, params) => {
+      await delay(150);
+      if (method === 'GET') {
+        const history = getMedicalHistory(params.id);
+        if (history) {
+          return { success: true, data: history.vaccinations };
+        }
+        return {
+          success: false,
+          data: null,
+          error: { code: 'NOT_FOUND', message: 'Animal not found' },
+        };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
+  {
+    pattern: '/animals/:id/observations',
+    handler: async (method, params, _url, body) => {
+      await delay(150);
+      if (!mockAnimals.some((a) => a.id === params.id)) {
+        return {
+          success: false,
+          data: null,
+          error: { code: 'NOT_FOUND', message: 'Animal not found' },
+        };
+      }
+      if (method === 'GET') {
+        return {
+          success: true,
+          data: mockKennelObservations.filter((o) => o.animalId === params.id),
+        };
+      }
+      if (method === 'POST') {
+        const { stressLevel, enrichment = [], notes = null } = body as {
+          stressLevel: string;
+          enrichment?: string[];
+          notes?: string | null;
+        };
+        const now = new Date().toISOString();
+        const observation = {
+          id: `obs-${mockKennelObservations.length + 1}`,
+          animalId: params.id,
+          observedAt: now,
+          stressLevel,
+          enrichment,
+          notes,
+          observer: 'Demo User',
+          createdAt: now,
+        };
+        mockKennelObservations.unshift(observation);
+        return { success: true, data: observation };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
   {
     pattern: '/risk/:animalId',
     handler: async (method, params) => {
@@ -379,6 +594,72 @@ const dynamicRouteHandlers: {
       return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
     },
   },
+  {
+    pattern: '/risk/animals/:id',
+    handler: async (method, params) => {
+      await delay(150);
+      if (method === 'GET') {
+        const animal = mockAnimals.find((a) => a.id === params.id);
+        if (animal?.riskProfile) {
+          return {
+            success: true,
+            data: {
+              ...animal.riskProfile,
+              riskSeverity: animal.riskProfile.severity,
+              riskFactors: getRiskFactors(animal),
+            },
+          };
+        }
+        return {
+          success: false,
+          data: null,
+          error: { code: 'NOT_FOUND', message: 'Risk profile not found' },
+        };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
+  {
+    pattern: '/risk/animals/:id/history',
+    handler: async (method, params, url) => {
+      await delay(150);
+      if (method === 'GET') {
+        const query = parseQueryParams(url);
+        const history = getRiskHistory(params.id, parseInt(query.days || '30'));
+        if (history) {
+          return { success: true, data: history };
+        }
+        return {
+          success: false,
+          data: null,
+          error: { code: 'NOT_FOUND', message: 'Animal not found' },
+        };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
+  {
+    pattern: '/risk/alerts/:id/acknowledge',
+    handler: async (method, params, _url, body) => {
+      await delay(150);
+      if (method === 'POST') {
+        const alert = mockRiskAlerts.find((a) => a.id === params.id);
+        if (!alert) {
+          return {
+            success: false,
+            data: null,
+            error: { code: 'NOT_FOUND', message: 'Risk alert not found' },
+          };
+        }
+        alert.acknowledged = true;
+        alert.acknowledgedBy = 'Demo User';
+        alert.acknowledgedAt = new Date().toISOString();
+        alert.resolutionNotes = (body as { resolutionNotes?: string } | undefined)?.resolutionNotes ?? null;
+        return { success: true, data: alert };
+      }
+      return { success: false, data: null, error: { code: 'NOT_IMPLEMENTED', message: 'Not implemented' } };
+    },
+  },
   {
     pattern: '/organizations/:slug',
     handler: async (method, params) => {
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Helmet } from 'react-helmet-async';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff, Loader2, XCircle } from 'lucide-react';
+import { api, ApiError } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+import AuthLayout from '@/components/auth/AuthLayout';
+import toast from 'react-hot-toast';
+
+interface InvitationPreview {
+  email: string;
+  role: string;
+  organization: { name: string; slug: string };
+  invitedByName: string | null;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters');
+
+// New users choose a name; existing users only confirm their password
+const newAccountSchema = z.object({
+  name: z.string().min(2, 'Please enter your name').max(100),
+  password: passwordSchema,
+});
+
+const existingAccountSchema = z.object({
+  name: z.string().optional(),
+  password: passwordSchema,
+});
+
+type AcceptInvitationForm = z.infer<typeof newAccountSchema>;
+
+export default function AcceptInvitation() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const { data: invitation, error, isLoading } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: async () => {
+      const response = await api.get<InvitationPreview>(
+        `/auth/invitations/${encodeURIComponent(token!)}`
+      );
+      return response.data!;
+    },
+    enabled: Boolean(token),
+    retry: false,
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>Accept Invitation | Shelter Link</title>
+      </Helmet>
+
+      <AuthLayout
+        title={invitation ? `Join ${invitation.organization.name}` : 'Accept your invitation'}
+        footer={
+          <Link to="/login" className="font-medium text-white hover:text-primary-100">
+            Back to sign in
+          </Link>
+        }
+      >
+        {!token ? (
+          <InvitationProblem message="This invitation link is incomplete. Open the link from your email again." />
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : error || !invitation ? (
+          <InvitationProblem
+            message={error?.message || 'This invitation could not be found.'}
+          />
+        ) : (
+          <AcceptInvitationFormView token={token} invitation={invitation} />
+        )}
+      </AuthLayout>
+    </>
+  );
+}
+
+function InvitationProblem({ message }: { message: string }) {
+  return (
+    <div className="space-y-3 text-center">
+      <XCircle className="mx-auto h-10 w-10 text-red-500" />
+      <p className="text-sm text-slate-700">{message}</p>
+      <p className="text-xs text-slate-500">
+        Ask an administrator of the organization to send you a new invitation.
+      </p>
+    </div>
+  );
+}
+
+function AcceptInvitationFormView({
+  token,
+  invitation,
+}: {
+  token: string;
+  invitation: InvitationPreview;
+}) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<AcceptInvitationForm>({
+    resolver: zodResolver(invitation.hasAccount ? existingAccountSchema : newAccountSchema),
+  });
+
+  const onSubmit = async (data: AcceptInvitationForm) => {
+    setIsLoading(true);
+    try {
+      const response = await api.post<null>('/auth/invitations/accept', {
+        token,
+        name: invitation.hasAccount ? undefined : data.name,
+        password: data.password,
+      });
+      toast.success(response.message || `You have joined ${invitation.organization.name}.`);
+      navigate(isAuthenticated ? '/' : '/login', { replace: true });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('errors.generic'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <p className="text-sm text-slate-600">
+        {invitation.invitedByName || 'An administrator'} invited you to join{' '}
+        <strong>{invitation.organization.name}</strong> as{' '}
+        <strong>{invitation.role.toLowerCase()}</strong>. The invitation is for{' '}
+        <strong>{invitation.email}</strong> and expires on{' '}
+        {new Date(invitation.expiresAt).toLocaleDateString()}.
+      </p>
+
+      {/* Name, only when the invitation creates the account */}
+      {!invitation.hasAccount && (
+        <div>
+          <label htmlFor="name" className="label">
+            Your name
+          </label>
+          <input
+            id="name"
+            type="text"
+            autoComplete="name"
+            {...register('name')}
+            className={`input ${errors.name ? 'input-error' : ''}`}
+          />
+          {errors.name && <p className="error-text">{errors.name.message}</p>}
+        </div>
+      )}
+
+      {/* Password */}
+      <div>
+        <label htmlFor="password" className="label">
+          {invitation.hasAccount ? 'Your current password' : 'Choose a password'}
+        </label>
+        <div className="relative">
+          <input
+            id="password"
+            type={showPassword ? 'text' : 'password'}
+            autoComplete={invitation.hasAccount ? 'current-password' : 'new-password'}
+            {...register('password')}
+            className={`input pr-10 ${errors.password ? 'input-error' : ''}`}
+            placeholder="••••••••"
+          />
+          <button
+            type="button"
+            onClick={() => setShowPassword(!showPassword)}
+            className="absolute inset-y-0 right-0 flex items-center pr-3 text-slate-400 hover:text-slate-600"
+            aria-label={showPassword ? 'Hide password' : 'Show password'}
+          >
+            {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+          </button>
+        </div>
+        {errors.password && <p className="error-text">{errors.password.message}</p>}
+      </div>
+
+      <button type="submit" disabled={isLoading} className="btn btn-primary w-full">
+        {isLoading ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Joining...
+          </>
+        ) : (
+          'Accept invitation'
+        )}
+      </button>
+    </form>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Helmet } from 'react-helmet-async';
@@ -14,6 +15,12 @@ import {
 } from 'lucide-react';
 import { api } from '@/lib/api';
 import RiskSeverityBadge from '@/components/risk/RiskSeverityBadge';
+import RiskFactorChart, { type RiskFactorView } from '@/components/risk/RiskFactorChart';
+import RiskSparkline from '@/components/risk/RiskSparkline';
+import MedicalHistory, {
+  type MedicalRecordView,
+  type VaccinationView,
+} from '@/components/medical/MedicalHistory';
 import LoadingScreen from '@/components/common/LoadingScreen';
 
 interface AnimalDetails {
@@ -26,6 +33,8 @@ interface AnimalDetails {
   color: string;
   weight: number;
   status: string;
+  /** From the latest behavioral assessment */
+  placementRestriction?: string | null;
   intakeDate: string;
   daysInShelter: number;
   description: string;
@@ -51,12 +60,6 @@ interface AnimalDetails {
     type: string;
     isPrimary: boolean;
   }>;
-  medicalRecords: Array<{
-    id: string;
-    type: string;
-    description: string;
-    date: string;
-  }>;
   notes: Array<{
     id: string;
     content: string;
@@ -65,9 +68,35 @@ interface AnimalDetails {
   }>;
 }
 
+interface RiskBreakdown {
+  riskFactors: RiskFactorView[];
+  isManualOverride?: boolean;
+  calculatedScore?: number | null;
+}
+
+interface RiskHistory {
+  bucket: 'DAY' | 'WEEK';
+  points: Array<{
+    bucketStart: string;
+    urgencyScore: number;
+    riskSeverity: string;
+    minScore: number;
+    maxScore: number;
+    samples: number;
+    isManualOverride: boolean;
+  }>;
+  trend: 'RISING' | 'STABLE' | 'FALLING';
+  change: number;
+}
+
+const HISTORY_DAYS = 30;
+
+type DetailTab = 'profile' | 'medical';
+
 export default function AnimalDetail() {
   const { id } = useParams<{ id: string }>();
   const { t } = useTranslation(['animals', 'risk']);
+  const [tab, setTab] = useState<DetailTab>('profile');
 
   const { data: animal, isLoading } = useQuery({
     queryKey: ['animal', id],
@@ -78,6 +107,45 @@ export default function AnimalDetail() {
     enabled: !!id,
   });
 
+  const { data: breakdown } = useQuery({
+    queryKey: ['risk-profile', id],
+    queryFn: async () => {
+      const response = await api.get<RiskBreakdown>(`/risk/animals/${id}`);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['risk-history', id, HISTORY_DAYS],
+    queryFn: async () => {
+      const response = await api.get<RiskHistory>(`/risk/animals/${id}/history`, {
+        days: String(HISTORY_DAYS),
+      });
+      return response.data;
+    },
+    enabled: !!id,
+  });
+
+  // Medical history loads with its tab
+  const { data: medicalRecords } = useQuery({
+    queryKey: ['medical-records', id],
+    queryFn: async () => {
+      const response = await api.get<MedicalRecordView[]>(`/animals/${id}/medical`);
+      return response.data;
+    },
+    enabled: !!id && tab === 'medical',
+  });
+
+  const { data: vaccinations } = useQuery({
+    queryKey: ['vaccinations', id],
+    queryFn: async () => {
+      const response = await api.get<VaccinationView[]>(`/animals/${id}/vaccinations`);
+      return response.data;
+    },
+    enabled: !!id && tab === 'medical',
+  });
+
   if (isLoading) {
     return <LoadingScreen />;
   }
@@ -218,100 +286,184 @@ export default function AnimalDetail() {
               </div>
 
               {/* Status badge */}
-              <div className="mt-6 pt-6 border-t border-slate-100">
+              <div className="mt-6 pt-6 border-t border-slate-100 flex flex-wrap gap-2">
                 <span className="px-3 py-1 rounded-full text-sm font-medium bg-slate-100 text-slate-700">
                   {t(`status.${animal.status.toLowerCase()}`)}
                 </span>
+                {animal.placementRestriction && (
+                  <span className="px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800">
+                    {t(`placement.${animal.placementRestriction}`, { defaultValue: animal.placementRestriction })}
+                  </span>
+                )}
               </div>
             </div>
           </div>
         </div>
 
-        {/* Risk profile card */}
-        <div className="card">
-          <div className="card-header">
-            <h2 className="font-semibold text-slate-900">Risk Assessment</h2>
-          </div>
-          <div className="card-body">
-            <div className="flex items-center gap-6 mb-6">
-              <div className="text-center">
-                <div className="text-4xl font-bold text-slate-900">
-                  {animal.riskProfile.urgencyScore}
+        {/* Tabs */}
+        <div className="border-b border-slate-200 flex gap-6" role="tablist">
+          {(['profile', 'medical'] as DetailTab[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={tab === key}
+              onClick={() => setTab(key)}
+              className={`pb-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === key
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {t(`details.${key}`)}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'profile' && (
+          <>
+          {/* Risk profile card */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="font-semibold text-slate-900">Risk Assessment</h2>
+            </div>
+            <div className="card-body">
+              <div className="flex items-center gap-6 mb-6">
+                <div className="text-center">
+                  <div className="text-4xl font-bold text-slate-900">
+                    {animal.riskProfile.urgencyScore}
+                  </div>
+                  <div className="text-sm text-slate-500">Urgency Score</div>
                 </div>
-                <div className="text-sm text-slate-500">Urgency Score</div>
+                <RiskSeverityBadge
+                  severity={animal.riskProfile.riskSeverity}
+                  size="lg"
+                />
               </div>
-              <RiskSeverityBadge
-                severity={animal.riskProfile.riskSeverity}
-                size="lg"
-              />
-            </div>
 
-            {/* Risk factors */}
-            {animal.riskProfile.riskReasons?.length > 0 && (
-              <div>
-                <h3 className="text-sm font-medium text-slate-700 mb-2">
-                  Risk Factors
-                </h3>
-                <ul className="space-y-1">
-                  {animal.riskProfile.riskReasons?.map((reason) => (
-                    <li
-                      key={reason}
-                      className="text-sm text-slate-600 flex items-center gap-2"
-                    >
-                      <span className="h-1.5 w-1.5 rounded-full bg-orange-500" />
-                      {t(`risk:reasons.${reason.toLowerCase()}`, {
-                        defaultValue: reason,
-                      })}
-                    </li>
-                  ))}
-                </ul>
+              {/* Score history */}
+              {history && (
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="text-sm font-medium text-slate-700">
+                      {t('risk:history.title')}
+                    </h3>
+                    <span className="text-xs text-slate-500">
+                      {t('risk:history.lastDays', { count: HISTORY_DAYS })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <RiskSparkline
+                      scores={history.points.map((p) => p.urgencyScore)}
+                      trend={history.trend}
+                      width={200}
+                      height={40}
+                    />
+                    {history.points.length > 1 && (
+                      <div className="text-xs text-slate-500">
+                        <div className="font-medium text-slate-700">
+                          {t(`risk:history.trend.${history.trend.toLowerCase()}`)}
+                        </div>
+                        {t('risk:history.change', {
+                          change: history.change > 0 ? `+${history.change}` : history.change,
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Per-factor breakdown, or the reasons until one is available */}
+              {breakdown?.riskFactors?.length ? (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 mb-2">
+                    {t('risk:factors.title')}
+                  </h3>
+                  {breakdown.isManualOverride && breakdown.calculatedScore != null && (
+                    <p className="text-xs text-slate-500 mb-2">
+                      {t('risk:factors.overrideNote', { score: breakdown.calculatedScore })}
+                    </p>
+                  )}
+                  <RiskFactorChart factors={breakdown.riskFactors} />
+                </div>
+              ) : animal.riskProfile.riskReasons?.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 mb-2">
+                    Risk Factors
+                  </h3>
+                  <ul className="space-y-1">
+                    {animal.riskProfile.riskReasons?.map((reason) => (
+                      <li
+                        key={reason}
+                        className="text-sm text-slate-600 flex items-center gap-2"
+                      >
+                        <span className="h-1.5 w-1.5 rounded-full bg-orange-500" />
+                        {t(`risk:reasons.${reason.toLowerCase()}`, {
+                          defaultValue: reason,
+                        })}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Quick actions */}
+              <div className="mt-6 flex gap-2">
+                <Link
+                  to={`/transfers/new?animal=${id}`}
+                  className="btn btn-secondary"
+                >
+                  Request Transfer
+                </Link>
+                <button className="btn btn-ghost">Quick Update</button>
               </div>
-            )}
-
-            {/* Quick actions */}
-            <div className="mt-6 flex gap-2">
-              <Link
-                to={`/transfers/new?animal=${id}`}
-                className="btn btn-secondary"
-              >
-                Request Transfer
-              </Link>
-              <button className="btn btn-ghost">Quick Update</button>
             </div>
           </div>
-        </div>
 
-        {/* Description */}
-        {animal.description && (
-          <div className="card">
-            <div className="card-header">
-              <h2 className="font-semibold text-slate-900">About</h2>
+          {/* Description */}
+          {animal.description && (
+            <div className="card">
+              <div className="card-header">
+                <h2 className="font-semibold text-slate-900">About</h2>
+              </div>
+              <div className="card-body">
+                <p className="text-slate-600 whitespace-pre-wrap">
+                  {animal.description}
+                </p>
+              </div>
             </div>
-            <div className="card-body">
-              <p className="text-slate-600 whitespace-pre-wrap">
-                {animal.description}
-              </p>
+          )}
+
+          {/* Notes */}
+          {animal.notes?.length > 0 && (
+            <div className="card">
+              <div className="card-header flex items-center justify-between">
+                <h2 className="font-semibold text-slate-900">Notes</h2>
+                <button className="btn btn-ghost btn-sm">Add Note</button>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {animal.notes?.map((note) => (
+                  <div key={note.id} className="p-4">
+                    <p className="text-slate-600">{note.content}</p>
+                    <p className="text-xs text-slate-400 mt-2">
+                      {note.author} •{' '}
+                      {new Date(note.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+          </>
         )}
 
-        {/* Notes */}
-        {animal.notes?.length > 0 && (
+        {tab === 'medical' && (
           <div className="card">
-            <div className="card-header flex items-center justify-between">
-              <h2 className="font-semibold text-slate-900">Notes</h2>
-              <button className="btn btn-ghost btn-sm">Add Note</button>
-            </div>
-            <div className="divide-y divide-slate-100">
-              {animal.notes?.map((note) => (
-                <div key={note.id} className="p-4">
-                  <p className="text-slate-600">{note.content}</p>
-                  <p className="text-xs text-slate-400 mt-2">
-                    {note.author} •{' '}
-                    {new Date(note.createdAt).toLocaleDateString()}
-                  </p>
-                </div>
-              ))}
+            <div className="card-body">
+              <MedicalHistory
+                records={medicalRecords ?? []}
+                vaccinations={vaccinations ?? []}
+              />
             </div>
           </div>
         )}
@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import { api } from '@/lib/api';
 import RiskSeverityBadge from '@/components/risk/RiskSeverityBadge';
+import RiskSparkline from '@/components/risk/RiskSparkline';
 import clsx from 'clsx';
 
 interface AtRiskAnimal {
@@ -30,6 +31,14 @@ interface AtRiskAnimal {
   primaryPhotoUrl: string | null;
 }
 
+interface RiskHistory {
+  animalId: string;
+  points: Array<{ urgencyScore: number }>;
+  trend: 'RISING' | 'STABLE' | 'FALLING';
+}
+
+const HISTORY_DAYS = 30;
+
 type FilterSeverity = 'all' | 'critical' | 'high' | 'elevated';
 
 export default function AtRisk() {
@@ -49,6 +58,21 @@ export default function AtRisk() {
     },
   });
 
+  // Every card's sparkline in one request
+  const animalIds = data?.map((animal) => animal.id) ?? [];
+  const { data: histories } = useQuery({
+    queryKey: ['risk-histories', animalIds, HISTORY_DAYS],
+    queryFn: async () => {
+      const response = await api.get<RiskHistory[]>('/risk/history', {
+        animalIds: animalIds.join(','),
+        days: String(HISTORY_DAYS),
+      });
+      return new Map((response.data ?? []).map((history) => [history.animalId, history]));
+    },
+    enabled: animalIds.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
   const handleRecalculate = async () => {
     setIsRecalculating(true);
     try {
@@ -147,7 +171,7 @@ export default function AtRisk() {
         ) : (
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {data?.map((animal) => (
-              <AnimalRiskCard key={animal.id} animal={animal} />
+              <AnimalRiskCard key={animal.id} animal={animal} history={histories?.get(animal.id)} />
             ))}
           </div>
         )}
@@ -156,7 +180,7 @@ export default function AtRisk() {
   );
 }
 
-function AnimalRiskCard({ animal }: { animal: AtRiskAnimal }) {
+function AnimalRiskCard({ animal, history }: { animal: AtRiskAnimal; history?: RiskHistory }) {
   const { t } = useTranslation(['risk', 'animals']);
   const [showReasons, setShowReasons] = useState(false);
 
@@ -245,6 +269,17 @@ function AnimalRiskCard({ animal }: { animal: AtRiskAnimal }) {
               style={{ width: `${animal.urgencyScore}%` }}
             />
           </div>
+          {history && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs text-slate-500">
+                {t('history.lastDays', { count: HISTORY_DAYS })}
+              </span>
+              <RiskSparkline
+                scores={history.points.map((p) => p.urgencyScore)}
+                trend={history.trend}
+              />
+            </div>
+          )}
         </div>
 
         {/* Risk reasons */}
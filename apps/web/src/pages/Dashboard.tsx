@@ -1,6 +1,6 @@
 import { useTranslation } from 'react-i18next';
 import { Helmet } from 'react-helmet-async';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   AlertTriangle,
   PawPrint,
@@ -11,6 +11,8 @@ import {
 } from 'lucide-react';
 import { api } from '@/lib/api';
 import RiskSeverityBadge from '@/components/risk/RiskSeverityBadge';
+import RiskAlertList, { type RiskAlertView } from '@/components/risk/RiskAlertList';
+import ExpiringHoldsList, { type ExpiringHoldView } from '@/components/holds/ExpiringHoldsList';
 import { Link } from 'react-router-dom';
 
 interface DashboardStats {
@@ -61,7 +63,8 @@ interface OrgStats {
 }
 
 export default function Dashboard() {
-  const { t } = useTranslation(['dashboard', 'risk', 'common']);
+  const { t } = useTranslation(['dashboard', 'risk', 'animals', 'common']);
+  const queryClient = useQueryClient();
 
   const { data: riskData, isLoading: riskLoading } = useQuery({
     queryKey: ['risk-dashboard'],
@@ -79,6 +82,37 @@ export default function Dashboard() {
     },
   });
 
+  const { data: alertData, isLoading: alertsLoading } = useQuery({
+    queryKey: ['risk-alerts'],
+    queryFn: async () => {
+      const response = await api.get<RiskAlertView[]>('/risk/alerts', {
+        status: 'OPEN',
+        pageSize: 10,
+      });
+      return {
+        alerts: response.data ?? [],
+        total: response.pagination?.totalItems ?? response.data?.length ?? 0,
+      };
+    },
+  });
+
+  const { data: expiringHolds, isLoading: holdsLoading } = useQuery({
+    queryKey: ['expiring-holds'],
+    queryFn: async () => {
+      const response = await api.get<ExpiringHoldView[]>('/animals/holds/expiring');
+      return response.data ?? [];
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/risk/alerts/${id}/acknowledge`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['risk-alerts'] });
+    },
+  });
+
   const totalAtRisk = riskData?.summary
     ? riskData.summary.critical + riskData.summary.high
     : 0;
@@ -261,6 +295,52 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Open risk alerts */}
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h2 className="font-semibold text-slate-900">{t('risk:alerts.title')}</h2>
+            {!!alertData?.total && (
+              <span className="text-sm text-slate-500">
+                {t('risk:alerts.open', { count: alertData.total })}
+              </span>
+            )}
+          </div>
+          {alertsLoading ? (
+            <div className="p-4 space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="skeleton h-10 w-full" />
+              ))}
+            </div>
+          ) : (
+            <RiskAlertList
+              alerts={alertData?.alerts ?? []}
+              onAcknowledge={(id) => acknowledgeMutation.mutate(id)}
+              acknowledgingId={acknowledgeMutation.isPending ? acknowledgeMutation.variables : null}
+            />
+          )}
+        </div>
+
+        {/* Holds ending in the next 48 hours */}
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h2 className="font-semibold text-slate-900">{t('animals:holds.expiringTitle')}</h2>
+            {!!expiringHolds?.length && (
+              <span className="text-sm text-slate-500">
+                {t('animals:holds.expiringCount', { count: expiringHolds.length })}
+              </span>
+            )}
+          </div>
+          {holdsLoading ? (
+            <div className="p-4 space-y-3">
+              {Array.from({ length: 2 }).map((_, i) => (
+                <div key={i} className="skeleton h-10 w-full" />
+              ))}
+            </div>
+          ) : (
+            <ExpiringHoldsList holds={expiringHolds ?? []} />
+          )}
+        </div>
+
         {/* Recent activity */}
         <div className="card">
           <div className="card-header">
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Helmet } from 'react-helmet-async';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2, MailCheck } from 'lucide-react';
+import { api, ApiError } from '@/lib/api';
+import AuthLayout from '@/components/auth/AuthLayout';
+import toast from 'react-hot-toast';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const { t } = useTranslation();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setIsLoading(true);
+    try {
+      const response = await api.post<null>('/auth/forgot-password', data);
+      setSentMessage(response.message || 'Check your email for a reset link.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('errors.generic'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Forgot Password | Shelter Link</title>
+      </Helmet>
+
+      <AuthLayout
+        title="Reset your password"
+        footer={
+          <Link to="/login" className="font-medium text-white hover:text-primary-100">
+            Back to sign in
+          </Link>
+        }
+      >
+        {sentMessage ? (
+          <div className="flex flex-col items-center gap-3 text-center">
+            <MailCheck className="h-10 w-10 text-primary-600" />
+            <p className="text-sm text-slate-700">{sentMessage}</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            <p className="text-sm text-slate-600">
+              Enter the email you sign in with and we'll send you a link to choose a new password.
+            </p>
+
+            <div>
+              <label htmlFor="email" className="label">
+                Email address
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                {...register('email')}
+                className={`input ${errors.email ? 'input-error' : ''}`}
+                placeholder="you@shelter.org"
+              />
+              {errors.email && <p className="error-text">{errors.email.message}</p>}
+            </div>
+
+            <button type="submit" disabled={isLoading} className="btn btn-primary w-full">
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send reset link'
+              )}
+            </button>
+          </form>
+        )}
+      </AuthLayout>
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Check, ChevronDown, ChevronUp, ClipboardCheck } from 'lucide-react';
+import { api } from '@/lib/api';
+import QuickObservationForm, { type QuickObservation } from '@/components/kennel/QuickObservationForm';
+
+interface KennelRoundEntry {
+  animal: {
+    id: string;
+    name: string;
+    species: string;
+    kennelNumber: string | null;
+  };
+  lastObservation: { observedAt: string; stressLevel: string } | null;
+  observedToday: boolean;
+}
+
+export default function KennelRound() {
+  const { t } = useTranslation('animals');
+  const queryClient = useQueryClient();
+  const [showObserved, setShowObserved] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['kennel-round', showObserved],
+    queryFn: async () => {
+      // "Today" starts at the observer's midnight, not the server's
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      const response = await api.get<KennelRoundEntry[]>('/animals/kennel-round', {
+        since: since.toISOString(),
+        includeObserved: showObserved,
+      });
+      return response.data ?? [];
+    },
+  });
+
+  const logMutation = useMutation({
+    mutationFn: async ({ animalId, observation }: { animalId: string; observation: QuickObservation }) => {
+      await api.post(`/animals/${animalId}/observations`, observation);
+    },
+    onSuccess: () => {
+      setOpenId(null);
+      queryClient.invalidateQueries({ queryKey: ['kennel-round'] });
+    },
+  });
+
+  const remaining = entries?.filter((entry) => !entry.observedToday).length ?? 0;
+
+  return (
+    <>
+      <Helmet>
+        <title>Kennel Round | Shelter Link</title>
+      </Helmet>
+
+      <div className="space-y-4 max-w-2xl mx-auto">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">{t('kennelRound.title')}</h1>
+          <p className="text-slate-500 mt-1">{t('kennelRound.subtitle')}</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-slate-700">
+            {t('kennelRound.remaining', { count: remaining })}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={showObserved}
+              onChange={(e) => setShowObserved(e.target.checked)}
+              className="h-4 w-4"
+            />
+            {t('kennelRound.showObserved')}
+          </label>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="skeleton h-16 rounded-lg" />
+            ))}
+          </div>
+        ) : !entries?.length ? (
+          <div className="card p-8 text-center text-slate-500">
+            <ClipboardCheck className="h-8 w-8 text-green-500 mx-auto mb-2" />
+            {t('kennelRound.allDone')}
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map(({ animal, lastObservation, observedToday }) => {
+              const isOpen = openId === animal.id;
+              return (
+                <li key={animal.id} className="card" data-testid={`kennel-${animal.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => setOpenId(isOpen ? null : animal.id)}
+                    aria-expanded={isOpen}
+                    className="w-full min-h-[56px] p-4 flex items-center gap-3 text-left"
+                  >
+                    <span className="w-12 shrink-0 text-sm font-mono font-semibold text-slate-500">
+                      {animal.kennelNumber ?? '—'}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium text-slate-900 truncate">{animal.name}</span>
+                      <span className="block text-xs text-slate-500">
+                        {lastObservation
+                          ? `${t(`kennelRound.stress.${lastObservation.stressLevel}`)} · ${t('kennelRound.lastObserved', {
+                              date: new Date(lastObservation.observedAt).toLocaleString(),
+                            })}`
+                          : t('kennelRound.neverObserved')}
+                      </span>
+                    </span>
+                    {observedToday ? (
+                      <span className="flex items-center gap-1 text-xs text-green-700">
+                        <Check className="h-4 w-4" />
+                        {t('kennelRound.observedToday')}
+                      </span>
+                    ) : (
+                      <span className="text-sm font-medium text-primary-600">{t('kennelRound.log')}</span>
+                    )}
+                    {isOpen ? (
+                      <ChevronUp className="h-5 w-5 text-slate-400" />
+                    ) : (
+                      <ChevronDown className="h-5 w-5 text-slate-400" />
+                    )}
+                  </button>
+
+                  {isOpen && (
+                    <div className="px-4 pb-4 border-t border-slate-100 pt-4">
+                      <QuickObservationForm
+                        isSaving={logMutation.isPending}
+                        onSubmit={(observation) => logMutation.mutate({ animalId: animal.id, observation })}
+                      />
+                      <Link
+                        to={`/animals/${animal.id}`}
+                        className="block mt-3 text-center text-sm text-slate-500 hover:text-primary-600"
+                      >
+                        {animal.name}
+                      </Link>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
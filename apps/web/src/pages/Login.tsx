@@ -7,7 +7,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Eye, EyeOff, Heart, Loader2 } from 'lucide-react';
 import { api, ApiError } from '@/lib/api';
-import { useAuthStore } from '@/stores/auth';
+import { useAuthStore, toStoreUser, type ApiUser } from '@/stores/auth';
 import toast from 'react-hot-toast';
 
 const loginSchema = z.object({
@@ -18,22 +18,9 @@ const loginSchema = z.object({
 type LoginForm = z.infer<typeof loginSchema>;
 
 interface LoginResponse {
-  user: {
-    id: string;
-    email: string;
-    name: string;
-    globalRole: string;
-    phone?: string;
-    avatarUrl?: string;
-    organizations: Array<{
-      id: string;
-      name: string;
-      slug: string;
-      role: string;
-      isPrimary: boolean;
-    }>;
-  };
-  token: string;
+  user: ApiUser;
+  accessToken: string;
+  refreshToken: string;
   expiresIn: number;
 }
 
@@ -62,9 +49,9 @@ export default function Login() {
       
       if (response.success && response.data) {
         login(
-          response.data.user,
-          response.data.token,
-          '' // No refresh token in prototype
+          toStoreUser(response.data.user),
+          response.data.accessToken,
+          response.data.refreshToken
         );
         toast.success('Welcome back!');
         navigate(from, { replace: true });
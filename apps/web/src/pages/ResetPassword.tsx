@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Helmet } from 'react-helmet-async';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff, Loader2 } from 'lucide-react';
+import { api, ApiError } from '@/lib/api';
+import AuthLayout from '@/components/auth/AuthLayout';
+import toast from 'react-hot-toast';
+
+const resetPasswordSchema = z
+  .object({
+    password: z.string().min(8, 'Password must be at least 8 characters'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setIsLoading(true);
+    try {
+      const response = await api.post<null>('/auth/reset-password', {
+        token,
+        password: data.password,
+      });
+      toast.success(response.message || 'Your password has been reset.');
+      navigate('/login', { replace: true });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('errors.generic'));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Reset Password | Shelter Link</title>
+      </Helmet>
+
+      <AuthLayout
+        title="Choose a new password"
+        footer={
+          <Link to="/login" className="font-medium text-white hover:text-primary-100">
+            Back to sign in
+          </Link>
+        }
+      >
+        {!token ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-slate-700">
+              This reset link is incomplete. Open the link from your email again, or request a new one.
+            </p>
+            <Link to="/forgot-password" className="btn btn-primary w-full">
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Password */}
+            <div>
+              <label htmlFor="password" className="label">
+                New password
+              </label>
+              <div className="relative">
+                <input
+                  id="password"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  {...register('password')}
+                  className={`input pr-10 ${errors.password ? 'input-error' : ''}`}
+                  placeholder="••••••••"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-0 flex items-center pr-3 text-slate-400 hover:text-slate-600"
+                  aria-label={showPassword ? 'Hide password' : 'Show password'}
+                >
+                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                </button>
+              </div>
+              {errors.password && <p className="error-text">{errors.password.message}</p>}
+            </div>
+
+            {/* Confirm password */}
+            <div>
+              <label htmlFor="confirmPassword" className="label">
+                Confirm new password
+              </label>
+              <input
+                id="confirmPassword"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                {...register('confirmPassword')}
+                className={`input ${errors.confirmPassword ? 'input-error' : ''}`}
+                placeholder="••••••••"
+              />
+              {errors.confirmPassword && (
+                <p className="error-text">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            <button type="submit" disabled={isLoading} className="btn btn-primary w-full">
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Reset password'
+              )}
+            </button>
+          </form>
+        )}
+      </AuthLayout>
+    </>
+  );
+}
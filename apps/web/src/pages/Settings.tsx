@@ -1,6 +1,8 @@
 import { Helmet } from 'react-helmet-async';
 import { useTranslation } from 'react-i18next';
+import { useState } from 'react';
 import { useAuthStore } from '@/stores/auth';
+import { signOut } from '@/lib/api';
 import {
   User,
   Building2,
@@ -8,12 +10,20 @@ import {
   Globe,
   Shield,
   Key,
+  LogOut,
   ChevronRight,
 } from 'lucide-react';
 
 export default function Settings() {
   const { t, i18n } = useTranslation(['common']);
   const user = useAuthStore((state) => state.user);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const signOutEverywhere = async () => {
+    if (!window.confirm('Sign out of Shelter Link on every device, including this one?')) return;
+    setIsSigningOut(true);
+    await signOut(true);
+  };
 
   const changeLanguage = (lng: string) => {
     i18n.changeLanguage(lng);
@@ -146,6 +156,22 @@ export default function Settings() {
               </div>
               <ChevronRight className="h-5 w-5 text-slate-400" />
             </button>
+            <button
+              onClick={signOutEverywhere}
+              disabled={isSigningOut}
+              className="w-full p-4 flex items-center justify-between hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <div className="flex items-center gap-3">
+                <LogOut className="h-5 w-5 text-slate-400" />
+                <div className="text-left">
+                  <span className="text-slate-900">Sign out of all devices</span>
+                  <p className="text-sm text-slate-500">
+                    Use this if you signed in on a shared or lost device
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="h-5 w-5 text-slate-400" />
+            </button>
           </div>
         </div>
       </div>
@@ -7,6 +7,7 @@ import {
   ArrowLeft,
   Check,
   Clock,
+  Truck,
   X,
   ArrowLeftRight,
 } from 'lucide-react';
@@ -22,6 +23,7 @@ interface Transfer {
   toOrganization: string;
   direction: 'incoming' | 'outgoing';
   createdAt: string;
+  scheduledDate?: string | null;
   urgencyScore: number;
 }
 
@@ -37,6 +39,8 @@ export default function Transfers() {
   });
 
   const pending = data?.filter((t) => t.status === 'PENDING') ?? [];
+  const inProgress =
+    data?.filter((t) => ['APPROVED', 'SCHEDULED', 'IN_TRANSIT'].includes(t.status)) ?? [];
   const completed = data?.filter((t) => t.status === 'COMPLETED') ?? [];
 
   return (
@@ -83,6 +87,34 @@ export default function Transfers() {
           )}
         </div>
 
+        {/* Approved transfers waiting for pickup or on the road */}
+        <div className="card">
+          <div className="card-header flex items-center gap-2">
+            <Truck className="h-5 w-5 text-indigo-500" />
+            <h2 className="font-semibold text-slate-900">
+              In Progress ({inProgress.length})
+            </h2>
+          </div>
+
+          {isLoading ? (
+            <div className="p-4 space-y-4">
+              {Array.from({ length: 2 }).map((_, i) => (
+                <div key={i} className="skeleton h-16 rounded-lg" />
+              ))}
+            </div>
+          ) : inProgress.length === 0 ? (
+            <div className="p-8 text-center text-slate-500">
+              No transfers in progress
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {inProgress.map((transfer) => (
+                <TransferRow key={transfer.id} transfer={transfer} />
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Completed transfers */}
         <div className="card">
           <div className="card-header flex items-center gap-2">
@@ -149,6 +181,8 @@ function TransferRow({ transfer }: { transfer: Transfer }) {
             'px-2 py-1 rounded-full text-xs font-medium',
             transfer.status === 'PENDING' && 'bg-yellow-100 text-yellow-800',
             transfer.status === 'APPROVED' && 'bg-blue-100 text-blue-800',
+            transfer.status === 'SCHEDULED' && 'bg-indigo-100 text-indigo-800',
+            transfer.status === 'IN_TRANSIT' && 'bg-purple-100 text-purple-800',
             transfer.status === 'COMPLETED' && 'bg-green-100 text-green-800',
             transfer.status === 'DECLINED' && 'bg-red-100 text-red-800'
           )}
@@ -156,7 +190,9 @@ function TransferRow({ transfer }: { transfer: Transfer }) {
           {transfer.status}
         </span>
         <p className="text-xs text-slate-400 mt-1">
-          {new Date(transfer.createdAt).toLocaleDateString()}
+          {transfer.status === 'SCHEDULED' && transfer.scheduledDate
+            ? `Pickup ${new Date(transfer.scheduledDate).toLocaleDateString()}`
+            : new Date(transfer.createdAt).toLocaleDateString()}
         </p>
       </div>
     </Link>
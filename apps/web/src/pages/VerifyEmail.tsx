@@ -0,0 +1,72 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+import AuthLayout from '@/components/auth/AuthLayout';
+
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  // A query rather than an effect so the single-use token is only sent once,
+  // even when the page mounts twice
+  const { data, error, isLoading } = useQuery({
+    queryKey: ['verify-email', token],
+    queryFn: () => api.post<null>('/auth/verify-email', { token }),
+    enabled: Boolean(token),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const continueLink = isAuthenticated ? (
+    <Link to="/" className="btn btn-primary w-full">
+      Go to dashboard
+    </Link>
+  ) : (
+    <Link to="/login" className="btn btn-primary w-full">
+      Sign in
+    </Link>
+  );
+
+  return (
+    <>
+      <Helmet>
+        <title>Verify Email | Shelter Link</title>
+      </Helmet>
+
+      <AuthLayout title="Verify your email address">
+        {!token ? (
+          <div className="space-y-4 text-center">
+            <XCircle className="mx-auto h-10 w-10 text-red-500" />
+            <p className="text-sm text-slate-700">
+              This verification link is incomplete. Open the link from your email again.
+            </p>
+            {continueLink}
+          </div>
+        ) : isLoading ? (
+          <div className="flex flex-col items-center gap-3 text-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+            <p className="text-sm text-slate-700">Verifying your email address...</p>
+          </div>
+        ) : error ? (
+          <div className="space-y-4 text-center">
+            <XCircle className="mx-auto h-10 w-10 text-red-500" />
+            <p className="text-sm text-slate-700">{error.message}</p>
+            {continueLink}
+          </div>
+        ) : (
+          <div className="space-y-4 text-center">
+            <CheckCircle className="mx-auto h-10 w-10 text-green-600" />
+            <p className="text-sm text-slate-700">
+              {data?.message || 'Your email address has been verified.'}
+            </p>
+            {continueLink}
+          </div>
+        )}
+      </AuthLayout>
+    </>
+  );
+}
@@ -6,14 +6,56 @@ const isMockMode = (): boolean => {
   return import.meta.env.VITE_MOCK_MODE === 'true';
 };
 
+export interface Membership {
+  id: string;
+  name: string;
+  slug: string;
+  role: string;
+  isPrimary: boolean;
+}
+
 interface User {
   id: string;
   email: string;
   name: string;
+  /** Role in the current organization */
   role: string;
   organizationId: string;
   organizationName: string;
   organizationSlug: string;
+  /** Every organization the user belongs to */
+  organizations: Membership[];
+}
+
+/** User as returned by /auth/login and /auth/me */
+export interface ApiUser {
+  id: string;
+  email: string;
+  name: string;
+  globalRole: string;
+  currentOrganizationId?: string | null;
+  organizations: Membership[];
+}
+
+/**
+ * Flatten an API user into the store shape, scoped to the current organization
+ */
+export function toStoreUser(apiUser: ApiUser): User {
+  const current =
+    apiUser.organizations.find((o) => o.id === apiUser.currentOrganizationId) ??
+    apiUser.organizations.find((o) => o.isPrimary) ??
+    apiUser.organizations[0];
+
+  return {
+    id: apiUser.id,
+    email: apiUser.email,
+    name: apiUser.name,
+    role: current?.role ?? apiUser.globalRole,
+    organizationId: current?.id ?? '',
+    organizationName: current?.name ?? '',
+    organizationSlug: current?.slug ?? '',
+    organizations: apiUser.organizations,
+  };
 }
 
 interface AuthState {
@@ -25,6 +67,8 @@ interface AuthState {
   
   // Actions
   login: (user: User, token: string, refreshToken: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
+  setOrganization: (organizationId: string, token: string) => void;
   logout: () => void;
   updateUser: (user: Partial<User>) => void;
   setLoading: (loading: boolean) => void;
@@ -40,6 +84,10 @@ const MOCK_USER: User = {
   organizationId: 'org-001',
   organizationName: 'Happy Paws Shelter',
   organizationSlug: 'happy-paws',
+  organizations: [
+    { id: 'org-001', name: 'Happy Paws Shelter', slug: 'happy-paws', role: 'ADMIN', isPrimary: true },
+    { id: 'org-002', name: 'Furry Friends Rescue', slug: 'furry-friends', role: 'VOLUNTEER', isPrimary: false },
+  ],
 };
 
 export const useAuthStore = create<AuthState>()(
@@ -61,6 +109,27 @@ export const useAuthStore = create<AuthState>()(
         });
       },
       
+      setTokens: (token, refreshToken) => {
+        set({ token, refreshToken });
+      },
+      
+      setOrganization: (organizationId, token) => {
+        set((state) => {
+          const membership = state.user?.organizations.find((o) => o.id === organizationId);
+          if (!state.user || !membership) return { token };
+          return {
+            token,
+            user: {
+              ...state.user,
+              role: membership.role,
+              organizationId: membership.id,
+              organizationName: membership.name,
+              organizationSlug: membership.slug,
+            },
+          };
+        });
+      },
+      
       logout: () => {
         // Don't actually logout in mock mode - just reset to mock user
         if (isMockMode()) {
@@ -41,7 +41,17 @@ async function main() {
   await prisma.outcomeEvent.deleteMany();
   await prisma.intakeEvent.deleteMany();
   await prisma.animalPhoto.deleteMany();
+  await prisma.animalHold.deleteMany();
+  await prisma.kennelObservation.deleteMany();
+  await prisma.behavioralAssessment.deleteMany();
+  await prisma.vaccination.deleteMany();
+  await prisma.medicalRecord.deleteMany();
+  await prisma.riskAlert.deleteMany();
+  await prisma.riskReview.deleteMany();
+  await prisma.riskOverride.deleteMany();
+  await prisma.riskScoreSnapshot.deleteMany();
   await prisma.riskProfile.deleteMany();
+  await prisma.riskPolicy.deleteMany();
   await prisma.animal.deleteMany();
   await prisma.joinRequest.deleteMany();
   await prisma.userOrganization.deleteMany();
@@ -107,6 +117,7 @@ async function main() {
       name: 'Super Admin',
       globalRole: 'SUPERADMIN',
       status: 'ACTIVE',
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -119,6 +130,7 @@ async function main() {
       phone: '(555) 111-1111',
       globalRole: 'PUBLIC',
       status: 'ACTIVE',
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -139,6 +151,7 @@ async function main() {
       name: 'Mike Thompson',
       globalRole: 'PUBLIC',
       status: 'ACTIVE',
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -159,6 +172,7 @@ async function main() {
       name: 'Lisa Chen',
       globalRole: 'PUBLIC',
       status: 'ACTIVE',
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -528,26 +542,21 @@ async function main() {
 }
 
 // Simple risk score calculation for seed data
+// (no breed, size or color inputs - see docs/ETHICAL_AI_GUIDELINES.md)
 function calculateRiskScore(animal: any): number {
   let score = 0;
   
-  // Length of stay (40%)
+  // Length of stay (50%)
   const losRatio = animal.intakeDaysAgo / 30;
-  if (losRatio >= 2) score += 40;
-  else if (losRatio >= 1) score += 25;
-  else score += losRatio * 20;
+  if (losRatio >= 2) score += 50;
+  else if (losRatio >= 1) score += 31;
+  else score += losRatio * 25;
 
-  // Senior (20%)
-  if (['SENIOR', 'GERIATRIC'].includes(animal.ageCategory)) score += 20;
+  // Senior (25%)
+  if (['SENIOR', 'GERIATRIC'].includes(animal.ageCategory)) score += 25;
 
-  // Special needs (20%)
-  if (animal.specialNeeds) score += 20;
-
-  // Large breed dog (10%)
-  if (animal.species === 'DOG' && ['LARGE', 'EXTRA_LARGE'].includes(animal.size)) score += 10;
-
-  // Black animal (10%)
-  if (animal.colorPrimary?.toLowerCase() === 'black') score += 10;
+  // Special needs (25%)
+  if (animal.specialNeeds) score += 25;
 
   return Math.min(100, Math.round(score));
 }
@@ -565,8 +574,6 @@ function getRiskReasons(animal: any): string[] {
   if (animal.intakeDaysAgo >= 30) reasons.push('LONG_LOS');
   if (['SENIOR', 'GERIATRIC'].includes(animal.ageCategory)) reasons.push('SENIOR');
   if (animal.specialNeeds) reasons.push('SPECIAL_NEEDS');
-  if (animal.species === 'DOG' && ['LARGE', 'EXTRA_LARGE'].includes(animal.size)) reasons.push('LARGE_BREED');
-  if (animal.colorPrimary?.toLowerCase() === 'black') reasons.push('BLACK_ANIMAL');
   return reasons;
 }
 
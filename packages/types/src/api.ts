@@ -478,6 +478,8 @@ export interface RiskOverrideRequest {
   urgencyScore: number;
   riskSeverity: RiskSeverity;
   reason: string;
+  /** ISO date; the override lapses at the first recalculation after it */
+  expiresAt?: string;
   publicVisibility?: boolean;
   rescueVisibility?: boolean;
 }
@@ -512,6 +514,7 @@ export type WebhookEventType =
 
 /**
  * Webhook payload
+ * The signature is sent in the X-ShelterLink-Signature header, not the body.
  */
 export interface WebhookPayload<T = unknown> {
   id: string;
@@ -519,7 +522,6 @@ export interface WebhookPayload<T = unknown> {
   timestamp: string;
   organizationId: string;
   data: T;
-  signature: string;
 }
 
 // =============================================================================
@@ -578,6 +580,15 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+/**
+ * Refresh token response (the refresh token rotates on every call)
+ */
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
 // =============================================================================
 // IMPORT API TYPES
 // =============================================================================
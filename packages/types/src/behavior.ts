@@ -0,0 +1,164 @@
+/**
+ * Behavior Types
+ *
+ * Behavioral assessments recorded by shelter staff. The result of an
+ * animal's latest assessment decides where it may be placed; reactivity
+ * levels suggest whether it does well with dogs and cats.
+ * Assessments are staff-only.
+ *
+ * Kennel observations are the quick daily check staff and volunteers log
+ * on their rounds: stress level, enrichment received and a note.
+ */
+
+import type { KennelStressLevel } from './risk.js';
+
+// =============================================================================
+// ASSESSMENT SCALES
+// =============================================================================
+
+/**
+ * Overall outcome of an assessment
+ */
+export enum AssessmentResult {
+  /** Highly adoptable, no concerns */
+  EXCELLENT = 'EXCELLENT',
+  /** Adoptable, minor considerations */
+  GOOD = 'GOOD',
+  /** Adoptable with conditions */
+  FAIR = 'FAIR',
+  /** Needs training before adoption */
+  NEEDS_TRAINING = 'NEEDS_TRAINING',
+  /** More observation required */
+  NEEDS_OBSERVATION = 'NEEDS_OBSERVATION',
+  /** Experienced homes only */
+  RESTRICTED = 'RESTRICTED',
+  /** Rescue or sanctuary placement only */
+  RESCUE_ONLY = 'RESCUE_ONLY',
+  /** Significant concerns, needs evaluation */
+  CONCERNING = 'CONCERNING',
+  /** Cannot be safely placed */
+  NOT_ADOPTABLE = 'NOT_ADOPTABLE',
+}
+
+/**
+ * Reaction towards dogs, cats or people
+ */
+export enum ReactivityLevel {
+  NONE = 'NONE',
+  MILD = 'MILD',
+  MODERATE = 'MODERATE',
+  SEVERE = 'SEVERE',
+}
+
+/**
+ * How well the animal accepts being handled
+ */
+export enum ToleranceLevel {
+  EXCELLENT = 'EXCELLENT',
+  GOOD = 'GOOD',
+  FAIR = 'FAIR',
+  POOR = 'POOR',
+  UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Assessment results that restrict placement. Stored on the animal from its
+ * latest assessment:
+ * - RESTRICTED: listed publicly, experienced homes only
+ * - RESCUE_ONLY: hidden from public adoption, transferable to rescues and sanctuaries
+ * - NOT_ADOPTABLE: hidden from public adoption, transferable to sanctuaries only
+ */
+export type PlacementRestriction =
+  | AssessmentResult.RESTRICTED
+  | AssessmentResult.RESCUE_ONLY
+  | AssessmentResult.NOT_ADOPTABLE;
+
+// =============================================================================
+// ASSESSMENTS
+// =============================================================================
+
+/**
+ * Compatibility suggested by an assessment's reactivity levels.
+ * null when the level was not assessed or is too mild to call.
+ */
+export interface CompatibilitySuggestions {
+  goodWithDogs: boolean | null;
+  goodWithCats: boolean | null;
+}
+
+/**
+ * Behavioral assessment as staff see it
+ */
+export interface BehavioralAssessment {
+  id: string;
+  animalId: string;
+  /** Protocol used, e.g. OBSERVATION, PLAYGROUP, SAFER */
+  assessmentType: string;
+  date: string;
+  location: string | null;
+  durationMinutes: number | null;
+  /** Overall score (0-100) */
+  overallScore: number | null;
+  result: AssessmentResult;
+  behaviors: string[];
+  triggers: string[];
+  recommendations: string[];
+  trainingNeeds: string[];
+  resourceGuarding: boolean | null;
+  dogReactivity: ReactivityLevel | null;
+  catReactivity: ReactivityLevel | null;
+  humanReactivity: ReactivityLevel | null;
+  handlingTolerance: ToleranceLevel | null;
+  suggestions: CompatibilitySuggestions;
+  assessor: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// =============================================================================
+// KENNEL OBSERVATIONS
+// =============================================================================
+
+/**
+ * Enrichment an animal received since the last observation
+ */
+export enum EnrichmentType {
+  WALK = 'WALK',
+  PLAYGROUP = 'PLAYGROUP',
+  FOOD_PUZZLE = 'FOOD_PUZZLE',
+  TOY = 'TOY',
+  SOCIAL_TIME = 'SOCIAL_TIME',
+  TRAINING = 'TRAINING',
+  SENSORY = 'SENSORY',
+  OUTING = 'OUTING',
+  OTHER = 'OTHER',
+}
+
+/**
+ * One observation logged on a kennel round
+ */
+export interface KennelObservation {
+  id: string;
+  animalId: string;
+  observedAt: string;
+  stressLevel: KennelStressLevel;
+  enrichment: EnrichmentType[];
+  notes: string | null;
+  observer: string | null;
+  createdAt: string;
+}
+
+/**
+ * An animal on the kennel round, with its latest observation
+ */
+export interface KennelRoundEntry {
+  animal: {
+    id: string;
+    name: string;
+    species: string;
+    kennelNumber: string | null;
+  };
+  lastObservation: Pick<KennelObservation, 'observedAt' | 'stressLevel'> | null;
+  observedToday: boolean;
+}
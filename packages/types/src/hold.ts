@@ -0,0 +1,67 @@
+/**
+ * Hold Types
+ *
+ * Holds staff place on an animal: the stray holding period, a court or
+ * bite quarantine hold, a hold for a rescue partner. Each has a start, an
+ * optional end and a reason. While a blocking hold is active the animal
+ * cannot be adopted, transferred or given most other outcomes; holds are
+ * staff-only because reasons can carry case details.
+ */
+
+/**
+ * Kind of hold
+ */
+export enum HoldType {
+  /** Standard stray holding period, for an owner to reclaim */
+  STRAY_HOLD = 'STRAY_HOLD',
+  /** Waiting for owner surrender paperwork */
+  OWNER_SURRENDER = 'OWNER_SURRENDER',
+  /** Court or law enforcement hold */
+  LEGAL_HOLD = 'LEGAL_HOLD',
+  /** Behavioral evaluation */
+  BEHAVIORAL_HOLD = 'BEHAVIORAL_HOLD',
+  /** Medical treatment */
+  MEDICAL_HOLD = 'MEDICAL_HOLD',
+  /** Rabies observation after a bite */
+  BITE_QUARANTINE = 'BITE_QUARANTINE',
+  /** Reserved for a rescue partner */
+  RESCUE_HOLD = 'RESCUE_HOLD',
+}
+
+/**
+ * Hold as staff see it
+ */
+export interface AnimalHold {
+  id: string;
+  animalId: string;
+  holdType: HoldType;
+  reason: string;
+  /** Court, animal control or bite report number */
+  caseNumber: string | null;
+  startDate: string;
+  /** null until released, for holds without a set end */
+  endDate: string | null;
+  releasedAt: string | null;
+  releasedBy: string | null;
+  releaseNotes: string | null;
+  placedBy: string | null;
+  /** Started, not yet ended or released */
+  isActive: boolean;
+  /** Blocks adoption, transfer and other outcomes while active */
+  isBlocking: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Active hold ending soon, with the animal it is on
+ */
+export interface ExpiringHold extends AnimalHold {
+  animal: {
+    id: string;
+    name: string;
+    species: string;
+    kennelNumber: string | null;
+  };
+  hoursRemaining: number;
+}
@@ -6,3 +6,6 @@
 
 export * from './api.js';
 export * from './risk.js';
+export * from './medical.js';
+export * from './behavior.js';
+export * from './hold.js';
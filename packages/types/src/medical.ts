@@ -0,0 +1,146 @@
+/**
+ * Medical Types
+ *
+ * Medical records and vaccinations kept by shelter staff.
+ * Both are staff-only unless marked public, and the public view of a
+ * record never includes its diagnosis, treatment or notes.
+ */
+
+// =============================================================================
+// MEDICAL RECORDS
+// =============================================================================
+
+/**
+ * Kind of exam, procedure or treatment a record describes
+ */
+export enum MedicalRecordType {
+  INTAKE_EXAM = 'INTAKE_EXAM',
+  WELLNESS_EXAM = 'WELLNESS_EXAM',
+  SICK_EXAM = 'SICK_EXAM',
+  EMERGENCY = 'EMERGENCY',
+  SURGERY = 'SURGERY',
+  DENTAL = 'DENTAL',
+  LAB_WORK = 'LAB_WORK',
+  IMAGING = 'IMAGING',
+  TREATMENT = 'TREATMENT',
+  MEDICATION = 'MEDICATION',
+  SPAY_NEUTER = 'SPAY_NEUTER',
+  EUTHANASIA = 'EUTHANASIA',
+  NECROPSY = 'NECROPSY',
+  OTHER = 'OTHER',
+}
+
+/**
+ * Medication prescribed with a record
+ */
+export interface Medication {
+  name: string;
+  dosage?: string;
+  frequency?: string;
+  /** Last day of the course (ISO date) */
+  endDate?: string;
+}
+
+/**
+ * Medical record as staff see it
+ */
+export interface MedicalRecord {
+  id: string;
+  animalId: string;
+  recordType: MedicalRecordType;
+  /** Date of the exam or treatment */
+  date: string;
+  diagnosis: string | null;
+  treatment: string | null;
+  medications: Medication[];
+  /** Weight at the time of the exam (kg) */
+  weightKg: number | null;
+  /** Body condition score (1-9) */
+  bodyConditionScore: number | null;
+  prognosis: string | null;
+  followUpRequired: boolean;
+  followUpDate: string | null;
+  /** When the follow-up was done; null while it is outstanding */
+  followUpCompletedAt: string | null;
+  isTreatable: boolean;
+  affectsAdoptability: boolean;
+  /** Estimated treatment cost (cents) */
+  estimatedCost: number | null;
+  veterinarian: string | null;
+  notes: string | null;
+  /** Shown on the public profile, without diagnosis text */
+  isPublic: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Medical record as the public sees it
+ */
+export interface PublicMedicalRecord {
+  id: string;
+  recordType: MedicalRecordType;
+  date: string;
+}
+
+// =============================================================================
+// VACCINATIONS
+// =============================================================================
+
+export enum VaccinationRoute {
+  SUBCUTANEOUS = 'SUBCUTANEOUS',
+  INTRAMUSCULAR = 'INTRAMUSCULAR',
+  INTRANASAL = 'INTRANASAL',
+  ORAL = 'ORAL',
+  TRANSDERMAL = 'TRANSDERMAL',
+}
+
+/**
+ * Vaccination as staff see it
+ */
+export interface Vaccination {
+  id: string;
+  animalId: string;
+  /** e.g. RABIES, DHPP, FVRCP, BORDETELLA */
+  vaccineType: string;
+  product: string | null;
+  lotNumber: string | null;
+  dateGiven: string;
+  expirationDate: string | null;
+  /** When the next dose is due */
+  nextDueDate: string | null;
+  route: VaccinationRoute;
+  site: string | null;
+  administeredBy: string | null;
+  notes: string | null;
+  isPublic: boolean;
+  createdAt: string;
+}
+
+/**
+ * Vaccination as the public sees it
+ */
+export interface PublicVaccination {
+  id: string;
+  vaccineType: string;
+  dateGiven: string;
+  expirationDate: string | null;
+}
+
+// =============================================================================
+// DUE CARE
+// =============================================================================
+
+/**
+ * Follow-up exam or vaccination dose coming due
+ */
+export interface DueCareItem {
+  type: 'FOLLOW_UP' | 'VACCINATION';
+  /** Medical record or vaccination ID */
+  id: string;
+  animal: { id: string; name: string; species: string; kennelNumber: string | null };
+  /** Record type for follow-ups, vaccine type for vaccinations */
+  description: string;
+  dueDate: string;
+  overdue: boolean;
+}
@@ -43,6 +43,8 @@ export enum KennelStressLevel {
 export enum RiskReason {
   /** Length of stay exceeds target for species/age */
   LONG_LOS = 'LONG_LOS',
+  /** Length of stay has reached target for species/age */
+  APPROACHING_TARGET_LOS = 'APPROACHING_TARGET_LOS',
   /** Critical medical condition */
   MEDICAL_CRITICAL = 'MEDICAL_CRITICAL',
   /** Medical condition requiring timely treatment */
@@ -63,11 +65,23 @@ export enum RiskReason {
   LOW_INTEREST = 'LOW_INTEREST',
   /** Bonded pair or group */
   BONDED = 'BONDED',
-  /** Large breed dog (harder to place) */
+  /**
+   * Large breed dog (harder to place)
+   * @deprecated Breed-based; prohibited by the ethical AI guidelines and no
+   * longer produced. Kept so stored historical reasons still parse.
+   */
   LARGE_BREED = 'LARGE_BREED',
-  /** Black dog/cat syndrome */
+  /**
+   * Black dog/cat syndrome
+   * @deprecated Color-based; prohibited by the ethical AI guidelines and no
+   * longer produced. Kept so stored historical reasons still parse.
+   */
   BLACK_ANIMAL = 'BLACK_ANIMAL',
-  /** Breed-specific legislation concerns */
+  /**
+   * Breed-specific legislation concerns
+   * @deprecated Breed-based; prohibited by the ethical AI guidelines and no
+   * longer produced. Kept so stored historical reasons still parse.
+   */
   BSL_AFFECTED = 'BSL_AFFECTED',
   /** FIV/FeLV positive cat */
   FIV_FELV = 'FIV_FELV',
@@ -129,18 +143,42 @@ export interface RiskDeadline {
   isFlexible: boolean;
 }
 
+/**
+ * Factors the scoring engine evaluates
+ */
+export enum RiskFactorType {
+  LENGTH_OF_STAY = 'LENGTH_OF_STAY',
+  SENIOR = 'SENIOR',
+  SPECIAL_NEEDS = 'SPECIAL_NEEDS',
+  /** Scored only when the medical records raise a concern */
+  MEDICAL = 'MEDICAL',
+  /** Scored only when recent kennel observations show stress */
+  KENNEL_STRESS = 'KENNEL_STRESS',
+}
+
 /**
  * Factor contribution to risk score
  */
 export interface RiskFactor {
   /** Factor identifier */
-  factor: RiskReason;
-  /** Weight of this factor (0-1) */
+  factor: RiskFactorType;
+  /** Reason this factor raised, if any */
+  reason: RiskReason | null;
+  /**
+   * Weight of this factor (0-1), as set by the policy; SENIOR and
+   * SPECIAL_NEEDS take half of specialCategories each
+   */
   weight: number;
-  /** Contribution to overall score */
+  /** How strongly the factor applies (0-1) */
+  value: number;
+  /** Contribution to overall score (weight x value x 100) */
   contribution: number;
-  /** Human-readable explanation */
+  /** Human-readable explanation (English) */
   explanation: string;
+  /** Locale key under risk:factorExplanations, for translated explanations */
+  explanationKey: string;
+  /** Interpolation values for explanationKey */
+  explanationParams: Record<string, string | number>;
   /** When this factor was last evaluated */
   evaluatedAt: Date;
 }
@@ -322,10 +360,208 @@ export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
   },
 };
 
+/**
+ * Maximum share of the score each weight may take, from the permitted
+ * factors table in docs/ETHICAL_AI_GUIDELINES.md. `specialCategories`
+ * covers Age (Senior) and Special Needs at up to 10% each. Adoptability
+ * predictions are not in the table and stay at the default's share until
+ * the Risk Algorithm Working Group sets a limit.
+ */
+export const RISK_WEIGHT_LIMITS: RiskScoringConfig['weights'] = {
+  lengthOfStay: 0.25,
+  medical: 0.20,
+  behavioral: 0.15,
+  capacity: 0.15,
+  adoptability: 0.15,
+  specialCategories: 0.20,
+};
+
+/**
+ * Inputs that must never influence a risk score, from the prohibited
+ * factors table in docs/ETHICAL_AI_GUIDELINES.md, with the words that
+ * identify them in a config or input name
+ */
+export const PROHIBITED_RISK_FACTORS = {
+  breed: {
+    reason: 'Breed-specific predictions perpetuate breed discrimination',
+    terms: ['breed', 'bsl'],
+  },
+  color: {
+    reason: 'Color-based predictions perpetuate "black dog/cat syndrome"',
+    terms: ['color', 'colour', 'black'],
+  },
+  intakeSource: {
+    reason: 'Source of intake stigmatizes owner surrenders',
+    terms: ['intake', 'surrender', 'stray'],
+  },
+  geographicOrigin: {
+    reason: 'Geographic origin discriminates based on location',
+    terms: ['geographic', 'geography', 'origin', 'location', 'zip', 'postal', 'city', 'region'],
+  },
+  adopterDemographics: {
+    reason: 'Previous adopter demographics are a privacy violation',
+    terms: ['adopter', 'demographic', 'demographics'],
+  },
+  unobservedBehavior: {
+    reason: 'Predictive behavioral modeling without observation is unreliable and unfair',
+    terms: ['predicted', 'prediction'],
+  },
+} as const;
+
+export type ProhibitedRiskFactor = keyof typeof PROHIBITED_RISK_FACTORS;
+
+/**
+ * Lifecycle of a stored scoring policy
+ */
+export enum RiskPolicyStatus {
+  /** Editable, can be simulated but not selected */
+  DRAFT = 'DRAFT',
+  /** Immutable, can be selected by organizations */
+  PUBLISHED = 'PUBLISHED',
+  /** No longer selectable; kept so past scores stay traceable */
+  RETIRED = 'RETIRED',
+}
+
+// =============================================================================
+// HUMAN REVIEW
+// =============================================================================
+
+/**
+ * Edge cases that must be reviewed by a person before action
+ * (docs/ETHICAL_AI_GUIDELINES.md)
+ */
+export enum RiskReviewTrigger {
+  /** Score moved more than HUMAN_REVIEW_RULES.scoreChangePoints within the window */
+  SCORE_CHANGE = 'SCORE_CHANGE',
+  /** Animal crossed into CRITICAL */
+  CRITICAL = 'CRITICAL',
+  /** Scored HIGH or above with inputs missing */
+  INCOMPLETE_DATA = 'INCOMPLETE_DATA',
+  /** Scored HIGH or above during the post-intake stabilization period */
+  STABILIZATION = 'STABILIZATION',
+}
+
+export enum RiskReviewStatus {
+  PENDING = 'PENDING',
+  /** Reviewer accepted the calculated score */
+  CONFIRMED = 'CONFIRMED',
+  /** Reviewer replaced the calculated score */
+  ADJUSTED = 'ADJUSTED',
+  /** Reviewer decided no action is warranted */
+  DISMISSED = 'DISMISSED',
+}
+
+export const HUMAN_REVIEW_RULES = {
+  /** Score change that needs review... */
+  scoreChangePoints: 20,
+  /** ...when it happens within this many hours */
+  scoreChangeWindowHours: 24,
+  /** Stabilization period after intake */
+  stabilizationHours: 72,
+} as const;
+
+export interface RiskReview {
+  id: string;
+  animalId: string;
+  organizationId: string;
+  triggers: RiskReviewTrigger[];
+  missingFields: string[];
+  previousScore: number | null;
+  previousSeverity: RiskSeverity | null;
+  newScore: number;
+  newSeverity: RiskSeverity;
+  status: RiskReviewStatus;
+  adjustedScore: number | null;
+  adjustedSeverity: RiskSeverity | null;
+  note: string | null;
+  reviewedByName: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+// =============================================================================
+// SCORE HISTORY
+// =============================================================================
+
+/**
+ * Time bucket for risk score history series
+ */
+export enum RiskHistoryBucket {
+  DAY = 'DAY',
+  WEEK = 'WEEK',
+}
+
+/**
+ * Direction of an animal's score over a history range
+ */
+export enum RiskTrend {
+  RISING = 'RISING',
+  STABLE = 'STABLE',
+  FALLING = 'FALLING',
+}
+
+/**
+ * Scores recorded within one time bucket
+ */
+export interface RiskHistoryPoint {
+  /** Start of the bucket */
+  bucketStart: Date;
+  /** Last score recorded in the bucket */
+  urgencyScore: number;
+  /** Severity of the last score in the bucket */
+  riskSeverity: RiskSeverity;
+  minScore: number;
+  maxScore: number;
+  /** Number of calculations in the bucket */
+  samples: number;
+  /** Any score in the bucket was a manual override */
+  isManualOverride: boolean;
+}
+
+export interface RiskHistory {
+  animalId: string;
+  bucket: RiskHistoryBucket;
+  from: Date;
+  to: Date;
+  /** Only buckets with at least one calculation */
+  points: RiskHistoryPoint[];
+  trend: RiskTrend;
+  /** Last score minus first score in the range */
+  change: number;
+}
+
 // =============================================================================
 // RISK ALERTS
 // =============================================================================
 
+export enum RiskAlertType {
+  /** Recalculation moved the animal up into a higher severity */
+  THRESHOLD_CROSSED = 'THRESHOLD_CROSSED',
+  DEADLINE_APPROACHING = 'DEADLINE_APPROACHING',
+  CONDITION_CHANGE = 'CONDITION_CHANGE',
+  EUTH_LIST = 'EUTH_LIST',
+}
+
+/**
+ * Placement-focused next steps suggested with an alert. Never euthanasia
+ * scheduling - that stays a human decision (docs/ETHICAL_AI_GUIDELINES.md).
+ */
+export enum RiskAlertAction {
+  FEATURE_LISTING = 'FEATURE_LISTING',
+  REVIEW_ENRICHMENT = 'REVIEW_ENRICHMENT',
+  CONTACT_FOSTERS = 'CONTACT_FOSTERS',
+  REDUCE_ADOPTION_FEE = 'REDUCE_ADOPTION_FEE',
+  CONTACT_RESCUE_PARTNERS = 'CONTACT_RESCUE_PARTNERS',
+  REQUEST_TRANSFER = 'REQUEST_TRANSFER',
+  SENIOR_ADOPTER_OUTREACH = 'SENIOR_ADOPTER_OUTREACH',
+  SPECIAL_NEEDS_OUTREACH = 'SPECIAL_NEEDS_OUTREACH',
+}
+
+/**
+ * Lowest severity a threshold crossing raises an alert for
+ */
+export const RISK_ALERT_MIN_SEVERITY = RiskSeverity.ELEVATED;
+
 /**
  * Alert generated when animal crosses risk threshold
  */
@@ -338,7 +574,7 @@ export interface RiskAlert {
   organizationId: string;
   
   /** Alert type */
-  alertType: 'THRESHOLD_CROSSED' | 'DEADLINE_APPROACHING' | 'CONDITION_CHANGE' | 'EUTH_LIST';
+  alertType: RiskAlertType;
   /** Severity of alert */
   severity: RiskSeverity;
   
@@ -357,7 +593,7 @@ export interface RiskAlert {
   /** Alert message */
   message: string;
   /** Recommended actions */
-  recommendedActions: string[];
+  recommendedActions: RiskAlertAction[];
   
   /** When alert was generated */
   createdAt: Date;